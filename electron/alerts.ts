@@ -0,0 +1,464 @@
+import fs from 'fs'
+import path from 'path'
+import crypto from 'crypto'
+import { app, BrowserWindow, Notification } from 'electron'
+import { logger } from './utils.js'
+import { ElasticsearchConnection, getClient } from './elasticsearch-client.js'
+import { createWildcardMatcher } from '../src/lib/wildcard.js'
+
+/**
+ * 告警规则类型
+ * cluster-health: 集群健康状态变差或集群无法访问
+ * node-left: 节点从集群中消失
+ * disk-free: 节点磁盘剩余空间低于阈值
+ * doc-count-stalled: 索引文档数在指定时间内没有增长
+ */
+export type AlertRuleType = 'cluster-health' | 'node-left' | 'disk-free' | 'doc-count-stalled'
+
+/**
+ * 告警规则
+ */
+export interface AlertRule {
+  id: string
+  name: string
+  type: AlertRuleType
+  enabled: boolean
+  // 触发时发送系统通知
+  notify: boolean
+  // cluster-health: 达到该状态时触发，yellow 同时包含 red
+  healthStatus?: 'yellow' | 'red'
+  // disk-free: 磁盘剩余百分比阈值
+  diskFreePercent?: number
+  // doc-count-stalled: 索引名称，支持通配符
+  index?: string
+  // doc-count-stalled: 文档数停止增长的分钟数
+  stalledMinutes?: number
+}
+
+/**
+ * 告警记录
+ * 同一规则同一对象（节点、索引等）只在状态变化时记录一次触发和一次恢复
+ */
+export interface AlertEvent {
+  id: string
+  ruleId: string
+  ruleName: string
+  connectionId: string
+  connectionName: string
+  state: 'firing' | 'resolved'
+  severity: 'critical' | 'warning'
+  message: string
+  timestamp: number
+}
+
+/**
+ * 告警监控选项
+ */
+export interface AlertMonitorOptions {
+  notificationsEnabled: boolean
+  intervalSeconds: number
+}
+
+/**
+ * 一次评估中触发的告警，key 用于区分同一规则下的不同对象
+ */
+interface Finding {
+  key: string
+  severity: AlertEvent['severity']
+  message: string
+}
+
+/**
+ * 评估规则所需的集群数据
+ */
+interface ClusterSnapshot {
+  reachable: boolean
+  error?: string
+  health?: { status: string; unassignedShards: number }
+  nodes?: Record<string, { name: string; diskTotalBytes: number; diskFreeBytes: number }>
+  docCounts?: Record<string, number>
+}
+
+// 告警记录最多保留的条数
+const MAX_LOG_ENTRIES = 500
+
+const MIN_INTERVAL_SECONDS = 10
+
+let rules: AlertRule[] = []
+let log: AlertEvent[] = []
+let options: AlertMonitorOptions = { notificationsEnabled: true, intervalSeconds: 30 }
+
+// 监控状态只存在于内存中，切换集群时重置
+let monitoredConnection: ElasticsearchConnection | null = null
+let monitorTimer: ReturnType<typeof setTimeout> | null = null
+let isEvaluating = false
+let firing: Record<string, Set<string>> = {}
+let knownNodes: Record<string, string> = {}
+let docCountHistory: Record<string, { count: number; changedAt: number }> = {}
+
+/**
+ * 获取告警文件路径
+ */
+function getRulesPath(): string {
+  return path.join(app.getPath('userData'), 'alert-rules.json')
+}
+
+function getLogPath(): string {
+  return path.join(app.getPath('userData'), 'alert-log.json')
+}
+
+/**
+ * 读取 JSON 文件，文件不存在或损坏时返回默认值
+ */
+function readJson<T>(filePath: string, fallback: T): T {
+  try {
+    if (fs.existsSync(filePath)) {
+      return JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+    }
+  } catch (error) {
+    logger.error(`读取 ${path.basename(filePath)} 失败:`, error)
+  }
+  return fallback
+}
+
+/**
+ * 读取已保存的告警规则和告警记录
+ */
+function loadAlerts(): void {
+  rules = readJson<AlertRule[]>(getRulesPath(), [])
+  log = readJson<AlertEvent[]>(getLogPath(), [])
+}
+
+function saveRules(): void {
+  fs.writeFileSync(getRulesPath(), JSON.stringify(rules, null, 2))
+}
+
+function saveLog(): void {
+  try {
+    fs.writeFileSync(getLogPath(), JSON.stringify(log, null, 2))
+  } catch (error) {
+    logger.error('保存告警记录失败:', error)
+  }
+}
+
+function getRules(): AlertRule[] {
+  return rules
+}
+
+/**
+ * 新增或更新告警规则
+ */
+function saveRule(rule: Omit<AlertRule, 'id'> & { id?: string }): AlertRule {
+  const saved: AlertRule = { ...rule, id: rule.id || crypto.randomUUID() }
+  const index = rules.findIndex(r => r.id === saved.id)
+  rules = index >= 0
+    ? rules.map(r => r.id === saved.id ? saved : r)
+    : [...rules, saved]
+  saveRules()
+  // 规则条件变化后重新判断，避免沿用旧条件下的触发状态
+  delete firing[saved.id]
+  return saved
+}
+
+function deleteRule(ruleId: string): void {
+  rules = rules.filter(r => r.id !== ruleId)
+  saveRules()
+  delete firing[ruleId]
+}
+
+/**
+ * 获取告警记录，最新的在前
+ */
+function getLog(): AlertEvent[] {
+  return log
+}
+
+function clearLog(): void {
+  log = []
+  saveLog()
+}
+
+/**
+ * 采集评估规则需要的集群数据
+ * 只请求已启用规则用到的接口，集群无法访问时返回 reachable: false
+ */
+async function collectSnapshot(connection: ElasticsearchConnection, activeRules: AlertRule[]): Promise<ClusterSnapshot> {
+  const types = new Set(activeRules.map(rule => rule.type))
+
+  try {
+    const client = await getClient(connection)
+    const snapshot: ClusterSnapshot = { reachable: true }
+
+    const health = await client.cluster.health()
+    snapshot.health = { status: health.status, unassignedShards: health.unassigned_shards }
+
+    if (types.has('node-left') || types.has('disk-free')) {
+      const stats = await client.nodes.stats({ metric: 'fs' })
+      snapshot.nodes = {}
+      Object.entries(stats.nodes).forEach(([nodeId, node]) => {
+        snapshot.nodes![nodeId] = {
+          name: node.name || nodeId,
+          diskTotalBytes: node.fs?.total?.total_in_bytes ?? 0,
+          diskFreeBytes: node.fs?.total?.free_in_bytes ?? 0
+        }
+      })
+    }
+
+    // 获取全部索引后在本地匹配，避免不存在的索引名导致请求失败
+    if (types.has('doc-count-stalled')) {
+      const indices = await client.cat.indices({
+        format: 'json',
+        h: 'index,docs.count',
+        expand_wildcards: 'open'
+      })
+      snapshot.docCounts = {}
+      indices.forEach((row: any) => {
+        snapshot.docCounts![row.index] = parseInt(row['docs.count'], 10) || 0
+      })
+    }
+
+    return snapshot
+  } catch (error) {
+    return { reachable: false, error: error instanceof Error ? error.message : '未知错误' }
+  }
+}
+
+/**
+ * 按规则评估集群数据，返回当前处于触发状态的对象
+ */
+function evaluateRule(rule: AlertRule, snapshot: ClusterSnapshot, now: number): Finding[] {
+  if (!snapshot.reachable) {
+    return [{ key: 'unreachable', severity: 'critical', message: `集群无法访问: ${snapshot.error}` }]
+  }
+
+  switch (rule.type) {
+    case 'cluster-health': {
+      const status = snapshot.health?.status
+      const triggered = status === 'red' || (status === 'yellow' && rule.healthStatus !== 'red')
+      return triggered
+        ? [{
+          key: status as string,
+          severity: status === 'red' ? 'critical' : 'warning',
+          message: `集群健康状态为 ${status}，未分配分片 ${snapshot.health?.unassignedShards ?? 0} 个`
+        }]
+        : []
+    }
+
+    case 'node-left': {
+      return Object.entries(knownNodes)
+        .filter(([nodeId]) => !snapshot.nodes?.[nodeId])
+        .map(([nodeId, name]) => ({
+          key: nodeId,
+          severity: 'critical',
+          message: `节点 ${name} 已离开集群`
+        }))
+    }
+
+    case 'disk-free': {
+      const threshold = rule.diskFreePercent ?? 15
+      return Object.entries(snapshot.nodes || {})
+        .filter(([, node]) => node.diskTotalBytes > 0)
+        .map(([nodeId, node]) => ({ nodeId, node, freePercent: (node.diskFreeBytes / node.diskTotalBytes) * 100 }))
+        .filter(({ freePercent }) => freePercent < threshold)
+        .map(({ nodeId, node, freePercent }) => ({
+          key: nodeId,
+          severity: freePercent < threshold / 2 ? 'critical' : 'warning',
+          message: `节点 ${node.name} 磁盘剩余 ${freePercent.toFixed(1)}%，低于 ${threshold}%`
+        }))
+    }
+
+    case 'doc-count-stalled': {
+      if (!rule.index) return []
+      const stalledMs = (rule.stalledMinutes ?? 30) * 60 * 1000
+      const matchesIndex = createWildcardMatcher(rule.index)
+      return Object.keys(snapshot.docCounts || {})
+        .filter(matchesIndex)
+        .filter(index => docCountHistory[index] && now - docCountHistory[index].changedAt >= stalledMs)
+        .map(index => ({
+          key: index,
+          severity: 'warning',
+          message: `索引 ${index} 的文档数已 ${rule.stalledMinutes ?? 30} 分钟没有增长（${docCountHistory[index].count}）`
+        }))
+    }
+
+    default:
+      return []
+  }
+}
+
+/**
+ * 更新节点和文档数的基线
+ * 节点基线记录监控期间见过的所有节点，节点恢复后告警随之恢复
+ */
+function updateBaselines(snapshot: ClusterSnapshot, now: number): void {
+  Object.entries(snapshot.nodes || {}).forEach(([nodeId, node]) => {
+    knownNodes[nodeId] = node.name
+  })
+  Object.entries(snapshot.docCounts || {}).forEach(([index, count]) => {
+    const previous = docCountHistory[index]
+    if (!previous || count > previous.count) {
+      docCountHistory[index] = { count, changedAt: now }
+    } else if (count < previous.count) {
+      // 文档被删除时只更新数量，不视为增长
+      docCountHistory[index] = { count, changedAt: previous.changedAt }
+    }
+  })
+}
+
+/**
+ * 记录告警并通知渲染进程，需要时发送系统通知
+ */
+function emit(rule: AlertRule, connection: ElasticsearchConnection, event: Omit<AlertEvent, 'id' | 'ruleId' | 'ruleName' | 'connectionId' | 'connectionName' | 'timestamp'>): void {
+  const alert: AlertEvent = {
+    ...event,
+    id: crypto.randomUUID(),
+    ruleId: rule.id,
+    ruleName: rule.name,
+    connectionId: connection.id,
+    connectionName: connection.name,
+    timestamp: Date.now()
+  }
+  log = [alert, ...log].slice(0, MAX_LOG_ENTRIES)
+  saveLog()
+
+  BrowserWindow.getAllWindows().forEach(window => {
+    window.webContents.send('alerts:event', alert)
+  })
+
+  if (options.notificationsEnabled && rule.notify && Notification.isSupported()) {
+    const notification = new Notification({
+      title: `${alert.state === 'firing' ? '告警' : '已恢复'}: ${rule.name}`,
+      body: `[${connection.name}] ${alert.message}`
+    })
+    notification.on('click', () => {
+      const window = BrowserWindow.getAllWindows()[0]
+      if (window) {
+        if (window.isMinimized()) window.restore()
+        window.focus()
+      }
+    })
+    notification.show()
+  }
+}
+
+/**
+ * 评估所有已启用的规则
+ * 对比上一次的触发状态，只在新触发和恢复时记录告警
+ */
+async function evaluate(): Promise<void> {
+  const connection = monitoredConnection
+  const activeRules = rules.filter(rule => rule.enabled)
+  if (!connection || activeRules.length === 0 || isEvaluating) return
+
+  isEvaluating = true
+  try {
+    const snapshot = await collectSnapshot(connection, activeRules)
+    // 评估期间切换了集群或修改了连接配置时丢弃结果
+    if (monitoredConnection !== connection) return
+
+    const now = Date.now()
+    activeRules.forEach(rule => {
+      // 集群无法访问时只由健康状态规则报告，其他规则保持上一次的状态
+      if (!snapshot.reachable && rule.type !== 'cluster-health') return
+
+      const findings = evaluateRule(rule, snapshot, now)
+      const previous = firing[rule.id] || new Set<string>()
+      const current = new Set(findings.map(finding => finding.key))
+
+      findings
+        .filter(finding => !previous.has(finding.key))
+        .forEach(finding => emit(rule, connection, { state: 'firing', severity: finding.severity, message: finding.message }))
+
+      // 健康状态在 yellow 和 red 之间变化时只记录新的状态，完全恢复后才记录恢复
+      const suppressResolved = rule.type === 'cluster-health' && current.size > 0
+      previous.forEach(key => {
+        if (!current.has(key) && !suppressResolved) {
+          emit(rule, connection, { state: 'resolved', severity: 'warning', message: describeResolved(rule, key) })
+        }
+      })
+
+      firing[rule.id] = current
+    })
+
+    if (snapshot.reachable) {
+      updateBaselines(snapshot, now)
+    }
+  } catch (error) {
+    logger.error('评估告警规则失败:', error)
+  } finally {
+    isEvaluating = false
+  }
+}
+
+/**
+ * 生成恢复消息
+ */
+function describeResolved(rule: AlertRule, key: string): string {
+  switch (rule.type) {
+    case 'cluster-health':
+      return key === 'unreachable' ? '集群已恢复访问' : '集群健康状态已恢复'
+    case 'node-left':
+      return `节点 ${knownNodes[key] || key} 已重新加入集群`
+    case 'disk-free':
+      return `节点 ${knownNodes[key] || key} 磁盘剩余空间已恢复`
+    case 'doc-count-stalled':
+      return `索引 ${key} 的文档数已恢复增长`
+    default:
+      return '告警已恢复'
+  }
+}
+
+function scheduleNext(): void {
+  if (monitorTimer) clearTimeout(monitorTimer)
+  monitorTimer = setTimeout(async () => {
+    await evaluate()
+    if (monitoredConnection) scheduleNext()
+  }, Math.max(MIN_INTERVAL_SECONDS, options.intervalSeconds) * 1000)
+}
+
+/**
+ * 开始监控指定集群，切换集群时重置节点和文档数基线
+ */
+function startMonitoring(connection: ElasticsearchConnection): void {
+  if (monitoredConnection?.id !== connection.id) {
+    firing = {}
+    knownNodes = {}
+    docCountHistory = {}
+  }
+  monitoredConnection = connection
+  evaluate()
+  scheduleNext()
+}
+
+function stopMonitoring(): void {
+  if (monitorTimer) {
+    clearTimeout(monitorTimer)
+    monitorTimer = null
+  }
+  monitoredConnection = null
+  firing = {}
+  knownNodes = {}
+  docCountHistory = {}
+}
+
+/**
+ * 更新监控选项，正在监控时按新的间隔重新调度
+ */
+function configureMonitoring(next: Partial<AlertMonitorOptions>): void {
+  options = { ...options, ...next }
+  if (monitoredConnection) {
+    scheduleNext()
+  }
+}
+
+export {
+  loadAlerts,
+  getRules,
+  saveRule,
+  deleteRule,
+  getLog,
+  clearLog,
+  startMonitoring,
+  stopMonitoring,
+  configureMonitoring
+}
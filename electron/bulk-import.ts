@@ -0,0 +1,579 @@
+import fs from 'fs'
+import path from 'path'
+import readline from 'readline'
+import { Client } from '@elastic/elasticsearch'
+import { logger } from './utils.js'
+
+/**
+ * 导入文件格式
+ * ndjson 和 csv 按流读取，json 数组需要整体读入内存
+ */
+export type ImportFormat = 'ndjson' | 'csv' | 'json'
+
+/**
+ * 推断的字段类型，object 表示嵌套对象或数组，由动态映射处理
+ */
+export type ImportFieldType = 'keyword' | 'text' | 'long' | 'double' | 'boolean' | 'date' | 'object'
+
+/**
+ * 导入字段
+ * name 为文件中的列名或顶层字段名；field 为写入的字段名，CSV 中为空表示跳过该列
+ */
+export interface ImportColumn {
+  name: string
+  field: string
+  type: ImportFieldType
+}
+
+/**
+ * 文件预览选项，未指定时按扩展名和文件内容推断
+ */
+export interface ImportPreviewOptions {
+  format?: ImportFormat
+  delimiter?: string
+}
+
+/**
+ * 文件预览
+ * columns 由前 PREVIEW_RECORDS 条记录推断，sample 为前几条原始记录
+ */
+export interface ImportPreview {
+  filePath: string
+  fileName: string
+  sizeBytes: number
+  format: ImportFormat
+  delimiter: string
+  columns: ImportColumn[]
+  sample: Record<string, any>[]
+  sampledRecords: number
+  parseErrors: string[]
+}
+
+/**
+ * 导入请求
+ * columns 仅用于 CSV，按列转换类型和重命名；createIndex 不为空时先按推断的映射创建目标索引
+ */
+export interface ImportRequest {
+  importId: string
+  filePath: string
+  format: ImportFormat
+  delimiter?: string
+  columns?: ImportColumn[]
+  index: string
+  opType: 'index' | 'create'
+  idField?: string
+  createIndex?: { mappings: Record<string, any>; settings?: Record<string, any> }
+  flushBytes?: number
+  concurrency?: number
+}
+
+/**
+ * 导入进度
+ */
+export interface ImportProgress {
+  importId: string
+  bytesRead: number
+  totalBytes: number
+  records: number
+  successful: number
+  failed: number
+}
+
+/**
+ * 单个文档的导入错误
+ * 解析和转换错误带有行号；写入错误的文档已经过序列化，只能通过 ID 和内容定位
+ */
+export interface ImportDocumentError {
+  line?: number
+  id?: string
+  status?: number
+  reason: string
+  document?: string
+}
+
+/**
+ * 导入结果，errors 最多保留 MAX_REPORTED_ERRORS 条
+ */
+export interface ImportResult {
+  importId: string
+  records: number
+  successful: number
+  failed: number
+  errors: ImportDocumentError[]
+  errorsTruncated: boolean
+  aborted: boolean
+  timeMs: number
+}
+
+interface ImportRecord {
+  line: number
+  record?: Record<string, any>
+  error?: string
+}
+
+interface ReadOptions {
+  delimiter: string
+  columns?: ImportColumn[]
+  onBytesRead?: (bytes: number) => void
+}
+
+// 预览时用于推断类型的记录数
+const PREVIEW_RECORDS = 1000
+const SAMPLE_RECORDS = 20
+const MAX_REPORTED_ERRORS = 1000
+const PROGRESS_INTERVAL = 500
+
+// ISO 8601 日期或日期时间
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/
+
+// 进行中的导入，用于取消
+const activeImports = new Map<string, { abort: () => void }>()
+
+/**
+ * 按扩展名和文件开头推断格式
+ */
+async function detectFormat(filePath: string): Promise<ImportFormat> {
+  const ext = path.extname(filePath).toLowerCase()
+  if (ext === '.csv' || ext === '.tsv') return 'csv'
+  if (ext !== '.json') return 'ndjson'
+
+  // .json 文件可能是数组，也可能是每行一个对象
+  const handle = await fs.promises.open(filePath, 'r')
+  try {
+    const buffer = Buffer.alloc(256)
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0)
+    const head = buffer.toString('utf8', 0, bytesRead).replace(/^\uFEFF/, '').trimStart()
+    return head.startsWith('[') ? 'json' : 'ndjson'
+  } finally {
+    await handle.close()
+  }
+}
+
+/**
+ * 逐行读取 NDJSON
+ */
+async function* readNdjson(filePath: string, options: ReadOptions): AsyncGenerator<ImportRecord> {
+  const stream = fs.createReadStream(filePath, { encoding: 'utf8' })
+  const lines = readline.createInterface({ input: stream, crlfDelay: Infinity })
+  let line = 0
+  try {
+    for await (const raw of lines) {
+      line += 1
+      options.onBytesRead?.(stream.bytesRead)
+      const text = (line === 1 ? raw.replace(/^\uFEFF/, '') : raw).trim()
+      if (!text) continue
+
+      try {
+        const value = JSON.parse(text)
+        if (value && typeof value === 'object' && !Array.isArray(value)) {
+          yield { line, record: value }
+        } else {
+          yield { line, error: '每行必须是一个 JSON 对象' }
+        }
+      } catch (error) {
+        yield { line, error: 'JSON 格式错误: ' + (error instanceof Error ? error.message : '未知错误') }
+      }
+    }
+  } finally {
+    lines.close()
+    stream.destroy()
+  }
+}
+
+/**
+ * 读取 JSON 数组，line 为元素序号
+ */
+async function* readJsonArray(filePath: string, options: ReadOptions): AsyncGenerator<ImportRecord> {
+  const content = await fs.promises.readFile(filePath, 'utf8')
+  options.onBytesRead?.(Buffer.byteLength(content))
+
+  const value = JSON.parse(content.replace(/^\uFEFF/, ''))
+  if (!Array.isArray(value)) {
+    throw new Error('JSON 文件的顶层必须是数组')
+  }
+  for (let i = 0; i < value.length; i++) {
+    const item = value[i]
+    if (item && typeof item === 'object' && !Array.isArray(item)) {
+      yield { line: i + 1, record: item }
+    } else {
+      yield { line: i + 1, error: '数组元素必须是 JSON 对象' }
+    }
+  }
+}
+
+/**
+ * 按 RFC 4180 解析 CSV 行，支持引号内的分隔符、换行和转义的双引号
+ * line 为该行开始的行号
+ */
+async function* readCsvRows(stream: fs.ReadStream, delimiter = ','): AsyncGenerator<{ line: number; values: string[] }> {
+  let values: string[] = []
+  let field = ''
+  let inQuotes = false
+  let quotePending = false
+  let line = 1
+  let rowStart = 1
+  let isFirstChunk = true
+
+  for await (const chunk of stream) {
+    let text = chunk as string
+    if (isFirstChunk) {
+      text = text.replace(/^\uFEFF/, '')
+      isFirstChunk = false
+    }
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i]
+      if (inQuotes) {
+        if (quotePending) {
+          quotePending = false
+          if (char === '"') {
+            field += '"'
+            continue
+          }
+          // 引号后不是引号，说明引用字段结束，当前字符按普通字符处理
+          inQuotes = false
+        } else if (char === '"') {
+          quotePending = true
+          continue
+        } else {
+          if (char === '\n') line += 1
+          field += char
+          continue
+        }
+      }
+
+      if (char === '"' && field === '') {
+        inQuotes = true
+      } else if (char === delimiter) {
+        values.push(field)
+        field = ''
+      } else if (char === '\n') {
+        values.push(field)
+        field = ''
+        // 跳过空行
+        if (values.length > 1 || values[0] !== '') {
+          yield { line: rowStart, values }
+        }
+        values = []
+        line += 1
+        rowStart = line
+      } else if (char !== '\r') {
+        field += char
+      }
+    }
+  }
+
+  if (inQuotes && !quotePending) {
+    throw new Error(`第 ${rowStart} 行的引号没有闭合`)
+  }
+  if (field !== '' || values.length > 0) {
+    values.push(field)
+    yield { line: rowStart, values }
+  }
+}
+
+/**
+ * 处理 CSV 表头：空列名使用列序号，重复的列名加序号后缀
+ */
+function normalizeHeaders(values: string[]): string[] {
+  const seen = new Map<string, number>()
+  return values.map((value, i) => {
+    const name = value.trim() || `column_${i + 1}`
+    const count = (seen.get(name) ?? 0) + 1
+    seen.set(name, count)
+    return count > 1 ? `${name}_${count}` : name
+  })
+}
+
+/**
+ * 按字段类型转换 CSV 中的值，空字符串返回 undefined（不写入该字段）
+ */
+function convertCsvValue(value: string, column: ImportColumn): unknown {
+  if (value === '') return undefined
+  const text = value.trim()
+
+  switch (column.type) {
+    case 'long':
+      if (!/^-?\d+$/.test(text)) throw new Error(`列 ${column.name} 的值 "${value}" 不是整数`)
+      // 超出安全整数范围时保留字符串，由 Elasticsearch 解析
+      return Number.isSafeInteger(Number(text)) ? Number(text) : text
+    case 'double': {
+      const number = Number(text)
+      if (text === '' || !Number.isFinite(number)) throw new Error(`列 ${column.name} 的值 "${value}" 不是数字`)
+      return number
+    }
+    case 'boolean':
+      if (!/^(true|false)$/i.test(text)) throw new Error(`列 ${column.name} 的值 "${value}" 不是 true 或 false`)
+      return text.toLowerCase() === 'true'
+    case 'object':
+      try {
+        return JSON.parse(text)
+      } catch (error) {
+        throw new Error(`列 ${column.name} 的值不是有效的 JSON`)
+      }
+    default:
+      return value
+  }
+}
+
+/**
+ * 读取 CSV 记录
+ * 传入 columns 时按列定义重命名和转换类型，否则所有值保留为字符串
+ */
+async function* readCsv(filePath: string, options: ReadOptions): AsyncGenerator<ImportRecord> {
+  const stream = fs.createReadStream(filePath, { encoding: 'utf8' })
+  let headers: string[] | null = null
+  let columns: (ImportColumn | undefined)[] = []
+
+  try {
+    for await (const row of readCsvRows(stream, options.delimiter)) {
+      options.onBytesRead?.(stream.bytesRead)
+      if (!headers) {
+        headers = normalizeHeaders(row.values)
+        columns = headers.map(name => options.columns?.find(column => column.name === name))
+        continue
+      }
+
+      if (row.values.length !== headers.length) {
+        yield { line: row.line, error: `有 ${row.values.length} 列，表头有 ${headers.length} 列` }
+        continue
+      }
+
+      try {
+        const record: Record<string, any> = {}
+        row.values.forEach((value, i) => {
+          if (!options.columns) {
+            record[headers![i]] = value
+            return
+          }
+          const column = columns[i]
+          if (!column || !column.field) return
+          const converted = convertCsvValue(value, column)
+          if (converted !== undefined) record[column.field] = converted
+        })
+        yield { line: row.line, record }
+      } catch (error) {
+        yield { line: row.line, error: error instanceof Error ? error.message : '未知错误' }
+      }
+    }
+  } finally {
+    stream.destroy()
+  }
+}
+
+/**
+ * 按格式读取文件中的记录
+ */
+function readRecords(filePath: string, format: ImportFormat, options: ReadOptions): AsyncGenerator<ImportRecord> {
+  switch (format) {
+    case 'csv':
+      return readCsv(filePath, options)
+    case 'json':
+      return readJsonArray(filePath, options)
+    default:
+      return readNdjson(filePath, options)
+  }
+}
+
+/**
+ * 推断单个值的类型，空值返回 null
+ * fromText 为 true 时（CSV）从字符串中识别数字和布尔值，JSON 中的字符串只识别日期
+ */
+function inferValueType(value: unknown, fromText: boolean): ImportFieldType | null {
+  if (value === null || value === undefined || value === '') return null
+  if (typeof value === 'boolean') return 'boolean'
+  if (typeof value === 'number') return Number.isInteger(value) ? 'long' : 'double'
+  if (typeof value === 'object') return 'object'
+
+  const text = String(value).trim()
+  if (fromText) {
+    // 以 0 开头的数字（邮编、编号等）按字符串处理
+    if (/^-?(0|[1-9]\d{0,17})$/.test(text)) return 'long'
+    if (/^-?(\d+\.\d*|\.\d+|\d+)([eE][-+]?\d+)?$/.test(text) && !/^-?0\d/.test(text)) return 'double'
+    if (/^(true|false)$/i.test(text)) return 'boolean'
+  }
+  if (DATE_PATTERN.test(text) && !isNaN(Date.parse(text))) return 'date'
+  return text.length > 256 ? 'text' : 'keyword'
+}
+
+/**
+ * 合并多个值的类型：整数和小数合并为 double，其他冲突按字符串处理
+ */
+function mergeTypes(types: Set<ImportFieldType>): ImportFieldType {
+  if (types.size === 0) return 'keyword'
+  if (types.size === 1) return [...types][0]
+  if ([...types].every(type => type === 'long' || type === 'double')) return 'double'
+  if (types.has('object')) return 'object'
+  return types.has('text') ? 'text' : 'keyword'
+}
+
+/**
+ * 预览导入文件并推断字段类型
+ */
+export async function previewImportFile(filePath: string, options: ImportPreviewOptions = {}): Promise<ImportPreview> {
+  const stat = await fs.promises.stat(filePath)
+  if (!stat.isFile()) {
+    throw new Error(`${filePath} 不是文件`)
+  }
+
+  const format = options.format ?? await detectFormat(filePath)
+  const delimiter = options.delimiter || (path.extname(filePath).toLowerCase() === '.tsv' ? '\t' : ',')
+  const fieldOrder: string[] = []
+  const fieldTypes = new Map<string, Set<ImportFieldType>>()
+  const sample: Record<string, any>[] = []
+  const parseErrors: string[] = []
+  let sampledRecords = 0
+
+  for await (const item of readRecords(filePath, format, { delimiter })) {
+    if (item.error) {
+      if (parseErrors.length < SAMPLE_RECORDS) parseErrors.push(`第 ${item.line} 行: ${item.error}`)
+    } else if (item.record) {
+      if (sample.length < SAMPLE_RECORDS) sample.push(item.record)
+      Object.entries(item.record).forEach(([key, value]) => {
+        if (!fieldTypes.has(key)) {
+          fieldOrder.push(key)
+          fieldTypes.set(key, new Set())
+        }
+        const type = inferValueType(value, format === 'csv')
+        if (type) fieldTypes.get(key)!.add(type)
+      })
+    }
+    sampledRecords += 1
+    if (sampledRecords >= PREVIEW_RECORDS) break
+  }
+
+  return {
+    filePath,
+    fileName: path.basename(filePath),
+    sizeBytes: stat.size,
+    format,
+    delimiter,
+    columns: fieldOrder.map(name => ({ name, field: name, type: mergeTypes(fieldTypes.get(name)!) })),
+    sample,
+    sampledRecords,
+    parseErrors
+  }
+}
+
+/**
+ * 截断过长的文档内容
+ */
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? text.slice(0, maxLength) + '…' : text
+}
+
+/**
+ * 通过 bulk helper 导入文件
+ * 解析失败和缺少 ID 的记录直接计入失败，写入失败的文档在重试后通过 onDrop 记录
+ */
+export async function runImport(client: Client, request: ImportRequest, onProgress: (progress: ImportProgress) => void): Promise<ImportResult> {
+  const startedAt = Date.now()
+  const totalBytes = (await fs.promises.stat(request.filePath)).size
+  const errors: ImportDocumentError[] = []
+  let errorsTruncated = false
+  let records = 0
+  let skipped = 0
+  let bytesRead = 0
+  let aborted = false
+
+  const addError = (error: ImportDocumentError) => {
+    if (errors.length < MAX_REPORTED_ERRORS) {
+      errors.push(error)
+    } else {
+      errorsTruncated = true
+    }
+  }
+
+  async function* documents() {
+    const source = readRecords(request.filePath, request.format, {
+      delimiter: request.delimiter || ',',
+      columns: request.format === 'csv' ? request.columns : undefined,
+      onBytesRead: bytes => { bytesRead = bytes }
+    })
+    for await (const item of source) {
+      records += 1
+      if (!item.record) {
+        skipped += 1
+        addError({ line: item.line, reason: item.error || '未知错误' })
+        continue
+      }
+      const id = request.idField ? item.record[request.idField] : undefined
+      if (request.idField && (id === undefined || id === null || id === '')) {
+        skipped += 1
+        addError({ line: item.line, reason: `缺少 ID 字段 ${request.idField}` })
+        continue
+      }
+      yield item.record
+    }
+  }
+
+  const helper = client.helpers.bulk<Record<string, any>>({
+    datasource: documents(),
+    onDocument: (doc) => {
+      const id = request.idField ? doc[request.idField] : undefined
+      const meta = { _index: request.index, ...(id !== undefined ? { _id: String(id) } : {}) }
+      return request.opType === 'create' ? { create: meta } : { index: meta }
+    },
+    onDrop: (doc) => {
+      const operation = doc.operation as Record<string, any>
+      const meta = operation.index || operation.create || {}
+      addError({
+        id: meta._id,
+        status: doc.status,
+        reason: doc.error ? `${doc.error.type}: ${doc.error.reason}` : '集群繁忙，重试后仍被拒绝',
+        document: truncate(JSON.stringify(doc.document), 500)
+      })
+    },
+    flushBytes: request.flushBytes,
+    concurrency: request.concurrency,
+    retries: 3,
+    wait: 3000,
+    refreshOnCompletion: request.index
+  })
+
+  const snapshot = (): ImportProgress => ({
+    importId: request.importId,
+    bytesRead,
+    totalBytes,
+    records,
+    successful: helper.stats.successful,
+    failed: helper.stats.failed + skipped
+  })
+
+  activeImports.set(request.importId, {
+    abort: () => {
+      aborted = true
+      helper.abort()
+    }
+  })
+  const timer = setInterval(() => onProgress(snapshot()), PROGRESS_INTERVAL)
+
+  try {
+    const stats = await helper
+    onProgress(snapshot())
+    logger.info(`导入完成: ${request.filePath} -> ${request.index}, 成功 ${stats.successful}, 失败 ${stats.failed + skipped}`)
+    return {
+      importId: request.importId,
+      records,
+      successful: stats.successful,
+      failed: stats.failed + skipped,
+      errors,
+      errorsTruncated,
+      aborted,
+      timeMs: Date.now() - startedAt
+    }
+  } finally {
+    clearInterval(timer)
+    activeImports.delete(request.importId)
+  }
+}
+
+/**
+ * 取消进行中的导入，已发送的批次不会回滚
+ */
+export function cancelImport(importId: string): boolean {
+  const active = activeImports.get(importId)
+  if (!active) return false
+  active.abort()
+  return true
+}
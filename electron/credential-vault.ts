@@ -0,0 +1,377 @@
+import fs from 'fs'
+import path from 'path'
+import crypto from 'crypto'
+import { app } from 'electron'
+import { logger } from './utils.js'
+
+/**
+ * 凭据库加密模式
+ * keyfile: 使用本地随机密钥文件，启动时自动解锁
+ * passphrase: 使用主密码派生密钥，每次启动需要手动解锁
+ */
+export type VaultMode = 'keyfile' | 'passphrase'
+
+/**
+ * 单条凭据中的机密字段，如 password、apiKey
+ */
+export type CredentialSecrets = Record<string, string>
+
+/**
+ * 加密保存的凭据库内容
+ * targets 记录每条凭据绑定的目标地址，凭据只能发往保存时的目标
+ */
+interface VaultContent {
+  credentials: Record<string, CredentialSecrets>
+  targets: Record<string, string>
+}
+
+/**
+ * 凭据库状态
+ */
+export interface VaultStatus {
+  initialized: boolean
+  unlocked: boolean
+  mode: VaultMode | null
+}
+
+/**
+ * 加密后的数据
+ */
+interface EncryptedPayload {
+  iv: string
+  tag: string
+  data: string
+}
+
+/**
+ * 凭据库文件格式
+ */
+interface VaultFile {
+  version: 1
+  mode: VaultMode
+  salt?: string
+  payload: EncryptedPayload
+}
+
+const ALGORITHM = 'aes-256-gcm'
+const KEY_LENGTH = 32
+
+// 解锁后的密钥和明文凭据只保存在主进程内存中
+let vaultKey: Buffer | null = null
+let vaultMode: VaultMode | null = null
+let vaultSalt: Buffer | null = null
+let credentials: Record<string, CredentialSecrets> = {}
+let targets: Record<string, string> = {}
+
+/**
+ * 获取凭据库文件路径
+ */
+function getVaultPath(): string {
+  return path.join(app.getPath('userData'), 'credentials.vault')
+}
+
+/**
+ * 获取密钥文件路径
+ */
+function getKeyFilePath(): string {
+  return path.join(app.getPath('userData'), 'vault.key')
+}
+
+/**
+ * 由主密码派生加密密钥
+ */
+function deriveKey(passphrase: string, salt: Buffer): Buffer {
+  return crypto.scryptSync(passphrase, salt, KEY_LENGTH)
+}
+
+/**
+ * 加密
+ */
+function encrypt(key: Buffer, plaintext: string): EncryptedPayload {
+  const iv = crypto.randomBytes(12)
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv)
+  const data = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()])
+
+  return {
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64')
+  }
+}
+
+/**
+ * 解密，密钥错误或数据被篡改时抛出异常
+ */
+function decrypt(key: Buffer, payload: EncryptedPayload): string {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(payload.iv, 'base64'))
+  decipher.setAuthTag(Buffer.from(payload.tag, 'base64'))
+  return Buffer.concat([
+    decipher.update(Buffer.from(payload.data, 'base64')),
+    decipher.final()
+  ]).toString('utf-8')
+}
+
+/**
+ * 写入文件，先写临时文件再重命名，避免写入中断导致文件损坏
+ */
+function writeFileAtomic(filePath: string, content: string | Buffer): void {
+  const tempPath = `${filePath}.tmp`
+  fs.writeFileSync(tempPath, content, { mode: 0o600 })
+  fs.renameSync(tempPath, filePath)
+}
+
+/**
+ * 读取凭据库文件
+ */
+function readVaultFile(): VaultFile | null {
+  const vaultPath = getVaultPath()
+  if (!fs.existsSync(vaultPath)) {
+    return null
+  }
+  return JSON.parse(fs.readFileSync(vaultPath, 'utf-8')) as VaultFile
+}
+
+/**
+ * 读取或生成密钥文件
+ */
+function loadKeyFile(createIfMissing: boolean): Buffer {
+  const keyFilePath = getKeyFilePath()
+  if (!fs.existsSync(keyFilePath)) {
+    if (!createIfMissing) {
+      throw new Error(`密钥文件不存在: ${keyFilePath}`)
+    }
+    writeFileAtomic(keyFilePath, crypto.randomBytes(KEY_LENGTH).toString('base64'))
+  }
+
+  const key = Buffer.from(fs.readFileSync(keyFilePath, 'utf-8').trim(), 'base64')
+  if (key.length !== KEY_LENGTH) {
+    throw new Error(`密钥文件格式错误: ${keyFilePath}`)
+  }
+  return key
+}
+
+/**
+ * 将内存中的凭据加密写入磁盘
+ */
+function persist(): void {
+  if (!vaultKey || !vaultMode) {
+    throw new Error('凭据库已锁定，请先解锁')
+  }
+
+  const file: VaultFile = {
+    version: 1,
+    mode: vaultMode,
+    salt: vaultSalt ? vaultSalt.toString('base64') : undefined,
+    payload: encrypt(vaultKey, JSON.stringify({ credentials, targets } satisfies VaultContent))
+  }
+  writeFileAtomic(getVaultPath(), JSON.stringify(file, null, 2))
+}
+
+/**
+ * 解析解密后的凭据库内容
+ * 旧版本只保存凭据本身，没有目标绑定
+ */
+function parseVaultContent(plaintext: string): VaultContent {
+  const parsed = JSON.parse(plaintext)
+  if (parsed && typeof parsed.credentials === 'object' && typeof parsed.targets === 'object') {
+    return parsed as VaultContent
+  }
+  return { credentials: parsed, targets: {} }
+}
+
+/**
+ * 根据模式准备密钥
+ */
+function prepareKey(mode: VaultMode, passphrase?: string): { key: Buffer; salt: Buffer | null } {
+  if (mode === 'passphrase') {
+    if (!passphrase) {
+      throw new Error('请输入主密码')
+    }
+    const salt = crypto.randomBytes(16)
+    return { key: deriveKey(passphrase, salt), salt }
+  }
+  return { key: loadKeyFile(true), salt: null }
+}
+
+/**
+ * 获取凭据库状态
+ */
+function getVaultStatus(): VaultStatus {
+  const file = readVaultFile()
+  return {
+    initialized: file !== null,
+    unlocked: vaultKey !== null,
+    mode: file?.mode ?? null
+  }
+}
+
+/**
+ * 配置凭据库加密方式
+ * 未初始化时创建空凭据库；已解锁时使用新密钥重新加密现有凭据
+ */
+function configureVault(mode: VaultMode, passphrase?: string): VaultStatus {
+  if (readVaultFile() && !vaultKey) {
+    throw new Error('凭据库已锁定，请先解锁')
+  }
+
+  const { key, salt } = prepareKey(mode, passphrase)
+  vaultKey = key
+  vaultSalt = salt
+  vaultMode = mode
+  persist()
+
+  logger.info(`凭据库已配置为 ${mode} 模式`)
+  return getVaultStatus()
+}
+
+/**
+ * 解锁凭据库
+ */
+function unlockVault(passphrase?: string): VaultStatus {
+  const file = readVaultFile()
+  if (!file) {
+    throw new Error('凭据库尚未初始化')
+  }
+
+  let key: Buffer
+  if (file.mode === 'passphrase') {
+    if (!passphrase || !file.salt) {
+      throw new Error('请输入主密码')
+    }
+    key = deriveKey(passphrase, Buffer.from(file.salt, 'base64'))
+  } else {
+    key = loadKeyFile(false)
+  }
+
+  let content: VaultContent
+  try {
+    content = parseVaultContent(decrypt(key, file.payload))
+  } catch (error) {
+    throw new Error(file.mode === 'passphrase' ? '主密码错误' : '密钥文件与凭据库不匹配')
+  }
+
+  credentials = content.credentials
+  targets = content.targets
+
+  vaultKey = key
+  vaultMode = file.mode
+  vaultSalt = file.salt ? Buffer.from(file.salt, 'base64') : null
+  return getVaultStatus()
+}
+
+/**
+ * 锁定凭据库，清除内存中的密钥和明文凭据
+ */
+function lockVault(): VaultStatus {
+  vaultKey = null
+  vaultSalt = null
+  credentials = {}
+  targets = {}
+  return getVaultStatus()
+}
+
+/**
+ * 启动时尝试自动解锁
+ * 密钥文件模式无需用户输入，主密码模式保持锁定等待用户解锁
+ */
+function tryAutoUnlock(): void {
+  try {
+    const file = readVaultFile()
+    if (file?.mode === 'keyfile') {
+      unlockVault()
+    }
+  } catch (error) {
+    logger.error('自动解锁凭据库失败:', error)
+  }
+}
+
+/**
+ * 确保凭据库可写，首次保存凭据时自动以密钥文件模式初始化
+ */
+function ensureWritable(): void {
+  if (vaultKey) return
+  if (!readVaultFile()) {
+    configureVault('keyfile')
+    return
+  }
+  throw new Error('凭据库已锁定，请先解锁')
+}
+
+/**
+ * 保存凭据
+ * 与已有凭据合并，值为空字符串的字段会被删除，返回凭据引用 ID
+ * 凭据绑定到 target；目标变化时已保存的字段必须重新填写或清除，避免把原有凭据转发到新地址
+ */
+function saveCredential(credentialId: string | null, updates: Record<string, string | undefined>, target: string): string {
+  ensureWritable()
+
+  const id = credentialId || crypto.randomUUID()
+  const existing = credentials[id] || {}
+  if (targets[id] !== undefined && targets[id] !== target) {
+    const kept = Object.keys(existing).filter(field => updates[field] === undefined)
+    if (kept.length > 0) {
+      throw new Error('连接地址已变更，请重新输入已保存的密码、密钥等凭据')
+    }
+  }
+
+  const merged: CredentialSecrets = { ...existing }
+  Object.entries(updates).forEach(([field, value]) => {
+    if (value === undefined) return
+    if (value === '') {
+      delete merged[field]
+    } else {
+      merged[field] = value
+    }
+  })
+
+  credentials[id] = merged
+  targets[id] = target
+  persist()
+  return id
+}
+
+/**
+ * 删除凭据
+ */
+function deleteCredential(credentialId: string): void {
+  if (!credentials[credentialId]) return
+  ensureWritable()
+  delete credentials[credentialId]
+  delete targets[credentialId]
+  persist()
+}
+
+/**
+ * 读取凭据，仅供主进程内部使用，不通过 IPC 暴露给渲染进程
+ * 请求的目标与凭据绑定的目标不一致时拒绝读取；旧版本保存的凭据在首次使用时绑定
+ */
+function getCredential(credentialId: string, target: string): CredentialSecrets {
+  if (!vaultKey) {
+    throw new Error('凭据库已锁定，请先解锁')
+  }
+
+  const secrets = credentials[credentialId]
+  if (!secrets) {
+    return {}
+  }
+
+  if (targets[credentialId] === undefined) {
+    logger.info(`凭据 ${credentialId} 尚未绑定目标，绑定到首次使用的地址`)
+    targets[credentialId] = target
+    persist()
+  } else if (targets[credentialId] !== target) {
+    throw new Error('凭据与连接地址不匹配，请重新输入凭据')
+  }
+  return secrets
+}
+
+export {
+  getVaultStatus,
+  configureVault,
+  unlockVault,
+  lockVault,
+  tryAutoUnlock,
+  saveCredential,
+  deleteCredential,
+  getCredential
+}
@@ -0,0 +1,520 @@
+import fs from 'fs'
+import { Client, ClientOptions } from '@elastic/elasticsearch'
+import { logger } from './utils.js'
+import { getCredential } from './credential-vault.js'
+import { SshTunnel, SshTunnelError, SshTunnelProfile, openTunnel } from './ssh-tunnel.js'
+import { ProxyMode, ProxyProfile, buildProxyOptions, resolveProxy, getProxyTarget } from './proxy.js'
+
+/**
+ * TLS 配置
+ * CA 可以是文件路径或 PEM 内容；客户端证书和私钥用于双向 TLS
+ */
+export interface TlsProfile {
+  caPath?: string
+  caPem?: string
+  certPath?: string
+  keyPath?: string
+  keyPassphrase?: string
+  caFingerprint?: string
+  allowInsecure?: boolean
+}
+
+/**
+ * 传输层配置
+ * 控制节点嗅探、请求超时和失败重试
+ */
+export interface TransportProfile {
+  sniffOnStart?: boolean
+  sniffOnConnectionFault?: boolean
+  requestTimeout?: number
+  maxRetries?: number
+}
+
+/**
+ * 认证方式
+ * cloud 使用 Cloud ID 定位集群，认证使用 API 密钥或用户名密码
+ */
+export type AuthType = 'none' | 'basic' | 'apiKey' | 'bearer' | 'cloud'
+
+/**
+ * Elasticsearch 连接配置
+ */
+export interface ElasticsearchConnection {
+  id: string
+  name: string
+  host: string
+  port: number
+  protocol: 'http' | 'https'
+  nodes?: string[]
+  transport?: TransportProfile
+  authType?: AuthType
+  username?: string
+  password?: string
+  apiKey?: string
+  bearerToken?: string
+  cloudId?: string
+  credentialId?: string
+  tls?: TlsProfile
+  sshTunnel?: SshTunnelProfile
+  proxyMode?: ProxyMode
+  proxy?: ProxyProfile
+  isDefault: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * 决定凭据发往哪些地址的连接字段
+ */
+export type ConnectionTarget = Pick<ElasticsearchConnection, 'host' | 'port' | 'protocol' | 'nodes' | 'authType' | 'username' | 'cloudId' | 'sshTunnel' | 'proxyMode' | 'proxy'>
+
+/**
+ * 节点响应信息，记录处理请求的节点发生变化的时间
+ */
+export interface NodeResponseInfo {
+  connectionId: string
+  node: string
+  timestamp: string
+}
+
+/**
+ * 客户端注册表条目
+ */
+interface ClientEntry {
+  ready: Promise<ClientHandle>
+  fingerprint: string
+  credentialId?: string
+}
+
+/**
+ * 客户端及其使用的 SSH 隧道
+ */
+interface ClientHandle {
+  client: Client
+  tunnel?: SshTunnel
+}
+
+/**
+ * 按连接 ID 缓存的客户端
+ * 同一连接的所有 IPC 调用复用同一个客户端及其连接池
+ */
+const clients = new Map<string, ClientEntry>()
+
+/**
+ * 节点响应监听器
+ */
+const nodeResponseListeners = new Set<(info: NodeResponseInfo) => void>()
+
+/**
+ * 每个连接最近一次处理请求的节点
+ */
+const lastNodes = new Map<string, string>()
+
+/**
+ * 不参与指纹计算的字段
+ */
+const FINGERPRINT_IGNORED_FIELDS = ['id', 'name', 'isDefault', 'createdAt', 'updatedAt', 'status']
+
+/**
+ * 读取 PEM 文件
+ */
+function readPemFile(filePath: string, label: string): string {
+  try {
+    return fs.readFileSync(filePath, 'utf-8')
+  } catch (error) {
+    throw new Error(`无法读取${label}文件 ${filePath}: ` + (error instanceof Error ? error.message : '未知错误'))
+  }
+}
+
+/**
+ * 根据 TLS 配置构建客户端选项
+ * 默认校验服务端证书，只有显式允许不安全连接时才跳过校验
+ */
+function buildTlsOptions(tls: TlsProfile = {}): Pick<ClientOptions, 'tls' | 'caFingerprint'> {
+  const tlsOptions: NonNullable<ClientOptions['tls']> = {
+    rejectUnauthorized: !tls.allowInsecure
+  }
+
+  const caBundle = [
+    tls.caPath ? readPemFile(tls.caPath, 'CA 证书') : undefined,
+    tls.caPem?.trim() || undefined
+  ].filter((pem): pem is string => Boolean(pem))
+  if (caBundle.length > 0) {
+    tlsOptions.ca = caBundle
+  }
+
+  if (tls.certPath || tls.keyPath) {
+    if (!tls.certPath || !tls.keyPath) {
+      throw new Error('双向 TLS 需要同时配置客户端证书和私钥')
+    }
+    tlsOptions.cert = readPemFile(tls.certPath, '客户端证书')
+    tlsOptions.key = readPemFile(tls.keyPath, '客户端私钥')
+    if (tls.keyPassphrase) {
+      tlsOptions.passphrase = tls.keyPassphrase
+    }
+  }
+
+  const caFingerprint = tls.caFingerprint?.trim()
+  if (caFingerprint && caBundle.length === 0) {
+    // 仅配置指纹时由指纹校验代替 CA 链校验，否则自签名证书会在握手阶段被拒绝
+    tlsOptions.rejectUnauthorized = false
+  }
+
+  return {
+    tls: tlsOptions,
+    caFingerprint: caFingerprint || undefined
+  }
+}
+
+/**
+ * 获取连接的凭据目标
+ * 包含集群地址、SSH 跳板机和自定义代理，凭据只会发往保存时的这些地址
+ */
+function getCredentialTarget(connection: ConnectionTarget): string {
+  const { sshTunnel, proxy } = connection
+  return JSON.stringify({
+    elasticsearch: getAuthType(connection) === 'cloud' ? `cloud:${connection.cloudId}` : [...getNodeUrls(connection)].sort(),
+    ssh: sshTunnel?.enabled ? `${sshTunnel.username}@${sshTunnel.host}:${sshTunnel.port || 22}` : undefined,
+    proxy: connection.proxyMode === 'custom' && proxy ? getProxyTarget(proxy) : undefined
+  })
+}
+
+/**
+ * 从凭据库解析连接引用的机密信息
+ * 渲染进程只持有凭据引用，连接对象中显式传入的值优先（用于测试尚未保存的配置）
+ * 连接的目标与凭据绑定的目标不一致时抛出异常，防止凭据被发往其他地址
+ */
+function resolveSecrets(connection: ElasticsearchConnection): ElasticsearchConnection {
+  if (!connection.credentialId) {
+    return connection
+  }
+
+  const secrets = getCredential(connection.credentialId, getCredentialTarget(connection))
+  return {
+    ...connection,
+    password: connection.password || secrets.password,
+    apiKey: connection.apiKey || secrets.apiKey,
+    bearerToken: connection.bearerToken || secrets.bearerToken,
+    tls: connection.tls && {
+      ...connection.tls,
+      keyPassphrase: connection.tls.keyPassphrase || secrets.tlsKeyPassphrase
+    },
+    sshTunnel: connection.sshTunnel && {
+      ...connection.sshTunnel,
+      password: connection.sshTunnel.password || secrets.sshPassword,
+      passphrase: connection.sshTunnel.passphrase || secrets.sshPassphrase
+    },
+    proxy: connection.proxy && {
+      ...connection.proxy,
+      password: connection.proxy.password || secrets.proxyPassword
+    }
+  }
+}
+
+/**
+ * 获取连接的认证方式
+ * 旧版本的连接没有 authType 字段，根据已填写的凭据推断
+ */
+function getAuthType(connection: Pick<ElasticsearchConnection, 'authType' | 'username' | 'apiKey'>): AuthType {
+  if (connection.authType) {
+    return connection.authType
+  }
+  if (connection.username) {
+    return 'basic'
+  }
+  return connection.apiKey ? 'apiKey' : 'none'
+}
+
+/**
+ * 解析 API 密钥
+ * 支持 id:api_key 形式和 Base64 编码形式，编码形式中不会出现冒号
+ */
+function parseApiKey(apiKey: string): string | { id: string; api_key: string } {
+  const separatorIndex = apiKey.indexOf(':')
+  if (separatorIndex === -1) {
+    return apiKey
+  }
+  return {
+    id: apiKey.slice(0, separatorIndex),
+    api_key: apiKey.slice(separatorIndex + 1)
+  }
+}
+
+/**
+ * 根据认证方式构建客户端认证选项
+ */
+function buildAuthOptions(connection: ElasticsearchConnection): ClientOptions['auth'] {
+  const { username, password, apiKey, bearerToken } = connection
+
+  switch (getAuthType(connection)) {
+    case 'basic':
+      if (!username || !password) {
+        throw new Error('请填写用户名和密码')
+      }
+      return { username, password }
+    case 'apiKey':
+      if (!apiKey) {
+        throw new Error('请填写 API 密钥')
+      }
+      return { apiKey: parseApiKey(apiKey) }
+    case 'bearer':
+      if (!bearerToken) {
+        throw new Error('请填写访问令牌')
+      }
+      return { bearer: bearerToken }
+    case 'cloud':
+      if (apiKey) {
+        return { apiKey: parseApiKey(apiKey) }
+      }
+      if (username && password) {
+        return { username, password }
+      }
+      throw new Error('Elastic Cloud 连接需要 API 密钥或用户名密码')
+    default:
+      return undefined
+  }
+}
+
+/**
+ * 构建传输层选项，未配置的项使用客户端默认值
+ */
+function buildTransportOptions(transport: TransportProfile = {}): Pick<ClientOptions, 'sniffOnStart' | 'sniffOnConnectionFault' | 'requestTimeout' | 'maxRetries'> {
+  const options: Pick<ClientOptions, 'sniffOnStart' | 'sniffOnConnectionFault' | 'requestTimeout' | 'maxRetries'> = {}
+  if (transport.sniffOnStart) options.sniffOnStart = true
+  if (transport.sniffOnConnectionFault) options.sniffOnConnectionFault = true
+  if (transport.requestTimeout && transport.requestTimeout > 0) options.requestTimeout = transport.requestTimeout
+  if (transport.maxRetries !== undefined && transport.maxRetries >= 0) options.maxRetries = transport.maxRetries
+  return options
+}
+
+/**
+ * 获取连接的节点地址列表
+ * 配置了多个节点时客户端在节点间轮询，单个节点不可用时自动切换到其他节点
+ */
+function getNodeUrls(connection: Pick<ElasticsearchConnection, 'host' | 'port' | 'protocol' | 'nodes'>): string[] {
+  if (connection.nodes && connection.nodes.length > 0) {
+    return connection.nodes
+  }
+  return [`${connection.protocol}://${connection.host}:${connection.port}`]
+}
+
+/**
+ * 按需建立 SSH 隧道
+ * 隧道只转发到连接的主地址，多节点和节点嗅探在隧道模式下不生效
+ */
+async function openConnectionTunnel(connection: ElasticsearchConnection, onClose?: () => void): Promise<SshTunnel | undefined> {
+  if (!connection.sshTunnel?.enabled) {
+    return undefined
+  }
+  if (getAuthType(connection) === 'cloud') {
+    throw new SshTunnelError('Elastic Cloud 连接不支持 SSH 隧道')
+  }
+  return openTunnel(connection.sshTunnel, connection.host, connection.port, onClose)
+}
+
+/**
+ * 创建 Elasticsearch 客户端
+ * 使用 SSH 隧道时连接本地转发端口，TLS 仍按集群的真实主机名校验证书；隧道模式下不使用代理
+ */
+function createElasticsearchClient(connection: ElasticsearchConnection, tunnel?: SshTunnel): Client {
+  const { cloudId, tls, transport } = connection
+  const isCloud = getAuthType(connection) === 'cloud'
+  const nodeUrls = tunnel
+    ? [`${connection.protocol}://127.0.0.1:${tunnel.localPort}`]
+    : getNodeUrls(connection)
+
+  let target: Pick<ClientOptions, 'node' | 'cloud'>
+  if (isCloud) {
+    if (!cloudId) {
+      throw new Error('请填写 Cloud ID')
+    }
+    target = { cloud: { id: cloudId } }
+  } else {
+    target = { node: nodeUrls }
+  }
+
+  const useTls = isCloud || nodeUrls.some(url => url.startsWith('https://'))
+  const tlsOptions = useTls ? buildTlsOptions(tls) : {}
+  if (tunnel && tlsOptions.tls) {
+    tlsOptions.tls.servername = connection.host
+  }
+
+  const proxy = tunnel ? undefined : resolveProxy(connection.proxyMode, connection.proxy, isCloud ? [] : nodeUrls)
+
+  return new Client({
+    ...target,
+    auth: buildAuthOptions(connection),
+    ...buildTransportOptions(tunnel ? { ...transport, sniffOnStart: false, sniffOnConnectionFault: false } : transport),
+    ...tlsOptions,
+    ...(proxy ? buildProxyOptions(proxy) : {})
+  })
+}
+
+/**
+ * 建立隧道并创建客户端，客户端创建失败时关闭已建立的隧道
+ */
+async function openClient(connection: ElasticsearchConnection, onTunnelClose?: () => void): Promise<ClientHandle> {
+  const resolved = resolveSecrets(connection)
+  const tunnel = await openConnectionTunnel(resolved, onTunnelClose)
+  try {
+    return { client: createElasticsearchClient(resolved, tunnel), tunnel }
+  } catch (error) {
+    await tunnel?.close()
+    throw error
+  }
+}
+
+/**
+ * 关闭客户端及其隧道
+ */
+async function closeHandle(handle: ClientHandle): Promise<void> {
+  try {
+    await handle.client.close()
+  } catch (error) {
+    logger.warn('关闭客户端失败:', error)
+  }
+  await handle.tunnel?.close()
+}
+
+/**
+ * 计算连接指纹
+ * 只包含影响客户端构建的字段，名称、时间戳、状态等展示字段变化时不重建客户端
+ */
+function getConnectionFingerprint(connection: ElasticsearchConnection): string {
+  const relevant = Object.entries(connection)
+    .filter(([key]) => !FINGERPRINT_IGNORED_FIELDS.includes(key))
+    .sort(([a], [b]) => a.localeCompare(b))
+  return JSON.stringify(relevant)
+}
+
+/**
+ * 上报处理请求的节点
+ * 只在节点变化时上报，导入、导出和后台轮询的大量请求不会逐个通知渲染进程
+ */
+function reportNodeResponses(connectionId: string, client: Client): void {
+  client.diagnostic.on('response', (_error, result) => {
+    const url = result?.meta.connection?.url
+    if (!url) return
+    // 只上报协议、主机和端口，不包含地址中可能携带的凭据
+    const node = `${url.protocol}//${url.host}`
+    if (lastNodes.get(connectionId) === node) return
+    lastNodes.set(connectionId, node)
+
+    const info: NodeResponseInfo = {
+      connectionId,
+      node,
+      timestamp: new Date().toISOString()
+    }
+    nodeResponseListeners.forEach(listener => listener(info))
+  })
+}
+
+/**
+ * 获取连接对应的客户端
+ * 不存在时创建；地址、凭据或隧道配置发生变化时关闭旧客户端并重建
+ * 并发请求共享同一个创建过程，避免重复建立隧道
+ */
+async function getClient(connection: ElasticsearchConnection): Promise<Client> {
+  const fingerprint = getConnectionFingerprint(connection)
+  const existing = clients.get(connection.id)
+
+  if (existing && existing.fingerprint === fingerprint) {
+    return (await existing.ready).client
+  }
+
+  if (existing) {
+    logger.info(`连接配置已变更，重建客户端: ${connection.name}`)
+    clients.delete(connection.id)
+    existing.ready.then(closeHandle, () => undefined)
+  }
+
+  const entry: ClientEntry = {
+    fingerprint,
+    credentialId: connection.credentialId,
+    ready: openClient(connection, () => {
+      // 隧道意外断开时移除客户端，下次请求时重新建立
+      if (clients.get(connection.id) === entry) {
+        closeClient(connection.id)
+      }
+    })
+  }
+  clients.set(connection.id, entry)
+
+  try {
+    const { client } = await entry.ready
+    reportNodeResponses(connection.id, client)
+    return client
+  } catch (error) {
+    if (clients.get(connection.id) === entry) {
+      clients.delete(connection.id)
+    }
+    throw error
+  }
+}
+
+/**
+ * 监听节点响应，返回取消监听的函数
+ */
+function onNodeResponse(listener: (info: NodeResponseInfo) => void): () => void {
+  nodeResponseListeners.add(listener)
+  return () => {
+    nodeResponseListeners.delete(listener)
+  }
+}
+
+/**
+ * 关闭并移除指定连接的客户端
+ */
+async function closeClient(connectionId: string): Promise<void> {
+  const entry = clients.get(connectionId)
+  if (!entry) return
+
+  clients.delete(connectionId)
+  lastNodes.delete(connectionId)
+  try {
+    await closeHandle(await entry.ready)
+  } catch (error) {
+    // 客户端未能创建成功，无需关闭
+  }
+}
+
+/**
+ * 关闭引用指定凭据的所有客户端
+ * 凭据更新后调用，下次请求时使用新凭据重建
+ */
+async function closeClientsByCredential(credentialId: string): Promise<void> {
+  const connectionIds = Array.from(clients.entries())
+    .filter(([, entry]) => entry.credentialId === credentialId)
+    .map(([connectionId]) => connectionId)
+  await Promise.all(connectionIds.map(closeClient))
+}
+
+/**
+ * 关闭所有客户端，应用退出时调用
+ */
+async function closeAllClients(): Promise<void> {
+  await Promise.all(Array.from(clients.keys()).map(closeClient))
+}
+
+/**
+ * 使用临时客户端执行操作，完成后立即关闭
+ * 用于测试尚未保存的连接配置，避免污染注册表
+ */
+async function withTemporaryClient<T>(connection: ElasticsearchConnection, fn: (client: Client) => Promise<T>): Promise<T> {
+  const handle = await openClient(connection)
+  try {
+    return await fn(handle.client)
+  } finally {
+    closeHandle(handle).catch((error) => logger.warn('关闭临时客户端失败:', error))
+  }
+}
+
+export {
+  getClient,
+  closeClient,
+  closeClientsByCredential,
+  closeAllClients,
+  withTemporaryClient,
+  onNodeResponse,
+  getCredentialTarget
+}
@@ -0,0 +1,354 @@
+import fs from 'fs'
+import { once } from 'events'
+import { Client, estypes } from '@elastic/elasticsearch'
+import { logger } from './utils.js'
+import { createXlsxWriter, XlsxCell, XLSX_MAX_ROWS } from './xlsx.js'
+
+/**
+ * 导出文件格式
+ * csv 和 xlsx 按列展开文档；ndjson 每行写入一个 _source，可以直接重新导入
+ */
+export type ExportFormat = 'csv' | 'ndjson' | 'xlsx'
+
+/**
+ * 导出请求
+ * columns 为展开后的字段路径，为空时按第一批文档推断；includeMetadata 为 true 时 csv/xlsx 增加 _index 和 _id 列
+ */
+export interface ExportRequest {
+  exportId: string
+  filePath: string
+  format: ExportFormat
+  index: string
+  query?: Record<string, any>
+  sort?: any[]
+  columns?: string[]
+  includeMetadata?: boolean
+  delimiter?: string
+  maxRows?: number
+  batchSize?: number
+}
+
+/**
+ * 导出进度，total 为查询匹配的文档总数
+ */
+export interface ExportProgress {
+  exportId: string
+  rows: number
+  total: number
+}
+
+/**
+ * 导出结果
+ * limitReached 表示因行数限制没有导出全部匹配的文档
+ */
+export interface ExportResult {
+  exportId: string
+  filePath: string
+  rows: number
+  total: number
+  sizeBytes: number
+  aborted: boolean
+  limitReached: boolean
+  timeMs: number
+}
+
+interface SearchHit {
+  _index: string
+  _id?: string
+  _source?: Record<string, any>
+}
+
+interface RowWriter {
+  writeHit: (hit: SearchHit) => Promise<void>
+  close: () => Promise<void>
+  abort: () => Promise<void>
+}
+
+const DEFAULT_BATCH_SIZE = 1000
+const KEEP_ALIVE = '5m'
+const PROGRESS_INTERVAL = 500
+
+// 数组中的多个值在单元格中的分隔符
+const ARRAY_SEPARATOR = ', '
+
+// 进行中的导出，用于取消
+const activeExports = new Map<string, { abort: () => void }>()
+
+/**
+ * 按路径读取字段值
+ * 同时支持嵌套对象和字段名中包含点的写法，路径经过对象数组时返回所有匹配的值
+ */
+function getFieldValue(value: any, path: string): any {
+  if (value === null || value === undefined) return undefined
+  if (Array.isArray(value)) {
+    const values = value.map(item => getFieldValue(item, path)).filter(item => item !== undefined).flat()
+    return values.length > 0 ? values : undefined
+  }
+  if (typeof value !== 'object') return undefined
+  if (Object.prototype.hasOwnProperty.call(value, path)) return value[path]
+
+  const parts = path.split('.')
+  for (let i = 1; i < parts.length; i++) {
+    const key = parts.slice(0, i).join('.')
+    if (Object.prototype.hasOwnProperty.call(value, key)) {
+      const found = getFieldValue(value[key], parts.slice(i).join('.'))
+      if (found !== undefined) return found
+    }
+  }
+  return undefined
+}
+
+/**
+ * 收集文档中的叶子字段路径，数组作为一个字段
+ */
+function collectPaths(value: Record<string, any>, prefix: string, paths: Set<string>) {
+  Object.entries(value).forEach(([key, child]) => {
+    const path = prefix ? `${prefix}.${key}` : key
+    if (child && typeof child === 'object' && !Array.isArray(child) && Object.keys(child).length > 0) {
+      collectPaths(child, path, paths)
+    } else {
+      paths.add(path)
+    }
+  })
+}
+
+/**
+ * 按第一批文档推断导出列
+ */
+function inferColumns(hits: SearchHit[]): string[] {
+  const paths = new Set<string>()
+  hits.forEach(hit => collectPaths(hit._source || {}, '', paths))
+  return [...paths]
+}
+
+/**
+ * 字段值转换为单元格文本，对象以 JSON 表示
+ */
+function formatText(value: any): string {
+  if (value === undefined || value === null) return ''
+  if (Array.isArray(value)) return value.map(formatText).join(ARRAY_SEPARATOR)
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+function formatCell(value: any): XlsxCell {
+  if (typeof value === 'number' || typeof value === 'boolean') return value
+  const text = formatText(value)
+  return text === '' ? null : text
+}
+
+function escapeCsv(text: string, delimiter: string): string {
+  return /["\r\n]/.test(text) || text.includes(delimiter) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function rowValues(hit: SearchHit, columns: string[], includeMetadata: boolean): any[] {
+  const values = columns.map(column => getFieldValue(hit._source, column))
+  return includeMetadata ? [hit._index, hit._id, ...values] : values
+}
+
+/**
+ * 按顺序写入文本文件，写入缓冲区满时等待
+ */
+async function createTextStream(filePath: string) {
+  const output = fs.createWriteStream(filePath, { encoding: 'utf8' })
+  await once(output, 'open')
+  return {
+    write: async (text: string) => {
+      if (!output.write(text)) {
+        await once(output, 'drain')
+      }
+    },
+    close: async () => {
+      output.end()
+      await once(output, 'close')
+    },
+    abort: async () => {
+      output.destroy()
+      await fs.promises.rm(filePath, { force: true })
+    }
+  }
+}
+
+/**
+ * 按格式创建写入器，csv 和 xlsx 先写入表头
+ */
+async function createRowWriter(request: ExportRequest, columns: string[]): Promise<RowWriter> {
+  const includeMetadata = Boolean(request.includeMetadata)
+  const header = includeMetadata ? ['_index', '_id', ...columns] : columns
+
+  if (request.format === 'xlsx') {
+    const writer = await createXlsxWriter(request.filePath, request.index.slice(0, 31).replace(/[\\/?*[\]:]/g, '_'))
+    await writer.writeRow(header)
+    return {
+      writeHit: hit => writer.writeRow(rowValues(hit, columns, includeMetadata).map(formatCell)),
+      close: writer.close,
+      abort: writer.abort
+    }
+  }
+
+  const stream = await createTextStream(request.filePath)
+  if (request.format === 'ndjson') {
+    return {
+      writeHit: hit => stream.write(JSON.stringify(hit._source ?? {}) + '\n'),
+      close: stream.close,
+      abort: stream.abort
+    }
+  }
+
+  // 带 BOM 的 UTF-8 文件可以被 Excel 正确识别编码
+  const delimiter = request.delimiter || ','
+  const toLine = (values: string[]) => values.map(value => escapeCsv(value, delimiter)).join(delimiter) + '\r\n'
+  await stream.write('\uFEFF' + toLine(header))
+  return {
+    writeHit: hit => stream.write(toLine(rowValues(hit, columns, includeMetadata).map(formatText))),
+    close: stream.close,
+    abort: stream.abort
+  }
+}
+
+/**
+ * 分批读取所有匹配的文档
+ * 优先使用 point-in-time + search_after，集群不支持时回退到 scroll；提前结束迭代时释放搜索上下文
+ */
+async function* searchPages(client: Client, request: ExportRequest, onTotal: (total: number) => void): AsyncGenerator<SearchHit[]> {
+  const size = request.batchSize || DEFAULT_BATCH_SIZE
+  const sourceFilter = request.format === 'ndjson' && request.columns?.length ? request.columns : true
+
+  let openedPitId: string | undefined
+  try {
+    openedPitId = (await client.openPointInTime({ index: request.index, keep_alive: KEEP_ALIVE })).id
+  } catch (error) {
+    logger.warn('打开 point-in-time 失败，使用 scroll 导出:', error instanceof Error ? error.message : error)
+  }
+
+  if (openedPitId) {
+    // 每次搜索都可能返回新的 PIT ID
+    let pitId = openedPitId
+    try {
+      let searchAfter: any[] | undefined
+      while (true) {
+        const result: estypes.SearchResponse = await client.search({
+          pit: { id: pitId, keep_alive: KEEP_ALIVE },
+          size,
+          query: request.query,
+          // 未指定排序时按 _shard_doc 排序，是遍历 PIT 最快的方式
+          sort: request.sort?.length ? request.sort : ['_shard_doc'],
+          search_after: searchAfter,
+          _source: sourceFilter,
+          track_total_hits: searchAfter === undefined
+        })
+        pitId = result.pit_id ?? pitId
+        if (searchAfter === undefined) {
+          const total = result.hits.total
+          onTotal(typeof total === 'number' ? total : total?.value ?? 0)
+        }
+        const hits = result.hits.hits as SearchHit[]
+        if (hits.length === 0) return
+        yield hits
+        if (hits.length < size) return
+        searchAfter = result.hits.hits[hits.length - 1].sort
+      }
+    } finally {
+      await client.closePointInTime({ id: pitId }).catch(error => logger.warn('关闭 point-in-time 失败:', error))
+    }
+  }
+
+  let result = await client.search({
+    index: request.index,
+    scroll: KEEP_ALIVE,
+    size,
+    query: request.query,
+    sort: request.sort?.length ? request.sort : ['_doc'],
+    _source: sourceFilter,
+    track_total_hits: true
+  })
+  let scrollId = result._scroll_id
+  const total = result.hits.total
+  onTotal(typeof total === 'number' ? total : total?.value ?? 0)
+  try {
+    while (result.hits.hits.length > 0) {
+      yield result.hits.hits as SearchHit[]
+      if (!scrollId) return
+      result = await client.scroll({ scroll_id: scrollId, scroll: KEEP_ALIVE })
+      scrollId = result._scroll_id ?? scrollId
+    }
+  } finally {
+    if (scrollId) {
+      await client.clearScroll({ scroll_id: scrollId }).catch(error => logger.warn('清除 scroll 失败:', error))
+    }
+  }
+}
+
+/**
+ * 导出查询匹配的所有文档到文件
+ * 取消或出错时删除未完成的文件
+ */
+export async function runExport(client: Client, request: ExportRequest, onProgress: (progress: ExportProgress) => void): Promise<ExportResult> {
+  const startedAt = Date.now()
+  const limits = [request.maxRows && request.maxRows > 0 ? request.maxRows : Infinity]
+  // 表头占用一行
+  if (request.format === 'xlsx') limits.push(XLSX_MAX_ROWS - 1)
+  const maxRows = Math.min(...limits)
+
+  let rows = 0
+  let total = 0
+  let aborted = false
+  let writer: RowWriter | undefined
+
+  const snapshot = (): ExportProgress => ({ exportId: request.exportId, rows, total })
+
+  activeExports.set(request.exportId, { abort: () => { aborted = true } })
+  const timer = setInterval(() => onProgress(snapshot()), PROGRESS_INTERVAL)
+
+  try {
+    for await (const hits of searchPages(client, request, value => { total = value })) {
+      if (!writer) {
+        writer = await createRowWriter(request, request.columns?.length ? request.columns : inferColumns(hits))
+      }
+      for (const hit of hits) {
+        if (aborted || rows >= maxRows) break
+        await writer.writeHit(hit)
+        rows += 1
+      }
+      if (aborted || rows >= maxRows) break
+    }
+
+    // 没有匹配的文档时只写入表头
+    writer = writer ?? await createRowWriter(request, request.columns ?? [])
+    if (aborted) {
+      await writer.abort()
+    } else {
+      await writer.close()
+    }
+  } catch (error) {
+    await writer?.abort().catch(() => undefined)
+    throw error
+  } finally {
+    clearInterval(timer)
+    activeExports.delete(request.exportId)
+  }
+
+  onProgress(snapshot())
+  const sizeBytes = aborted ? 0 : (await fs.promises.stat(request.filePath)).size
+  logger.info(`导出完成: ${request.index} -> ${request.filePath}, ${rows} 行${aborted ? '（已取消）' : ''}`)
+  return {
+    exportId: request.exportId,
+    filePath: request.filePath,
+    rows,
+    total,
+    sizeBytes,
+    aborted,
+    limitReached: !aborted && rows < total && rows >= maxRows,
+    timeMs: Date.now() - startedAt
+  }
+}
+
+/**
+ * 取消进行中的导出
+ */
+export function cancelExport(exportId: string): boolean {
+  const active = activeExports.get(exportId)
+  if (!active) return false
+  active.abort()
+  return true
+}
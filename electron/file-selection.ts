@@ -0,0 +1,50 @@
+import crypto from 'crypto'
+
+/**
+ * 文件用途，导入令牌只能用于读取，导出令牌只能用于写入
+ */
+export type FileSelectionPurpose = 'import' | 'export'
+
+/**
+ * 用户在文件对话框中选择的文件
+ * 渲染进程只持有令牌，路径仅用于展示
+ */
+export interface SelectedFile {
+  fileToken: string
+  filePath: string
+}
+
+/**
+ * 按令牌保存的文件选择结果
+ * 主进程只读写用户在对话框中选择过的路径，渲染进程无法指定任意路径
+ */
+const selections = new Map<string, { filePath: string; purpose: FileSelectionPurpose }>()
+
+/**
+ * 记录用户选择的文件，返回令牌
+ */
+function registerSelectedFile(filePath: string, purpose: FileSelectionPurpose): SelectedFile {
+  const fileToken = crypto.randomUUID()
+  selections.set(fileToken, { filePath, purpose })
+  return { fileToken, filePath }
+}
+
+/**
+ * 根据令牌取回文件路径
+ * consume 为 true 时令牌只能使用一次
+ */
+function resolveSelectedFile(fileToken: string, purpose: FileSelectionPurpose, consume = false): string {
+  const selection = selections.get(fileToken)
+  if (!selection || selection.purpose !== purpose) {
+    throw new Error('文件选择已失效，请重新选择文件')
+  }
+  if (consume) {
+    selections.delete(fileToken)
+  }
+  return selection.filePath
+}
+
+export {
+  registerSelectedFile,
+  resolveSelectedFile
+}
@@ -1,49 +1,305 @@
-import { app, BrowserWindow, Menu, ipcMain } from 'electron'
+import { app, BrowserWindow, Menu, ipcMain, dialog } from 'electron'
 import path from 'path'
+import { Client, errors, estypes } from '@elastic/elasticsearch'
 import * as utils from './utils.js'
-import { Client } from '@elastic/elasticsearch'
+import { ElasticsearchConnection, ConnectionTarget, getClient, closeClient, closeClientsByCredential, closeAllClients, withTemporaryClient, onNodeResponse, getCredentialTarget } from './elasticsearch-client.js'
+import * as vault from './credential-vault.js'
+import { SshTunnelError } from './ssh-tunnel.js'
+import * as proxy from './proxy.js'
+import * as alerts from './alerts.js'
+import * as bulkImport from './bulk-import.js'
+import * as documentExport from './export.js'
+import { SelectedFile, registerSelectedFile, resolveSelectedFile } from './file-selection.js'
 
 /**
- * Elasticsearch 连接配置
+ * 文档写入选项
+ * ifSeqNo/ifPrimaryTerm 用于乐观并发控制，refresh 控制写入后的刷新策略
  */
-interface ElasticsearchConnection {
-  id: string
+interface DocumentWriteOptions {
+  ifSeqNo?: number
+  ifPrimaryTerm?: number
+  refresh?: boolean | 'wait_for'
+}
+
+/**
+ * 索引运维操作
+ */
+type IndexOperation = 'open' | 'close' | 'refresh' | 'flush' | 'forcemerge' | 'clear-cache' | 'freeze' | 'unfreeze'
+
+/**
+ * 索引运维操作选项，maxNumSegments 仅用于强制合并
+ */
+interface IndexOperationOptions {
+  maxNumSegments?: number
+}
+
+/**
+ * 索引设置更新选项，reopen 用于修改静态设置
+ */
+interface IndexSettingsUpdateOptions {
+  reopen?: boolean
+}
+
+/**
+ * 重建索引请求
+ * createDest 为 true 时按源索引的映射和分析器设置创建目标索引
+ */
+interface ReindexRequest {
+  source: string
+  dest: string
+  query?: Record<string, any>
+  script?: string
+  createDest?: boolean
+  requestsPerSecond?: number
+  slices?: number | 'auto'
+  conflicts?: 'abort' | 'proceed'
+}
+
+/**
+ * 重建索引任务状态
+ */
+interface ReindexTaskStatus {
+  taskId: string
+  completed: boolean
+  cancelled: boolean
+  total: number
+  created: number
+  updated: number
+  deleted: number
+  noops: number
+  versionConflicts: number
+  batches: number
+  requestsPerSecond: number
+  runningTimeMs: number
+  failures: string[]
+  error?: string
+}
+
+/**
+ * 别名信息，每个别名与索引的组合一条
+ */
+interface AliasInfo {
+  alias: string
+  index: string
+  isWriteIndex?: boolean
+  filter?: Record<string, any>
+  indexRouting?: string
+  searchRouting?: string
+}
+
+/**
+ * 别名操作，多个操作通过 _aliases 原子执行
+ */
+interface AliasAction {
+  type: 'add' | 'remove'
+  alias: string
+  index: string
+  filter?: Record<string, any>
+  indexRouting?: string
+  searchRouting?: string
+  isWriteIndex?: boolean
+}
+
+/**
+ * 模板类型：可组合索引模板或组件模板
+ */
+type TemplateKind = 'index' | 'component'
+
+/**
+ * 模板信息，body 为模板的完整定义
+ */
+interface TemplateInfo {
   name: string
-  host: string
-  port: number
-  protocol: 'http' | 'https'
-  username?: string
-  password?: string
-  apiKey?: string
-  isDefault: boolean
-  createdAt: string
-  updatedAt: string
+  kind: TemplateKind
+  indexPatterns: string[]
+  composedOf: string[]
+  priority?: number
+  version?: number
+  dataStream: boolean
+  managed: boolean
+  body: Record<string, any>
 }
 
 /**
- * 创建 Elasticsearch 客户端
+ * 模板模拟结果
  */
-function createElasticsearchClient(connection: ElasticsearchConnection): Client {
-  const { host, port, protocol, username, password, apiKey } = connection
-  const node = `${protocol}://${host}:${port}`
-  
-  const auth: any = {}
-  if (username && password) {
-    auth.username = username
-    auth.password = password
-  } else if (apiKey) {
-    auth.apiKey = apiKey
+interface SimulatedIndexTemplate {
+  settings: Record<string, any>
+  mappings: Record<string, any>
+  aliases: Record<string, any>
+  overlapping: { name: string; indexPatterns: string[] }[]
+}
+
+/**
+ * ILM 策略信息
+ */
+interface IlmPolicyInfo {
+  name: string
+  version?: number
+  modifiedDate?: string
+  phases: Record<string, any>
+  meta?: Record<string, any>
+  inUseBy: { indices: string[]; dataStreams: string[]; templates: string[] }
+}
+
+/**
+ * 索引的 ILM 执行状态
+ */
+interface IlmExplainInfo {
+  index: string
+  policy: string
+  phase?: string
+  action?: string
+  step?: string
+  age?: string
+  failedStep?: string
+  stepInfo?: string
+  isAutoRetryableError?: boolean
+  failedStepRetryCount?: number
+}
+
+/**
+ * 数据流信息，indices 为按生成顺序排列的后备索引，最后一个是写入索引
+ */
+interface DataStreamInfo {
+  name: string
+  timestampField: string
+  indices: string[]
+  generation: number
+  status: string
+  template: string
+  ilmPolicy?: string
+  hidden: boolean
+  storeSizeBytes?: number
+  maximumTimestamp?: number
+}
+
+/**
+ * 支持注册的快照仓库类型
+ */
+type SnapshotRepositoryType = estypes.SnapshotRepository['type']
+
+const SNAPSHOT_REPOSITORY_TYPES: SnapshotRepositoryType[] = ['fs', 'url', 's3', 'gcs', 'azure', 'source']
+
+/**
+ * 快照仓库信息
+ */
+interface SnapshotRepositoryInfo {
+  name: string
+  type: string
+  settings: Record<string, any>
+}
+
+/**
+ * 快照信息，sizeBytes 为快照中各索引大小之和
+ */
+interface SnapshotInfo {
+  snapshot: string
+  uuid: string
+  repository: string
+  state: string
+  indices: string[]
+  dataStreams: string[]
+  includeGlobalState: boolean
+  startTime?: number
+  endTime?: number
+  durationMs?: number
+  shards: { total: number; successful: number; failed: number }
+  sizeBytes?: number
+  failures: string[]
+}
+
+/**
+ * 创建快照请求
+ */
+interface CreateSnapshotRequest {
+  repository: string
+  snapshot: string
+  indices: string[]
+  includeGlobalState: boolean
+  ignoreUnavailable?: boolean
+}
+
+/**
+ * 恢复快照请求
+ * indices 可以包含数据流名称，renamePattern 和 renameReplacement 对恢复的索引名执行正则替换
+ */
+interface RestoreSnapshotRequest {
+  repository: string
+  snapshot: string
+  indices: string[]
+  renamePattern?: string
+  renameReplacement?: string
+  indexSettings?: Record<string, any>
+  ignoreIndexSettings?: string[]
+  includeAliases: boolean
+}
+
+/**
+ * 单个索引的恢复进度
+ */
+interface RestoreIndexProgress {
+  index: string
+  exists: boolean
+  totalShards: number
+  doneShards: number
+  totalBytes: number
+  recoveredBytes: number
+}
+
+// 强制合并会阻塞到合并完成，大索引可能需要较长时间
+const FORCE_MERGE_TIMEOUT = 60 * 60 * 1000
+
+/**
+ * 按源索引创建重建索引的目标索引
+ * 源为多个索引或通配符时取第一个匹配的索引，只复制映射和分析器设置，分片和副本使用集群默认值
+ */
+async function createReindexDest(client: Client, source: string, dest: string): Promise<void> {
+  const sources = source.split(',').map(index => index.trim()).filter(Boolean)
+  const mappings = await client.indices.getMapping({ index: sources })
+  const sourceIndex = Object.keys(mappings).sort()[0]
+  if (!sourceIndex) {
+    throw new Error(`没有匹配 ${source} 的索引`)
   }
-  
-  return new Client({
-    node,
-    auth: Object.keys(auth).length > 0 ? auth : undefined,
-    tls: {
-      rejectUnauthorized: false // 开发环境可能需要，生产环境应移除
-    }
+
+  const settings = await client.indices.getSettings({ index: sourceIndex })
+  const analysis = settings[sourceIndex]?.settings?.index?.analysis
+  await client.indices.create({
+    index: dest,
+    mappings: mappings[sourceIndex].mappings,
+    ...(analysis ? { settings: { analysis } } : {})
   })
 }
 
+/**
+ * 将写入选项转换为 Elasticsearch 请求参数
+ */
+function toWriteParams(options: DocumentWriteOptions = {}) {
+  const params: { if_seq_no?: number; if_primary_term?: number; refresh?: boolean | 'wait_for' } = {}
+  if (options.ifSeqNo !== undefined && options.ifPrimaryTerm !== undefined) {
+    params.if_seq_no = options.ifSeqNo
+    params.if_primary_term = options.ifPrimaryTerm
+  }
+  if (options.refresh !== undefined) {
+    params.refresh = options.refresh
+  }
+  return params
+}
+
+/**
+ * 构造文档写入错误
+ * 版本冲突（409）单独提示，便于用户理解文档已被他人修改
+ */
+function toDocumentError(action: string, id: string | undefined, error: unknown): Error {
+  if (error instanceof errors.ResponseError && error.statusCode === 409) {
+    return new Error(`版本冲突: 文档 ${id ?? ''} 已被其他操作修改，请重新查询后再${action}`)
+  }
+  if (error instanceof errors.ResponseError && error.statusCode === 404) {
+    return new Error(`${action}文档失败: 文档 ${id ?? ''} 不存在`)
+  }
+  return new Error(`${action}文档失败: ` + (error instanceof Error ? error.message : '未知错误'))
+}
+
 // 设置 IPC 处理程序
 ipcMain.handle('get-version', () => app.getVersion())
 
@@ -158,7 +414,15 @@ function createMenu(): void {
 }
 
 // 应用准备就绪时创建窗口
-app.whenReady().then(() => {
+app.whenReady().then(async () => {
+  vault.tryAutoUnlock()
+  proxy.loadGlobalProxy()
+  alerts.loadAlerts()
+  try {
+    await proxy.applySessionProxy()
+  } catch (error) {
+    utils.logger.error('应用代理配置失败:', error)
+  }
   createWindow()
   createMenu()
 
@@ -171,6 +435,29 @@ app.whenReady().then(() => {
   })
 })
 
+// 将处理请求的节点转发给渲染进程，用于显示当前连接使用的节点
+onNodeResponse((info) => {
+  BrowserWindow.getAllWindows().forEach(window => {
+    window.webContents.send('elasticsearch:node-response', info)
+  })
+})
+
+// 渲染进程请求经过需要认证的代理时，使用全局代理中保存的用户名和密码
+app.on('login', (event, _webContents, _details, authInfo, callback) => {
+  if (!authInfo.isProxy) return
+  const credentials = proxy.getSessionProxyCredentials(authInfo.host)
+  if (credentials) {
+    event.preventDefault()
+    callback(credentials.username, credentials.password)
+  }
+})
+
+// 退出前停止告警监控并关闭所有 Elasticsearch 客户端
+app.on('will-quit', () => {
+  alerts.stopMonitoring()
+  closeAllClients()
+})
+
 // 当所有窗口都关闭时退出应用
 app.on('window-all-closed', () => {
   // 在 macOS 上，应用通常会保持活跃状态
@@ -193,30 +480,158 @@ ipcMain.handle('get-asset-path', (_event: Electron.IpcMainInvokeEvent, ...paths:
   return utils.getAssetPath(...paths)
 })
 
+// 凭据库 IPC 处理程序
+// 渲染进程只能写入和删除凭据，读取仅在主进程内部完成
+ipcMain.handle('vault:get-status', () => {
+  return vault.getVaultStatus()
+})
+
+ipcMain.handle('vault:configure', (_event, mode: vault.VaultMode, passphrase?: string) => {
+  return vault.configureVault(mode, passphrase)
+})
+
+ipcMain.handle('vault:unlock', (_event, passphrase?: string) => {
+  return vault.unlockVault(passphrase)
+})
+
+ipcMain.handle('vault:lock', async () => {
+  // 锁定后已建立的客户端不再可用，统一关闭
+  await closeAllClients()
+  return vault.lockVault()
+})
+
+// 凭据绑定到连接的目标地址，由主进程根据连接配置计算
+ipcMain.handle('vault:save-credential', async (_event, credentialId: string | null, secrets: Record<string, string | undefined>, connection: ConnectionTarget) => {
+  const id = vault.saveCredential(credentialId, secrets, getCredentialTarget(connection))
+  await closeClientsByCredential(id)
+  return id
+})
+
+ipcMain.handle('vault:delete-credential', async (_event, credentialId: string) => {
+  vault.deleteCredential(credentialId)
+  await closeClientsByCredential(credentialId)
+})
+
+// 代理 IPC 处理程序
+ipcMain.handle('proxy:get-global', () => {
+  return proxy.getGlobalProxy()
+})
+
+ipcMain.handle('proxy:set-global', async (_event, settings: proxy.GlobalProxySettings) => {
+  try {
+    const saved = await proxy.setGlobalProxy(settings)
+    // 已建立的客户端仍使用旧的代理配置，统一关闭后按需重建
+    await closeAllClients()
+    return saved
+  } catch (error) {
+    throw new Error('保存代理配置失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+})
+
+// 告警 IPC 处理程序
+// 规则在主进程中评估，渲染进程关闭到后台时也能发送系统通知
+ipcMain.handle('alerts:get-rules', () => {
+  return alerts.getRules()
+})
+
+ipcMain.handle('alerts:save-rule', (_event, rule: alerts.AlertRule) => {
+  try {
+    return alerts.saveRule(rule)
+  } catch (error) {
+    throw new Error('保存告警规则失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+})
+
+ipcMain.handle('alerts:delete-rule', (_event, ruleId: string) => {
+  try {
+    alerts.deleteRule(ruleId)
+  } catch (error) {
+    throw new Error('删除告警规则失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+})
+
+ipcMain.handle('alerts:get-log', () => {
+  return alerts.getLog()
+})
+
+ipcMain.handle('alerts:clear-log', () => {
+  alerts.clearLog()
+})
+
+// 传入 null 时停止监控
+ipcMain.handle('alerts:set-connection', (_event, connection: ElasticsearchConnection | null) => {
+  if (connection) {
+    alerts.startMonitoring(connection)
+  } else {
+    alerts.stopMonitoring()
+  }
+})
+
+ipcMain.handle('alerts:configure', (_event, options: Partial<alerts.AlertMonitorOptions>) => {
+  alerts.configureMonitoring(options)
+})
+
 // Elasticsearch IPC 处理程序
 ipcMain.handle('elasticsearch:test-connection', async (_event, connection: ElasticsearchConnection) => {
   try {
-    const client = createElasticsearchClient(connection)
-    const info = await client.info()
-    const nodesInfo = await client.nodes.info()
-    
-    return {
-      success: true,
-      version: info.version.number,
-      nodeCount: Object.keys(nodesInfo.nodes || {}).length,
-      clusterName: info.cluster_name
-    }
+    // 测试的可能是尚未保存的配置，使用临时客户端，测试完成后立即关闭
+    return await withTemporaryClient(connection, async (client) => {
+      const info = await client.info()
+      const nodesInfo = await client.nodes.info()
+
+      return {
+        success: true,
+        version: info.version.number,
+        nodeCount: Object.keys(nodesInfo.nodes || {}).length,
+        clusterName: info.cluster_name
+      }
+    })
   } catch (error) {
+    // 区分隧道建立失败和集群不可达，便于定位问题
+    if (error instanceof SshTunnelError) {
+      return {
+        success: false,
+        stage: 'tunnel',
+        error: 'SSH 隧道连接失败: ' + error.message
+      }
+    }
     return {
       success: false,
-      error: '连接失败: ' + (error instanceof Error ? error.message : '未知错误')
+      stage: 'cluster',
+      error: '集群连接失败: ' + (error instanceof Error ? error.message : '未知错误')
+    }
+  }
+})
+
+/**
+ * 建立连接
+ * 在注册表中创建（或按最新配置重建）客户端并验证可达性
+ */
+ipcMain.handle('elasticsearch:connect', async (_event, connection: ElasticsearchConnection) => {
+  try {
+    const client = await getClient(connection)
+    await client.ping()
+    return true
+  } catch (error) {
+    await closeClient(connection.id)
+    // 隧道错误需要用户修改配置，直接返回具体原因
+    if (error instanceof SshTunnelError) {
+      throw new Error('SSH 隧道连接失败: ' + error.message)
     }
+    return false
   }
 })
 
+/**
+ * 断开连接，关闭客户端并释放其连接池
+ */
+ipcMain.handle('elasticsearch:disconnect', async (_event, connectionId: string) => {
+  await closeClient(connectionId)
+})
+
 ipcMain.handle('elasticsearch:ping', async (_event, connection: ElasticsearchConnection) => {
   try {
-    const client = createElasticsearchClient(connection)
+    const client = await getClient(connection)
     await client.ping()
     return true
   } catch (error) {
@@ -226,7 +641,7 @@ ipcMain.handle('elasticsearch:ping', async (_event, connection: ElasticsearchCon
 
 ipcMain.handle('elasticsearch:get-cluster-info', async (_event, connection: ElasticsearchConnection) => {
   try {
-    const client = createElasticsearchClient(connection)
+    const client = await getClient(connection)
     const response = await client.info()
     return response
   } catch (error) {
@@ -236,7 +651,7 @@ ipcMain.handle('elasticsearch:get-cluster-info', async (_event, connection: Elas
 
 ipcMain.handle('elasticsearch:get-indices', async (_event, connection: ElasticsearchConnection) => {
   try {
-    const client = createElasticsearchClient(connection)
+    const client = await getClient(connection)
     const response = await client.cat.indices({ format: 'json' })
     
     return response.map((index: any) => ({
@@ -257,7 +672,7 @@ ipcMain.handle('elasticsearch:get-indices', async (_event, connection: Elasticse
 
 ipcMain.handle('elasticsearch:execute-query', async (_event, connection: ElasticsearchConnection, index: string, queryBody: any) => {
   try {
-    const client = createElasticsearchClient(connection)
+    const client = await getClient(connection)
     const result = await client.search({
       index,
       ...queryBody // 直接展开查询对象，而不是放在 body 中
@@ -274,7 +689,7 @@ ipcMain.handle('elasticsearch:execute-query', async (_event, connection: Elastic
 
 ipcMain.handle('elasticsearch:create-index', async (_event, connection: ElasticsearchConnection, name: string, settings?: any) => {
   try {
-    const client = createElasticsearchClient(connection)
+    const client = await getClient(connection)
     const result = await client.indices.create({
       index: name,
       body: settings || {}
@@ -287,7 +702,7 @@ ipcMain.handle('elasticsearch:create-index', async (_event, connection: Elastics
 
 ipcMain.handle('elasticsearch:delete-index', async (_event, connection: ElasticsearchConnection, name: string) => {
   try {
-    const client = createElasticsearchClient(connection)
+    const client = await getClient(connection)
     const result = await client.indices.delete({
       index: name
     })
@@ -297,12 +712,47 @@ ipcMain.handle('elasticsearch:delete-index', async (_event, connection: Elastics
   }
 })
 
+/**
+ * 对单个索引执行运维操作
+ * 冻结索引在 8.0 中已移除，客户端不再提供对应方法，通过通用请求调用，不支持时由集群返回错误
+ */
+ipcMain.handle('elasticsearch:run-index-operation', async (_event, connection: ElasticsearchConnection, operation: IndexOperation, index: string, options: IndexOperationOptions = {}) => {
+  try {
+    const client = await getClient(connection)
+    switch (operation) {
+      case 'open':
+        return await client.indices.open({ index })
+      case 'close':
+        return await client.indices.close({ index })
+      case 'refresh':
+        return await client.indices.refresh({ index })
+      case 'flush':
+        return await client.indices.flush({ index })
+      case 'forcemerge':
+        return await client.indices.forcemerge(
+          { index, max_num_segments: options.maxNumSegments },
+          { requestTimeout: FORCE_MERGE_TIMEOUT }
+        )
+      case 'clear-cache':
+        return await client.indices.clearCache({ index })
+      case 'freeze':
+        return await client.transport.request({ method: 'POST', path: `/${encodeURIComponent(index)}/_freeze` })
+      case 'unfreeze':
+        return await client.indices.unfreeze({ index })
+      default:
+        throw new Error(`不支持的操作 ${operation}`)
+    }
+  } catch (error) {
+    throw new Error('索引操作失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+})
+
 /**
  * 获取索引设置
  */
 ipcMain.handle('elasticsearch:get-index-settings', async (_event, connection: ElasticsearchConnection, indexName: string) => {
   try {
-    const client = createElasticsearchClient(connection)
+    const client = await getClient(connection)
     const result = await client.indices.getSettings({
       index: indexName
     })
@@ -312,12 +762,50 @@ ipcMain.handle('elasticsearch:get-index-settings', async (_event, connection: El
   }
 })
 
+/**
+ * 更新索引设置
+ * 静态设置只能在索引关闭时修改，reopen 为 true 时先关闭索引，更新完成后无论成功与否都重新打开
+ */
+ipcMain.handle('elasticsearch:update-index-settings', async (_event, connection: ElasticsearchConnection, indexName: string, settings: Record<string, unknown>, options: IndexSettingsUpdateOptions = {}) => {
+  let client
+  try {
+    client = await getClient(connection)
+    if (options.reopen) {
+      await client.indices.close({ index: indexName })
+    }
+  } catch (error) {
+    throw new Error('关闭索引失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+
+  let updateError: unknown = null
+  let result
+  try {
+    result = await client.indices.putSettings({ index: indexName, settings })
+  } catch (error) {
+    updateError = error
+  }
+
+  if (options.reopen) {
+    try {
+      await client.indices.open({ index: indexName })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '未知错误'
+      throw new Error(updateError ? `更新索引设置失败，且重新打开索引失败: ${message}` : `设置已更新，但重新打开索引失败: ${message}`)
+    }
+  }
+
+  if (updateError) {
+    throw new Error('更新索引设置失败: ' + (updateError instanceof Error ? updateError.message : '未知错误'))
+  }
+  return result
+})
+
 /**
  * 获取索引映射
  */
 ipcMain.handle('elasticsearch:get-index-mapping', async (_event, connection: ElasticsearchConnection, indexName: string) => {
   try {
-    const client = createElasticsearchClient(connection)
+    const client = await getClient(connection)
     const result = await client.indices.getMapping({
       index: indexName
     })
@@ -328,31 +816,941 @@ ipcMain.handle('elasticsearch:get-index-mapping', async (_event, connection: Ela
 })
 
 /**
- * 获取节点信息
+ * 更新索引映射
+ * 只能新增字段或修改允许更新的参数，已有字段的类型变化会被集群拒绝
  */
-ipcMain.handle('elasticsearch:get-nodes-info', async (_event, connection: ElasticsearchConnection) => {
+ipcMain.handle('elasticsearch:put-index-mapping', async (_event, connection: ElasticsearchConnection, indexName: string, mapping: { properties: Record<string, any> }) => {
   try {
-    const client = createElasticsearchClient(connection)
-    // 获取节点基本信息
-    const info = await client.nodes.info()
-    // 获取节点统计信息
-    const stats = await client.nodes.stats()
-    
-    // 合并节点信息和统计信息
-    const nodes: { [key: string]: any } = {}
-    if (info.nodes && stats.nodes) {
-      Object.entries(info.nodes).forEach(([nodeId, nodeInfo]) => {
-        const nodeStats = stats.nodes[nodeId]
-        nodes[nodeId] = {
-          ...nodeInfo,
-          stats: nodeStats
-        }
-      })
+    const client = await getClient(connection)
+    return await client.indices.putMapping({
+      index: indexName,
+      properties: mapping.properties
+    })
+  } catch (error) {
+    throw new Error('更新索引映射失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+})
+
+/**
+ * 获取所有别名
+ */
+ipcMain.handle('elasticsearch:get-aliases', async (_event, connection: ElasticsearchConnection): Promise<AliasInfo[]> => {
+  try {
+    const client = await getClient(connection)
+    const response = await client.indices.getAlias()
+
+    return Object.entries(response).flatMap(([index, { aliases }]) =>
+      Object.entries(aliases || {}).map(([alias, definition]: [string, any]) => ({
+        alias,
+        index,
+        isWriteIndex: definition.is_write_index,
+        filter: definition.filter,
+        indexRouting: definition.index_routing,
+        searchRouting: definition.search_routing
+      }))
+    )
+  } catch (error) {
+    throw new Error('获取别名失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+})
+
+/**
+ * 更新别名
+ * 所有操作在一个 _aliases 请求中原子执行，要么全部生效，要么全部不生效
+ */
+ipcMain.handle('elasticsearch:update-aliases', async (_event, connection: ElasticsearchConnection, actions: AliasAction[]) => {
+  try {
+    const client = await getClient(connection)
+    return await client.indices.updateAliases({
+      actions: actions.map(action => action.type === 'remove'
+        ? { remove: { index: action.index, alias: action.alias } }
+        : {
+            add: {
+              index: action.index,
+              alias: action.alias,
+              filter: action.filter,
+              index_routing: action.indexRouting,
+              search_routing: action.searchRouting,
+              is_write_index: action.isWriteIndex
+            }
+          })
+    })
+  } catch (error) {
+    throw new Error('更新别名失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+})
+
+/**
+ * 获取模板列表
+ */
+ipcMain.handle('elasticsearch:get-templates', async (_event, connection: ElasticsearchConnection, kind: TemplateKind): Promise<TemplateInfo[]> => {
+  try {
+    const client = await getClient(connection)
+    if (kind === 'index') {
+      const response = await client.indices.getIndexTemplate()
+      return response.index_templates.map(({ name, index_template }: any) => ({
+        name,
+        kind,
+        indexPatterns: Array.isArray(index_template.index_patterns) ? index_template.index_patterns : [index_template.index_patterns],
+        composedOf: index_template.composed_of || [],
+        priority: index_template.priority,
+        version: index_template.version,
+        dataStream: Boolean(index_template.data_stream),
+        managed: Boolean(index_template._meta?.managed),
+        body: index_template
+      }))
     }
-    
-    return { nodes }
+
+    const response = await client.cluster.getComponentTemplate()
+    return response.component_templates.map(({ name, component_template }: any) => ({
+      name,
+      kind,
+      indexPatterns: [],
+      composedOf: [],
+      version: component_template.version,
+      dataStream: false,
+      managed: Boolean(component_template._meta?.managed),
+      body: component_template
+    }))
   } catch (error) {
-    throw new Error('获取节点信息失败: ' + (error instanceof Error ? error.message : '未知错误'))
+    throw new Error('获取模板失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+})
+
+/**
+ * 创建或更新模板
+ */
+ipcMain.handle('elasticsearch:put-template', async (_event, connection: ElasticsearchConnection, kind: TemplateKind, name: string, body: Record<string, any>) => {
+  try {
+    const client = await getClient(connection)
+    if (kind === 'index') {
+      return await client.indices.putIndexTemplate({ name, ...body })
+    }
+    if (!body.template || typeof body.template !== 'object') {
+      throw new Error('组件模板必须包含 template 对象')
+    }
+    return await client.cluster.putComponentTemplate({
+      name,
+      template: body.template,
+      version: body.version,
+      _meta: body._meta
+    })
+  } catch (error) {
+    throw new Error('保存模板失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+})
+
+/**
+ * 删除模板
+ */
+ipcMain.handle('elasticsearch:delete-template', async (_event, connection: ElasticsearchConnection, kind: TemplateKind, name: string) => {
+  try {
+    const client = await getClient(connection)
+    return kind === 'index'
+      ? await client.indices.deleteIndexTemplate({ name })
+      : await client.cluster.deleteComponentTemplate({ name })
+  } catch (error) {
+    throw new Error('删除模板失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+})
+
+/**
+ * 模拟创建索引时生效的模板，返回合并后的设置、映射和别名
+ */
+ipcMain.handle('elasticsearch:simulate-index-template', async (_event, connection: ElasticsearchConnection, indexName: string): Promise<SimulatedIndexTemplate> => {
+  try {
+    const client = await getClient(connection)
+    const response: any = await client.indices.simulateIndexTemplate({ name: indexName })
+    return {
+      settings: response.template?.settings || {},
+      mappings: response.template?.mappings || {},
+      aliases: response.template?.aliases || {},
+      overlapping: (response.overlapping || []).map((item: any) => ({
+        name: item.name,
+        indexPatterns: item.index_patterns || []
+      }))
+    }
+  } catch (error) {
+    throw new Error('模拟模板失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+})
+
+/**
+ * 获取 ILM 策略
+ */
+ipcMain.handle('elasticsearch:get-ilm-policies', async (_event, connection: ElasticsearchConnection): Promise<IlmPolicyInfo[]> => {
+  try {
+    const client = await getClient(connection)
+    const response: Record<string, any> = await client.ilm.getLifecycle()
+
+    return Object.entries(response).map(([name, item]) => ({
+      name,
+      version: item.version,
+      modifiedDate: item.modified_date,
+      phases: item.policy?.phases || {},
+      meta: item.policy?._meta,
+      inUseBy: {
+        indices: item.in_use_by?.indices || [],
+        dataStreams: item.in_use_by?.data_streams || [],
+        templates: item.in_use_by?.composable_templates || []
+      }
+    }))
+  } catch (error) {
+    throw new Error('获取生命周期策略失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+})
+
+/**
+ * 创建或更新 ILM 策略
+ */
+ipcMain.handle('elasticsearch:put-ilm-policy', async (_event, connection: ElasticsearchConnection, name: string, policy: { phases: Record<string, any>; _meta?: Record<string, any> }) => {
+  try {
+    const client = await getClient(connection)
+    return await client.ilm.putLifecycle({ name, policy })
+  } catch (error) {
+    throw new Error('保存生命周期策略失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+})
+
+/**
+ * 删除 ILM 策略
+ */
+ipcMain.handle('elasticsearch:delete-ilm-policy', async (_event, connection: ElasticsearchConnection, name: string) => {
+  try {
+    const client = await getClient(connection)
+    return await client.ilm.deleteLifecycle({ name })
+  } catch (error) {
+    throw new Error('删除生命周期策略失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+})
+
+/**
+ * 获取受 ILM 管理的索引的执行状态
+ * 数据流的后备索引是隐藏索引，需要单独匹配
+ */
+ipcMain.handle('elasticsearch:explain-ilm', async (_event, connection: ElasticsearchConnection): Promise<IlmExplainInfo[]> => {
+  try {
+    const client = await getClient(connection)
+    const response = await client.ilm.explainLifecycle({ index: '*,.ds-*', only_managed: true })
+
+    return Object.values(response.indices).map((item: any) => ({
+      index: item.index,
+      policy: item.policy,
+      phase: item.phase,
+      action: item.action,
+      step: item.step,
+      age: item.age,
+      failedStep: item.failed_step,
+      stepInfo: item.step_info?.reason || item.step_info?.message,
+      isAutoRetryableError: item.is_auto_retryable_error,
+      failedStepRetryCount: item.failed_step_retry_count
+    }))
+  } catch (error) {
+    throw new Error('获取索引生命周期状态失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+})
+
+/**
+ * 重试索引失败的 ILM 步骤
+ */
+ipcMain.handle('elasticsearch:retry-ilm', async (_event, connection: ElasticsearchConnection, index: string) => {
+  try {
+    const client = await getClient(connection)
+    return await client.ilm.retry({ index })
+  } catch (error) {
+    throw new Error('重试生命周期步骤失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+})
+
+/**
+ * 获取数据流
+ * 存储统计只用于展示，获取失败时不影响列表
+ */
+ipcMain.handle('elasticsearch:get-data-streams', async (_event, connection: ElasticsearchConnection): Promise<DataStreamInfo[]> => {
+  try {
+    const client = await getClient(connection)
+    const [response, stats] = await Promise.all([
+      client.indices.getDataStream({ name: '*', expand_wildcards: 'all' }),
+      client.indices.dataStreamsStats({ name: '*', expand_wildcards: 'all' }).catch(() => null)
+    ])
+    const statsByName = new Map((stats?.data_streams || []).map(item => [item.data_stream, item]))
+
+    return response.data_streams.map((item: any) => ({
+      name: item.name,
+      timestampField: item.timestamp_field?.name || '@timestamp',
+      indices: (item.indices || []).map((index: any) => index.index_name),
+      generation: item.generation,
+      status: String(item.status).toLowerCase(),
+      template: item.template,
+      ilmPolicy: item.ilm_policy,
+      hidden: Boolean(item.hidden),
+      storeSizeBytes: statsByName.get(item.name)?.store_size_bytes,
+      maximumTimestamp: statsByName.get(item.name)?.maximum_timestamp
+    }))
+  } catch (error) {
+    throw new Error('获取数据流失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+})
+
+/**
+ * 创建数据流，需要存在启用了 data_stream 的匹配索引模板
+ */
+ipcMain.handle('elasticsearch:create-data-stream', async (_event, connection: ElasticsearchConnection, name: string) => {
+  try {
+    const client = await getClient(connection)
+    return await client.indices.createDataStream({ name })
+  } catch (error) {
+    throw new Error('创建数据流失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+})
+
+/**
+ * 删除数据流及其所有后备索引
+ */
+ipcMain.handle('elasticsearch:delete-data-stream', async (_event, connection: ElasticsearchConnection, name: string) => {
+  try {
+    const client = await getClient(connection)
+    return await client.indices.deleteDataStream({ name })
+  } catch (error) {
+    throw new Error('删除数据流失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+})
+
+/**
+ * 滚动数据流，创建新的写入索引
+ */
+ipcMain.handle('elasticsearch:rollover-data-stream', async (_event, connection: ElasticsearchConnection, name: string) => {
+  try {
+    const client = await getClient(connection)
+    const result = await client.indices.rollover({ alias: name })
+    return { oldIndex: result.old_index, newIndex: result.new_index }
+  } catch (error) {
+    throw new Error('滚动数据流失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+})
+
+/**
+ * 获取快照仓库
+ */
+ipcMain.handle('elasticsearch:get-snapshot-repositories', async (_event, connection: ElasticsearchConnection): Promise<SnapshotRepositoryInfo[]> => {
+  try {
+    const client = await getClient(connection)
+    const response: Record<string, any> = await client.snapshot.getRepository()
+
+    return Object.entries(response).map(([name, repository]) => ({
+      name,
+      type: repository.type,
+      settings: repository.settings || {}
+    }))
+  } catch (error) {
+    throw new Error('获取快照仓库失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+})
+
+/**
+ * 创建或更新快照仓库，fs 类型的 location 需要在 path.repo 中配置
+ */
+ipcMain.handle('elasticsearch:create-snapshot-repository', async (_event, connection: ElasticsearchConnection, name: string, type: SnapshotRepositoryType, settings: Record<string, any>) => {
+  try {
+    if (!SNAPSHOT_REPOSITORY_TYPES.includes(type)) {
+      throw new Error(`不支持的仓库类型: ${type}`)
+    }
+    const repository = { type, settings } as estypes.SnapshotRepository
+    const client = await getClient(connection)
+    return await client.snapshot.createRepository({ name, repository })
+  } catch (error) {
+    throw new Error('创建快照仓库失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+})
+
+/**
+ * 删除快照仓库，仓库中的快照文件不会被删除
+ */
+ipcMain.handle('elasticsearch:delete-snapshot-repository', async (_event, connection: ElasticsearchConnection, name: string) => {
+  try {
+    const client = await getClient(connection)
+    return await client.snapshot.deleteRepository({ name })
+  } catch (error) {
+    throw new Error('删除快照仓库失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+})
+
+/**
+ * 验证快照仓库，返回能够访问仓库的节点名称
+ */
+ipcMain.handle('elasticsearch:verify-snapshot-repository', async (_event, connection: ElasticsearchConnection, name: string): Promise<string[]> => {
+  try {
+    const client = await getClient(connection)
+    const response = await client.snapshot.verifyRepository({ name })
+    return Object.entries(response.nodes).map(([id, node]) => node.name || id)
+  } catch (error) {
+    throw new Error('验证快照仓库失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+})
+
+/**
+ * 获取仓库中的快照，按开始时间倒序
+ */
+ipcMain.handle('elasticsearch:get-snapshots', async (_event, connection: ElasticsearchConnection, repository: string): Promise<SnapshotInfo[]> => {
+  try {
+    const client = await getClient(connection)
+    const response = await client.snapshot.get({
+      repository,
+      snapshot: '*',
+      index_details: true,
+      sort: 'start_time',
+      order: 'desc'
+    })
+
+    return (response.snapshots || []).map(item => {
+      const details = Object.values(item.index_details || {})
+      return {
+        snapshot: item.snapshot,
+        uuid: item.uuid,
+        repository,
+        state: item.state || 'UNKNOWN',
+        indices: item.indices || [],
+        dataStreams: item.data_streams || [],
+        includeGlobalState: Boolean(item.include_global_state),
+        startTime: item.start_time_in_millis,
+        endTime: item.end_time_in_millis || undefined,
+        durationMs: item.duration_in_millis,
+        shards: {
+          total: item.shards?.total ?? 0,
+          successful: item.shards?.successful ?? 0,
+          failed: item.shards?.failed ?? 0
+        },
+        sizeBytes: details.length > 0 ? details.reduce((sum, detail) => sum + (detail.size_in_bytes || 0), 0) : undefined,
+        failures: (item.failures || []).map(failure => `${failure.index}[${failure.shard_id}]: ${failure.reason}`)
+      }
+    })
+  } catch (error) {
+    throw new Error('获取快照失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+})
+
+/**
+ * 创建快照
+ * 使用 wait_for_completion=false 在后台执行，快照列表中显示为 IN_PROGRESS 直到完成
+ */
+ipcMain.handle('elasticsearch:create-snapshot', async (_event, connection: ElasticsearchConnection, request: CreateSnapshotRequest) => {
+  try {
+    const client = await getClient(connection)
+    return await client.snapshot.create({
+      repository: request.repository,
+      snapshot: request.snapshot,
+      wait_for_completion: false,
+      indices: request.indices.length > 0 ? request.indices : undefined,
+      include_global_state: request.includeGlobalState,
+      ignore_unavailable: request.ignoreUnavailable
+    })
+  } catch (error) {
+    throw new Error('创建快照失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+})
+
+/**
+ * 删除快照，进行中的快照会被中止
+ */
+ipcMain.handle('elasticsearch:delete-snapshot', async (_event, connection: ElasticsearchConnection, repository: string, snapshot: string) => {
+  try {
+    const client = await getClient(connection)
+    return await client.snapshot.delete({ repository, snapshot })
+  } catch (error) {
+    throw new Error('删除快照失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+})
+
+/**
+ * 恢复快照
+ * 使用 wait_for_completion=false 在后台执行，不恢复集群全局状态，进度通过 get-restore-progress 查询
+ */
+ipcMain.handle('elasticsearch:restore-snapshot', async (_event, connection: ElasticsearchConnection, request: RestoreSnapshotRequest) => {
+  try {
+    const client = await getClient(connection)
+    return await client.snapshot.restore({
+      repository: request.repository,
+      snapshot: request.snapshot,
+      wait_for_completion: false,
+      indices: request.indices,
+      include_global_state: false,
+      include_aliases: request.includeAliases,
+      ...(request.renamePattern ? { rename_pattern: request.renamePattern, rename_replacement: request.renameReplacement ?? '' } : {}),
+      ...(request.indexSettings ? { index_settings: request.indexSettings } : {}),
+      ...(request.ignoreIndexSettings?.length ? { ignore_index_settings: request.ignoreIndexSettings } : {})
+    })
+  } catch (error) {
+    throw new Error('恢复快照失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+})
+
+/**
+ * 获取恢复进度
+ * 按索引汇总分片恢复状态，索引尚未创建时 exists 为 false
+ */
+ipcMain.handle('elasticsearch:get-restore-progress', async (_event, connection: ElasticsearchConnection, indices: string[]): Promise<RestoreIndexProgress[]> => {
+  try {
+    const client = await getClient(connection)
+    const response: Record<string, any> = await client.indices.recovery(
+      { index: indices },
+      { ignore: [404], querystring: { ignore_unavailable: true, allow_no_indices: true } }
+    )
+
+    return indices.map(index => {
+      const shards: any[] = response[index]?.shards || []
+      return {
+        index,
+        exists: index in response,
+        totalShards: shards.length,
+        doneShards: shards.filter(shard => shard.stage === 'DONE').length,
+        totalBytes: shards.reduce((sum, shard) => sum + (shard.index?.size?.total_in_bytes ?? 0), 0),
+        recoveredBytes: shards.reduce((sum, shard) => sum + (shard.index?.size?.recovered_in_bytes ?? 0), 0)
+      }
+    })
+  } catch (error) {
+    throw new Error('获取恢复进度失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+})
+
+/**
+ * 选择要导入的文件，取消时返回 null
+ * 返回的令牌用于预览和导入，主进程只读取用户在对话框中选择的文件
+ */
+ipcMain.handle('elasticsearch:select-import-file', async (event): Promise<SelectedFile | null> => {
+  const options: Electron.OpenDialogOptions = {
+    title: '选择导入文件',
+    properties: ['openFile'],
+    filters: [
+      { name: '数据文件', extensions: ['ndjson', 'jsonl', 'json', 'csv', 'tsv'] },
+      { name: '所有文件', extensions: ['*'] }
+    ]
+  }
+  const window = BrowserWindow.fromWebContents(event.sender)
+  const result = window ? await dialog.showOpenDialog(window, options) : await dialog.showOpenDialog(options)
+  return result.canceled || !result.filePaths[0] ? null : registerSelectedFile(result.filePaths[0], 'import')
+})
+
+/**
+ * 预览导入文件并推断字段类型
+ */
+ipcMain.handle('elasticsearch:preview-import-file', async (_event, fileToken: string, options?: bulkImport.ImportPreviewOptions) => {
+  try {
+    return await bulkImport.previewImportFile(resolveSelectedFile(fileToken, 'import'), options)
+  } catch (error) {
+    throw new Error('读取导入文件失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+})
+
+/**
+ * 批量导入文件
+ * 源文件由 select-import-file 返回的令牌指定
+ * 进度通过 elasticsearch:import-progress 事件发送给发起导入的窗口，完成后返回结果
+ */
+ipcMain.handle('elasticsearch:bulk-import', async (event, connection: ElasticsearchConnection, importRequest: Omit<bulkImport.ImportRequest, 'filePath'> & { fileToken: string }) => {
+  const { fileToken, ...rest } = importRequest
+  const request: bulkImport.ImportRequest = { ...rest, filePath: resolveSelectedFile(fileToken, 'import') }
+
+  let client
+  try {
+    client = await getClient(connection)
+    if (request.createIndex) {
+      await client.indices.create({
+        index: request.index,
+        mappings: request.createIndex.mappings,
+        ...(request.createIndex.settings ? { settings: request.createIndex.settings } : {})
+      })
+    }
+  } catch (error) {
+    throw new Error('创建目标索引失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+
+  try {
+    return await bulkImport.runImport(client, request, (progress) => {
+      if (!event.sender.isDestroyed()) {
+        event.sender.send('elasticsearch:import-progress', progress)
+      }
+    })
+  } catch (error) {
+    throw new Error('导入数据失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+})
+
+/**
+ * 取消进行中的导入
+ */
+ipcMain.handle('elasticsearch:cancel-import', (_event, importId: string) => {
+  return bulkImport.cancelImport(importId)
+})
+
+/**
+ * 选择导出文件的保存位置，取消时返回 null
+ * 返回的令牌用于发起导出，主进程只写入用户在对话框中选择的路径
+ */
+ipcMain.handle('elasticsearch:select-export-file', async (event, defaultName: string, format: documentExport.ExportFormat): Promise<SelectedFile | null> => {
+  const filters: Record<documentExport.ExportFormat, Electron.FileFilter> = {
+    csv: { name: 'CSV', extensions: ['csv'] },
+    ndjson: { name: 'NDJSON', extensions: ['ndjson', 'jsonl'] },
+    xlsx: { name: 'Excel 工作簿', extensions: ['xlsx'] }
+  }
+  const options: Electron.SaveDialogOptions = {
+    title: '导出查询结果',
+    defaultPath: path.join(app.getPath('downloads'), `${defaultName}.${filters[format].extensions[0]}`),
+    filters: [filters[format]]
+  }
+  const window = BrowserWindow.fromWebContents(event.sender)
+  const result = window ? await dialog.showSaveDialog(window, options) : await dialog.showSaveDialog(options)
+  return result.canceled || !result.filePath ? null : registerSelectedFile(result.filePath, 'export')
+})
+
+/**
+ * 导出查询匹配的所有文档
+ * 目标文件由 select-export-file 返回的令牌指定，每个令牌只能导出一次
+ * 进度通过 elasticsearch:export-progress 事件发送给发起导出的窗口，完成后返回结果
+ */
+ipcMain.handle('elasticsearch:export-documents', async (event, connection: ElasticsearchConnection, request: Omit<documentExport.ExportRequest, 'filePath'> & { fileToken: string }) => {
+  try {
+    const { fileToken, ...rest } = request
+    const filePath = resolveSelectedFile(fileToken, 'export', true)
+    const client = await getClient(connection)
+    return await documentExport.runExport(client, { ...rest, filePath }, (progress) => {
+      if (!event.sender.isDestroyed()) {
+        event.sender.send('elasticsearch:export-progress', progress)
+      }
+    })
+  } catch (error) {
+    throw new Error('导出数据失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+})
+
+/**
+ * 取消进行中的导出
+ */
+ipcMain.handle('elasticsearch:cancel-export', (_event, exportId: string) => {
+  return documentExport.cancelExport(exportId)
+})
+
+/**
+ * 启动重建索引任务
+ * 使用 wait_for_completion=false 在后台执行，返回任务 ID 供轮询进度
+ */
+ipcMain.handle('elasticsearch:start-reindex', async (_event, connection: ElasticsearchConnection, request: ReindexRequest) => {
+  let client
+  try {
+    client = await getClient(connection)
+    if (request.createDest) {
+      await createReindexDest(client, request.source, request.dest)
+    }
+  } catch (error) {
+    throw new Error('创建目标索引失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+
+  try {
+    const result = await client.reindex({
+      wait_for_completion: false,
+      requests_per_second: request.requestsPerSecond,
+      slices: request.slices,
+      conflicts: request.conflicts,
+      source: {
+        index: request.source.split(',').map(index => index.trim()).filter(Boolean),
+        ...(request.query ? { query: request.query } : {})
+      },
+      dest: { index: request.dest },
+      ...(request.script ? { script: { source: request.script, lang: 'painless' } } : {})
+    })
+    return { taskId: String(result.task) }
+  } catch (error) {
+    throw new Error('启动重建索引失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+})
+
+/**
+ * 获取重建索引任务状态
+ */
+ipcMain.handle('elasticsearch:get-reindex-task', async (_event, connection: ElasticsearchConnection, taskId: string): Promise<ReindexTaskStatus> => {
+  try {
+    const client = await getClient(connection)
+    const result: any = await client.tasks.get({ task_id: taskId })
+    // 任务完成后以 response 中的最终统计为准
+    const status = result.response || result.task?.status || {}
+    const failures: any[] = status.failures || []
+
+    return {
+      taskId,
+      completed: Boolean(result.completed),
+      cancelled: Boolean(result.task?.cancelled || status.canceled),
+      total: status.total ?? 0,
+      created: status.created ?? 0,
+      updated: status.updated ?? 0,
+      deleted: status.deleted ?? 0,
+      noops: status.noops ?? 0,
+      versionConflicts: status.version_conflicts ?? 0,
+      batches: status.batches ?? 0,
+      requestsPerSecond: status.requests_per_second ?? -1,
+      runningTimeMs: Math.round((result.task?.running_time_in_nanos ?? 0) / 1e6),
+      failures: failures.map(failure => failure.cause?.reason || failure.reason || JSON.stringify(failure)),
+      error: result.error?.reason
+    }
+  } catch (error) {
+    throw new Error('获取任务状态失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+})
+
+/**
+ * 取消任务
+ */
+ipcMain.handle('elasticsearch:cancel-task', async (_event, connection: ElasticsearchConnection, taskId: string) => {
+  try {
+    const client = await getClient(connection)
+    return await client.tasks.cancel({ task_id: taskId })
+  } catch (error) {
+    throw new Error('取消任务失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+})
+
+/**
+ * 获取节点信息
+ */
+ipcMain.handle('elasticsearch:get-nodes-info', async (_event, connection: ElasticsearchConnection) => {
+  try {
+    const client = await getClient(connection)
+    // 获取节点基本信息
+    const info = await client.nodes.info()
+    // 获取节点统计信息
+    const stats = await client.nodes.stats()
+    
+    // 合并节点信息和统计信息
+    const nodes: { [key: string]: any } = {}
+    if (info.nodes && stats.nodes) {
+      Object.entries(info.nodes).forEach(([nodeId, nodeInfo]) => {
+        const nodeStats = stats.nodes[nodeId]
+        nodes[nodeId] = {
+          ...nodeInfo,
+          stats: nodeStats
+        }
+      })
+    }
+    
+    return { nodes }
+  } catch (error) {
+    throw new Error('获取节点信息失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+})
+
+/**
+ * 获取节点统计采样
+ * 只返回指标历史需要的累计值，速率由渲染进程根据相邻两次采样计算
+ */
+ipcMain.handle('elasticsearch:get-node-stats', async (_event, connection: ElasticsearchConnection) => {
+  try {
+    const client = await getClient(connection)
+    const stats = await client.nodes.stats({
+      metric: ['os', 'process', 'jvm', 'indices', 'fs'],
+      index_metric: ['indexing', 'search']
+    })
+    const timestamp = Date.now()
+
+    return Object.entries(stats.nodes).map(([nodeId, node]) => {
+      const collectors = Object.values(node.jvm?.gc?.collectors || {})
+      return {
+        nodeId,
+        name: node.name || nodeId,
+        timestamp,
+        cpuPercent: node.os?.cpu?.percent ?? node.process?.cpu?.percent ?? 0,
+        heapUsedBytes: node.jvm?.mem?.heap_used_in_bytes ?? 0,
+        heapMaxBytes: node.jvm?.mem?.heap_max_in_bytes ?? 0,
+        gcCollectionTimeMs: collectors.reduce((total, collector) => total + (collector.collection_time_in_millis ?? 0), 0),
+        indexingTotal: node.indices?.indexing?.index_total ?? 0,
+        searchQueryTotal: node.indices?.search?.query_total ?? 0,
+        searchQueryTimeMs: node.indices?.search?.query_time_in_millis ?? 0,
+        diskTotalBytes: node.fs?.total?.total_in_bytes ?? 0,
+        diskFreeBytes: node.fs?.total?.free_in_bytes ?? 0,
+      }
+    })
+  } catch (error) {
+    throw new Error('获取节点统计失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+})
+
+/**
+ * 获取集群健康状态
+ */
+ipcMain.handle('elasticsearch:get-cluster-health', async (_event, connection: ElasticsearchConnection) => {
+  try {
+    const client = await getClient(connection)
+    return await client.cluster.health()
+  } catch (error) {
+    throw new Error('获取集群健康状态失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+})
+
+/**
+ * 获取等待执行的集群任务
+ */
+ipcMain.handle('elasticsearch:get-pending-tasks', async (_event, connection: ElasticsearchConnection) => {
+  try {
+    const client = await getClient(connection)
+    const response = await client.cluster.pendingTasks()
+    return response.tasks.map(task => ({
+      insertOrder: task.insert_order,
+      priority: task.priority,
+      source: task.source,
+      timeInQueueMillis: Number(task.time_in_queue_millis),
+      executing: task.executing
+    }))
+  } catch (error) {
+    throw new Error('获取等待任务失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+})
+
+/**
+ * 获取分片列表
+ */
+ipcMain.handle('elasticsearch:get-shards', async (_event, connection: ElasticsearchConnection) => {
+  try {
+    const client = await getClient(connection)
+    const response = await client.cat.shards({
+      format: 'json',
+      bytes: 'b',
+      h: 'index,shard,prirep,state,docs,store,node,unassigned.reason,unassigned.at'
+    })
+
+    return response.map((shard: any) => {
+      // 迁移中的分片 node 字段形如 "源节点 -> 目标地址 目标节点ID 目标节点名"
+      const [node, relocation] = (shard.node || '').split(' -> ')
+      return {
+        index: shard.index,
+        shard: parseInt(shard.shard, 10),
+        primary: shard.prirep === 'p',
+        state: shard.state,
+        docs: shard.docs ? parseInt(shard.docs, 10) : undefined,
+        storeBytes: shard.store ? parseInt(shard.store, 10) : undefined,
+        node: node || undefined,
+        relocatingNode: relocation ? relocation.split(' ').pop() : undefined,
+        unassignedReason: shard['unassigned.reason'] || undefined,
+        unassignedAt: shard['unassigned.at'] || undefined,
+      }
+    })
+  } catch (error) {
+    throw new Error('获取分片信息失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+})
+
+/**
+ * 获取节点磁盘使用情况和磁盘水位线配置
+ */
+ipcMain.handle('elasticsearch:get-disk-allocation', async (_event, connection: ElasticsearchConnection) => {
+  try {
+    const client = await getClient(connection)
+    const [allocation, settings] = await Promise.all([
+      client.cat.allocation({
+        format: 'json',
+        bytes: 'b',
+        h: 'node,shards,disk.used,disk.avail,disk.total,disk.percent'
+      }),
+      client.cluster.getSettings({
+        flat_settings: true,
+        include_defaults: true
+      })
+    ])
+
+    // 临时设置优先于持久设置，未设置时使用默认值
+    const getSetting = (key: string): string | undefined => {
+      const value = settings.transient?.[key] ?? settings.persistent?.[key] ?? settings.defaults?.[key]
+      return value === undefined ? undefined : String(value)
+    }
+    const parseNumber = (value?: string) => value ? parseInt(value, 10) : undefined
+
+    return {
+      nodes: allocation
+        .filter((row: any) => row.node && row.node !== 'UNASSIGNED')
+        .map((row: any) => ({
+          node: row.node,
+          shards: parseInt(row.shards, 10),
+          diskUsedBytes: parseNumber(row['disk.used']),
+          diskAvailBytes: parseNumber(row['disk.avail']),
+          diskTotalBytes: parseNumber(row['disk.total']),
+          diskPercent: parseNumber(row['disk.percent']),
+        })),
+      watermarks: {
+        enabled: getSetting('cluster.routing.allocation.disk.threshold_enabled') !== 'false',
+        low: getSetting('cluster.routing.allocation.disk.watermark.low') || '85%',
+        high: getSetting('cluster.routing.allocation.disk.watermark.high') || '90%',
+        floodStage: getSetting('cluster.routing.allocation.disk.watermark.flood_stage') || '95%',
+      }
+    }
+  } catch (error) {
+    throw new Error('获取磁盘分配信息失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+})
+
+/**
+ * 解释分片分配情况
+ */
+ipcMain.handle('elasticsearch:explain-allocation', async (_event, connection: ElasticsearchConnection, index: string, shard: number, primary: boolean) => {
+  try {
+    const client = await getClient(connection)
+    return await client.cluster.allocationExplain({
+      index,
+      shard,
+      primary,
+      include_disk_info: true
+    })
+  } catch (error) {
+    throw new Error('获取分片分配说明失败: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+})
+
+/**
+ * 局部更新文档
+ */
+ipcMain.handle('elasticsearch:update-document', async (_event, connection: ElasticsearchConnection, index: string, id: string, doc: any, options?: DocumentWriteOptions) => {
+  try {
+    const client = await getClient(connection)
+    const result = await client.update({
+      index,
+      id,
+      doc,
+      ...toWriteParams(options)
+    })
+    return result
+  } catch (error) {
+    throw toDocumentError('更新', id, error)
+  }
+})
+
+/**
+ * 写入文档（创建或整体替换）
+ * 未指定 id 时由 Elasticsearch 自动生成
+ */
+ipcMain.handle('elasticsearch:index-document', async (_event, connection: ElasticsearchConnection, index: string, document: any, id?: string, options?: DocumentWriteOptions) => {
+  try {
+    const client = await getClient(connection)
+    const result = await client.index({
+      index,
+      id,
+      document,
+      ...toWriteParams(options)
+    })
+    return result
+  } catch (error) {
+    throw toDocumentError('保存', id, error)
+  }
+})
+
+/**
+ * 删除文档
+ */
+ipcMain.handle('elasticsearch:delete-document', async (_event, connection: ElasticsearchConnection, index: string, id: string, options?: DocumentWriteOptions) => {
+  try {
+    const client = await getClient(connection)
+    const result = await client.delete({
+      index,
+      id,
+      ...toWriteParams(options)
+    })
+    return result
+  } catch (error) {
+    throw toDocumentError('删除', id, error)
   }
 })
 
@@ -0,0 +1,235 @@
+import fs from 'fs'
+import path from 'path'
+import { app, session } from 'electron'
+import { ClientOptions, HttpConnection } from '@elastic/elasticsearch'
+import { SocksProxyAgent } from 'socks-proxy-agent'
+import { logger } from './utils.js'
+import { getCredential, saveCredential } from './credential-vault.js'
+
+/**
+ * 代理协议
+ */
+export type ProxyProtocol = 'http' | 'https' | 'socks5'
+
+/**
+ * 代理配置
+ * noProxy 中的主机名不经过代理，支持精确匹配、.example.com 后缀匹配和 * 通配
+ */
+export interface ProxyProfile {
+  protocol: ProxyProtocol
+  host: string
+  port: number
+  username?: string
+  password?: string
+  noProxy?: string[]
+}
+
+/**
+ * 全局代理配置
+ * 密码保存在凭据库中，配置文件只保存凭据引用
+ */
+export interface GlobalProxySettings extends ProxyProfile {
+  enabled: boolean
+  credentialId?: string
+}
+
+/**
+ * 连接的代理模式
+ * global: 使用全局代理；none: 直连；custom: 使用连接自己的代理配置
+ */
+export type ProxyMode = 'global' | 'none' | 'custom'
+
+const DEFAULT_GLOBAL_PROXY: GlobalProxySettings = {
+  enabled: false,
+  protocol: 'http',
+  host: '',
+  port: 8080,
+  noProxy: []
+}
+
+let globalProxy: GlobalProxySettings = DEFAULT_GLOBAL_PROXY
+
+/**
+ * 获取代理配置文件路径
+ */
+function getProxySettingsPath(): string {
+  return path.join(app.getPath('userData'), 'proxy-settings.json')
+}
+
+/**
+ * 读取已保存的全局代理配置
+ */
+function loadGlobalProxy(): void {
+  const settingsPath = getProxySettingsPath()
+  try {
+    if (fs.existsSync(settingsPath)) {
+      globalProxy = { ...DEFAULT_GLOBAL_PROXY, ...JSON.parse(fs.readFileSync(settingsPath, 'utf-8')) }
+    }
+  } catch (error) {
+    logger.error('读取代理配置失败:', error)
+  }
+}
+
+/**
+ * 获取代理地址，作为代理密码在凭据库中绑定的目标
+ */
+function getProxyTarget(profile: Pick<ProxyProfile, 'protocol' | 'host' | 'port'>): string {
+  return `${profile.protocol}://${profile.host}:${profile.port}`
+}
+
+/**
+ * 获取全局代理配置，不包含密码
+ */
+function getGlobalProxy(): GlobalProxySettings {
+  const { password: _password, ...settings } = globalProxy
+  return settings
+}
+
+/**
+ * 保存全局代理配置
+ * 传入密码时写入凭据库，传入空字符串表示清除已保存的密码；修改代理地址时需要重新输入已保存的密码
+ */
+async function setGlobalProxy(settings: GlobalProxySettings): Promise<GlobalProxySettings> {
+  const { password, ...rest } = settings
+  const next: GlobalProxySettings = { ...rest, credentialId: globalProxy.credentialId }
+
+  if (password || next.credentialId) {
+    next.credentialId = saveCredential(next.credentialId || null, { proxyPassword: password }, getProxyTarget(next))
+  }
+
+  fs.writeFileSync(getProxySettingsPath(), JSON.stringify(next, null, 2))
+  globalProxy = next
+  await applySessionProxy()
+  return getGlobalProxy()
+}
+
+/**
+ * 读取全局代理的密码
+ * 凭据库锁定时返回 undefined，由代理服务器返回认证失败
+ */
+function getGlobalProxyPassword(): string | undefined {
+  if (!globalProxy.credentialId) {
+    return undefined
+  }
+  try {
+    return getCredential(globalProxy.credentialId, getProxyTarget(globalProxy)).proxyPassword
+  } catch (error) {
+    logger.warn('读取代理密码失败:', error)
+    return undefined
+  }
+}
+
+/**
+ * 将全局代理应用到渲染进程会话，Ollama 等渲染进程中的请求经由该会话发出
+ * 本地回环地址始终直连
+ */
+async function applySessionProxy(): Promise<void> {
+  if (!globalProxy.enabled || !globalProxy.host) {
+    await session.defaultSession.setProxy({ mode: 'direct' })
+    return
+  }
+
+  // Chromium 不支持 SOCKS 代理认证，渲染进程中的请求会连接失败
+  if (globalProxy.protocol === 'socks5' && globalProxy.username) {
+    logger.warn('全局代理为需要认证的 SOCKS5 代理，Ollama 等渲染进程请求无法通过该代理认证')
+  }
+
+  await session.defaultSession.setProxy({
+    mode: 'fixed_servers',
+    proxyRules: `${globalProxy.protocol}://${globalProxy.host}:${globalProxy.port}`,
+    proxyBypassRules: ['<local>', ...(globalProxy.noProxy || [])].join(',')
+  })
+  logger.info(`已启用全局代理: ${globalProxy.protocol}://${globalProxy.host}:${globalProxy.port}`)
+}
+
+/**
+ * 响应渲染进程会话的代理认证请求
+ */
+function getSessionProxyCredentials(proxyHost: string): { username: string; password: string } | null {
+  if (!globalProxy.enabled || !globalProxy.username || proxyHost !== globalProxy.host) {
+    return null
+  }
+  return {
+    username: globalProxy.username,
+    password: getGlobalProxyPassword() || ''
+  }
+}
+
+/**
+ * 判断主机名是否命中不代理列表
+ */
+function matchesNoProxy(hostname: string, noProxy: string[] = []): boolean {
+  const host = hostname.toLowerCase()
+  return noProxy.some(entry => {
+    const pattern = entry.trim().toLowerCase()
+    if (!pattern) return false
+    if (pattern === '*') return true
+    if (pattern.startsWith('.')) {
+      return host.endsWith(pattern) || host === pattern.slice(1)
+    }
+    return host === pattern
+  })
+}
+
+/**
+ * 获取连接实际使用的代理
+ * 所有节点都命中不代理列表时直连
+ */
+function resolveProxy(mode: ProxyMode = 'global', custom: ProxyProfile | undefined, nodeUrls: string[]): ProxyProfile | undefined {
+  let profile: ProxyProfile | undefined
+  if (mode === 'custom') {
+    profile = custom
+  } else if (mode === 'global' && globalProxy.enabled) {
+    profile = { ...globalProxy, password: getGlobalProxyPassword() }
+  }
+
+  if (!profile?.host) {
+    return undefined
+  }
+  const hostnames = nodeUrls.map(url => new URL(url).hostname)
+  if (hostnames.length > 0 && hostnames.every(hostname => matchesNoProxy(hostname, profile?.noProxy))) {
+    return undefined
+  }
+  return profile
+}
+
+/**
+ * 构建代理地址，用户名和密码编码后放在地址中
+ * SOCKS5 使用 socks5h，由代理服务器解析集群主机名，内网域名在本机通常无法解析
+ */
+function getProxyUrl(profile: ProxyProfile): string {
+  const auth = profile.username
+    ? `${encodeURIComponent(profile.username)}:${encodeURIComponent(profile.password || '')}@`
+    : ''
+  const scheme = profile.protocol === 'socks5' ? 'socks5h' : profile.protocol
+  return `${scheme}://${auth}${profile.host}:${profile.port}`
+}
+
+/**
+ * 根据代理配置构建客户端选项
+ * 代理需要使用基于 http 模块的连接实现，SOCKS5 通过自定义 agent 实现，TLS 选项随 agent 传入
+ */
+function buildProxyOptions(profile: ProxyProfile): Pick<ClientOptions, 'Connection' | 'proxy' | 'agent'> {
+  const proxyUrl = getProxyUrl(profile)
+  if (profile.protocol === 'socks5') {
+    return {
+      Connection: HttpConnection,
+      agent: (opts) => new SocksProxyAgent(proxyUrl, { ...(opts.tls || {}) })
+    }
+  }
+  return {
+    Connection: HttpConnection,
+    proxy: proxyUrl
+  }
+}
+
+export {
+  loadGlobalProxy,
+  getGlobalProxy,
+  setGlobalProxy,
+  applySessionProxy,
+  getSessionProxyCredentials,
+  resolveProxy,
+  buildProxyOptions,
+  getProxyTarget
+}
@@ -0,0 +1,371 @@
+import fs from 'fs'
+import os from 'os'
+import net from 'net'
+import path from 'path'
+import crypto from 'crypto'
+import { app, dialog } from 'electron'
+import { Client as SshClient, ConnectConfig } from 'ssh2'
+import { logger } from './utils.js'
+
+/**
+ * SSH 隧道配置
+ * 通过跳板机将本地端口转发到集群节点，localPort 为空时自动分配
+ */
+export interface SshTunnelProfile {
+  enabled?: boolean
+  host: string
+  port?: number
+  username: string
+  authMethod?: 'privateKey' | 'password'
+  privateKeyPath?: string
+  passphrase?: string
+  password?: string
+  localPort?: number
+}
+
+/**
+ * 已建立的 SSH 隧道
+ */
+export interface SshTunnel {
+  localPort: number
+  close: () => Promise<void>
+}
+
+/**
+ * SSH 隧道错误
+ * 用于区分隧道建立失败和集群本身不可达
+ */
+export class SshTunnelError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SshTunnelError'
+  }
+}
+
+/**
+ * known_hosts 中的一条记录
+ * marker 为 @revoked 或 @cert-authority，普通记录没有 marker
+ */
+interface KnownHostEntry {
+  marker?: string
+  patterns: string
+  keyType: string
+  key: Buffer
+}
+
+/**
+ * 主机密钥校验结果
+ */
+type HostKeyStatus = 'trusted' | 'unknown' | 'mismatch'
+
+const READY_TIMEOUT = 15000
+const KEEPALIVE_INTERVAL = 30000
+
+// 等待用户确认的主机密钥，同一跳板机的并发连接共用一次确认
+const pendingConfirmations = new Map<string, Promise<boolean>>()
+
+/**
+ * 获取应用自己的 known_hosts 文件路径，保存用户确认信任的主机密钥
+ */
+function getAppKnownHostsPath(): string {
+  return path.join(app.getPath('userData'), 'known_hosts')
+}
+
+/**
+ * 读取 known_hosts 文件，文件不存在时返回空列表
+ */
+function readKnownHosts(filePath: string): KnownHostEntry[] {
+  let content: string
+  try {
+    content = fs.readFileSync(filePath, 'utf-8')
+  } catch (error) {
+    return []
+  }
+
+  return content.split(/\r?\n/).flatMap(line => {
+    const fields = line.trim().split(/\s+/)
+    if (!fields[0] || fields[0].startsWith('#')) return []
+    const marker = fields[0].startsWith('@') ? fields.shift() : undefined
+    if (fields.length < 3) return []
+    return [{ marker, patterns: fields[0], keyType: fields[1], key: Buffer.from(fields[2], 'base64') }]
+  })
+}
+
+/**
+ * 获取 known_hosts 中的主机名写法，非 22 端口写作 [host]:port
+ */
+function getHostToken(host: string, port: number): string {
+  const hostname = host.toLowerCase()
+  return port === 22 ? hostname : `[${hostname}]:${port}`
+}
+
+/**
+ * 判断主机名是否匹配 known_hosts 记录的主机列表
+ * 支持哈希主机名、* 和 ? 通配以及 ! 排除
+ */
+function matchesHostPatterns(patterns: string, hostToken: string): boolean {
+  let matched = false
+  for (const pattern of patterns.split(',')) {
+    if (pattern.startsWith('|1|')) {
+      const [, , salt, hash] = pattern.split('|')
+      const digest = crypto.createHmac('sha1', Buffer.from(salt, 'base64')).update(hostToken).digest('base64')
+      if (digest === hash) matched = true
+      continue
+    }
+
+    const negated = pattern.startsWith('!')
+    const glob = (negated ? pattern.slice(1) : pattern).toLowerCase()
+    const regex = new RegExp('^' + glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.') + '$')
+    if (regex.test(hostToken)) {
+      if (negated) return false
+      matched = true
+    }
+  }
+  return matched
+}
+
+/**
+ * 读取公钥中的密钥类型，如 ssh-ed25519
+ */
+function getKeyType(key: Buffer): string {
+  return key.subarray(4, 4 + key.readUInt32BE(0)).toString()
+}
+
+/**
+ * 计算与 ssh-keygen -l 一致的 SHA256 指纹
+ */
+function getKeyFingerprint(key: Buffer): string {
+  return 'SHA256:' + crypto.createHash('sha256').update(key).digest('base64').replace(/=+$/, '')
+}
+
+/**
+ * 按 ~/.ssh/known_hosts 和应用已信任的记录校验跳板机的主机密钥
+ * 记录中有同类型的其他密钥或密钥已被吊销时视为不一致
+ */
+function checkHostKey(host: string, port: number, key: Buffer): HostKeyStatus {
+  const hostToken = getHostToken(host, port)
+  const keyType = getKeyType(key)
+  const entries = [
+    ...readKnownHosts(path.join(os.homedir(), '.ssh', 'known_hosts')),
+    ...readKnownHosts(getAppKnownHostsPath())
+  ].filter(entry => entry.marker !== '@cert-authority' && matchesHostPatterns(entry.patterns, hostToken))
+
+  if (entries.some(entry => entry.marker === '@revoked' && entry.key.equals(key))) {
+    return 'mismatch'
+  }
+  const sameType = entries.filter(entry => !entry.marker && entry.keyType === keyType)
+  if (sameType.some(entry => entry.key.equals(key))) {
+    return 'trusted'
+  }
+  return sameType.length > 0 ? 'mismatch' : 'unknown'
+}
+
+/**
+ * 首次连接时请用户确认主机密钥指纹，确认后写入应用的 known_hosts
+ */
+function confirmHostKey(host: string, port: number, key: Buffer): Promise<boolean> {
+  const fingerprint = getKeyFingerprint(key)
+  const confirmationKey = `${getHostToken(host, port)} ${fingerprint}`
+  const pending = pendingConfirmations.get(confirmationKey)
+  if (pending) {
+    return pending
+  }
+
+  const confirmation = dialog.showMessageBox({
+    type: 'warning',
+    title: '确认跳板机主机密钥',
+    message: `首次连接跳板机 ${host}:${port}，无法确认其身份`,
+    detail: `主机密钥指纹（${getKeyType(key)}）:\n${fingerprint}\n\n请与跳板机管理员核对指纹一致后再继续。`,
+    buttons: ['信任并连接', '取消'],
+    defaultId: 1,
+    cancelId: 1
+  }).then(({ response }) => {
+    if (response !== 0) {
+      return false
+    }
+    fs.appendFileSync(getAppKnownHostsPath(), `${getHostToken(host, port)} ${getKeyType(key)} ${key.toString('base64')}\n`, { mode: 0o600 })
+    logger.info(`已信任跳板机主机密钥: ${host}:${port} ${fingerprint}`)
+    return true
+  }).finally(() => {
+    pendingConfirmations.delete(confirmationKey)
+  })
+
+  pendingConfirmations.set(confirmationKey, confirmation)
+  return confirmation
+}
+
+/**
+ * 构建 SSH 连接参数
+ */
+function buildConnectConfig(profile: SshTunnelProfile): ConnectConfig {
+  if (!profile.host || !profile.username) {
+    throw new SshTunnelError('请填写跳板机地址和用户名')
+  }
+
+  const config: ConnectConfig = {
+    host: profile.host,
+    port: profile.port || 22,
+    username: profile.username,
+    readyTimeout: READY_TIMEOUT,
+    keepaliveInterval: KEEPALIVE_INTERVAL
+  }
+
+  if (profile.authMethod === 'password') {
+    if (!profile.password) {
+      throw new SshTunnelError('请填写跳板机密码')
+    }
+    config.password = profile.password
+    return config
+  }
+
+  if (!profile.privateKeyPath) {
+    throw new SshTunnelError('请填写私钥文件路径')
+  }
+  try {
+    config.privateKey = fs.readFileSync(profile.privateKeyPath)
+  } catch (error) {
+    throw new SshTunnelError(`无法读取私钥文件 ${profile.privateKeyPath}: ` + (error instanceof Error ? error.message : '未知错误'))
+  }
+  if (profile.passphrase) {
+    config.passphrase = profile.passphrase
+  }
+  return config
+}
+
+/**
+ * 连接跳板机
+ * 主机密钥未知时断开连接并返回收到的密钥，由调用方确认后重新连接
+ */
+function connectSsh(config: ConnectConfig): Promise<SshClient | { unknownHostKey: Buffer }> {
+  const host = config.host as string
+  const port = config.port as number
+
+  return new Promise((resolve, reject) => {
+    const ssh = new SshClient()
+    let hostKeyStatus: HostKeyStatus | undefined
+    let hostKey: Buffer | undefined
+
+    const onError = (error: Error) => {
+      if (hostKeyStatus === 'unknown' && hostKey) {
+        resolve({ unknownHostKey: hostKey })
+      } else if (hostKeyStatus === 'mismatch' && hostKey) {
+        reject(new SshTunnelError(`跳板机 ${host}:${port} 的主机密钥（${getKeyFingerprint(hostKey)}）与 known_hosts 中的记录不一致，可能存在中间人攻击，已拒绝连接`))
+      } else {
+        reject(new SshTunnelError(`无法连接跳板机 ${host}:${port}: ${error.message}`))
+      }
+    }
+
+    ssh.once('error', onError)
+    ssh.once('ready', () => {
+      ssh.removeListener('error', onError)
+      // 建立后的连接错误只记录日志，由 close 事件负责清理
+      ssh.on('error', (error) => logger.error(`SSH 隧道连接错误 (${config.host}):`, error))
+      resolve(ssh)
+    })
+    ssh.connect({
+      ...config,
+      hostVerifier: (key: Buffer): boolean => {
+        hostKey = key
+        hostKeyStatus = checkHostKey(host, port, key)
+        return hostKeyStatus === 'trusted'
+      }
+    })
+  })
+}
+
+/**
+ * 连接跳板机并校验主机密钥
+ * 不在 known_hosts 中的跳板机需要用户确认指纹，密钥不一致时拒绝连接
+ */
+async function connectVerifiedSsh(config: ConnectConfig): Promise<SshClient> {
+  const result = await connectSsh(config)
+  if (result instanceof SshClient) {
+    return result
+  }
+
+  const host = config.host as string
+  const port = config.port as number
+  if (!await confirmHostKey(host, port, result.unknownHostKey)) {
+    throw new SshTunnelError(`未信任跳板机 ${host}:${port} 的主机密钥，已取消连接`)
+  }
+
+  // 重新连接时按刚信任的密钥校验，期间密钥发生变化会被拒绝
+  const retried = await connectSsh(config)
+  if (retried instanceof SshClient) {
+    return retried
+  }
+  throw new SshTunnelError(`跳板机 ${host}:${port} 的主机密钥在确认期间发生变化，已拒绝连接`)
+}
+
+/**
+ * 在本地回环地址上监听端口，返回实际监听的端口
+ */
+function listen(server: net.Server, port: number): Promise<number> {
+  return new Promise((resolve, reject) => {
+    server.once('error', (error) => {
+      reject(new SshTunnelError(`无法监听本地端口 ${port}: ${error.message}`))
+    })
+    server.listen(port, '127.0.0.1', () => {
+      resolve((server.address() as net.AddressInfo).port)
+    })
+  })
+}
+
+/**
+ * 建立 SSH 隧道
+ * 本地端口上的每个连接都通过跳板机转发到目标地址；跳板机连接意外断开时调用 onClose
+ */
+async function openTunnel(
+  profile: SshTunnelProfile,
+  targetHost: string,
+  targetPort: number,
+  onClose?: () => void
+): Promise<SshTunnel> {
+  const ssh = await connectVerifiedSsh(buildConnectConfig(profile))
+
+  const server = net.createServer((socket) => {
+    ssh.forwardOut('127.0.0.1', socket.remotePort || 0, targetHost, targetPort, (error, stream) => {
+      if (error) {
+        logger.error(`SSH 隧道转发到 ${targetHost}:${targetPort} 失败:`, error)
+        socket.destroy()
+        return
+      }
+      socket.on('error', () => stream.destroy())
+      stream.on('error', () => socket.destroy())
+      socket.pipe(stream).pipe(socket)
+    })
+  })
+
+  let localPort: number
+  try {
+    localPort = await listen(server, profile.localPort || 0)
+  } catch (error) {
+    ssh.end()
+    throw error
+  }
+  server.on('error', (error) => logger.error('SSH 隧道本地端口错误:', error))
+
+  let closing = false
+  ssh.on('close', () => {
+    server.close()
+    if (!closing) {
+      logger.warn(`SSH 隧道已断开: ${profile.host}`)
+      onClose?.()
+    }
+  })
+
+  logger.info(`SSH 隧道已建立: 127.0.0.1:${localPort} -> ${targetHost}:${targetPort}（经由 ${profile.host}）`)
+
+  return {
+    localPort,
+    close: () => new Promise((resolve) => {
+      closing = true
+      ssh.end()
+      server.close(() => resolve())
+    })
+  }
+}
+
+export {
+  openTunnel
+}
@@ -0,0 +1,79 @@
+import fs from 'fs'
+import { once } from 'events'
+import ExcelJS from 'exceljs'
+
+/**
+ * 单元格的值，null 表示空单元格
+ */
+export type XlsxCell = string | number | boolean | null
+
+/**
+ * 流式写入的 XLSX 工作表
+ */
+export interface XlsxWriter {
+  writeRow: (cells: XlsxCell[]) => Promise<void>
+  close: () => Promise<void>
+  abort: () => Promise<void>
+}
+
+// Excel 单个工作表的最大行数
+export const XLSX_MAX_ROWS = 1048576
+
+// Excel 单元格的最大字符数
+const MAX_CELL_LENGTH = 32767
+
+/**
+ * 转换为 Excel 能接受的单元格值，超长文本截断，非有限数字留空
+ */
+function toCellValue(value: XlsxCell): string | number | boolean | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null
+  if (typeof value === 'string') return value.length > MAX_CELL_LENGTH ? value.slice(0, MAX_CELL_LENGTH) : value
+  return value
+}
+
+/**
+ * 创建只有一个工作表的 XLSX 文件
+ * 使用 exceljs 的流式写入器逐行提交，不使用共享字符串表，内存占用与行数无关
+ */
+export async function createXlsxWriter(filePath: string, sheetName = 'Sheet1'): Promise<XlsxWriter> {
+  const output = fs.createWriteStream(filePath)
+  await once(output, 'open')
+
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: true, useSharedStrings: false })
+  // 冻结表头
+  const worksheet = workbook.addWorksheet(sheetName, { views: [{ state: 'frozen', ySplit: 1 }] })
+
+  let rowCount = 0
+
+  return {
+    writeRow: async (cells) => {
+      if (rowCount >= XLSX_MAX_ROWS) {
+        throw new Error(`XLSX 工作表最多 ${XLSX_MAX_ROWS} 行`)
+      }
+      rowCount += 1
+      const row = worksheet.addRow(cells.map(toCellValue))
+      // 第一行为表头，使用加粗样式
+      if (rowCount === 1) {
+        row.font = { bold: true }
+      }
+      row.commit()
+      // 写入跟不上时等待，避免压缩后的数据堆积在内存中
+      if (output.writableNeedDrain) {
+        await once(output, 'drain')
+      }
+    },
+    close: async () => {
+      worksheet.commit()
+      await workbook.commit()
+      if (!output.closed) {
+        await once(output, 'close')
+      }
+    },
+    abort: async () => {
+      // 压缩流中可能还有未写完的数据，销毁后的写入错误不再处理
+      output.on('error', () => undefined)
+      output.destroy()
+      await fs.promises.rm(filePath, { force: true })
+    }
+  }
+}
@@ -2,9 +2,16 @@ import React from 'react'
 import { Toaster } from '@/components/ui/toaster'
 import { ThemeProvider } from '@/components/theme-provider'
 import { Layout } from '@/components/layout/Layout'
+import { VaultUnlockDialog } from '@/components/VaultUnlockDialog'
 import { useAppStore } from '@/stores/app-store'
 import { useElasticsearchStore } from '@/stores/elasticsearch-store'
 import { useAIStore } from '@/stores/ai-store'
+import { useVaultStore } from '@/stores/vault-store'
+import { useMetricsStore } from '@/stores/metrics-store'
+import { useAlertStore } from '@/stores/alert-store'
+import { useSettingsStore } from '@/stores/settings-store'
+import { useRefreshScheduler } from '@/hooks/use-refresh-scheduler'
+import { toast } from '@/hooks/use-toast'
 
 /**
  * 主应用组件
@@ -24,8 +31,12 @@ function App() {
           console.log(`Magic Cube v${version} running on ${platform}`)
         }
         
-        // 检查并恢复连接状态
-        await checkAndRestoreConnections()
+        // 主密码模式下凭据库处于锁定状态，等待用户解锁后再恢复连接
+        const vaultStatus = await useVaultStore.getState().fetchStatus()
+        if (!vaultStatus || vaultStatus.unlocked || !vaultStatus.initialized) {
+          await migrateLegacyData()
+          await checkAndRestoreConnections()
+        }
         
         // 标记应用已初始化
         useAppStore.getState().setInitialized(true)
@@ -39,84 +50,91 @@ function App() {
     initializeApp()
   }, [])
 
+  // 记录处理请求的节点，主进程只在节点变化时通知
+  React.useEffect(() => {
+    if (!window.electronAPI?.elasticsearch?.onNodeResponse) return
+
+    return window.electronAPI.elasticsearch.onNodeResponse((info) => {
+      useElasticsearchStore.getState().setConnectionState(info.connectionId, {
+        lastNode: info.node,
+        lastNodeAt: info.timestamp
+      })
+    })
+  }, [])
+
+  // 按设置中的间隔自动刷新集群数据
+  useRefreshScheduler()
+
+  // 连接集群后在后台采集节点指标，断开或切换集群时停止
+  const currentConnectionId = useElasticsearchStore(state => state.currentConnection?.id)
+  const isClusterConnected = useElasticsearchStore(state => state.currentConnection?.status === 'connected')
+  React.useEffect(() => {
+    if (!isClusterConnected) return
+
+    const { startSampling, stopSampling } = useMetricsStore.getState()
+    startSampling()
+    return stopSampling
+  }, [isClusterConnected, currentConnectionId])
+
+  // 主进程按告警规则监控当前集群，断开时停止；编辑当前连接后重新发送，避免主进程使用旧的连接配置
+  const currentConnectionUpdatedAt = useElasticsearchStore(state => state.currentConnection?.updatedAt)
+  React.useEffect(() => {
+    if (!window.electronAPI?.alerts) return
+
+    const connection = useElasticsearchStore.getState().currentConnection
+    window.electronAPI.alerts.setConnection(isClusterConnected && connection ? connection : null)
+  }, [isClusterConnected, currentConnectionId, currentConnectionUpdatedAt])
+
+  const enableNotifications = useSettingsStore(state => state.enableNotifications)
+  const alertCheckInterval = useAlertStore(state => state.checkInterval)
+  React.useEffect(() => {
+    window.electronAPI?.alerts?.configure({
+      notificationsEnabled: enableNotifications,
+      intervalSeconds: alertCheckInterval
+    })
+  }, [enableNotifications, alertCheckInterval])
+
+  // 收到告警时写入告警记录，新触发的告警同时在应用内提示
+  React.useEffect(() => {
+    if (!window.electronAPI?.alerts?.onEvent) return
+
+    return window.electronAPI.alerts.onEvent((event) => {
+      useAlertStore.getState().receiveEvent(event)
+      if (event.state === 'firing') {
+        toast({
+          title: `告警: ${event.ruleName}`,
+          description: `[${event.connectionName}] ${event.message}`,
+          variant: event.severity === 'critical' ? 'destructive' : 'default'
+        })
+      }
+    })
+  }, [])
+
+  /**
+   * 迁移旧版本数据
+   * 先将旧的集群列表合并到连接仓库，再将其中的明文凭据转存到凭据库
+   */
+  const migrateLegacyData = async () => {
+    useElasticsearchStore.getState().migrateLegacyClusters()
+    await useVaultStore.getState().migrateLegacyCredentials()
+  }
+
   /**
    * 检查并恢复连接状态
-   * 从本地存储恢复集群连接状态和AI连接状态
+   * 从连接仓库恢复集群连接状态和AI连接状态
    */
   const checkAndRestoreConnections = async () => {
     try {
-      const { currentConnection, connect, setCurrentConnection } = useElasticsearchStore.getState()
+      const { connections, currentConnection, connect } = useElasticsearchStore.getState()
       const { ollamaConnected, ollamaHost, ollamaPort, connectToOllama } = useAIStore.getState()
       
-      // 检查是否有保存的当前集群ID
-      const currentClusterId = localStorage.getItem('current-cluster-id')
-      if (currentClusterId) {
-        const savedClusters = localStorage.getItem('elasticsearch-clusters')
-        if (savedClusters) {
-          const clusters = JSON.parse(savedClusters)
-          const savedCluster = clusters.find((c: any) => c.id === currentClusterId)
-          
-          if (savedCluster) {
-            // 解析主机地址、端口和协议
-            const parseHostAndPort = (hostInput: string): { host: string; port: number; protocol: 'http' | 'https' } => {
-              let protocol: 'http' | 'https' = 'http'
-              let cleanInput = hostInput
-              
-              if (hostInput.startsWith('https://')) {
-                protocol = 'https'
-                cleanInput = hostInput.replace(/^https:\/\//, '')
-              } else if (hostInput.startsWith('http://')) {
-                protocol = 'http'
-                cleanInput = hostInput.replace(/^http:\/\//, '')
-              }
-              
-              const portMatch = cleanInput.match(/^(.+):(\d+)$/)
-              if (portMatch) {
-                return {
-                  host: portMatch[1],
-                  port: parseInt(portMatch[2], 10),
-                  protocol
-                }
-              }
-              
-              return {
-                host: cleanInput,
-                port: protocol === 'https' ? 9243 : 9200,
-                protocol
-              }
-            }
-
-            const { host, port, protocol } = parseHostAndPort(savedCluster.host)
-            
-            const connectionConfig = {
-              id: savedCluster.id,
-              name: savedCluster.name,
-              host,
-              port,
-              protocol,
-              username: savedCluster.username,
-              password: savedCluster.password,
-              isDefault: false,
-              createdAt: savedCluster.createdAt || new Date().toISOString(),
-              updatedAt: new Date().toISOString()
-            }
-            
-            try {
-              setCurrentConnection(connectionConfig)
-              await connect(connectionConfig)
-              console.log('已恢复 Elasticsearch 连接:', savedCluster.name)
-            } catch (error) {
-              console.error('恢复 Elasticsearch 连接失败:', error)
-            }
-          }
-        }
-      }
-      
-      // 如果有当前连接但状态不是已连接，尝试重新连接
-      if (currentConnection && currentConnection.status !== 'connected') {
+      // 以连接仓库中的最新配置重新连接上次使用的集群
+      // 持久化的连接状态来自上次运行，主进程中的客户端需要重新建立
+      if (currentConnection) {
+        const savedConnection = connections.find(conn => conn.id === currentConnection.id) ?? currentConnection
         try {
-          await connect(currentConnection)
-          console.log('已恢复 Elasticsearch 连接')
+          await connect(savedConnection)
+          console.log('已恢复 Elasticsearch 连接:', savedConnection.name)
         } catch (error) {
           console.error('恢复 Elasticsearch 连接失败:', error)
         }
@@ -140,6 +158,14 @@ function App() {
     }
   }
 
+  /**
+   * 凭据库解锁后迁移旧凭据并恢复连接
+   */
+  const handleVaultUnlocked = async () => {
+    await migrateLegacyData()
+    await checkAndRestoreConnections()
+  }
+
   if (!isInitialized) {
     return (
       <div className="flex items-center justify-center min-h-screen bg-background">
@@ -165,6 +191,7 @@ function App() {
       <div className="min-h-screen bg-background font-sans antialiased">
         <Layout />
         <Toaster />
+        <VaultUnlockDialog onUnlocked={handleVaultUnlocked} />
       </div>
     </ThemeProvider>
   )
@@ -0,0 +1,451 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Plus, Trash2, ArrowLeftRight, RefreshCw, Search } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Switch } from '@/components/ui/switch'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { useToast } from '@/hooks/use-toast'
+import { AliasAction, AliasInfo, useElasticsearchStore } from '@/stores/elasticsearch-store'
+
+/**
+ * 新建别名表单
+ */
+interface AliasForm {
+  alias: string
+  indices: string
+  isWriteIndex: boolean
+  filter: string
+  indexRouting: string
+  searchRouting: string
+}
+
+const EMPTY_FORM: AliasForm = {
+  alias: '',
+  indices: '',
+  isWriteIndex: false,
+  filter: '',
+  indexRouting: '',
+  searchRouting: ''
+}
+
+/**
+ * 构造切换别名的操作
+ * 先从当前索引移除别名再添加到新索引，沿用原有的过滤器和路由，在同一个 _aliases 请求中原子执行
+ */
+function buildSwapActions(current: AliasInfo[], alias: string, target: string, isWriteIndex: boolean): AliasAction[] {
+  const template = current[0]
+  return [
+    ...current
+      .filter(entry => entry.index !== target)
+      .map(entry => ({ type: 'remove' as const, alias, index: entry.index })),
+    {
+      type: 'add',
+      alias,
+      index: target,
+      filter: template?.filter,
+      indexRouting: template?.indexRouting,
+      searchRouting: template?.searchRouting,
+      isWriteIndex: isWriteIndex || undefined
+    }
+  ]
+}
+
+/**
+ * 别名管理
+ * 列出别名及其索引、写入索引标记、过滤器和路由，支持新建、删除和原子切换
+ */
+export function AliasManager() {
+  const { indices, aliases, fetchAliases, updateAliases } = useElasticsearchStore()
+  const { toast } = useToast()
+
+  const [searchTerm, setSearchTerm] = useState('')
+  const [showSystem, setShowSystem] = useState(false)
+  const [isRefreshing, setIsRefreshing] = useState(false)
+
+  const [isCreateOpen, setIsCreateOpen] = useState(false)
+  const [form, setForm] = useState<AliasForm>(EMPTY_FORM)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const [swapAlias, setSwapAlias] = useState<string | null>(null)
+  const [swapTarget, setSwapTarget] = useState('')
+  const [swapWriteIndex, setSwapWriteIndex] = useState(false)
+
+  const [pendingRemoval, setPendingRemoval] = useState<AliasInfo | null>(null)
+
+  useEffect(() => {
+    fetchAliases()
+  }, [fetchAliases])
+
+  const filteredAliases = useMemo(() => {
+    const keyword = searchTerm.trim().toLowerCase()
+    return aliases
+      .filter(entry => showSystem || !entry.index.startsWith('.'))
+      .filter(entry => !keyword || entry.alias.toLowerCase().includes(keyword) || entry.index.toLowerCase().includes(keyword))
+      .sort((a, b) => a.alias.localeCompare(b.alias) || a.index.localeCompare(b.index))
+  }, [aliases, searchTerm, showSystem])
+
+  const aliasNames = useMemo(() => Array.from(new Set(filteredAliases.map(entry => entry.alias))), [filteredAliases])
+  const swapCurrent = useMemo(() => aliases.filter(entry => entry.alias === swapAlias), [aliases, swapAlias])
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true)
+    await fetchAliases()
+    setIsRefreshing(false)
+  }
+
+  /**
+   * 执行别名操作并提示结果
+   */
+  const runActions = async (actions: AliasAction[], successTitle: string): Promise<boolean> => {
+    try {
+      await updateAliases(actions)
+      toast({ title: successTitle })
+      return true
+    } catch (error) {
+      toast({
+        title: '更新别名失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive'
+      })
+      return false
+    }
+  }
+
+  // 新建别名表单校验
+  const formIndices = form.indices.split(',').map(index => index.trim()).filter(Boolean)
+  const formFilter = (() => {
+    if (!form.filter.trim()) return undefined
+    try {
+      const value = JSON.parse(form.filter)
+      return value && typeof value === 'object' && !Array.isArray(value) ? value : null
+    } catch {
+      return null
+    }
+  })()
+  const formErrors: string[] = []
+  if (form.alias.trim() && indices.some(index => index.index === form.alias.trim())) {
+    formErrors.push('别名不能与已有索引同名')
+  }
+  if (form.alias.trim() !== form.alias.trim().toLowerCase()) {
+    formErrors.push('别名必须为小写')
+  }
+  if (formFilter === null) {
+    formErrors.push('过滤器必须是有效的 JSON 对象')
+  }
+  if (form.isWriteIndex && formIndices.length > 1) {
+    formErrors.push('一个别名只能有一个写入索引')
+  }
+
+  /**
+   * 新建别名，指定多个索引时为每个索引添加同一个别名
+   */
+  const handleCreate = async () => {
+    setIsSaving(true)
+    const ok = await runActions(
+      formIndices.map(index => ({
+        type: 'add',
+        alias: form.alias.trim(),
+        index,
+        filter: formFilter || undefined,
+        indexRouting: form.indexRouting.trim() || undefined,
+        searchRouting: form.searchRouting.trim() || undefined,
+        isWriteIndex: form.isWriteIndex || undefined
+      })),
+      `别名 ${form.alias.trim()} 已创建`
+    )
+    setIsSaving(false)
+    if (ok) {
+      setIsCreateOpen(false)
+      setForm(EMPTY_FORM)
+    }
+  }
+
+  /**
+   * 打开切换别名对话框
+   */
+  const openSwap = (alias: string) => {
+    setSwapAlias(alias)
+    setSwapTarget('')
+    setSwapWriteIndex(aliases.some(entry => entry.alias === alias && entry.isWriteIndex))
+  }
+
+  const handleSwap = async () => {
+    if (!swapAlias || !swapTarget) return
+    setIsSaving(true)
+    const ok = await runActions(
+      buildSwapActions(swapCurrent, swapAlias, swapTarget, swapWriteIndex),
+      `别名 ${swapAlias} 已切换到 ${swapTarget}`
+    )
+    setIsSaving(false)
+    if (ok) setSwapAlias(null)
+  }
+
+  const handleRemove = async () => {
+    if (!pendingRemoval) return
+    await runActions(
+      [{ type: 'remove', alias: pendingRemoval.alias, index: pendingRemoval.index }],
+      `已从 ${pendingRemoval.index} 移除别名 ${pendingRemoval.alias}`
+    )
+    setPendingRemoval(null)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-4">
+          <div className="relative">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="搜索别名或索引..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-8 w-64"
+            />
+          </div>
+          <div className="flex items-center space-x-2">
+            <Switch id="show-system-aliases" checked={showSystem} onCheckedChange={setShowSystem} />
+            <Label htmlFor="show-system-aliases" className="text-sm">显示系统索引</Label>
+          </div>
+          <Badge variant="secondary">{aliasNames.length} 个别名</Badge>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" size="sm" onClick={handleRefresh} disabled={isRefreshing}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isRefreshing ? 'animate-spin' : ''}`} />
+            刷新
+          </Button>
+          <Button size="sm" onClick={() => { setForm(EMPTY_FORM); setIsCreateOpen(true) }}>
+            <Plus className="h-4 w-4 mr-2" />
+            新建别名
+          </Button>
+        </div>
+      </div>
+
+      <ScrollArea className="h-[400px]">
+        {filteredAliases.length === 0 ? (
+          <div className="flex items-center justify-center h-32 text-muted-foreground">
+            {searchTerm ? '未找到匹配的别名' : '暂无别名'}
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>别名</TableHead>
+                <TableHead>索引</TableHead>
+                <TableHead>写入索引</TableHead>
+                <TableHead>过滤器</TableHead>
+                <TableHead>路由</TableHead>
+                <TableHead className="text-right">操作</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredAliases.map(entry => (
+                <TableRow key={`${entry.alias}/${entry.index}`}>
+                  <TableCell className="font-medium">{entry.alias}</TableCell>
+                  <TableCell className="font-mono text-sm">{entry.index}</TableCell>
+                  <TableCell>
+                    {entry.isWriteIndex && <Badge>写入</Badge>}
+                  </TableCell>
+                  <TableCell>
+                    {entry.filter ? (
+                      <code className="text-xs block max-w-xs truncate" title={JSON.stringify(entry.filter, null, 2)}>
+                        {JSON.stringify(entry.filter)}
+                      </code>
+                    ) : (
+                      <span className="text-muted-foreground">-</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    {entry.indexRouting || entry.searchRouting ? (
+                      entry.indexRouting === entry.searchRouting ? (
+                        <span>{entry.indexRouting}</span>
+                      ) : (
+                        <div className="space-y-0.5">
+                          {entry.indexRouting && <div>写入: {entry.indexRouting}</div>}
+                          {entry.searchRouting && <div>搜索: {entry.searchRouting}</div>}
+                        </div>
+                      )
+                    ) : (
+                      <span className="text-muted-foreground">-</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => openSwap(entry.alias)} title="切换别名">
+                      <ArrowLeftRight className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setPendingRemoval(entry)} title="移除别名">
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </ScrollArea>
+
+      {/* 新建别名对话框 */}
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>新建别名</DialogTitle>
+            <DialogDescription>为一个或多个索引添加别名，可以指定过滤器和路由</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="alias-name">别名</Label>
+              <Input
+                id="alias-name"
+                value={form.alias}
+                onChange={(e) => setForm({ ...form, alias: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="alias-indices">索引</Label>
+              <Input
+                id="alias-indices"
+                placeholder="index-a,index-b"
+                value={form.indices}
+                onChange={(e) => setForm({ ...form, indices: e.target.value })}
+              />
+              <p className="text-xs text-muted-foreground">多个索引用逗号分隔</p>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="alias-write-index"
+                checked={form.isWriteIndex}
+                onCheckedChange={(checked) => setForm({ ...form, isWriteIndex: checked === true })}
+              />
+              <Label htmlFor="alias-write-index">设为写入索引 (is_write_index)</Label>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="alias-filter">过滤器 (可选)</Label>
+              <Textarea
+                id="alias-filter"
+                placeholder={'{\n  "term": { "tenant": "acme" }\n}'}
+                value={form.filter}
+                onChange={(e) => setForm({ ...form, filter: e.target.value })}
+                className="min-h-[100px] font-mono text-sm"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="alias-index-routing">写入路由</Label>
+                <Input
+                  id="alias-index-routing"
+                  value={form.indexRouting}
+                  onChange={(e) => setForm({ ...form, indexRouting: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="alias-search-routing">搜索路由</Label>
+                <Input
+                  id="alias-search-routing"
+                  placeholder="多个值用逗号分隔"
+                  value={form.searchRouting}
+                  onChange={(e) => setForm({ ...form, searchRouting: e.target.value })}
+                />
+              </div>
+            </div>
+            {formErrors.map(error => (
+              <p key={error} className="text-sm text-red-600">{error}</p>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCreateOpen(false)}>取消</Button>
+            <Button
+              onClick={handleCreate}
+              disabled={isSaving || !form.alias.trim() || formIndices.length === 0 || formErrors.length > 0}
+            >
+              {isSaving ? '创建中...' : '创建'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* 切换别名对话框 */}
+      <Dialog open={swapAlias !== null} onOpenChange={(open) => !open && setSwapAlias(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>切换别名 - {swapAlias}</DialogTitle>
+            <DialogDescription>
+              在一个 _aliases 请求中移除旧索引并指向新索引，切换过程中别名始终可用
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>当前索引</Label>
+              <div className="flex flex-wrap gap-2">
+                {swapCurrent.map(entry => (
+                  <Badge key={entry.index} variant="outline" className="font-mono">{entry.index}</Badge>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="swap-target">切换到</Label>
+              <Select value={swapTarget} onValueChange={setSwapTarget}>
+                <SelectTrigger id="swap-target">
+                  <SelectValue placeholder="选择目标索引" />
+                </SelectTrigger>
+                <SelectContent>
+                  {indices
+                    .filter(index => !swapCurrent.some(entry => entry.index === index.index))
+                    .map(index => (
+                      <SelectItem key={index.index} value={index.index}>{index.index}</SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="swap-write-index"
+                checked={swapWriteIndex}
+                onCheckedChange={(checked) => setSwapWriteIndex(checked === true)}
+              />
+              <Label htmlFor="swap-write-index">新索引设为写入索引</Label>
+            </div>
+            {swapAlias && swapTarget && (
+              <div className="space-y-2">
+                <Label>将执行的操作</Label>
+                <pre className="text-xs bg-muted p-3 rounded-md overflow-auto max-h-48">
+                  {JSON.stringify(buildSwapActions(swapCurrent, swapAlias, swapTarget, swapWriteIndex), null, 2)}
+                </pre>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSwapAlias(null)}>取消</Button>
+            <Button onClick={handleSwap} disabled={isSaving || !swapTarget}>
+              {isSaving ? '切换中...' : '切换'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* 移除别名确认 */}
+      <AlertDialog open={pendingRemoval !== null} onOpenChange={(open) => !open && setPendingRemoval(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>确认移除别名</AlertDialogTitle>
+            <AlertDialogDescription>
+              将从索引 "{pendingRemoval?.index}" 移除别名 "{pendingRemoval?.alias}"，通过该别名访问的请求将不再包含这个索引。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>取消</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRemove} className="bg-red-600 hover:bg-red-700">
+              移除
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
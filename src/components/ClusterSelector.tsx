@@ -1,5 +1,5 @@
 import { useState } from 'react'
-import { ChevronDown, Database, Check, Plus, Trash2, TestTube, Edit } from 'lucide-react'
+import { ChevronDown, ChevronRight, Database, Check, Plus, Trash2, TestTube, Edit } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import {
   DropdownMenu,
@@ -13,49 +13,788 @@ import { Badge } from '@/components/ui/badge'
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog'
 import { useToast } from '@/hooks/use-toast'
 
-import { ElasticsearchConnection } from '@/stores/elasticsearch-store'
+import { formatHostAndPort, parseCloudId, parseHostAndPort, parseNodeList } from '@/lib/utils'
+import { AuthType, ElasticsearchConnection, ConnectionSecrets, ConnectionStatus, ProxyMode, ProxyProfile, SshTunnelProfile, TlsProfile, TransportProfile, useElasticsearchStore, separateSecrets, hasSecrets, getAuthType } from '@/stores/elasticsearch-store'
+import { useVaultStore } from '@/stores/vault-store'
+import { ProxyProfileFields } from '@/components/ProxyProfileFields'
 
-interface Cluster extends Omit<ElasticsearchConnection, 'port' | 'protocol' | 'apiKey' | 'isDefault' | 'createdAt' | 'updatedAt'> {
-  status: 'connected' | 'disconnected' | 'error' | 'testing'
-  clusterName?: string
-  version?: string
-  nodeCount?: number
+/**
+ * 认证方式中可以单独清除的机密字段
+ */
+type AuthSecretField = 'password' | 'apiKey' | 'bearerToken'
+
+/**
+ * 集群表单
+ * 地址以 host:port 或完整 URL 的形式输入，保存时解析为连接配置
+ * clearedSecrets 为编辑时要从凭据库中清除的字段
+ */
+interface ClusterFormState {
+  name: string
+  address: string
+  authType: AuthType
+  username: string
+  password: string
+  apiKey: string
+  bearerToken: string
+  cloudId: string
+  tls: TlsProfile
+  transport: TransportProfile
+  sshTunnel: SshTunnelProfile
+  proxyMode: ProxyMode
+  proxy: ProxyProfile
+  clearedSecrets?: AuthSecretField[]
+}
+
+/**
+ * 正在编辑的集群
+ */
+interface EditingCluster extends ClusterFormState {
+  id: string
+  credentialId?: string
+}
+
+const EMPTY_SSH_TUNNEL: SshTunnelProfile = {
+  host: '',
+  username: '',
+  authMethod: 'privateKey'
+}
+
+const EMPTY_PROXY: ProxyProfile = {
+  protocol: 'http',
+  host: '',
+  port: 8080
+}
+
+const EMPTY_CLUSTER_FORM: ClusterFormState = {
+  name: '',
+  address: '',
+  authType: 'none',
+  username: '',
+  password: '',
+  apiKey: '',
+  bearerToken: '',
+  cloudId: '',
+  tls: {},
+  transport: {},
+  sshTunnel: EMPTY_SSH_TUNNEL,
+  proxyMode: 'global',
+  proxy: EMPTY_PROXY
+}
+
+/**
+ * 认证方式选项
+ */
+const AUTH_TYPE_OPTIONS: Array<{ value: AuthType; label: string }> = [
+  { value: 'none', label: '无认证' },
+  { value: 'basic', label: '用户名和密码' },
+  { value: 'apiKey', label: 'API 密钥' },
+  { value: 'bearer', label: 'Bearer / 服务账号令牌' },
+  { value: 'cloud', label: 'Elastic Cloud ID' }
+]
+
+/**
+ * 校验表单，返回错误信息
+ */
+function validateClusterForm(form: ClusterFormState): string | null {
+  if (!form.name) {
+    return '请填写集群名称'
+  }
+  if (form.authType === 'cloud') {
+    return form.cloudId ? null : '请填写 Cloud ID'
+  }
+  if (!form.address.trim()) {
+    return '请填写主机地址'
+  }
+  if (form.sshTunnel.enabled && (!form.sshTunnel.host || !form.sshTunnel.username)) {
+    return '请填写跳板机地址和用户名'
+  }
+  if (form.proxyMode === 'custom' && (!form.proxy.host || !form.proxy.port)) {
+    return '请填写代理地址和端口'
+  }
+  return null
+}
+
+/**
+ * 获取连接的地址描述，多节点连接显示节点数量
+ */
+function getConnectionAddress(connection: ElasticsearchConnection): string {
+  const address = formatHostAndPort(connection)
+  if (connection.nodes && connection.nodes.length > 1) {
+    return `${address} 等 ${connection.nodes.length} 个节点`
+  }
+  return address
+}
+
+/**
+ * 将表单转换为连接配置中的可编辑字段
+ * 只保留当前认证方式使用的字段，Cloud ID 连接的地址由 Cloud ID 解析得到
+ * 填写多个节点时，第一个节点作为连接的主地址
+ */
+function formToConnectionFields(form: ClusterFormState) {
+  const { authType } = form
+  const usesBasic = authType === 'basic' || authType === 'cloud'
+  const usesApiKey = authType === 'apiKey' || authType === 'cloud'
+  const nodeUrls = authType === 'cloud' ? [] : parseNodeList(form.address)
+
+  return {
+    name: form.name,
+    ...(authType === 'cloud' ? parseCloudId(form.cloudId) : parseHostAndPort(nodeUrls[0])),
+    nodes: nodeUrls.length > 1 ? nodeUrls : undefined,
+    transport: Object.keys(form.transport).length > 0 ? form.transport : undefined,
+    authType,
+    username: usesBasic ? form.username || undefined : undefined,
+    password: usesBasic ? form.password || undefined : undefined,
+    apiKey: usesApiKey ? form.apiKey || undefined : undefined,
+    bearerToken: authType === 'bearer' ? form.bearerToken || undefined : undefined,
+    cloudId: authType === 'cloud' ? form.cloudId.trim() : undefined,
+    tls: Object.keys(form.tls).length > 0 ? form.tls : undefined,
+    sshTunnel: authType !== 'cloud' && form.sshTunnel.enabled ? form.sshTunnel : undefined,
+    proxyMode: form.proxyMode === 'global' ? undefined : form.proxyMode,
+    proxy: form.proxyMode === 'custom' ? form.proxy : undefined
+  }
+}
+
+/**
+ * 获取保存时需要从凭据库中删除的机密字段
+ * 包括当前认证方式、隧道和代理配置不再使用的字段，以及用户选择清除的字段
+ * 否则切换认证方式后，凭据库中残留的旧凭据仍会被使用
+ */
+function getSecretsToClear(form: ClusterFormState): Array<keyof ConnectionSecrets> {
+  const { authType, sshTunnel } = form
+  const usesTunnel = authType !== 'cloud' && Boolean(sshTunnel.enabled)
+  const sshAuthMethod = sshTunnel.authMethod || 'privateKey'
+  const unused: Record<keyof ConnectionSecrets, boolean> = {
+    password: authType !== 'basic' && authType !== 'cloud',
+    apiKey: authType !== 'apiKey' && authType !== 'cloud',
+    bearerToken: authType !== 'bearer',
+    tlsKeyPassphrase: !form.tls.keyPath,
+    sshPassword: !usesTunnel || sshAuthMethod !== 'password',
+    sshPassphrase: !usesTunnel || sshAuthMethod !== 'privateKey',
+    proxyPassword: form.proxyMode !== 'custom' || !form.proxy.username
+  }
+  const fields = (Object.keys(unused) as Array<keyof ConnectionSecrets>).filter(field => unused[field])
+  return [...new Set([...fields, ...(form.clearedSecrets || [])])]
 }
 
-interface ClusterSelectorProps {
-  currentCluster?: Cluster
-  clusters: Cluster[]
-  onClusterChange: (connection: ElasticsearchConnection) => Promise<void>
-  onTestConnection?: (connection: ElasticsearchConnection) => Promise<{
-    success: boolean
-    version?: string
-    nodeCount?: number
-    clusterName?: string
-    error?: string
-  }>
+interface AuthSettingsFieldsProps {
+  idPrefix: string
+  value: ClusterFormState
+  onChange: (value: ClusterFormState) => void
+  hasSavedSecrets?: boolean
+}
+
+/**
+ * 认证设置表单
+ * 根据所选认证方式显示对应的输入项，编辑时留空的机密字段保持凭据库中的值不变，也可以选择清除
+ */
+function AuthSettingsFields({ idPrefix, value, onChange, hasSavedSecrets }: AuthSettingsFieldsProps) {
+  const update = (updates: Partial<ClusterFormState>) => {
+    onChange({ ...value, ...updates })
+  }
+
+  const clearedSecrets = value.clearedSecrets || []
+
+  const secretPlaceholder = (field: AuthSecretField, label: string) => {
+    if (!hasSavedSecrets) return label
+    return clearedSecrets.includes(field) ? `保存后将清除已保存的${label}` : `已保存在凭据库中，输入新${label}以替换`
+  }
+
+  /**
+   * 切换是否清除凭据库中已保存的字段，清除时忽略已输入的值
+   */
+  const toggleClear = (field: AuthSecretField) => {
+    const cleared = clearedSecrets.includes(field)
+    update({
+      [field]: '',
+      clearedSecrets: cleared ? clearedSecrets.filter(item => item !== field) : [...clearedSecrets, field]
+    })
+  }
+
+  const clearButton = (field: AuthSecretField, label: string) => hasSavedSecrets && (
+    <Button type="button" variant="ghost" size="sm" className="h-auto px-0 text-xs text-muted-foreground" onClick={() => toggleClear(field)}>
+      {clearedSecrets.includes(field) ? '撤销清除' : `清除已保存的${label}`}
+    </Button>
+  )
+
+  const basicFields = (
+    <div className="grid grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-username`}>用户名</Label>
+        <Input
+          id={`${idPrefix}-username`}
+          placeholder="elastic"
+          value={value.username}
+          onChange={(e) => update({ username: e.target.value })}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-password`}>密码</Label>
+        <Input
+          id={`${idPrefix}-password`}
+          type="password"
+          placeholder={secretPlaceholder('password', '密码')}
+          value={value.password}
+          disabled={clearedSecrets.includes('password')}
+          onChange={(e) => update({ password: e.target.value })}
+        />
+        {clearButton('password', '密码')}
+      </div>
+    </div>
+  )
+
+  const apiKeyField = (
+    <div className="space-y-2">
+      <Label htmlFor={`${idPrefix}-api-key`}>API 密钥</Label>
+      <Input
+        id={`${idPrefix}-api-key`}
+        type="password"
+        placeholder={secretPlaceholder('apiKey', 'API 密钥')}
+        value={value.apiKey}
+        disabled={clearedSecrets.includes('apiKey')}
+        onChange={(e) => update({ apiKey: e.target.value })}
+        className="font-mono"
+      />
+      {clearButton('apiKey', 'API 密钥')}
+      <p className="text-xs text-muted-foreground">
+        支持 id:api_key 格式或 Base64 编码格式
+      </p>
+    </div>
+  )
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-auth-type`}>认证方式</Label>
+        <Select value={value.authType} onValueChange={(authType) => update({ authType: authType as AuthType })}>
+          <SelectTrigger id={`${idPrefix}-auth-type`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {AUTH_TYPE_OPTIONS.map(option => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {value.authType === 'basic' && basicFields}
+
+      {value.authType === 'apiKey' && apiKeyField}
+
+      {value.authType === 'bearer' && (
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-bearer-token`}>访问令牌</Label>
+          <Input
+            id={`${idPrefix}-bearer-token`}
+            type="password"
+            placeholder={secretPlaceholder('bearerToken', '令牌')}
+            value={value.bearerToken}
+            disabled={clearedSecrets.includes('bearerToken')}
+            onChange={(e) => update({ bearerToken: e.target.value })}
+            className="font-mono"
+          />
+          {clearButton('bearerToken', '令牌')}
+          <p className="text-xs text-muted-foreground">
+            OAuth 访问令牌或服务账号令牌，以 Bearer 方式发送
+          </p>
+        </div>
+      )}
+
+      {value.authType === 'cloud' && (
+        <>
+          <div className="space-y-2">
+            <Label htmlFor={`${idPrefix}-cloud-id`}>Cloud ID</Label>
+            <Input
+              id={`${idPrefix}-cloud-id`}
+              placeholder="deployment-name:dXMtY2VudHJhbDE..."
+              value={value.cloudId}
+              onChange={(e) => update({ cloudId: e.target.value })}
+              className="font-mono"
+            />
+          </div>
+          {apiKeyField}
+          {basicFields}
+          <p className="text-xs text-muted-foreground">
+            填写 API 密钥或用户名密码其一，同时填写时优先使用 API 密钥
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
+
+interface TlsSettingsFieldsProps {
+  idPrefix: string
+  value: TlsProfile
+  onChange: (value: TlsProfile) => void
+}
+
+/**
+ * TLS 设置表单
+ * 用于添加和编辑集群对话框，配置 CA、双向 TLS 证书和指纹校验
+ */
+function TlsSettingsFields({ idPrefix, value, onChange }: TlsSettingsFieldsProps) {
+  const [isOpen, setIsOpen] = useState(false)
+
+  const update = (updates: Partial<TlsProfile>) => {
+    onChange({ ...value, ...updates })
+  }
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+      <CollapsibleTrigger className="flex items-center space-x-2 text-sm font-medium hover:text-primary">
+        {isOpen ? (
+          <ChevronDown className="h-4 w-4" />
+        ) : (
+          <ChevronRight className="h-4 w-4" />
+        )}
+        <span>TLS 设置</span>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-4 mt-4">
+        <p className="text-xs text-muted-foreground">
+          仅对 https 地址生效。默认使用系统信任的证书校验服务端身份
+        </p>
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-tls-ca-path`}>CA 证书路径（可选）</Label>
+          <Input
+            id={`${idPrefix}-tls-ca-path`}
+            placeholder="/path/to/ca.crt"
+            value={value.caPath || ''}
+            onChange={(e) => update({ caPath: e.target.value || undefined })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-tls-ca-pem`}>CA 证书内容（可选）</Label>
+          <Textarea
+            id={`${idPrefix}-tls-ca-pem`}
+            placeholder="-----BEGIN CERTIFICATE-----"
+            value={value.caPem || ''}
+            onChange={(e) => update({ caPem: e.target.value || undefined })}
+            className="min-h-[80px] font-mono text-xs"
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor={`${idPrefix}-tls-cert-path`}>客户端证书路径</Label>
+            <Input
+              id={`${idPrefix}-tls-cert-path`}
+              placeholder="/path/to/client.crt"
+              value={value.certPath || ''}
+              onChange={(e) => update({ certPath: e.target.value || undefined })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`${idPrefix}-tls-key-path`}>客户端私钥路径</Label>
+            <Input
+              id={`${idPrefix}-tls-key-path`}
+              placeholder="/path/to/client.key"
+              value={value.keyPath || ''}
+              onChange={(e) => update({ keyPath: e.target.value || undefined })}
+            />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-tls-key-passphrase`}>私钥密码（可选）</Label>
+          <Input
+            id={`${idPrefix}-tls-key-passphrase`}
+            type="password"
+            value={value.keyPassphrase || ''}
+            onChange={(e) => update({ keyPassphrase: e.target.value || undefined })}
+          />
+          <p className="text-xs text-muted-foreground">
+            同时填写客户端证书和私钥即启用双向 TLS
+          </p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-tls-fingerprint`}>CA 证书指纹（可选）</Label>
+          <Input
+            id={`${idPrefix}-tls-fingerprint`}
+            placeholder="SHA256 指纹，如 A1:B2:C3:..."
+            value={value.caFingerprint || ''}
+            onChange={(e) => update({ caFingerprint: e.target.value || undefined })}
+            className="font-mono"
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label htmlFor={`${idPrefix}-tls-insecure`}>允许不安全连接</Label>
+            <p className="text-xs text-muted-foreground">
+              跳过证书校验，仅建议在测试环境中使用
+            </p>
+          </div>
+          <Switch
+            id={`${idPrefix}-tls-insecure`}
+            checked={Boolean(value.allowInsecure)}
+            onCheckedChange={(checked) => update({ allowInsecure: checked || undefined })}
+          />
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  )
+}
+
+interface TransportSettingsFieldsProps {
+  idPrefix: string
+  value: TransportProfile
+  onChange: (value: TransportProfile) => void
+}
+
+/**
+ * 高级连接设置表单
+ * 配置节点嗅探、请求超时和重试次数，留空时使用客户端默认值
+ */
+function TransportSettingsFields({ idPrefix, value, onChange }: TransportSettingsFieldsProps) {
+  const [isOpen, setIsOpen] = useState(false)
+
+  const update = (updates: Partial<TransportProfile>) => {
+    onChange({ ...value, ...updates })
+  }
+
+  /**
+   * 解析非负整数输入，留空时返回 undefined
+   */
+  const parseNumber = (input: string) => {
+    const parsed = parseInt(input, 10)
+    return Number.isNaN(parsed) || parsed < 0 ? undefined : parsed
+  }
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+      <CollapsibleTrigger className="flex items-center space-x-2 text-sm font-medium hover:text-primary">
+        {isOpen ? (
+          <ChevronDown className="h-4 w-4" />
+        ) : (
+          <ChevronRight className="h-4 w-4" />
+        )}
+        <span>高级连接设置</span>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-4 mt-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor={`${idPrefix}-request-timeout`}>请求超时（毫秒）</Label>
+            <Input
+              id={`${idPrefix}-request-timeout`}
+              type="number"
+              min={0}
+              placeholder="30000"
+              value={value.requestTimeout ?? ''}
+              onChange={(e) => update({ requestTimeout: parseNumber(e.target.value) })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`${idPrefix}-max-retries`}>失败重试次数</Label>
+            <Input
+              id={`${idPrefix}-max-retries`}
+              type="number"
+              min={0}
+              placeholder="3"
+              value={value.maxRetries ?? ''}
+              onChange={(e) => update({ maxRetries: parseNumber(e.target.value) })}
+            />
+          </div>
+        </div>
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label htmlFor={`${idPrefix}-sniff-on-start`}>启动时嗅探节点</Label>
+            <p className="text-xs text-muted-foreground">
+              连接时从集群获取全部节点地址
+            </p>
+          </div>
+          <Switch
+            id={`${idPrefix}-sniff-on-start`}
+            checked={Boolean(value.sniffOnStart)}
+            onCheckedChange={(checked) => update({ sniffOnStart: checked || undefined })}
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label htmlFor={`${idPrefix}-sniff-on-fault`}>故障时重新嗅探</Label>
+            <p className="text-xs text-muted-foreground">
+              节点请求失败时刷新节点列表。经过代理或负载均衡访问时请保持关闭
+            </p>
+          </div>
+          <Switch
+            id={`${idPrefix}-sniff-on-fault`}
+            checked={Boolean(value.sniffOnConnectionFault)}
+            onCheckedChange={(checked) => update({ sniffOnConnectionFault: checked || undefined })}
+          />
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  )
+}
+
+interface SshTunnelSettingsFieldsProps {
+  idPrefix: string
+  value: SshTunnelProfile
+  onChange: (value: SshTunnelProfile) => void
+  hasSavedSecrets?: boolean
+}
+
+/**
+ * SSH 隧道设置表单
+ * 通过跳板机访问内网集群，由主进程在连接前建立隧道
+ */
+function SshTunnelSettingsFields({ idPrefix, value, onChange, hasSavedSecrets }: SshTunnelSettingsFieldsProps) {
+  const [isOpen, setIsOpen] = useState(Boolean(value.enabled))
+
+  const update = (updates: Partial<SshTunnelProfile>) => {
+    onChange({ ...value, ...updates })
+  }
+
+  /**
+   * 解析端口输入，留空时返回 undefined
+   */
+  const parsePort = (input: string) => {
+    const parsed = parseInt(input, 10)
+    return Number.isNaN(parsed) ? undefined : parsed
+  }
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+      <CollapsibleTrigger className="flex items-center space-x-2 text-sm font-medium hover:text-primary">
+        {isOpen ? (
+          <ChevronDown className="h-4 w-4" />
+        ) : (
+          <ChevronRight className="h-4 w-4" />
+        )}
+        <span>SSH 隧道</span>
+        {value.enabled && (
+          <Badge variant="secondary" className="text-xs">已启用</Badge>
+        )}
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-4 mt-4">
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label htmlFor={`${idPrefix}-ssh-enabled`}>通过跳板机连接</Label>
+            <p className="text-xs text-muted-foreground">
+              隧道只转发到第一个节点地址，启用后多节点和节点嗅探不生效。跳板机不在 ~/.ssh/known_hosts 中时，首次连接需要确认主机密钥指纹
+            </p>
+          </div>
+          <Switch
+            id={`${idPrefix}-ssh-enabled`}
+            checked={Boolean(value.enabled)}
+            onCheckedChange={(checked) => update({ enabled: checked || undefined })}
+          />
+        </div>
+        {value.enabled && (
+          <>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="col-span-2 space-y-2">
+                <Label htmlFor={`${idPrefix}-ssh-host`}>跳板机地址</Label>
+                <Input
+                  id={`${idPrefix}-ssh-host`}
+                  placeholder="bastion.example.com"
+                  value={value.host}
+                  onChange={(e) => update({ host: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor={`${idPrefix}-ssh-port`}>端口</Label>
+                <Input
+                  id={`${idPrefix}-ssh-port`}
+                  type="number"
+                  placeholder="22"
+                  value={value.port ?? ''}
+                  onChange={(e) => update({ port: parsePort(e.target.value) })}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor={`${idPrefix}-ssh-username`}>用户名</Label>
+                <Input
+                  id={`${idPrefix}-ssh-username`}
+                  value={value.username}
+                  onChange={(e) => update({ username: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor={`${idPrefix}-ssh-auth-method`}>认证方式</Label>
+                <Select
+                  value={value.authMethod || 'privateKey'}
+                  onValueChange={(authMethod) => update({ authMethod: authMethod as SshTunnelProfile['authMethod'] })}
+                >
+                  <SelectTrigger id={`${idPrefix}-ssh-auth-method`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="privateKey">私钥</SelectItem>
+                    <SelectItem value="password">密码</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {(value.authMethod || 'privateKey') === 'privateKey' ? (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor={`${idPrefix}-ssh-key-path`}>私钥路径</Label>
+                  <Input
+                    id={`${idPrefix}-ssh-key-path`}
+                    placeholder="~/.ssh/id_ed25519"
+                    value={value.privateKeyPath || ''}
+                    onChange={(e) => update({ privateKeyPath: e.target.value || undefined })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`${idPrefix}-ssh-passphrase`}>私钥口令（可选）</Label>
+                  <Input
+                    id={`${idPrefix}-ssh-passphrase`}
+                    type="password"
+                    placeholder={hasSavedSecrets ? '留空保持不变' : ''}
+                    value={value.passphrase || ''}
+                    onChange={(e) => update({ passphrase: e.target.value || undefined })}
+                  />
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor={`${idPrefix}-ssh-password`}>密码</Label>
+                <Input
+                  id={`${idPrefix}-ssh-password`}
+                  type="password"
+                  placeholder={hasSavedSecrets ? '留空保持不变' : ''}
+                  value={value.password || ''}
+                  onChange={(e) => update({ password: e.target.value || undefined })}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor={`${idPrefix}-ssh-local-port`}>本地端口（可选）</Label>
+              <Input
+                id={`${idPrefix}-ssh-local-port`}
+                type="number"
+                placeholder="自动分配"
+                value={value.localPort ?? ''}
+                onChange={(e) => update({ localPort: parsePort(e.target.value) })}
+              />
+            </div>
+          </>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  )
+}
+
+interface ProxySettingsFieldsProps {
+  idPrefix: string
+  value: Pick<ClusterFormState, 'proxyMode' | 'proxy'>
+  onChange: (value: Pick<ClusterFormState, 'proxyMode' | 'proxy'>) => void
+  hasSavedSecrets?: boolean
+}
+
+/**
+ * 代理模式选项
+ */
+const PROXY_MODE_OPTIONS: Array<{ value: ProxyMode; label: string }> = [
+  { value: 'global', label: '使用全局代理' },
+  { value: 'none', label: '不使用代理' },
+  { value: 'custom', label: '自定义代理' }
+]
+
+/**
+ * 连接代理设置表单
+ * 默认跟随设置页中的全局代理，也可以为单个连接指定代理或直连
+ */
+function ProxySettingsFields({ idPrefix, value, onChange, hasSavedSecrets }: ProxySettingsFieldsProps) {
+  const [isOpen, setIsOpen] = useState(value.proxyMode !== 'global')
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+      <CollapsibleTrigger className="flex items-center space-x-2 text-sm font-medium hover:text-primary">
+        {isOpen ? (
+          <ChevronDown className="h-4 w-4" />
+        ) : (
+          <ChevronRight className="h-4 w-4" />
+        )}
+        <span>代理</span>
+        {value.proxyMode !== 'global' && (
+          <Badge variant="secondary" className="text-xs">
+            {value.proxyMode === 'custom' ? '自定义' : '直连'}
+          </Badge>
+        )}
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-4 mt-4">
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-proxy-mode`}>代理模式</Label>
+          <Select
+            value={value.proxyMode}
+            onValueChange={(proxyMode) => onChange({ ...value, proxyMode: proxyMode as ProxyMode })}
+          >
+            <SelectTrigger id={`${idPrefix}-proxy-mode`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PROXY_MODE_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            启用 SSH 隧道时不使用代理
+          </p>
+        </div>
+        {value.proxyMode === 'custom' && (
+          <ProxyProfileFields
+            idPrefix={idPrefix}
+            value={value.proxy}
+            onChange={(proxy) => onChange({ ...value, proxy })}
+            hasSavedPassword={hasSavedSecrets}
+          />
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  )
 }
 
 /**
  * 集群选择器组件
  * 用于在顶部显示当前集群并支持切换、新增、删除和测试连接
  */
-export function ClusterSelector({ currentCluster, clusters, onClusterChange, onTestConnection }: ClusterSelectorProps) {
+export function ClusterSelector() {
   const [isOpen, setIsOpen] = useState(false)
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false)
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false)
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false)
-  const [selectedCluster, setSelectedCluster] = useState<Cluster | null>(null)
-  const [newCluster, setNewCluster] = useState({
-    name: '',
-    host: '',
-    username: '',
-    password: ''
-  })
-  const [editingCluster, setEditingCluster] = useState<Cluster | null>(null)
+  const [selectedCluster, setSelectedCluster] = useState<ElasticsearchConnection | null>(null)
+  const [newCluster, setNewCluster] = useState<ClusterFormState>(EMPTY_CLUSTER_FORM)
+  const [editingCluster, setEditingCluster] = useState<EditingCluster | null>(null)
   const { toast } = useToast()
+  const {
+    connections,
+    currentConnection,
+    connectionStates,
+    clusterInfo,
+    addConnection,
+    updateConnection,
+    deleteConnection,
+    switchCluster,
+    testConnection,
+    setConnectionState
+  } = useElasticsearchStore()
+  const { saveCredential, deleteCredential } = useVaultStore()
+
+  /**
+   * 获取集群的连接状态
+   * 当前集群以当前连接为准，其他集群使用最近一次连接或测试的结果
+   */
+  const getClusterStatus = (connection: ElasticsearchConnection): ConnectionStatus => {
+    if (currentConnection?.id === connection.id) {
+      return currentConnection.status
+    }
+    return connectionStates[connection.id]?.status || 'disconnected'
+  }
 
   /**
    * 获取状态颜色
@@ -95,208 +834,202 @@ export function ClusterSelector({ currentCluster, clusters, onClusterChange, onT
 
   /**
    * 处理集群切换
-   * 如果选择的是当前已连接的集群，则不触发切换
-   * 如果选择的是未连接的集群，则显示确认对话框
+   * 如果选择的是当前集群，则不触发切换
+   * 如果当前已连接其他集群，则先确认是否断开
    */
-  const handleClusterSelect = async (cluster: Cluster) => {
+  const handleClusterSelect = async (connection: ElasticsearchConnection) => {
     // 如果选择的是当前集群，直接关闭下拉菜单
-    if (currentCluster?.id === cluster.id) {
+    if (currentConnection?.id === connection.id && currentConnection.status === 'connected') {
       setIsOpen(false)
       return
     }
 
     // 如果当前有连接的集群，先确认是否要切换
-    if (currentCluster?.status === 'connected') {
-      if (!window.confirm(`确定要切换到集群 ${cluster.name} 吗？当前连接将被断开。`)) {
+    if (currentConnection?.status === 'connected') {
+      if (!window.confirm(`确定要切换到集群 ${connection.name} 吗？当前连接将被断开。`)) {
         return
       }
     }
 
     try {
-      // 解析主机地址
-      const { host, port, protocol } = parseHostAndPort(cluster.host)
-      
-      // 创建连接配置
-      const connectionConfig = {
-        id: cluster.id,
-        name: cluster.name,
-        host,
-        port,
-        protocol,
-        username: cluster.username,
-        password: cluster.password,
-        isDefault: false,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      }
-
-      // 使用共享的切换集群函数
-      await onClusterChange(connectionConfig)
+      await switchCluster(connection)
       setIsOpen(false)
     } catch (error) {
       console.error('切换集群失败:', error)
       toast({
         title: '切换失败',
-        description: '无法连接到集群，请稍后重试',
+        description: error instanceof Error ? error.message : '无法连接到集群，请稍后重试',
         variant: 'destructive'
       })
     }
   }
 
-  /**
-   * 解析主机地址、端口和协议
-   */
-  const parseHostAndPort = (hostInput: string): { host: string; port: number; protocol: 'http' | 'https' } => {
-    let protocol: 'http' | 'https' = 'http'
-    let cleanInput = hostInput
-    
-    if (hostInput.startsWith('https://')) {
-      protocol = 'https'
-      cleanInput = hostInput.replace(/^https:\/\//, '')
-    } else if (hostInput.startsWith('http://')) {
-      protocol = 'http'
-      cleanInput = hostInput.replace(/^http:\/\//, '')
-    }
-    
-    const portMatch = cleanInput.match(/^(.+):(\d+)$/)
-    if (portMatch) {
-      return {
-        host: portMatch[1],
-        port: parseInt(portMatch[2], 10),
-        protocol
-      }
-    }
-    
-    return {
-      host: cleanInput,
-      port: protocol === 'https' ? 9243 : 9200,
-      protocol
-    }
-  }
-
   /**
    * 处理添加新集群
+   * 密码等机密字段写入主进程凭据库，连接仓库只保存凭据引用
    */
-  const handleAddCluster = () => {
-    if (!newCluster.name || !newCluster.host) {
+  const handleAddCluster = async () => {
+    const validationError = validateClusterForm(newCluster)
+    if (validationError) {
       toast({
         title: '输入错误',
-        description: '请填写集群名称和主机地址',
+        description: validationError,
         variant: 'destructive'
       })
       return
     }
 
-    // 生成唯一ID
-    const id = Date.now().toString()
-
-    // 创建新集群对象
-    const cluster: Cluster = {
-      id,
-      name: newCluster.name,
-      host: newCluster.host,
-      username: newCluster.username || undefined,
-      password: newCluster.password || undefined,
-      status: 'disconnected'
+    let fields: ReturnType<typeof formToConnectionFields>
+    try {
+      fields = formToConnectionFields(newCluster)
+    } catch (error) {
+      toast({
+        title: '输入错误',
+        description: error instanceof Error ? error.message : '集群配置无效',
+        variant: 'destructive'
+      })
+      return
     }
 
-    // 获取当前集群列表
-    const savedClusters = localStorage.getItem('elasticsearch-clusters')
-    let updatedClusters = []
-    
-    if (savedClusters) {
-      updatedClusters = [...JSON.parse(savedClusters), cluster]
-    } else {
-      updatedClusters = [cluster]
+    const { connection, secrets } = separateSecrets(fields)
+    let credentialId: string | undefined
+    try {
+      if (hasSecrets(secrets)) {
+        credentialId = await saveCredential(null, secrets, connection)
+      }
+    } catch (error) {
+      toast({
+        title: '保存凭据失败',
+        description: error instanceof Error ? error.message : '无法写入凭据库',
+        variant: 'destructive'
+      })
+      return
     }
 
-    // 保存到本地存储
-    localStorage.setItem('elasticsearch-clusters', JSON.stringify(updatedClusters))
+    addConnection({ ...connection, credentialId, isDefault: connections.length === 0 })
 
     // 重置表单并关闭对话框
-    setNewCluster({ name: '', host: '', username: '', password: '' })
+    setNewCluster(EMPTY_CLUSTER_FORM)
     setIsAddDialogOpen(false)
     
     toast({
       title: '集群已添加',
-      description: `${cluster.name} 已成功添加到集群列表`
+      description: `${connection.name} 已成功添加到集群列表`
     })
-
-    // 刷新页面以显示新集群
-    window.location.reload()
   }
 
   /**
    * 处理编辑集群
    */
-  const handleEditCluster = (cluster: Cluster, e: React.MouseEvent) => {
+  const handleEditCluster = (connection: ElasticsearchConnection, e: React.MouseEvent) => {
     e.stopPropagation() // 阻止事件冒泡，避免触发选择集群
-    setEditingCluster(cluster)
+    setEditingCluster({
+      id: connection.id,
+      credentialId: connection.credentialId,
+      name: connection.name,
+      address: connection.cloudId ? '' : (connection.nodes?.join(', ') || formatHostAndPort(connection)),
+      authType: getAuthType(connection),
+      username: connection.username || '',
+      password: '',
+      apiKey: '',
+      bearerToken: '',
+      cloudId: connection.cloudId || '',
+      tls: connection.tls || {},
+      transport: connection.transport || {},
+      sshTunnel: connection.sshTunnel || EMPTY_SSH_TUNNEL,
+      proxyMode: connection.proxyMode || 'global',
+      proxy: connection.proxy || EMPTY_PROXY
+    })
     setIsEditDialogOpen(true)
   }
 
   /**
    * 保存编辑的集群
    */
-  const handleSaveEditCluster = () => {
+  const handleSaveEditCluster = async () => {
     if (!editingCluster) return
 
-    // 获取当前集群列表
-    const savedClusters = localStorage.getItem('elasticsearch-clusters')
-    if (!savedClusters) return
+    const validationError = validateClusterForm(editingCluster)
+    if (validationError) {
+      toast({
+        title: '输入错误',
+        description: validationError,
+        variant: 'destructive'
+      })
+      return
+    }
 
-    // 更新集群信息
-    const clusters = JSON.parse(savedClusters)
-    const updatedClusters = clusters.map((c: any) => 
-      c.id === editingCluster.id ? editingCluster : c
-    )
+    let fields: ReturnType<typeof formToConnectionFields>
+    try {
+      fields = formToConnectionFields(editingCluster)
+    } catch (error) {
+      toast({
+        title: '输入错误',
+        description: error instanceof Error ? error.message : '集群配置无效',
+        variant: 'destructive'
+      })
+      return
+    }
+
+    // 新输入的机密字段写入凭据库，留空的字段保持不变，不再使用和选择清除的字段以空字符串提交以便删除
+    // 已有凭据时总是提交，由主进程校验连接地址变化后是否重新输入了凭据
+    const { connection, secrets } = separateSecrets(fields)
+    let credentialId = editingCluster.credentialId
+    try {
+      if (credentialId) {
+        const cleared = Object.fromEntries(getSecretsToClear(editingCluster).map(field => [field, '']))
+        credentialId = await saveCredential(credentialId, { ...cleared, ...secrets }, connection)
+      } else if (hasSecrets(secrets)) {
+        credentialId = await saveCredential(credentialId, secrets, connection)
+      }
+    } catch (error) {
+      toast({
+        title: '保存凭据失败',
+        description: error instanceof Error ? error.message : '无法写入凭据库',
+        variant: 'destructive'
+      })
+      return
+    }
+
+    updateConnection(editingCluster.id, {
+      ...connection,
+      credentialId
+    })
 
-    // 保存到本地存储
-    localStorage.setItem('elasticsearch-clusters', JSON.stringify(updatedClusters))
-    
     // 重置表单并关闭对话框
     setEditingCluster(null)
     setIsEditDialogOpen(false)
     
     toast({
       title: '集群已更新',
-      description: `${editingCluster.name} 的配置已更新`
+      description: `${connection.name} 的配置已更新`
     })
-
-    // 刷新页面以显示更新后的集群
-    window.location.reload()
   }
 
   /**
    * 处理删除集群
    */
-  const handleDeleteClick = (cluster: Cluster, e: React.MouseEvent) => {
+  const handleDeleteClick = (connection: ElasticsearchConnection, e: React.MouseEvent) => {
     e.stopPropagation() // 阻止事件冒泡，避免触发选择集群
-    setSelectedCluster(cluster)
+    setSelectedCluster(connection)
     setIsDeleteDialogOpen(true)
   }
 
   /**
    * 确认删除集群
    */
-  const confirmDeleteCluster = () => {
+  const confirmDeleteCluster = async () => {
     if (!selectedCluster) return
 
-    // 获取当前集群列表
-    const savedClusters = localStorage.getItem('elasticsearch-clusters')
-    if (!savedClusters) return
-
-    // 过滤掉要删除的集群
-    const clusters = JSON.parse(savedClusters)
-    const updatedClusters = clusters.filter((c: any) => c.id !== selectedCluster.id)
-
-    // 保存到本地存储
-    localStorage.setItem('elasticsearch-clusters', JSON.stringify(updatedClusters))
-    
-    // 如果删除的是当前集群，清除当前集群ID
-    if (currentCluster?.id === selectedCluster.id) {
-      localStorage.removeItem('current-cluster-id')
+    if (selectedCluster.credentialId) {
+      try {
+        await deleteCredential(selectedCluster.credentialId)
+      } catch (error) {
+        console.error('删除凭据失败:', error)
+      }
     }
+
+    deleteConnection(selectedCluster.id)
     
     // 关闭对话框
     setIsDeleteDialogOpen(false)
@@ -306,98 +1039,35 @@ export function ClusterSelector({ currentCluster, clusters, onClusterChange, onT
       title: '集群已删除',
       description: '集群已从列表中移除'
     })
-
-    // 刷新页面以更新集群列表
-    window.location.reload()
   }
 
   /**
    * 测试集群连接
    */
-  const handleTestConnection = async (cluster: Cluster, e: React.MouseEvent) => {
-    if (!onTestConnection) return
+  const handleTestConnection = async (connection: ElasticsearchConnection, e: React.MouseEvent) => {
     e.stopPropagation() // 阻止事件冒泡，避免触发选择集群
 
-    // 更新集群状态为测试中
-    const savedClusters = localStorage.getItem('elasticsearch-clusters')
-    if (savedClusters) {
-      const clusters = JSON.parse(savedClusters)
-      const updatedClusters = clusters.map((c: any) => 
-        c.id === cluster.id ? { ...c, status: 'testing' } : c
-      )
-      localStorage.setItem('elasticsearch-clusters', JSON.stringify(updatedClusters))
-    }
-
-    try {
-      // 解析主机地址
-      const { host, port, protocol } = parseHostAndPort(cluster.host)
-      
-      // 创建连接配置
-      const connectionConfig = {
-        id: cluster.id,
-        name: cluster.name,
-        host,
-        port,
-        protocol,
-        username: cluster.username,
-        password: cluster.password,
-        isDefault: false,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      }
-
-      // 测试连接
-      const result = await onTestConnection(connectionConfig)
-      
-      // 更新集群状态
-      if (savedClusters) {
-        const clusters = JSON.parse(savedClusters)
-        const updatedClusters = clusters.map((c: any) => {
-          if (c.id === cluster.id) {
-            return {
-              ...c,
-              status: result.success ? 'connected' : 'disconnected',
-              version: result.success ? result.version : undefined,
-              nodeCount: result.success ? result.nodeCount : undefined,
-              clusterName: result.success ? result.clusterName : undefined,
-              lastConnected: result.success ? new Date() : c.lastConnected
-            }
-          }
-          return c
-        })
-        localStorage.setItem('elasticsearch-clusters', JSON.stringify(updatedClusters))
-      }
-      
-      toast({
-        title: result.success ? '连接成功' : '连接失败',
-        description: result.success ? `成功连接到 ${cluster.name}` : result.error,
-        variant: result.success ? 'default' : 'destructive'
-      })
+    setConnectionState(connection.id, { status: 'testing' })
 
-      // 刷新页面以更新集群状态
-      window.location.reload()
-    } catch (error) {
-      // 更新集群状态为连接失败
-      if (savedClusters) {
-        const clusters = JSON.parse(savedClusters)
-        const updatedClusters = clusters.map((c: any) => 
-          c.id === cluster.id ? { ...c, status: 'disconnected' } : c
-        )
-        localStorage.setItem('elasticsearch-clusters', JSON.stringify(updatedClusters))
-      }
-      
-      toast({
-        title: '连接失败',
-        description: '无法连接到集群',
-        variant: 'destructive'
-      })
+    const result = await testConnection(connection)
+    setConnectionState(connection.id, result.success ? {
+      status: 'connected',
+      version: result.version,
+      nodeCount: result.nodeCount,
+      clusterName: result.clusterName,
+      lastConnected: new Date().toISOString()
+    } : {
+      status: 'error'
+    })
 
-      // 刷新页面以更新集群状态
-      window.location.reload()
-    }
+    toast({
+      title: result.success ? '连接成功' : result.stage === 'tunnel' ? 'SSH 隧道连接失败' : '集群连接失败',
+      description: result.success ? `成功连接到 ${connection.name}` : result.error,
+      variant: result.success ? 'default' : 'destructive'
+    })
   }
 
-  if (!currentCluster && clusters.length === 0) {
+  if (!currentConnection && connections.length === 0) {
     return (
       <div className="flex items-center space-x-2 text-muted-foreground">
         <Database className="h-4 w-4" />
@@ -408,7 +1078,7 @@ export function ClusterSelector({ currentCluster, clusters, onClusterChange, onT
 
         {/* 添加集群对话框 */}
         <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
-          <DialogContent>
+          <DialogContent className="max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>添加新集群</DialogTitle>
               <DialogDescription>
@@ -425,37 +1095,47 @@ export function ClusterSelector({ currentCluster, clusters, onClusterChange, onT
                   onChange={(e) => setNewCluster({ ...newCluster, name: e.target.value })}
                 />
               </div>
-              <div className="space-y-2">
-                <Label htmlFor="cluster-host">主机地址</Label>
-                <Input
-                  id="cluster-host"
-                  placeholder="localhost:9200 或 192.168.1.100:9200"
-                  value={newCluster.host}
-                  onChange={(e) => setNewCluster({ ...newCluster, host: e.target.value })}
-                />
-                <p className="text-xs text-muted-foreground">
-                  可以输入主机名或IP地址，支持带端口号（如 localhost:9200）或不带端口号（默认9200）
-                </p>
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="cluster-username">用户名（可选）</Label>
-                <Input
-                  id="cluster-username"
-                  placeholder="elastic"
-                  value={newCluster.username}
-                  onChange={(e) => setNewCluster({ ...newCluster, username: e.target.value })}
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="cluster-password">密码（可选）</Label>
-                <Input
-                  id="cluster-password"
-                  type="password"
-                  placeholder="密码"
-                  value={newCluster.password}
-                  onChange={(e) => setNewCluster({ ...newCluster, password: e.target.value })}
+              {newCluster.authType !== 'cloud' && (
+                <div className="space-y-2">
+                  <Label htmlFor="cluster-host">主机地址</Label>
+                  <Input
+                    id="cluster-host"
+                    placeholder="localhost:9200, https://192.168.1.100:9200"
+                    value={newCluster.address}
+                    onChange={(e) => setNewCluster({ ...newCluster, address: e.target.value })}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    可以输入主机名或IP地址，支持带端口号（如 localhost:9200）或不带端口号（默认9200），https 地址请带上协议前缀。多个节点以逗号分隔，单个节点不可用时自动切换
+                  </p>
+                </div>
+              )}
+              <AuthSettingsFields
+                idPrefix="cluster"
+                value={newCluster}
+                onChange={setNewCluster}
+              />
+              <TlsSettingsFields
+                idPrefix="cluster"
+                value={newCluster.tls}
+                onChange={(tls) => setNewCluster({ ...newCluster, tls })}
+              />
+              <TransportSettingsFields
+                idPrefix="cluster"
+                value={newCluster.transport}
+                onChange={(transport) => setNewCluster({ ...newCluster, transport })}
+              />
+              {newCluster.authType !== 'cloud' && (
+                <SshTunnelSettingsFields
+                  idPrefix="cluster"
+                  value={newCluster.sshTunnel}
+                  onChange={(sshTunnel) => setNewCluster({ ...newCluster, sshTunnel })}
                 />
-              </div>
+              )}
+              <ProxySettingsFields
+                idPrefix="cluster"
+                value={newCluster}
+                onChange={(proxySettings) => setNewCluster({ ...newCluster, ...proxySettings })}
+              />
             </div>
             <DialogFooter>
               <Button variant="outline" onClick={() => setIsAddDialogOpen(false)}>取消</Button>
@@ -477,20 +1157,23 @@ export function ClusterSelector({ currentCluster, clusters, onClusterChange, onT
               <div className="flex flex-col items-start">
                 <div className="flex items-center space-x-2">
                   <span className="text-sm font-medium">
-                    {currentCluster?.name || '选择集群'}
+                    {currentConnection?.name || '选择集群'}
                   </span>
-                  {currentCluster && (
+                  {currentConnection && (
                     <Badge 
-                      variant={currentCluster.status === 'connected' ? 'default' : 'destructive'}
+                      variant={currentConnection.status === 'connected' ? 'default' : 'destructive'}
                       className="text-xs px-2 py-0.5 whitespace-nowrap"
                     >
-                      {getStatusText(currentCluster.status)}
+                      {getStatusText(currentConnection.status)}
                     </Badge>
                   )}
                 </div>
-                {currentCluster?.clusterName && (
+                {currentConnection?.status === 'connected' && clusterInfo?.cluster_name && (
                   <span className="text-xs text-muted-foreground">
-                    {currentCluster.clusterName}
+                    {clusterInfo.cluster_name}
+                    {connectionStates[currentConnection.id]?.lastNode && (
+                      <> · {connectionStates[currentConnection.id].lastNode}</>
+                    )}
                   </span>
                 )}
               </div>
@@ -506,7 +1189,7 @@ export function ClusterSelector({ currentCluster, clusters, onClusterChange, onT
             </Button>
           </DropdownMenuLabel>
           <DropdownMenuSeparator />
-          {clusters.map((cluster) => (
+          {connections.map((cluster) => (
             <DropdownMenuItem
               key={cluster.id}
               onClick={() => handleClusterSelect(cluster)}
@@ -514,35 +1197,33 @@ export function ClusterSelector({ currentCluster, clusters, onClusterChange, onT
             >
               <div className="flex items-center justify-between w-full">
                 <div className="flex items-center space-x-2">
-                  <Database className={`h-4 w-4 ${getStatusColor(cluster.status)}`} />
+                  <Database className={`h-4 w-4 ${getStatusColor(getClusterStatus(cluster))}`} />
                   <span className="text-sm font-medium">{cluster.name}</span>
-                  {currentCluster?.id === cluster.id && (
+                  {currentConnection?.id === cluster.id && (
                     <Check className="h-4 w-4 text-green-600 ml-1" />
                   )}
                 </div>
                 <Badge 
-                  variant={cluster.status === 'connected' ? 'default' : 'destructive'}
+                  variant={getClusterStatus(cluster) === 'connected' ? 'default' : 'destructive'}
                   className="text-xs whitespace-nowrap"
                 >
-                  {getStatusText(cluster.status)}
+                  {getStatusText(getClusterStatus(cluster))}
                 </Badge>
               </div>
               
               <div className="flex items-center justify-between w-full">
-                <span className="text-xs text-muted-foreground pl-6">{cluster.host}</span>
+                <span className="text-xs text-muted-foreground pl-6">{getConnectionAddress(cluster)}</span>
                 <div className="flex items-center space-x-0.5">
                   {/* 测试连接按钮 */}
-                  {onTestConnection && (
-                    <Button 
-                      variant="ghost" 
-                      size="icon" 
-                      className="h-5 w-5" 
-                      onClick={(e) => handleTestConnection(cluster, e)}
-                      disabled={cluster.status === 'testing'}
-                    >
-                      <TestTube className="h-3 w-3" />
-                    </Button>
-                  )}
+                  <Button 
+                    variant="ghost" 
+                    size="icon" 
+                    className="h-5 w-5" 
+                    onClick={(e) => handleTestConnection(cluster, e)}
+                    disabled={getClusterStatus(cluster) === 'testing'}
+                  >
+                    <TestTube className="h-3 w-3" />
+                  </Button>
                   
                   {/* 编辑按钮 */}
                   <Button 
@@ -566,14 +1247,14 @@ export function ClusterSelector({ currentCluster, clusters, onClusterChange, onT
                 </div>
               </div>
               
-              {cluster.clusterName && (
+              {connectionStates[cluster.id]?.clusterName && (
                 <span className="text-xs text-muted-foreground pl-6">
-                  {cluster.clusterName}
+                  {connectionStates[cluster.id].clusterName}
                 </span>
               )}
             </DropdownMenuItem>
           ))}
-          {clusters.length === 0 && (
+          {connections.length === 0 && (
             <DropdownMenuItem disabled>
               <span className="text-sm text-muted-foreground">暂无可用集群</span>
             </DropdownMenuItem>
@@ -583,7 +1264,7 @@ export function ClusterSelector({ currentCluster, clusters, onClusterChange, onT
 
       {/* 添加集群对话框 */}
       <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
-        <DialogContent>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>添加新集群</DialogTitle>
             <DialogDescription>
@@ -600,37 +1281,47 @@ export function ClusterSelector({ currentCluster, clusters, onClusterChange, onT
                 onChange={(e) => setNewCluster({ ...newCluster, name: e.target.value })}
               />
             </div>
-            <div className="space-y-2">
-              <Label htmlFor="cluster-host">主机地址</Label>
-              <Input
-                id="cluster-host"
-                placeholder="localhost:9200 或 192.168.1.100:9200"
-                value={newCluster.host}
-                onChange={(e) => setNewCluster({ ...newCluster, host: e.target.value })}
-              />
-              <p className="text-xs text-muted-foreground">
-                可以输入主机名或IP地址，支持带端口号（如 localhost:9200）或不带端口号（默认9200）
-              </p>
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="cluster-username">用户名（可选）</Label>
-              <Input
-                id="cluster-username"
-                placeholder="elastic"
-                value={newCluster.username}
-                onChange={(e) => setNewCluster({ ...newCluster, username: e.target.value })}
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="cluster-password">密码（可选）</Label>
-              <Input
-                id="cluster-password"
-                type="password"
-                placeholder="密码"
-                value={newCluster.password}
-                onChange={(e) => setNewCluster({ ...newCluster, password: e.target.value })}
+            {newCluster.authType !== 'cloud' && (
+              <div className="space-y-2">
+                <Label htmlFor="cluster-host">主机地址</Label>
+                <Input
+                  id="cluster-host"
+                  placeholder="localhost:9200, https://192.168.1.100:9200"
+                  value={newCluster.address}
+                  onChange={(e) => setNewCluster({ ...newCluster, address: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  可以输入主机名或IP地址，支持带端口号（如 localhost:9200）或不带端口号（默认9200），https 地址请带上协议前缀。多个节点以逗号分隔，单个节点不可用时自动切换
+                </p>
+              </div>
+            )}
+            <AuthSettingsFields
+              idPrefix="cluster"
+              value={newCluster}
+              onChange={setNewCluster}
+            />
+            <TlsSettingsFields
+              idPrefix="cluster"
+              value={newCluster.tls}
+              onChange={(tls) => setNewCluster({ ...newCluster, tls })}
+            />
+            <TransportSettingsFields
+              idPrefix="cluster"
+              value={newCluster.transport}
+              onChange={(transport) => setNewCluster({ ...newCluster, transport })}
+            />
+            {newCluster.authType !== 'cloud' && (
+              <SshTunnelSettingsFields
+                idPrefix="cluster"
+                value={newCluster.sshTunnel}
+                onChange={(sshTunnel) => setNewCluster({ ...newCluster, sshTunnel })}
               />
-            </div>
+            )}
+            <ProxySettingsFields
+              idPrefix="cluster"
+              value={newCluster}
+              onChange={(proxySettings) => setNewCluster({ ...newCluster, ...proxySettings })}
+            />
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsAddDialogOpen(false)}>取消</Button>
@@ -641,7 +1332,7 @@ export function ClusterSelector({ currentCluster, clusters, onClusterChange, onT
 
       {/* 编辑集群对话框 */}
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
-        <DialogContent>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>编辑集群</DialogTitle>
             <DialogDescription>
@@ -658,35 +1349,49 @@ export function ClusterSelector({ currentCluster, clusters, onClusterChange, onT
                   onChange={(e) => setEditingCluster({ ...editingCluster, name: e.target.value })}
                 />
               </div>
-              <div className="space-y-2">
-                <Label htmlFor="edit-cluster-host">主机地址</Label>
-                <Input
-                  id="edit-cluster-host"
-                  value={editingCluster.host}
-                  onChange={(e) => setEditingCluster({ ...editingCluster, host: e.target.value })}
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="edit-cluster-username">用户名（可选）</Label>
-                <Input
-                  id="edit-cluster-username"
-                  value={editingCluster.username || ''}
-                  onChange={(e) => setEditingCluster({ ...editingCluster, username: e.target.value || undefined })}
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="edit-cluster-password">密码（可选）</Label>
-                <Input
-                  id="edit-cluster-password"
-                  type="password"
-                  placeholder="保持不变或输入新密码"
-                  value={editingCluster.password || ''}
-                  onChange={(e) => setEditingCluster({ ...editingCluster, password: e.target.value || undefined })}
+              {editingCluster.authType !== 'cloud' && (
+                <div className="space-y-2">
+                  <Label htmlFor="edit-cluster-host">主机地址</Label>
+                  <Input
+                    id="edit-cluster-host"
+                    value={editingCluster.address}
+                    onChange={(e) => setEditingCluster({ ...editingCluster, address: e.target.value })}
+                  />
+                </div>
+              )}
+              <AuthSettingsFields
+                idPrefix="edit-cluster"
+                value={editingCluster}
+                onChange={(form) => setEditingCluster({ ...editingCluster, ...form })}
+                hasSavedSecrets={Boolean(editingCluster.credentialId)}
+              />
+              <p className="text-xs text-muted-foreground">
+                机密字段留空表示保持不变，所有凭据加密保存在本机凭据库中
+              </p>
+              <TlsSettingsFields
+                idPrefix="edit-cluster"
+                value={editingCluster.tls}
+                onChange={(tls) => setEditingCluster({ ...editingCluster, tls })}
+              />
+              <TransportSettingsFields
+                idPrefix="edit-cluster"
+                value={editingCluster.transport}
+                onChange={(transport) => setEditingCluster({ ...editingCluster, transport })}
+              />
+              {editingCluster.authType !== 'cloud' && (
+                <SshTunnelSettingsFields
+                  idPrefix="edit-cluster"
+                  value={editingCluster.sshTunnel}
+                  onChange={(sshTunnel) => setEditingCluster({ ...editingCluster, sshTunnel })}
+                  hasSavedSecrets={Boolean(editingCluster.credentialId)}
                 />
-                <p className="text-xs text-muted-foreground">
-                  如果不需要修改密码，请留空
-                </p>
-              </div>
+              )}
+              <ProxySettingsFields
+                idPrefix="edit-cluster"
+                value={editingCluster}
+                onChange={(proxySettings) => setEditingCluster({ ...editingCluster, ...proxySettings })}
+                hasSavedSecrets={Boolean(editingCluster.credentialId)}
+              />
             </div>
           )}
           <DialogFooter>
@@ -0,0 +1,166 @@
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { useToast } from '@/hooks/use-toast'
+import { SnapshotRepositoryInfo, useElasticsearchStore } from '@/stores/elasticsearch-store'
+import { createSnapshotName } from '@/lib/snapshot'
+
+interface CreateSnapshotDialogProps {
+  open: boolean
+  initialIndices?: string[]
+  initialRepository?: string
+  onClose: () => void
+  onCreated?: () => void
+}
+
+/**
+ * 创建快照对话框
+ * 快照在后台执行，创建后可以在快照页面查看进度
+ */
+export function CreateSnapshotDialog({ open, initialIndices = [], initialRepository, onClose, onCreated }: CreateSnapshotDialogProps) {
+  const { getSnapshotRepositories, createSnapshot } = useElasticsearchStore()
+  const { toast } = useToast()
+
+  const [repositories, setRepositories] = useState<SnapshotRepositoryInfo[]>([])
+  const [repository, setRepository] = useState('')
+  const [name, setName] = useState('')
+  const [indicesText, setIndicesText] = useState('')
+  const [includeGlobalState, setIncludeGlobalState] = useState(false)
+  const [ignoreUnavailable, setIgnoreUnavailable] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  // initialIndices 每次渲染都是新数组，按内容判断是否变化
+  const initialIndicesText = initialIndices.join(',')
+
+  useEffect(() => {
+    if (!open) return
+    setName(createSnapshotName())
+    setIndicesText(initialIndicesText)
+    setIncludeGlobalState(false)
+    setIgnoreUnavailable(false)
+    setLoadError(null)
+
+    getSnapshotRepositories()
+      .then(result => {
+        setRepositories(result)
+        setRepository(initialRepository && result.some(item => item.name === initialRepository)
+          ? initialRepository
+          : result[0]?.name ?? '')
+      })
+      .catch(error => setLoadError(error instanceof Error ? error.message : '未知错误'))
+  }, [open, initialIndicesText, initialRepository, getSnapshotRepositories])
+
+  if (!open) return null
+
+  const indices = indicesText.split(',').map(index => index.trim()).filter(Boolean)
+  const nameError = !name.trim()
+    ? '快照名称不能为空'
+    : name !== name.toLowerCase() || /[\s"*\\<|,>/?#]/.test(name) || name.startsWith('_')
+      ? '快照名称必须为小写，不能以下划线开头，且不能包含空格和 " * \\ < | , > / ? #'
+      : null
+
+  const handleCreate = async () => {
+    setIsSaving(true)
+    try {
+      await createSnapshot({
+        repository,
+        snapshot: name.trim(),
+        indices,
+        includeGlobalState,
+        ignoreUnavailable
+      })
+      toast({ title: '快照已开始创建', description: `${repository} / ${name.trim()}` })
+      onCreated?.()
+      onClose()
+    } catch (error) {
+      toast({
+        title: '创建快照失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive'
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open onOpenChange={(value) => !value && !isSaving && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>创建快照</DialogTitle>
+          <DialogDescription>
+            快照在后台执行，只复制自上次快照以来变化的段文件，创建期间索引可以正常读写
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="snapshot-repository">仓库</Label>
+            {repositories.length > 0 ? (
+              <Select value={repository} onValueChange={setRepository}>
+                <SelectTrigger id="snapshot-repository">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {repositories.map(item => (
+                    <SelectItem key={item.name} value={item.name}>
+                      {item.name} ({item.type})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                {loadError ? `加载仓库失败：${loadError}` : '集群中没有快照仓库，请先在快照页面中注册仓库'}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="snapshot-name">快照名称</Label>
+            <Input id="snapshot-name" value={name} onChange={(e) => setName(e.target.value)} />
+            {nameError && <p className="text-sm text-red-600">{nameError}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="snapshot-indices">索引</Label>
+            <Input
+              id="snapshot-indices"
+              placeholder="留空表示所有索引和数据流，支持逗号分隔和通配符"
+              value={indicesText}
+              onChange={(e) => setIndicesText(e.target.value)}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="snapshot-global-state">包含集群状态</Label>
+              <p className="text-xs text-muted-foreground">持久化集群设置、模板、生命周期策略等</p>
+            </div>
+            <Switch id="snapshot-global-state" checked={includeGlobalState} onCheckedChange={setIncludeGlobalState} />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="snapshot-ignore-unavailable">忽略不存在的索引</Label>
+              <p className="text-xs text-muted-foreground">关闭时任一索引不存在都会导致快照失败</p>
+            </div>
+            <Switch id="snapshot-ignore-unavailable" checked={ignoreUnavailable} onCheckedChange={setIgnoreUnavailable} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>取消</Button>
+          <Button onClick={handleCreate} disabled={isSaving || !repository || nameError !== null}>
+            {isSaving ? '创建中...' : '创建快照'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,345 @@
+import { Fragment, useEffect, useMemo, useState } from 'react'
+import { Plus, Trash2, RefreshCw, Search, ChevronDown, ChevronRight, FastForward } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Switch } from '@/components/ui/switch'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { useToast } from '@/hooks/use-toast'
+import { DataStreamInfo, TemplateInfo, useElasticsearchStore } from '@/stores/elasticsearch-store'
+import { formatBytes, formatDateTime } from '@/lib/utils'
+import { createWildcardMatcher } from '@/lib/wildcard'
+
+const STATUS_COLORS: Record<string, string> = {
+  green: 'bg-green-500',
+  yellow: 'bg-yellow-500',
+  red: 'bg-red-500'
+}
+
+/**
+ * 找到名称匹配且优先级最高的索引模板，创建数据流时由它决定是否启用 data_stream
+ */
+function findMatchingTemplate(templates: TemplateInfo[], name: string): TemplateInfo | undefined {
+  return templates
+    .filter(template => template.indexPatterns.length > 0 && createWildcardMatcher(template.indexPatterns.join(','))(name))
+    .sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0))[0]
+}
+
+/**
+ * 数据流管理
+ * 列出数据流及其后备索引、生成号、模板和生命周期策略，支持新建、滚动和删除
+ */
+export function DataStreamManager() {
+  const { dataStreams, ilmExplain, fetchDataStreams, createDataStream, deleteDataStream, rolloverDataStream, getTemplates } = useElasticsearchStore()
+  const { toast } = useToast()
+
+  const [searchTerm, setSearchTerm] = useState('')
+  const [showHidden, setShowHidden] = useState(false)
+  const [isRefreshing, setIsRefreshing] = useState(false)
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+
+  const [isCreateOpen, setIsCreateOpen] = useState(false)
+  const [newName, setNewName] = useState('')
+  const [templates, setTemplates] = useState<TemplateInfo[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+
+  const [pendingRollover, setPendingRollover] = useState<DataStreamInfo | null>(null)
+  const [pendingDelete, setPendingDelete] = useState<DataStreamInfo | null>(null)
+
+  useEffect(() => {
+    fetchDataStreams()
+  }, [fetchDataStreams])
+
+  const visibleStreams = useMemo(() => {
+    const keyword = searchTerm.trim().toLowerCase()
+    return dataStreams
+      .filter(stream => showHidden || (!stream.hidden && !stream.name.startsWith('.')))
+      .filter(stream => !keyword || stream.name.toLowerCase().includes(keyword))
+      .sort((a, b) => a.name.localeCompare(b.name))
+  }, [dataStreams, searchTerm, showHidden])
+
+  const matchingTemplate = useMemo(() => findMatchingTemplate(templates, newName.trim()), [templates, newName])
+  const createError = !newName.trim()
+    ? null
+    : newName.trim() !== newName.trim().toLowerCase()
+      ? '数据流名称必须为小写'
+      : dataStreams.some(stream => stream.name === newName.trim())
+        ? '数据流已存在'
+        : !matchingTemplate
+          ? '没有匹配该名称的索引模板，需要先创建启用了 data_stream 的索引模板'
+          : !matchingTemplate.dataStream
+            ? `优先级最高的匹配模板 ${matchingTemplate.name} 没有启用 data_stream`
+            : null
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true)
+    await fetchDataStreams()
+    setIsRefreshing(false)
+  }
+
+  const toggleExpanded = (name: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev)
+      if (next.has(name)) {
+        next.delete(name)
+      } else {
+        next.add(name)
+      }
+      return next
+    })
+  }
+
+  /**
+   * 打开新建对话框，加载索引模板用于校验名称
+   */
+  const openCreate = async () => {
+    setNewName('')
+    setIsCreateOpen(true)
+    try {
+      setTemplates(await getTemplates('index'))
+    } catch (error) {
+      setTemplates([])
+    }
+  }
+
+  const handleCreate = async () => {
+    setIsSaving(true)
+    try {
+      await createDataStream(newName.trim())
+      toast({ title: '数据流已创建', description: newName.trim() })
+      setIsCreateOpen(false)
+    } catch (error) {
+      toast({
+        title: '创建数据流失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive'
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRollover = async () => {
+    if (!pendingRollover) return
+    try {
+      const result = await rolloverDataStream(pendingRollover.name)
+      toast({ title: '数据流已滚动', description: `新的写入索引：${result.newIndex}` })
+    } catch (error) {
+      toast({
+        title: '滚动数据流失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive'
+      })
+    } finally {
+      setPendingRollover(null)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return
+    try {
+      await deleteDataStream(pendingDelete.name)
+      toast({ title: '数据流已删除', description: pendingDelete.name })
+    } catch (error) {
+      toast({
+        title: '删除数据流失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive'
+      })
+    } finally {
+      setPendingDelete(null)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-4">
+          <div className="relative">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="搜索数据流..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-8 w-64"
+            />
+          </div>
+          <div className="flex items-center space-x-2">
+            <Switch id="show-hidden-streams" checked={showHidden} onCheckedChange={setShowHidden} />
+            <Label htmlFor="show-hidden-streams" className="text-sm">显示隐藏数据流</Label>
+          </div>
+          <Badge variant="secondary">{visibleStreams.length} 个数据流</Badge>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" size="sm" onClick={handleRefresh} disabled={isRefreshing}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isRefreshing ? 'animate-spin' : ''}`} />
+            刷新
+          </Button>
+          <Button size="sm" onClick={openCreate}>
+            <Plus className="h-4 w-4 mr-2" />
+            新建数据流
+          </Button>
+        </div>
+      </div>
+
+      <ScrollArea className="h-[400px]">
+        {visibleStreams.length === 0 ? (
+          <div className="flex items-center justify-center h-32 text-muted-foreground">
+            {searchTerm ? '未找到匹配的数据流' : '暂无数据流'}
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8" />
+                <TableHead>名称</TableHead>
+                <TableHead>状态</TableHead>
+                <TableHead>后备索引</TableHead>
+                <TableHead>生成号</TableHead>
+                <TableHead>模板</TableHead>
+                <TableHead>生命周期策略</TableHead>
+                <TableHead>存储大小</TableHead>
+                <TableHead>最新数据</TableHead>
+                <TableHead className="text-right">操作</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleStreams.map(stream => {
+                const isExpanded = expanded.has(stream.name)
+                const writeIndex = stream.indices[stream.indices.length - 1]
+                return (
+                  <Fragment key={stream.name}>
+                    <TableRow>
+                      <TableCell>
+                        <Button variant="ghost" className="h-6 w-6 p-0" onClick={() => toggleExpanded(stream.name)}>
+                          {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        </Button>
+                      </TableCell>
+                      <TableCell className="font-medium">
+                        {stream.name}
+                        {stream.hidden && <Badge variant="outline" className="ml-2">隐藏</Badge>}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center space-x-2">
+                          <div className={`w-2 h-2 rounded-full ${STATUS_COLORS[stream.status] ?? 'bg-gray-500'}`} />
+                          <span className="capitalize">{stream.status}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell>{stream.indices.length}</TableCell>
+                      <TableCell>{stream.generation}</TableCell>
+                      <TableCell className="text-sm">{stream.template || '-'}</TableCell>
+                      <TableCell className="text-sm">{stream.ilmPolicy || <span className="text-muted-foreground">-</span>}</TableCell>
+                      <TableCell>{stream.storeSizeBytes !== undefined ? formatBytes(stream.storeSizeBytes) : '-'}</TableCell>
+                      <TableCell className="text-sm">
+                        {stream.maximumTimestamp ? formatDateTime(new Date(stream.maximumTimestamp)) : '-'}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button variant="ghost" size="sm" onClick={() => setPendingRollover(stream)} title="滚动">
+                          <FastForward className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => setPendingDelete(stream)} title="删除">
+                          <Trash2 className="h-4 w-4 text-red-600" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                    {isExpanded && [...stream.indices].reverse().map(index => {
+                      const ilm = ilmExplain.find(entry => entry.index === index)
+                      return (
+                        <TableRow key={index} className="bg-muted/30">
+                          <TableCell />
+                          <TableCell colSpan={9} className="font-mono text-sm">
+                            {index}
+                            {index === writeIndex && <Badge className="ml-2 font-sans">写入索引</Badge>}
+                            {ilm && (
+                              <span className="ml-3 font-sans text-xs text-muted-foreground">
+                                {[ilm.phase, ilm.action, ilm.step].filter(Boolean).join(' / ')}
+                              </span>
+                            )}
+                            {ilm?.failedStep && (
+                              <Badge variant="destructive" className="ml-2 font-sans font-normal" title={ilm.stepInfo}>
+                                {ilm.failedStep}
+                              </Badge>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      )
+                    })}
+                  </Fragment>
+                )
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </ScrollArea>
+
+      {/* 新建数据流对话框 */}
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>新建数据流</DialogTitle>
+            <DialogDescription>
+              数据流的映射和设置来自匹配的索引模板，模板需要启用 data_stream；向不存在的数据流写入时也会自动创建
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="data-stream-name">名称</Label>
+            <Input
+              id="data-stream-name"
+              placeholder="logs-myapp-default"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+            />
+            {matchingTemplate && !createError && (
+              <p className="text-xs text-muted-foreground">将使用索引模板 {matchingTemplate.name}</p>
+            )}
+            {createError && <p className="text-sm text-red-600">{createError}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCreateOpen(false)}>取消</Button>
+            <Button onClick={handleCreate} disabled={isSaving || !newName.trim() || createError !== null}>
+              {isSaving ? '创建中...' : '创建'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* 滚动确认 */}
+      <AlertDialog open={pendingRollover !== null} onOpenChange={(open) => !open && setPendingRollover(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>确认滚动数据流</AlertDialogTitle>
+            <AlertDialogDescription>
+              将为数据流 "{pendingRollover?.name}" 创建新的后备索引并设为写入索引，新写入的文档会使用模板的最新映射和设置。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>取消</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRollover}>滚动</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* 删除确认 */}
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>确认删除数据流</AlertDialogTitle>
+            <AlertDialogDescription>
+              您确定要删除数据流 "{pendingDelete?.name}" 吗？它的 {pendingDelete?.indices.length} 个后备索引和所有数据将被永久删除，此操作不可撤销。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>取消</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">
+              删除
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,384 @@
+import { useEffect, useMemo, useState } from 'react'
+import { CheckCircle2, XCircle, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Progress } from '@/components/ui/progress'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { useToast } from '@/hooks/use-toast'
+import { ExportFormat, ExportProgress, ExportResult, SelectedFile, useElasticsearchStore } from '@/stores/elasticsearch-store'
+import { getLeafFieldPaths } from '@/lib/mapping'
+import { formatBytes, generateRandomString } from '@/lib/utils'
+
+const FORMAT_OPTIONS: { value: ExportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'xlsx', label: 'Excel 工作簿 (XLSX)' },
+  { value: 'ndjson', label: 'NDJSON（每行一个 _source）' }
+]
+
+const DELIMITER_OPTIONS = [
+  { value: ',', label: '逗号 ,' },
+  { value: ';', label: '分号 ;' },
+  { value: '\t', label: '制表符' }
+]
+
+// XLSX 工作表最多 1048576 行，其中一行为表头
+const XLSX_MAX_DATA_ROWS = 1048575
+
+function formatDuration(ms: number): string {
+  const seconds = Math.floor(ms / 1000)
+  if (seconds < 60) return `${seconds} 秒`
+  return `${Math.floor(seconds / 60)} 分 ${seconds % 60} 秒`
+}
+
+/**
+ * 导出文件的默认名称，索引名加时间戳
+ */
+function defaultFileName(index: string): string {
+  const now = new Date()
+  const pad = (value: number) => String(value).padStart(2, '0')
+  const stamp = `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}-${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`
+  return `${index.replace(/[*,\\/:?"<>|]+/g, '_')}-${stamp}`
+}
+
+interface ExportDialogProps {
+  open: boolean
+  index: string
+  query?: Record<string, any>
+  sort?: any[]
+  onClose: () => void
+}
+
+/**
+ * 导出查询结果对话框
+ * 在主进程中使用 point-in-time 遍历查询匹配的所有文档，流式写入本地文件
+ */
+export function ExportDialog({ open, index, query, sort, onClose }: ExportDialogProps) {
+  const { getIndexMapping, selectExportFile, exportDocuments, cancelExport } = useElasticsearchStore()
+  const { toast } = useToast()
+
+  const [format, setFormat] = useState<ExportFormat>('csv')
+  const [delimiter, setDelimiter] = useState(',')
+  const [includeMetadata, setIncludeMetadata] = useState(true)
+  const [fields, setFields] = useState<string[]>([])
+  const [selected, setSelected] = useState<string[]>([])
+  const [fieldFilter, setFieldFilter] = useState('')
+  const [maxRows, setMaxRows] = useState('')
+  const [mappingError, setMappingError] = useState<string | null>(null)
+
+  const [isExporting, setIsExporting] = useState(false)
+  const [isCancelling, setIsCancelling] = useState(false)
+  const [exportId, setExportId] = useState<string | null>(null)
+  const [progress, setProgress] = useState<ExportProgress | null>(null)
+  const [result, setResult] = useState<ExportResult | null>(null)
+  const [exportError, setExportError] = useState<string | null>(null)
+
+  // 打开时重置状态并读取映射中的字段，数据流和通配符合并所有索引的字段
+  useEffect(() => {
+    if (!open) return
+    setFieldFilter('')
+    setMaxRows('')
+    setMappingError(null)
+    setExportId(null)
+    setProgress(null)
+    setResult(null)
+    setExportError(null)
+
+    getIndexMapping(index)
+      .then(mapping => {
+        const paths = new Set<string>()
+        Object.values(mapping || {}).forEach((item: any) => {
+          getLeafFieldPaths(item?.mappings?.properties).forEach(path => paths.add(path))
+        })
+        const sorted = [...paths].sort()
+        setFields(sorted)
+        setSelected(sorted)
+      })
+      .catch(error => {
+        setFields([])
+        setSelected([])
+        setMappingError(error instanceof Error ? error.message : '未知错误')
+      })
+  }, [open, index, getIndexMapping])
+
+  // 订阅当前导出的进度事件
+  useEffect(() => {
+    if (!exportId) return
+    return window.electronAPI.elasticsearch.onExportProgress((value) => {
+      if (value.exportId === exportId) setProgress(value)
+    })
+  }, [exportId])
+
+  const visibleFields = useMemo(
+    () => fields.filter(field => field.toLowerCase().includes(fieldFilter.trim().toLowerCase())),
+    [fields, fieldFilter]
+  )
+
+  if (!open) return null
+
+  const isAllSelected = fields.length > 0 && selected.length === fields.length
+  const isTabular = format !== 'ndjson'
+  const rowLimit = parseInt(maxRows, 10)
+  const isStarted = exportId !== null
+
+  const toggleField = (field: string, checked: boolean) => {
+    setSelected(prev => checked ? [...prev, field] : prev.filter(item => item !== field))
+  }
+
+  /**
+   * 选择保存位置后开始导出
+   */
+  const handleExport = async () => {
+    let file: SelectedFile | null
+    try {
+      file = await selectExportFile(defaultFileName(index), format)
+    } catch (error) {
+      setExportError(error instanceof Error ? error.message : '未知错误')
+      return
+    }
+    if (!file) return
+
+    const id = generateRandomString(16)
+    setExportId(id)
+    setProgress(null)
+    setResult(null)
+    setExportError(null)
+    setIsExporting(true)
+    try {
+      // 全选时 NDJSON 导出完整的 _source，包括映射中没有的字段
+      const columns = fields.filter(field => selected.includes(field))
+      const value = await exportDocuments({
+        exportId: id,
+        fileToken: file.fileToken,
+        format,
+        index,
+        query,
+        sort,
+        columns: format === 'ndjson' && isAllSelected ? undefined : columns,
+        includeMetadata: isTabular && includeMetadata,
+        delimiter: format === 'csv' ? delimiter : undefined,
+        maxRows: rowLimit > 0 ? rowLimit : undefined
+      })
+      setResult(value)
+      if (!value.aborted) {
+        toast({ title: '导出完成', description: `已导出 ${value.rows.toLocaleString()} 行到 ${value.filePath}` })
+      }
+    } catch (error) {
+      setExportError(error instanceof Error ? error.message : '未知错误')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  /**
+   * 取消导出，未完成的文件会被删除
+   */
+  const handleCancel = async () => {
+    if (!exportId) return
+    setIsCancelling(true)
+    try {
+      await cancelExport(exportId)
+    } catch (error) {
+      toast({
+        title: '取消导出失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive'
+      })
+    } finally {
+      setIsCancelling(false)
+    }
+  }
+
+  const rows = result?.rows ?? progress?.rows ?? 0
+  const total = result?.total ?? progress?.total ?? 0
+  const target = Math.min(total, rowLimit > 0 ? rowLimit : Infinity, format === 'xlsx' ? XLSX_MAX_DATA_ROWS : Infinity)
+  const percent = result && !result.aborted ? 100 : target > 0 ? Math.min(100, (rows / target) * 100) : 0
+
+  return (
+    <Dialog open onOpenChange={(value) => !value && !isExporting && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>导出查询结果 - {index}</DialogTitle>
+          <DialogDescription>
+            导出当前查询匹配的所有文档，而不只是当前页。使用 point-in-time 分批读取，查询期间写入的文档不会影响导出结果
+          </DialogDescription>
+        </DialogHeader>
+
+        {!isStarted && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="export-format">格式</Label>
+                <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+                  <SelectTrigger id="export-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FORMAT_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {format === 'csv' ? (
+                <div className="space-y-2">
+                  <Label htmlFor="export-delimiter">分隔符</Label>
+                  <Select value={delimiter} onValueChange={setDelimiter}>
+                    <SelectTrigger id="export-delimiter">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DELIMITER_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ) : <div />}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="export-max-rows">最大行数</Label>
+                <Input
+                  id="export-max-rows"
+                  type="number"
+                  min="1"
+                  placeholder="不限制"
+                  value={maxRows}
+                  onChange={(e) => setMaxRows(e.target.value)}
+                />
+                {format === 'xlsx' && (
+                  <p className="text-xs text-muted-foreground">Excel 工作表最多 {XLSX_MAX_DATA_ROWS.toLocaleString()} 行数据</p>
+                )}
+              </div>
+              {isTabular && (
+                <div className="flex items-center justify-between pt-6">
+                  <Label htmlFor="export-metadata">包含 _index 和 _id 列</Label>
+                  <Switch id="export-metadata" checked={includeMetadata} onCheckedChange={setIncludeMetadata} />
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="export-select-all"
+                    checked={isAllSelected}
+                    onCheckedChange={(checked) => setSelected(checked === true ? fields : [])}
+                    disabled={fields.length === 0}
+                  />
+                  <Label htmlFor="export-select-all">
+                    {isTabular ? '导出列' : '导出字段'}（{selected.length}/{fields.length}）
+                  </Label>
+                </div>
+                <Input
+                  placeholder="筛选字段"
+                  value={fieldFilter}
+                  onChange={(e) => setFieldFilter(e.target.value)}
+                  className="h-8 w-48"
+                />
+              </div>
+              {fields.length > 0 ? (
+                <ScrollArea className="h-[220px] rounded-md border p-2">
+                  {visibleFields.map(field => (
+                    <div key={field} className="flex items-center space-x-2 py-0.5">
+                      <Checkbox
+                        id={`export-field-${field}`}
+                        checked={selected.includes(field)}
+                        onCheckedChange={(checked) => toggleField(field, checked === true)}
+                      />
+                      <Label htmlFor={`export-field-${field}`} className="font-mono text-sm font-normal">{field}</Label>
+                    </div>
+                  ))}
+                </ScrollArea>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  {mappingError ? `读取映射失败：${mappingError}，` : '映射中没有字段，'}将按第一批文档推断导出的列
+                </p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                {isTabular
+                  ? '嵌套对象按字段路径展开为列，数组的多个值以逗号分隔写入同一个单元格'
+                  : '全选时导出完整的 _source，否则只保留选中的字段'}
+              </p>
+            </div>
+
+            {exportError && (
+              <div className="text-sm text-red-600 p-3 bg-red-50 rounded-md break-all">{exportError}</div>
+            )}
+          </div>
+        )}
+
+        {isStarted && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span className="flex items-center">
+                  {isExporting ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : exportError || result?.aborted ? (
+                    <XCircle className="h-4 w-4 mr-2 text-red-600" />
+                  ) : (
+                    <CheckCircle2 className="h-4 w-4 mr-2 text-green-600" />
+                  )}
+                  {isExporting ? '导出中...' : exportError ? '导出失败' : result?.aborted ? '已取消' : '已完成'}
+                </span>
+                <span className="text-muted-foreground">
+                  {rows.toLocaleString()} / {target.toLocaleString()}
+                </span>
+              </div>
+              <Progress value={percent} />
+            </div>
+            {result && !result.aborted && (
+              <div className="rounded-md border p-3 text-sm space-y-1">
+                <div><span className="text-muted-foreground">文件：</span><span className="font-mono break-all">{result.filePath}</span></div>
+                <div>
+                  <span className="text-muted-foreground">大小：</span>{formatBytes(result.sizeBytes)}
+                  <span className="text-muted-foreground ml-4">耗时：</span>{formatDuration(result.timeMs)}
+                </div>
+              </div>
+            )}
+            {result?.limitReached && (
+              <p className="text-sm text-orange-600">
+                查询匹配 {result.total.toLocaleString()} 个文档，受行数限制只导出了前 {result.rows.toLocaleString()} 行
+              </p>
+            )}
+            {result?.aborted && (
+              <p className="text-xs text-muted-foreground">导出已取消，未完成的文件已删除</p>
+            )}
+            {exportError && (
+              <div className="text-sm text-red-600 p-3 bg-red-50 rounded-md break-all">{exportError}</div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {!isStarted && (
+            <>
+              <Button variant="outline" onClick={onClose}>取消</Button>
+              <Button onClick={handleExport} disabled={fields.length > 0 && selected.length === 0}>
+                选择位置并导出
+              </Button>
+            </>
+          )}
+          {isStarted && (
+            <>
+              {isExporting && (
+                <Button variant="outline" onClick={handleCancel} disabled={isCancelling}>
+                  {isCancelling ? '取消中...' : '取消导出'}
+                </Button>
+              )}
+              <Button onClick={onClose} disabled={isExporting}>关闭</Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,239 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Badge } from '@/components/ui/badge'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { useToast } from '@/hooks/use-toast'
+import { IlmPolicyInfo, useElasticsearchStore } from '@/stores/elasticsearch-store'
+import { ILM_PHASES, IlmPhaseForm, IlmPhaseName, IlmPolicyForm, createIlmPolicyForm, formToPolicy, policyToForm, validateIlmForm } from '@/lib/ilm'
+import { cn } from '@/lib/utils'
+
+/**
+ * 阶段说明
+ */
+export const ILM_PHASE_META: Record<IlmPhaseName, { label: string; description: string; color: string }> = {
+  hot: { label: 'Hot', description: '索引正在写入和频繁查询', color: 'bg-red-500' },
+  warm: { label: 'Warm', description: '不再写入，仍然会被查询', color: 'bg-orange-500' },
+  cold: { label: 'Cold', description: '很少查询，可以减少副本以节省资源', color: 'bg-blue-500' },
+  delete: { label: 'Delete', description: '删除不再需要的索引', color: 'bg-gray-500' }
+}
+
+type PhaseTextField = Exclude<keyof IlmPhaseForm, 'enabled' | 'readonly' | 'extraActions'>
+
+/**
+ * 每个阶段可编辑的字段
+ */
+const PHASE_FIELDS: Record<IlmPhaseName, { key: PhaseTextField; label: string; placeholder?: string }[]> = {
+  hot: [
+    { key: 'rolloverMaxAge', label: '滚动：最大时间', placeholder: '30d' },
+    { key: 'rolloverMaxPrimaryShardSize', label: '滚动：最大主分片大小', placeholder: '50gb' },
+    { key: 'rolloverMaxDocs', label: '滚动：最大文档数' },
+    { key: 'priority', label: '恢复优先级' },
+    { key: 'forceMergeSegments', label: '强制合并段数' },
+    { key: 'shrinkShards', label: '收缩后分片数' }
+  ],
+  warm: [
+    { key: 'minAge', label: '进入时间 (min_age)', placeholder: '7d' },
+    { key: 'priority', label: '恢复优先级' },
+    { key: 'replicas', label: '副本数' },
+    { key: 'shrinkShards', label: '收缩后分片数' },
+    { key: 'forceMergeSegments', label: '强制合并段数' }
+  ],
+  cold: [
+    { key: 'minAge', label: '进入时间 (min_age)', placeholder: '30d' },
+    { key: 'priority', label: '恢复优先级' },
+    { key: 'replicas', label: '副本数' }
+  ],
+  delete: [
+    { key: 'minAge', label: '删除时间 (min_age)', placeholder: '90d' }
+  ]
+}
+
+interface IlmPolicyEditorProps {
+  open: boolean
+  policy?: IlmPolicyInfo
+  existingNames: string[]
+  onClose: () => void
+  onSaved: () => void
+}
+
+/**
+ * ILM 策略编辑器
+ * 按阶段编辑滚动条件和常用动作，表单不支持的动作和阶段会原样保留
+ */
+export function IlmPolicyEditor({ open, policy, existingNames, onClose, onSaved }: IlmPolicyEditorProps) {
+  const { putIlmPolicy } = useElasticsearchStore()
+  const { toast } = useToast()
+
+  const [name, setName] = useState('')
+  const [form, setForm] = useState<IlmPolicyForm>(createIlmPolicyForm())
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    setName(policy?.name ?? '')
+    setForm(policy ? policyToForm(policy.phases, policy.meta) : createIlmPolicyForm())
+  }, [open, policy])
+
+  const errors = useMemo(() => {
+    const result = validateIlmForm(form)
+    if (!policy) {
+      if (!name.trim()) {
+        result.unshift('策略名称不能为空')
+      } else if (existingNames.includes(name.trim())) {
+        result.unshift(`策略 ${name.trim()} 已存在`)
+      }
+    }
+    return result
+  }, [form, name, policy, existingNames])
+
+  const policyBody = useMemo(() => formToPolicy(form), [form])
+
+  if (!open) return null
+
+  const updatePhase = (phase: IlmPhaseName, changes: Partial<IlmPhaseForm>) => {
+    setForm(prev => ({ ...prev, phases: { ...prev.phases, [phase]: { ...prev.phases[phase], ...changes } } }))
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      await putIlmPolicy(policy?.name ?? name.trim(), policyBody)
+      toast({ title: '生命周期策略已保存', description: policy?.name ?? name.trim() })
+      onSaved()
+      onClose()
+    } catch (error) {
+      toast({
+        title: '保存生命周期策略失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive'
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const inUseCount = policy ? policy.inUseBy.indices.length + policy.inUseBy.dataStreams.length : 0
+  const extraPhaseNames = Object.keys(form.extraPhases)
+
+  return (
+    <Dialog open onOpenChange={(value) => !value && !isSaving && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle>{policy ? `编辑生命周期策略 - ${policy.name}` : '新建生命周期策略'}</DialogTitle>
+          <DialogDescription>
+            {policy && inUseCount > 0
+              ? `该策略正在被 ${inUseCount} 个索引或数据流使用，修改后已进入当前阶段的索引会在下一个阶段使用新的定义`
+              : '索引按阶段顺序执行动作，min_age 从索引创建或滚动时开始计算'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="form">
+          <TabsList>
+            <TabsTrigger value="form">阶段配置</TabsTrigger>
+            <TabsTrigger value="json">JSON</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="form">
+            <ScrollArea className="h-[55vh] pr-4">
+              <div className="space-y-4">
+                {!policy && (
+                  <div className="space-y-2">
+                    <Label htmlFor="ilm-policy-name">策略名称</Label>
+                    <Input id="ilm-policy-name" value={name} onChange={(e) => setName(e.target.value)} />
+                  </div>
+                )}
+
+                {ILM_PHASES.map(phaseName => {
+                  const phase = form.phases[phaseName]
+                  const meta = ILM_PHASE_META[phaseName]
+                  const extraActions = Object.keys(phase.extraActions)
+                  return (
+                    <div key={phaseName} className="rounded-md border p-4 space-y-3">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-2">
+                          <div className={cn('w-2 h-2 rounded-full', meta.color)} />
+                          <span className="font-medium">{meta.label}</span>
+                          <span className="text-sm text-muted-foreground">{meta.description}</span>
+                        </div>
+                        <Switch
+                          checked={phase.enabled}
+                          onCheckedChange={(checked) => updatePhase(phaseName, { enabled: checked })}
+                        />
+                      </div>
+                      {phase.enabled && (
+                        <>
+                          <div className="grid grid-cols-3 gap-3">
+                            {PHASE_FIELDS[phaseName].map(field => (
+                              <div key={field.key} className="space-y-1">
+                                <Label htmlFor={`ilm-${phaseName}-${field.key}`} className="text-xs">{field.label}</Label>
+                                <Input
+                                  id={`ilm-${phaseName}-${field.key}`}
+                                  placeholder={field.placeholder}
+                                  value={phase[field.key]}
+                                  onChange={(e) => updatePhase(phaseName, { [field.key]: e.target.value.trim() })}
+                                />
+                              </div>
+                            ))}
+                          </div>
+                          {phaseName !== 'delete' && (
+                            <div className="flex items-center space-x-2">
+                              <Checkbox
+                                id={`ilm-${phaseName}-readonly`}
+                                checked={phase.readonly}
+                                onCheckedChange={(checked) => updatePhase(phaseName, { readonly: checked === true })}
+                              />
+                              <Label htmlFor={`ilm-${phaseName}-readonly`} className="text-sm">设为只读</Label>
+                            </div>
+                          )}
+                          {extraActions.length > 0 && (
+                            <div className="text-xs text-muted-foreground">
+                              保留的其他动作：
+                              {extraActions.map(action => (
+                                <Badge key={action} variant="outline" className="ml-1 font-mono">{action}</Badge>
+                              ))}
+                            </div>
+                          )}
+                        </>
+                      )}
+                    </div>
+                  )
+                })}
+
+                {extraPhaseNames.length > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    表单不支持编辑的阶段将原样保留：{extraPhaseNames.join(', ')}
+                  </p>
+                )}
+              </div>
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="json">
+            <ScrollArea className="h-[55vh]">
+              <pre className="text-sm bg-muted p-4 rounded-md overflow-auto">
+                {JSON.stringify({ policy: policyBody }, null, 2)}
+              </pre>
+            </ScrollArea>
+          </TabsContent>
+        </Tabs>
+
+        {errors.map(error => (
+          <p key={error} className="text-sm text-red-600">{error}</p>
+        ))}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>取消</Button>
+          <Button onClick={handleSave} disabled={isSaving || errors.length > 0}>
+            {isSaving ? '保存中...' : '保存'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
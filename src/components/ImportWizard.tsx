@@ -0,0 +1,685 @@
+import { useEffect, useMemo, useState } from 'react'
+import { CheckCircle2, XCircle, Loader2, FolderOpen, Download } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Progress } from '@/components/ui/progress'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { useToast } from '@/hooks/use-toast'
+import {
+  ImportColumn,
+  ImportFieldType,
+  ImportFormat,
+  ImportPreview,
+  ImportProgress,
+  ImportRequest,
+  ImportResult,
+  SelectedFile,
+  useElasticsearchStore
+} from '@/stores/elasticsearch-store'
+import { IMPORT_FIELD_TYPES, buildImportMapping, validateImportColumns } from '@/lib/import'
+import { cn, downloadFile, formatBytes, generateRandomString } from '@/lib/utils'
+
+type WizardStep = 'file' | 'fields' | 'target' | 'progress'
+
+const STEPS: { key: Exclude<WizardStep, 'progress'>; label: string }[] = [
+  { key: 'file', label: '选择文件' },
+  { key: 'fields', label: '字段映射' },
+  { key: 'target', label: '目标索引' }
+]
+
+const FORMAT_OPTIONS: { value: ImportFormat | 'auto'; label: string }[] = [
+  { value: 'auto', label: '自动识别' },
+  { value: 'ndjson', label: 'NDJSON（每行一个 JSON 文档）' },
+  { value: 'csv', label: 'CSV（首行为表头）' },
+  { value: 'json', label: 'JSON 数组' }
+]
+
+const DELIMITER_OPTIONS = [
+  { value: ',', label: '逗号 ,' },
+  { value: ';', label: '分号 ;' },
+  { value: '\t', label: '制表符' },
+  { value: '|', label: '竖线 |' }
+]
+
+// 不使用 ID 字段时 Select 的取值
+const NO_ID_FIELD = '__none__'
+
+function formatDuration(ms: number): string {
+  const seconds = Math.floor(ms / 1000)
+  if (seconds < 60) return `${seconds} 秒`
+  return `${Math.floor(seconds / 60)} 分 ${seconds % 60} 秒`
+}
+
+interface ImportWizardProps {
+  open: boolean
+  initialIndex?: string
+  onClose: () => void
+}
+
+/**
+ * 数据导入向导
+ * 在主进程中流式读取 NDJSON、CSV 或 JSON 数组文件，通过 bulk 分批写入目标索引
+ */
+export function ImportWizard({ open, initialIndex = '', onClose }: ImportWizardProps) {
+  const { indices, dataStreams, selectImportFile, previewImportFile, bulkImport, cancelImport } = useElasticsearchStore()
+  const { toast } = useToast()
+
+  const [step, setStep] = useState<WizardStep>('file')
+  const [file, setFile] = useState<SelectedFile | null>(null)
+  const [format, setFormat] = useState<ImportFormat | 'auto'>('auto')
+  const [delimiter, setDelimiter] = useState(',')
+  const [preview, setPreview] = useState<ImportPreview | null>(null)
+  const [previewError, setPreviewError] = useState<string | null>(null)
+  const [isPreviewing, setIsPreviewing] = useState(false)
+  const [columns, setColumns] = useState<ImportColumn[]>([])
+  const [idField, setIdField] = useState(NO_ID_FIELD)
+  const [index, setIndex] = useState('')
+  const [createIndex, setCreateIndex] = useState(true)
+  const [replicas, setReplicas] = useState('')
+  const [flushMb, setFlushMb] = useState('5')
+  const [concurrency, setConcurrency] = useState('5')
+
+  const [isImporting, setIsImporting] = useState(false)
+  const [isCancelling, setIsCancelling] = useState(false)
+  const [importId, setImportId] = useState<string | null>(null)
+  const [progress, setProgress] = useState<ImportProgress | null>(null)
+  const [result, setResult] = useState<ImportResult | null>(null)
+  const [importError, setImportError] = useState<string | null>(null)
+
+  // 打开时重置向导
+  useEffect(() => {
+    if (open) {
+      setStep('file')
+      setFile(null)
+      setFormat('auto')
+      setDelimiter(',')
+      setPreview(null)
+      setPreviewError(null)
+      setColumns([])
+      setIdField(NO_ID_FIELD)
+      setIndex(initialIndex)
+      setCreateIndex(true)
+      setReplicas('')
+      setFlushMb('5')
+      setConcurrency('5')
+      setImportId(null)
+      setProgress(null)
+      setResult(null)
+      setImportError(null)
+    }
+  }, [open, initialIndex])
+
+  // 订阅当前导入的进度事件
+  useEffect(() => {
+    if (!importId) return
+    return window.electronAPI.elasticsearch.onImportProgress((value) => {
+      if (value.importId === importId) setProgress(value)
+    })
+  }, [importId])
+
+  const targetName = index.trim()
+  const targetStream = dataStreams.find(stream => stream.name === targetName)
+  const targetIndex = indices.find(item => item.index === targetName)
+  const targetExists = Boolean(targetStream || targetIndex)
+  const indexNameError = !targetName
+    ? '目标索引不能为空'
+    : targetName !== targetName.toLowerCase() || /[\s"*\\<|,>/?#:]/.test(targetName) || /^[-_+.]/.test(targetName)
+      ? '索引名称必须为小写，不能以 - _ + . 开头，且不能包含空格和 " * \\ < | , > / ? # :'
+      : null
+
+  const columnErrors = useMemo(
+    () => preview?.format === 'csv' ? validateImportColumns(columns) : [],
+    [preview?.format, columns]
+  )
+  const mapping = useMemo(
+    () => buildImportMapping(columns.map(column => ({ ...column, field: column.field.trim() }))),
+    [columns]
+  )
+  const idFieldOptions = columns.map(column => column.field.trim()).filter(Boolean)
+  // 修改字段名后原来选择的 ID 字段可能已不存在
+  const selectedIdField = idFieldOptions.includes(idField) ? idField : NO_ID_FIELD
+
+  if (!open) return null
+
+  /**
+   * 读取文件开头的记录，推断格式和字段
+   */
+  const loadPreview = async (selected: SelectedFile | null, nextFormat: ImportFormat | 'auto', nextDelimiter: string) => {
+    if (!selected) return
+    setIsPreviewing(true)
+    setPreviewError(null)
+    try {
+      const value = await previewImportFile(selected.fileToken, {
+        format: nextFormat === 'auto' ? undefined : nextFormat,
+        delimiter: nextFormat === 'csv' ? nextDelimiter : undefined
+      })
+      setPreview(value)
+      setColumns(value.columns)
+      setIdField(NO_ID_FIELD)
+      setDelimiter(value.delimiter || nextDelimiter)
+      if (!index.trim()) {
+        setIndex(value.fileName.replace(/\.[^.]+$/, '').toLowerCase().replace(/[^a-z0-9_.-]+/g, '-').replace(/^[-_+.]+/, ''))
+      }
+    } catch (error) {
+      setPreview(null)
+      setColumns([])
+      setPreviewError(error instanceof Error ? error.message : '未知错误')
+    } finally {
+      setIsPreviewing(false)
+    }
+  }
+
+  const handleSelectFile = async () => {
+    try {
+      const selected = await selectImportFile()
+      if (!selected) return
+      setFile(selected)
+      await loadPreview(selected, format, delimiter)
+    } catch (error) {
+      setPreviewError(error instanceof Error ? error.message : '未知错误')
+    }
+  }
+
+  const updateColumn = (name: string, changes: Partial<ImportColumn>) => {
+    setColumns(prev => prev.map(column => column.name === name ? { ...column, ...changes } : column))
+  }
+
+  /**
+   * 开始导入，完成后显示结果和错误报告
+   */
+  const handleStart = async () => {
+    if (!preview || !file) return
+    const id = generateRandomString(16)
+    const replicaCount = parseInt(replicas, 10)
+    const request: ImportRequest = {
+      importId: id,
+      fileToken: file.fileToken,
+      format: preview.format,
+      delimiter: preview.format === 'csv' ? preview.delimiter : undefined,
+      columns: preview.format === 'csv' ? columns.map(column => ({ ...column, field: column.field.trim() })) : undefined,
+      index: targetName,
+      opType: targetStream ? 'create' : 'index',
+      idField: selectedIdField === NO_ID_FIELD ? undefined : selectedIdField,
+      createIndex: createIndex && !targetExists
+        ? { mappings: mapping, settings: replicaCount >= 0 ? { number_of_replicas: replicaCount } : undefined }
+        : undefined,
+      flushBytes: parseFloat(flushMb) > 0 ? Math.round(parseFloat(flushMb) * 1024 * 1024) : undefined,
+      concurrency: parseInt(concurrency, 10) > 0 ? parseInt(concurrency, 10) : undefined
+    }
+
+    setImportId(id)
+    setProgress(null)
+    setResult(null)
+    setImportError(null)
+    setStep('progress')
+    setIsImporting(true)
+    try {
+      const value = await bulkImport(request)
+      setResult(value)
+      toast({
+        title: value.aborted ? '导入已取消' : value.failed > 0 ? '导入完成，但有失败' : '导入完成',
+        description: `已写入 ${value.successful.toLocaleString()} 个文档`,
+        variant: value.failed > 0 ? 'destructive' : undefined
+      })
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : '未知错误')
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  /**
+   * 取消导入，已发送的批次不会回滚
+   */
+  const handleCancel = async () => {
+    if (!importId) return
+    setIsCancelling(true)
+    try {
+      await cancelImport(importId)
+    } catch (error) {
+      toast({
+        title: '取消导入失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive'
+      })
+    } finally {
+      setIsCancelling(false)
+    }
+  }
+
+  const handleExportErrors = () => {
+    if (!result) return
+    downloadFile(
+      result.errors.map(error => JSON.stringify(error)).join('\n'),
+      `${targetName}-import-errors.ndjson`,
+      'application/x-ndjson'
+    )
+  }
+
+  const canLeaveFile = preview !== null && !isPreviewing && preview.columns.length > 0
+  const canLeaveFields = columnErrors.length === 0
+  const canStart = indexNameError === null
+  const percent = result && !result.aborted
+    ? 100
+    : progress && progress.totalBytes > 0 ? Math.min(100, (progress.bytesRead / progress.totalBytes) * 100) : 0
+  const counts = result ?? progress
+
+  return (
+    <Dialog open onOpenChange={(value) => !value && !isImporting && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>导入数据</DialogTitle>
+          <DialogDescription>
+            从 NDJSON、CSV 或 JSON 数组文件批量写入文档，文件在本地流式读取，不会整体加载到内存
+          </DialogDescription>
+        </DialogHeader>
+
+        {step !== 'progress' && (
+          <div className="flex items-center space-x-2 text-sm">
+            {STEPS.map((item, i) => (
+              <div key={item.key} className="flex items-center space-x-2">
+                {i > 0 && <div className="w-8 h-px bg-border" />}
+                <span
+                  className={cn(
+                    'px-2 py-1 rounded',
+                    item.key === step ? 'bg-primary text-primary-foreground' : 'text-muted-foreground'
+                  )}
+                >
+                  {i + 1}. {item.label}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {step === 'file' && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="import-file">文件</Label>
+              <div className="flex space-x-2">
+                <Input
+                  id="import-file"
+                  placeholder="点击浏览选择文件"
+                  value={file?.filePath || ''}
+                  readOnly
+                  className="font-mono text-sm"
+                />
+                <Button variant="outline" onClick={handleSelectFile} disabled={isPreviewing}>
+                  <FolderOpen className="h-4 w-4 mr-2" />
+                  浏览
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => loadPreview(file, format, delimiter)}
+                  disabled={isPreviewing || !file}
+                >
+                  {isPreviewing ? <Loader2 className="h-4 w-4 animate-spin" /> : '读取'}
+                </Button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="import-format">格式</Label>
+                <Select
+                  value={format}
+                  onValueChange={(value) => {
+                    const next = value as ImportFormat | 'auto'
+                    setFormat(next)
+                    loadPreview(file, next, delimiter)
+                  }}
+                >
+                  <SelectTrigger id="import-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FORMAT_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {preview?.format === 'csv' && (
+                <div className="space-y-2">
+                  <Label htmlFor="import-delimiter">分隔符</Label>
+                  <Select
+                    value={delimiter}
+                    onValueChange={(value) => {
+                      setDelimiter(value)
+                      loadPreview(file, 'csv', value)
+                    }}
+                  >
+                    <SelectTrigger id="import-delimiter">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DELIMITER_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+
+            {previewError && (
+              <div className="text-sm text-red-600 p-3 bg-red-50 rounded-md break-all">{previewError}</div>
+            )}
+
+            {preview && (
+              <div className="space-y-2">
+                <div className="text-sm text-muted-foreground">
+                  {preview.fileName} · {formatBytes(preview.sizeBytes)} · 识别为 {preview.format.toUpperCase()} ·
+                  预览前 {preview.sampledRecords} 条记录，识别出 {preview.columns.length} 个字段
+                </div>
+                {preview.parseErrors.length > 0 && (
+                  <div className="text-sm text-orange-600 space-y-1">
+                    {preview.parseErrors.map((error, i) => <div key={i} className="break-all">{error}</div>)}
+                  </div>
+                )}
+                <ScrollArea className="h-[220px] rounded-md border">
+                  <pre className="p-3 text-xs font-mono whitespace-pre-wrap break-all">
+                    {preview.sample.map(record => JSON.stringify(record)).join('\n')}
+                  </pre>
+                </ScrollArea>
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === 'fields' && preview && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {preview.format === 'csv'
+                ? '按表头生成字段，清空字段名可跳过该列；值会按所选类型转换，无法转换时该行记为失败'
+                : '字段类型仅用于创建目标索引时的映射，文档按原样写入；object 类型由动态映射处理'}
+            </p>
+            <ScrollArea className="h-[320px] rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{preview.format === 'csv' ? '列名' : '字段'}</TableHead>
+                    {preview.format === 'csv' && <TableHead>写入字段</TableHead>}
+                    <TableHead className="w-[180px]">类型</TableHead>
+                    <TableHead>示例值</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {columns.map(column => (
+                    <TableRow key={column.name} className={cn(!column.field.trim() && 'opacity-50')}>
+                      <TableCell className="font-mono text-sm">{column.name}</TableCell>
+                      {preview.format === 'csv' && (
+                        <TableCell>
+                          <Input
+                            value={column.field}
+                            placeholder="跳过"
+                            onChange={(e) => updateColumn(column.name, { field: e.target.value })}
+                            className="h-8 font-mono text-sm"
+                          />
+                        </TableCell>
+                      )}
+                      <TableCell>
+                        <Select
+                          value={column.type}
+                          onValueChange={(value) => updateColumn(column.name, { type: value as ImportFieldType })}
+                        >
+                          <SelectTrigger className="h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {IMPORT_FIELD_TYPES.map(option => (
+                              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell className="font-mono text-xs text-muted-foreground max-w-[200px] truncate">
+                        {preview.sample[0]?.[column.name] === undefined ? '' : JSON.stringify(preview.sample[0][column.name])}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+            {columnErrors.map((error, i) => (
+              <p key={i} className="text-sm text-red-600">{error}</p>
+            ))}
+            <div className="space-y-2">
+              <Label htmlFor="import-id-field">文档 ID 字段</Label>
+              <Select value={selectedIdField} onValueChange={setIdField}>
+                <SelectTrigger id="import-id-field">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_ID_FIELD}>不指定（自动生成 ID）</SelectItem>
+                  {idFieldOptions.map(field => (
+                    <SelectItem key={field} value={field}>{field}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">指定后同 ID 的文档会被覆盖，重复导入不会产生重复数据；缺少该字段的记录记为失败</p>
+            </div>
+          </div>
+        )}
+
+        {step === 'target' && preview && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="import-index">目标索引</Label>
+              <Input
+                id="import-index"
+                value={index}
+                onChange={(e) => setIndex(e.target.value)}
+                list="import-index-options"
+              />
+              <datalist id="import-index-options">
+                {dataStreams.map(stream => <option key={stream.name} value={stream.name} />)}
+                {indices.filter(item => !item.index.startsWith('.')).map(item => <option key={item.index} value={item.index} />)}
+              </datalist>
+              {indexNameError && targetName && <p className="text-sm text-red-600">{indexNameError}</p>}
+              {targetStream && (
+                <p className="text-xs text-muted-foreground">
+                  目标是数据流，文档将以 create 操作写入，每个文档都必须包含 @timestamp 字段
+                </p>
+              )}
+              {targetIndex && (
+                <p className="text-xs text-muted-foreground">
+                  目标索引已存在（{targetIndex.docsCount?.toLocaleString() ?? 0} 个文档），文档将写入现有索引
+                </p>
+              )}
+            </div>
+
+            {!targetExists && (
+              <div className="space-y-3">
+                <div className="flex items-start space-x-2">
+                  <Checkbox
+                    id="import-create-index"
+                    checked={createIndex}
+                    onCheckedChange={(checked) => setCreateIndex(checked === true)}
+                  />
+                  <div className="space-y-1">
+                    <Label htmlFor="import-create-index">按推断的映射创建目标索引</Label>
+                    <p className="text-xs text-muted-foreground">
+                      不勾选时目标索引将由动态映射或匹配的索引模板自动创建
+                    </p>
+                  </div>
+                </div>
+                {createIndex && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="import-replicas">副本数</Label>
+                      <Input
+                        id="import-replicas"
+                        type="number"
+                        min="0"
+                        placeholder="集群默认"
+                        value={replicas}
+                        onChange={(e) => setReplicas(e.target.value)}
+                      />
+                      <p className="text-xs text-muted-foreground">单节点开发集群可以设为 0，避免索引状态为黄色</p>
+                    </div>
+                    <ScrollArea className="h-[120px] rounded-md border">
+                      <pre className="p-2 text-xs font-mono">{JSON.stringify(mapping, null, 2)}</pre>
+                    </ScrollArea>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="import-flush">批次大小 (MB)</Label>
+                <Input
+                  id="import-flush"
+                  type="number"
+                  min="0.1"
+                  step="0.5"
+                  value={flushMb}
+                  onChange={(e) => setFlushMb(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">累积到该大小时发送一次 bulk 请求</p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="import-concurrency">并发请求数</Label>
+                <Input
+                  id="import-concurrency"
+                  type="number"
+                  min="1"
+                  max="20"
+                  value={concurrency}
+                  onChange={(e) => setConcurrency(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">同时进行的 bulk 请求数，集群负载高时可以调低</p>
+              </div>
+            </div>
+
+            <div className="rounded-md border p-3 text-sm space-y-1">
+              <div><span className="text-muted-foreground">文件：</span><span className="font-mono">{preview.filePath}</span></div>
+              <div>
+                <span className="text-muted-foreground">目标：</span>
+                <span className="font-mono">{targetName}</span>
+                {createIndex && !targetExists && <span className="text-muted-foreground">（按推断的映射创建）</span>}
+              </div>
+              {selectedIdField !== NO_ID_FIELD && (
+                <div><span className="text-muted-foreground">ID 字段：</span><span className="font-mono">{selectedIdField}</span></div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {step === 'progress' && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span className="flex items-center">
+                  {isImporting ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : importError || result?.aborted || result?.failed ? (
+                    <XCircle className="h-4 w-4 mr-2 text-red-600" />
+                  ) : (
+                    <CheckCircle2 className="h-4 w-4 mr-2 text-green-600" />
+                  )}
+                  {isImporting ? '导入中...' : importError ? '导入失败' : result?.aborted ? '已取消' : result?.failed ? '导入完成，但有失败' : '已完成'}
+                </span>
+                <span className="text-muted-foreground">
+                  {progress ? `${formatBytes(progress.bytesRead)} / ${formatBytes(progress.totalBytes)}` : ''}
+                </span>
+              </div>
+              <Progress value={percent} />
+            </div>
+            {counts && (
+              <div className="grid grid-cols-4 gap-3 text-sm">
+                <div><span className="text-muted-foreground">已读取：</span>{counts.records.toLocaleString()}</div>
+                <div><span className="text-muted-foreground">成功：</span>{counts.successful.toLocaleString()}</div>
+                <div><span className="text-muted-foreground">失败：</span>{counts.failed.toLocaleString()}</div>
+                {result && <div><span className="text-muted-foreground">耗时：</span>{formatDuration(result.timeMs)}</div>}
+              </div>
+            )}
+            {importError && (
+              <div className="text-sm text-red-600 p-3 bg-red-50 rounded-md break-all">{importError}</div>
+            )}
+            {result && result.errors.length > 0 && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>
+                    错误报告{result.errorsTruncated ? `（仅显示前 ${result.errors.length} 条）` : `（${result.errors.length}）`}
+                  </Label>
+                  <Button variant="outline" size="sm" onClick={handleExportErrors}>
+                    <Download className="h-4 w-4 mr-2" />
+                    导出
+                  </Button>
+                </div>
+                <ScrollArea className="h-[240px] rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-[70px]">行号</TableHead>
+                        <TableHead className="w-[140px]">ID</TableHead>
+                        <TableHead className="w-[70px]">状态</TableHead>
+                        <TableHead>原因</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {result.errors.map((error, i) => (
+                        <TableRow key={i}>
+                          <TableCell className="text-xs">{error.line ?? '-'}</TableCell>
+                          <TableCell className="font-mono text-xs break-all">{error.id ?? '-'}</TableCell>
+                          <TableCell className="text-xs">{error.status ?? '-'}</TableCell>
+                          <TableCell className="text-xs">
+                            <div className="text-red-600 break-all">{error.reason}</div>
+                            {error.document && (
+                              <div className="font-mono text-muted-foreground break-all mt-1">{error.document}</div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </ScrollArea>
+              </div>
+            )}
+            {result?.aborted && (
+              <p className="text-xs text-muted-foreground">已写入的文档不会回滚</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'file' && (
+            <>
+              <Button variant="outline" onClick={onClose}>取消</Button>
+              <Button onClick={() => setStep('fields')} disabled={!canLeaveFile}>下一步</Button>
+            </>
+          )}
+          {step === 'fields' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('file')}>上一步</Button>
+              <Button onClick={() => setStep('target')} disabled={!canLeaveFields}>下一步</Button>
+            </>
+          )}
+          {step === 'target' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('fields')}>上一步</Button>
+              <Button onClick={handleStart} disabled={!canStart}>开始导入</Button>
+            </>
+          )}
+          {step === 'progress' && (
+            <>
+              {isImporting && (
+                <Button variant="outline" onClick={handleCancel} disabled={isCancelling}>
+                  {isCancelling ? '取消中...' : '取消导入'}
+                </Button>
+              )}
+              <Button onClick={onClose} disabled={isImporting}>关闭</Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,179 @@
+import { useEffect, useState } from 'react'
+import { CheckCircle2, XCircle, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Progress } from '@/components/ui/progress'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { IndexOperation, IndexOperationResult, useElasticsearchStore } from '@/stores/elasticsearch-store'
+
+/**
+ * 索引操作说明
+ * destructive 的操作会影响索引的读写，执行前需要用户确认
+ */
+export const INDEX_OPERATIONS: Record<IndexOperation, { label: string; description: string; destructive?: boolean }> = {
+  open: { label: '打开索引', description: '打开已关闭的索引，索引恢复后可以正常读写' },
+  close: { label: '关闭索引', description: '关闭后索引不再占用堆内存，但无法读写，直到重新打开', destructive: true },
+  refresh: { label: '刷新', description: '使最近写入的文档立即可以被搜索到' },
+  flush: { label: '刷盘', description: '将内存中的数据持久化到磁盘并清理事务日志' },
+  forcemerge: { label: '强制合并', description: '合并分片段以减少段数量并清理已删除的文档，建议只对不再写入的索引执行', destructive: true },
+  'clear-cache': { label: '清除缓存', description: '清除查询缓存、请求缓存和字段数据缓存' },
+  freeze: { label: '冻结索引', description: '冻结后索引变为只读并释放内存，查询速度会变慢', destructive: true },
+  unfreeze: { label: '解冻索引', description: '解冻后索引恢复为可写的普通索引' }
+}
+
+/**
+ * 判断集群版本是否支持该操作
+ * 冻结索引从 6.6 开始提供，8.0 中移除；8.x 仍可以解冻旧版本冻结的索引
+ */
+export function isIndexOperationSupported(operation: IndexOperation, version?: string): boolean {
+  if (operation !== 'freeze' && operation !== 'unfreeze') return true
+  if (!version) return false
+
+  const [major, minor] = version.split('.').map(part => parseInt(part, 10))
+  const atLeast66 = major > 6 || (major === 6 && minor >= 6)
+  return operation === 'freeze' ? atLeast66 && major < 8 : atLeast66
+}
+
+interface IndexOperationDialogProps {
+  operation: IndexOperation | null
+  indices: string[]
+  onClose: () => void
+}
+
+/**
+ * 索引操作对话框
+ * 确认后逐个索引执行操作，显示进度和每个索引的结果
+ */
+export function IndexOperationDialog({ operation, indices, onClose }: IndexOperationDialogProps) {
+  const { runIndexOperation } = useElasticsearchStore()
+  const [maxNumSegments, setMaxNumSegments] = useState('1')
+  const [isRunning, setIsRunning] = useState(false)
+  const [results, setResults] = useState<IndexOperationResult[] | null>(null)
+
+  // 打开新的操作时重置状态
+  useEffect(() => {
+    if (operation) {
+      setMaxNumSegments('1')
+      setResults(null)
+    }
+  }, [operation, indices])
+
+  if (!operation) return null
+
+  const meta = INDEX_OPERATIONS[operation]
+  const completed = results?.length ?? 0
+  const failed = results?.filter(result => !result.success).length ?? 0
+  const isDone = !isRunning && results !== null
+
+  /**
+   * 执行操作
+   */
+  const handleRun = async () => {
+    setIsRunning(true)
+    setResults([])
+    try {
+      await runIndexOperation(
+        operation,
+        indices,
+        operation === 'forcemerge' ? { maxNumSegments: parseInt(maxNumSegments, 10) || 1 } : undefined,
+        (result) => setResults(prev => [...(prev || []), result])
+      )
+    } catch (error) {
+      setResults(indices.map(index => ({
+        index,
+        success: false,
+        error: error instanceof Error ? error.message : '未知错误'
+      })))
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && !isRunning && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{meta.label}</DialogTitle>
+          <DialogDescription>{meta.description}</DialogDescription>
+        </DialogHeader>
+
+        {results === null ? (
+          <div className="space-y-4">
+            <p className="text-sm">
+              将对以下 {indices.length} 个索引执行{meta.label}：
+            </p>
+            <ScrollArea className="max-h-48 rounded-md border p-3">
+              <div className="space-y-1 font-mono text-sm">
+                {indices.map(index => <div key={index}>{index}</div>)}
+              </div>
+            </ScrollArea>
+            {operation === 'forcemerge' && (
+              <div className="space-y-2">
+                <Label htmlFor="max-num-segments">合并后的最大段数 (max_num_segments)</Label>
+                <Input
+                  id="max-num-segments"
+                  type="number"
+                  min="1"
+                  value={maxNumSegments}
+                  onChange={(e) => setMaxNumSegments(e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span>{isRunning ? '执行中...' : failed > 0 ? `完成，${failed} 个索引失败` : '全部完成'}</span>
+                <span className="text-muted-foreground">{completed} / {indices.length}</span>
+              </div>
+              <Progress value={(completed / indices.length) * 100} />
+            </div>
+            <ScrollArea className="h-64 rounded-md border">
+              <div className="divide-y">
+                {indices.map(index => {
+                  const result = results.find(r => r.index === index)
+                  return (
+                    <div key={index} className="flex items-start space-x-2 p-2 text-sm">
+                      {!result ? (
+                        <Loader2 className={`h-4 w-4 mt-0.5 text-muted-foreground ${isRunning ? 'animate-spin' : ''}`} />
+                      ) : result.success ? (
+                        <CheckCircle2 className="h-4 w-4 mt-0.5 text-green-600" />
+                      ) : (
+                        <XCircle className="h-4 w-4 mt-0.5 text-red-600" />
+                      )}
+                      <div className="min-w-0 flex-1">
+                        <div className="font-mono">{index}</div>
+                        {result?.error && (
+                          <div className="text-xs text-red-600 break-all">{result.error}</div>
+                        )}
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+            </ScrollArea>
+          </div>
+        )}
+
+        <DialogFooter>
+          {results === null ? (
+            <>
+              <Button variant="outline" onClick={onClose}>取消</Button>
+              <Button
+                onClick={handleRun}
+                className={meta.destructive ? 'bg-red-600 hover:bg-red-700' : undefined}
+              >
+                {meta.label}
+              </Button>
+            </>
+          ) : (
+            <Button onClick={onClose} disabled={!isDone}>关闭</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
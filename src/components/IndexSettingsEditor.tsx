@@ -0,0 +1,398 @@
+import { useEffect, useMemo, useState } from 'react'
+import { AlertTriangle, ArrowRight } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { useToast } from '@/hooks/use-toast'
+import { useElasticsearchStore } from '@/stores/elasticsearch-store'
+
+/**
+ * 表单中可编辑的常用动态设置
+ */
+interface SettingField {
+  key: string
+  label: string
+  type: 'integer' | 'time' | 'text' | 'select'
+  options?: string[]
+  placeholder?: string
+  min?: number
+}
+
+const SETTING_FIELDS: SettingField[] = [
+  { key: 'index.number_of_replicas', label: '副本数', type: 'integer', min: 0 },
+  { key: 'index.auto_expand_replicas', label: '自动扩展副本', type: 'text', placeholder: '0-1 或 0-all，留空关闭' },
+  { key: 'index.refresh_interval', label: '刷新间隔', type: 'time', placeholder: '1s，-1 表示关闭' },
+  { key: 'index.max_result_window', label: '最大结果窗口', type: 'integer', min: 1, placeholder: '10000' },
+  { key: 'index.routing.allocation.enable', label: '分片分配', type: 'select', options: ['all', 'primaries', 'new_primaries', 'none'] },
+  { key: 'index.routing.allocation.include._name', label: '只分配到节点 (include)', type: 'text', placeholder: 'node-1,node-2' },
+  { key: 'index.routing.allocation.exclude._name', label: '排除节点 (exclude)', type: 'text', placeholder: 'node-3' },
+  { key: 'index.routing.allocation.require._name', label: '必须分配到节点 (require)', type: 'text' },
+  { key: 'index.blocks.write', label: '禁止写入', type: 'select', options: ['true', 'false'] }
+]
+
+/**
+ * 创建后不能修改的设置
+ */
+const FINAL_SETTINGS = [
+  'index.number_of_shards',
+  'index.uuid',
+  'index.creation_date',
+  'index.provided_name',
+  'index.version.',
+  'index.routing_partition_size',
+  'index.sort.',
+  'index.soft_deletes.enabled'
+]
+
+/**
+ * 只能在索引关闭时修改的静态设置
+ */
+const STATIC_SETTINGS = [
+  'index.codec',
+  'index.analysis.',
+  'index.similarity.',
+  'index.shard.check_on_startup',
+  'index.load_fixed_bitset_filters_eagerly',
+  'index.store.'
+]
+
+/**
+ * 判断设置名是否匹配列表中的名称或前缀
+ */
+function matchesSetting(key: string, list: string[]): boolean {
+  return list.some(item => item.endsWith('.') ? key.startsWith(item) : key === item)
+}
+
+/**
+ * 将嵌套的设置展开为 index.xxx 形式的扁平键值，保留原始类型
+ */
+function flattenSettings(value: Record<string, any>, prefix = ''): Record<string, any> {
+  const result: Record<string, any> = {}
+  Object.entries(value || {}).forEach(([key, child]) => {
+    const path = prefix ? `${prefix}.${key}` : key
+    if (child !== null && typeof child === 'object' && !Array.isArray(child)) {
+      Object.assign(result, flattenSettings(child, path))
+    } else {
+      result[path] = child
+    }
+  })
+  return result
+}
+
+/**
+ * 校验并转换表单值，空字符串表示恢复默认值
+ */
+function parseFieldValue(field: SettingField, raw: string): string | number | boolean | null {
+  const value = raw.trim()
+  if (value === '') return null
+
+  switch (field.type) {
+    case 'integer': {
+      const number = Number(value)
+      if (!Number.isInteger(number) || number < (field.min ?? 0)) {
+        throw new Error(`${field.label} 必须是不小于 ${field.min ?? 0} 的整数`)
+      }
+      return number
+    }
+    case 'time':
+      if (!/^(-1|\d+(nanos|micros|ms|s|m|h|d)?)$/.test(value)) {
+        throw new Error(`${field.label} 格式无效，例如 1s、500ms 或 -1`)
+      }
+      return value
+    case 'select':
+      return value === 'true' ? true : value === 'false' ? false : value
+    default:
+      return value
+  }
+}
+
+/**
+ * 设置值的显示文本
+ */
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '(默认)'
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+interface SettingChange {
+  key: string
+  from?: string
+  to: string | number | boolean | null
+  isStatic: boolean
+}
+
+interface IndexSettingsEditorProps {
+  indexName: string | null
+  isClosed: boolean
+  onClose: () => void
+}
+
+/**
+ * 索引设置编辑器
+ * 编辑常用动态设置或以 JSON 输入其他设置，应用前展示与当前值的差异；修改静态设置时需要确认关闭并重新打开索引
+ */
+export function IndexSettingsEditor({ indexName, isClosed, onClose }: IndexSettingsEditorProps) {
+  const { getIndexSettings, updateIndexSettings } = useElasticsearchStore()
+  const { toast } = useToast()
+
+  const [current, setCurrent] = useState<Record<string, string>>({})
+  const [draft, setDraft] = useState<Record<string, string>>({})
+  const [extraSettings, setExtraSettings] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [changes, setChanges] = useState<SettingChange[] | null>(null)
+  const [confirmReopen, setConfirmReopen] = useState(false)
+  const [isApplying, setIsApplying] = useState(false)
+
+  /**
+   * 读取当前设置
+   */
+  useEffect(() => {
+    if (!indexName) return
+
+    setChanges(null)
+    setExtraSettings('')
+    setConfirmReopen(false)
+    setLoadError(null)
+    setIsLoading(true)
+    getIndexSettings(indexName)
+      .then(result => {
+        // 集群返回的设置值都是字符串，数组按 JSON 显示
+        const flat = Object.fromEntries(
+          Object.entries(flattenSettings(result?.[indexName]?.settings))
+            .map(([key, value]) => [key, Array.isArray(value) ? JSON.stringify(value) : String(value)])
+        )
+        setCurrent(flat)
+        setDraft(Object.fromEntries(SETTING_FIELDS.map(field => [field.key, flat[field.key] ?? ''])))
+      })
+      .catch(error => setLoadError(error instanceof Error ? error.message : '获取索引设置失败'))
+      .finally(() => setIsLoading(false))
+  }, [indexName, getIndexSettings])
+
+  const hasStaticChanges = useMemo(() => !!changes?.some(change => change.isStatic), [changes])
+
+  if (!indexName) return null
+
+  /**
+   * 校验表单并计算与当前值的差异
+   */
+  const handlePreview = () => {
+    try {
+      const next: SettingChange[] = []
+
+      SETTING_FIELDS.forEach(field => {
+        const raw = draft[field.key] ?? ''
+        if (raw.trim() === (current[field.key] ?? '')) return
+        next.push({ key: field.key, from: current[field.key], to: parseFieldValue(field, raw), isStatic: false })
+      })
+
+      if (extraSettings.trim()) {
+        let parsed: any
+        try {
+          parsed = JSON.parse(extraSettings)
+        } catch {
+          throw new Error('其他设置 JSON 格式错误')
+        }
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+          throw new Error('其他设置必须是 JSON 对象')
+        }
+        Object.entries(flattenSettings(parsed)).forEach(([rawKey, value]) => {
+          const key = rawKey.startsWith('index.') ? rawKey : `index.${rawKey}`
+          if (matchesSetting(key, FINAL_SETTINGS)) {
+            throw new Error(`${key} 在索引创建后不能修改`)
+          }
+          if (formatValue(value) === (current[key] ?? '(默认)')) return
+          // JSON 中的设置覆盖表单中的同名设置
+          const duplicate = next.findIndex(change => change.key === key)
+          if (duplicate >= 0) next.splice(duplicate, 1)
+          next.push({ key, from: current[key], to: value, isStatic: matchesSetting(key, STATIC_SETTINGS) })
+        })
+      }
+
+      if (next.length === 0) {
+        toast({ title: '设置没有变化' })
+        return
+      }
+      setConfirmReopen(false)
+      setChanges(next)
+    } catch (error) {
+      toast({
+        title: '设置校验失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive'
+      })
+    }
+  }
+
+  /**
+   * 应用设置
+   * 已关闭的索引可以直接修改静态设置，不需要关闭再打开
+   */
+  const handleApply = async () => {
+    if (!changes) return
+
+    setIsApplying(true)
+    try {
+      const settings = Object.fromEntries(changes.map(change => [change.key, change.to]))
+      await updateIndexSettings(indexName, settings, { reopen: hasStaticChanges && !isClosed })
+      toast({ title: '索引设置已更新', description: `${indexName} 共更新 ${changes.length} 项设置` })
+      onClose()
+    } catch (error) {
+      toast({
+        title: '更新索引设置失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive'
+      })
+    } finally {
+      setIsApplying(false)
+    }
+  }
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && !isApplying && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle>编辑索引设置 - {indexName}</DialogTitle>
+          <DialogDescription>
+            {changes ? '确认以下变更后应用到索引' : '修改常用的动态设置，留空表示恢复默认值'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32 text-muted-foreground">加载中...</div>
+        ) : loadError ? (
+          <div className="text-red-600 p-4 bg-red-50 rounded-md">{loadError}</div>
+        ) : changes ? (
+          <div className="space-y-4">
+            <ScrollArea className="max-h-[50vh]">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>设置</TableHead>
+                    <TableHead>当前值</TableHead>
+                    <TableHead className="w-8" />
+                    <TableHead>新值</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {changes.map(change => (
+                    <TableRow key={change.key}>
+                      <TableCell className="font-mono text-xs">
+                        {change.key}
+                        {change.isStatic && <Badge variant="outline" className="ml-2">静态</Badge>}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs text-red-600 line-through">{formatValue(change.from)}</TableCell>
+                      <TableCell><ArrowRight className="h-3 w-3 text-muted-foreground" /></TableCell>
+                      <TableCell className="font-mono text-xs text-green-600">{formatValue(change.to)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+
+            {hasStaticChanges && !isClosed && (
+              <div className="rounded-md border border-yellow-500/50 bg-yellow-50 dark:bg-yellow-950/20 p-3 space-y-2">
+                <div className="flex items-center text-sm font-medium text-yellow-700 dark:text-yellow-500">
+                  <AlertTriangle className="h-4 w-4 mr-2" />
+                  静态设置需要先关闭索引
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  将依次关闭索引、更新设置、重新打开索引，期间索引无法读写。更新失败时也会尝试重新打开索引。
+                </p>
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="confirm-reopen"
+                    checked={confirmReopen}
+                    onCheckedChange={(checked) => setConfirmReopen(checked === true)}
+                  />
+                  <Label htmlFor="confirm-reopen" className="text-sm">我确认可以暂时关闭索引 {indexName}</Label>
+                </div>
+              </div>
+            )}
+          </div>
+        ) : (
+          <ScrollArea className="h-[60vh] pr-4">
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                {SETTING_FIELDS.map(field => (
+                  <div key={field.key} className="space-y-2">
+                    <Label htmlFor={field.key}>{field.label}</Label>
+                    {field.type === 'select' ? (
+                      <Select
+                        value={draft[field.key] || 'default'}
+                        onValueChange={(value) => setDraft({ ...draft, [field.key]: value === 'default' ? '' : value })}
+                      >
+                        <SelectTrigger id={field.key}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="default">(默认)</SelectItem>
+                          {field.options?.map(option => (
+                            <SelectItem key={option} value={option}>{option}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Input
+                        id={field.key}
+                        type={field.type === 'integer' ? 'number' : 'text'}
+                        min={field.min}
+                        placeholder={field.placeholder}
+                        value={draft[field.key] ?? ''}
+                        onChange={(e) => setDraft({ ...draft, [field.key]: e.target.value })}
+                      />
+                    )}
+                    <p className="text-xs text-muted-foreground font-mono">{field.key}</p>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="extra-settings">其他设置 (JSON)</Label>
+                <Textarea
+                  id="extra-settings"
+                  placeholder={`{
+  "index.codec": "best_compression",
+  "index.mapping.total_fields.limit": 2000
+}`}
+                  value={extraSettings}
+                  onChange={(e) => setExtraSettings(e.target.value)}
+                  className="min-h-[140px] font-mono text-sm"
+                />
+                <p className="text-sm text-muted-foreground">
+                  可以使用扁平键名或嵌套结构，值为 null 表示恢复默认值。
+                </p>
+              </div>
+            </div>
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          {changes ? (
+            <>
+              <Button variant="outline" onClick={() => setChanges(null)} disabled={isApplying}>返回修改</Button>
+              <Button
+                onClick={handleApply}
+                disabled={isApplying || (hasStaticChanges && !isClosed && !confirmReopen)}
+              >
+                {isApplying ? '应用中...' : '应用设置'}
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={onClose}>取消</Button>
+              <Button onClick={handlePreview} disabled={isLoading || !!loadError}>预览变更</Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,389 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { ChevronDown, ChevronRight, Plus, AlertTriangle, Info } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { useToast } from '@/hooks/use-toast'
+import { useElasticsearchStore } from '@/stores/elasticsearch-store'
+import { MappingField, buildPutMappingBody, flattenMappingFields, parseMappingProperties, validateNewField } from '@/lib/mapping'
+import { cn } from '@/lib/utils'
+
+/**
+ * 新增字段时可选的类型
+ */
+const FIELD_TYPES = [
+  'text', 'keyword', 'long', 'integer', 'short', 'byte', 'double', 'float', 'scaled_float',
+  'date', 'boolean', 'ip', 'geo_point', 'object', 'nested', 'flattened', 'dense_vector'
+]
+
+/**
+ * 字段类型徽章颜色
+ */
+function getTypeColor(type: string): string {
+  if (type === 'text' || type === 'match_only_text') return 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300'
+  if (type === 'keyword' || type === 'constant_keyword' || type === 'wildcard') return 'bg-purple-100 text-purple-800 dark:bg-purple-900/40 dark:text-purple-300'
+  if (['long', 'integer', 'short', 'byte', 'double', 'float', 'half_float', 'scaled_float', 'unsigned_long'].includes(type)) return 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300'
+  if (type === 'date' || type === 'date_nanos') return 'bg-orange-100 text-orange-800 dark:bg-orange-900/40 dark:text-orange-300'
+  if (type === 'object' || type === 'nested' || type === 'flattened') return 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-300'
+  return 'bg-cyan-100 text-cyan-800 dark:bg-cyan-900/40 dark:text-cyan-300'
+}
+
+interface FieldRowProps {
+  field: MappingField
+  depth: number
+  expanded: Set<string>
+  onToggle: (path: string) => void
+}
+
+/**
+ * 字段树中的一行，子属性和多字段可以展开
+ */
+function FieldRow({ field, depth, expanded, onToggle }: FieldRowProps) {
+  const hasChildren = field.children.length > 0 || field.multiFields.length > 0
+  const isExpanded = expanded.has(field.path)
+
+  return (
+    <>
+      <div
+        className="flex items-center space-x-2 py-1.5 px-2 text-sm hover:bg-muted/50 rounded"
+        style={{ paddingLeft: `${depth * 20 + 8}px` }}
+      >
+        <button
+          type="button"
+          className={cn('h-4 w-4 flex items-center justify-center', !hasChildren && 'invisible')}
+          onClick={() => onToggle(field.path)}
+        >
+          {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+        </button>
+        <span className={cn('font-mono', field.isMultiField && 'text-muted-foreground')}>
+          {field.isMultiField ? `.${field.name}` : field.name}
+        </span>
+        <span className={cn('px-1.5 py-0.5 rounded text-xs font-medium', getTypeColor(field.type))}>
+          {field.type}
+        </span>
+        {field.isMultiField && <Badge variant="outline" className="text-xs">多字段</Badge>}
+        {field.analyzer && (
+          <span className="text-xs text-muted-foreground">analyzer: {field.analyzer}</span>
+        )}
+        {field.searchAnalyzer && (
+          <span className="text-xs text-muted-foreground">search_analyzer: {field.searchAnalyzer}</span>
+        )}
+        {field.normalizer && (
+          <span className="text-xs text-muted-foreground">normalizer: {field.normalizer}</span>
+        )}
+        {field.format && (
+          <span className="text-xs text-muted-foreground">format: {field.format}</span>
+        )}
+        {field.index === false && <Badge variant="secondary" className="text-xs">不索引</Badge>}
+        {field.docValues === false && <Badge variant="secondary" className="text-xs">无 doc_values</Badge>}
+      </div>
+      {isExpanded && (
+        <>
+          {field.multiFields.map(child => (
+            <FieldRow key={child.path} field={child} depth={depth + 1} expanded={expanded} onToggle={onToggle} />
+          ))}
+          {field.children.map(child => (
+            <FieldRow key={child.path} field={child} depth={depth + 1} expanded={expanded} onToggle={onToggle} />
+          ))}
+        </>
+      )}
+    </>
+  )
+}
+
+interface MappingExplorerProps {
+  indexName: string | null
+  onClose: () => void
+}
+
+/**
+ * 映射浏览器
+ * 以树形结构展示字段类型、分析器和索引参数，并支持通过 putMapping 新增字段
+ */
+export function MappingExplorer({ indexName, onClose }: MappingExplorerProps) {
+  const { getIndexMapping, putIndexMapping } = useElasticsearchStore()
+  const { toast } = useToast()
+
+  const [mapping, setMapping] = useState<any>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+  const [fieldFilter, setFieldFilter] = useState('')
+
+  // 新增字段表单
+  const [newFieldPath, setNewFieldPath] = useState('')
+  const [newFieldType, setNewFieldType] = useState('keyword')
+  const [newFieldAnalyzer, setNewFieldAnalyzer] = useState('')
+  const [newFieldParams, setNewFieldParams] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const loadMapping = useCallback(async () => {
+    if (!indexName) return
+    setIsLoading(true)
+    setLoadError(null)
+    try {
+      const result = await getIndexMapping(indexName)
+      setMapping(result?.[indexName]?.mappings || {})
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : '获取索引映射失败')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [indexName, getIndexMapping])
+
+  useEffect(() => {
+    setMapping(null)
+    setExpanded(new Set())
+    setFieldFilter('')
+    setNewFieldPath('')
+    setNewFieldParams('')
+    loadMapping()
+  }, [loadMapping])
+
+  const fields = useMemo(() => parseMappingProperties(mapping?.properties), [mapping])
+  const fieldCount = useMemo(() => flattenMappingFields(fields).length, [fields])
+
+  /**
+   * 按字段路径过滤，匹配的字段保留其祖先
+   */
+  const visibleFields = useMemo(() => {
+    const keyword = fieldFilter.trim().toLowerCase()
+    if (!keyword) return fields
+
+    const filter = (list: MappingField[]): MappingField[] => list
+      .map(field => {
+        if (field.path.toLowerCase().includes(keyword)) return field
+        const children = filter(field.children)
+        const multiFields = filter(field.multiFields)
+        return children.length > 0 || multiFields.length > 0 ? { ...field, children, multiFields } : null
+      })
+      .filter((field): field is MappingField => field !== null)
+    return filter(fields)
+  }, [fields, fieldFilter])
+
+  // 过滤时展开所有匹配路径
+  const effectiveExpanded = useMemo(() => {
+    if (!fieldFilter.trim()) return expanded
+    return new Set(flattenMappingFields(visibleFields).map(field => field.path))
+  }, [expanded, fieldFilter, visibleFields])
+
+  /**
+   * 新字段定义，参数 JSON 格式错误时返回 null
+   */
+  const newFieldDefinition = useMemo(() => {
+    try {
+      const params = newFieldParams.trim() ? JSON.parse(newFieldParams) : {}
+      if (!params || typeof params !== 'object' || Array.isArray(params)) return null
+      const definition: Record<string, any> = { type: newFieldType, ...params }
+      if (newFieldAnalyzer.trim() && newFieldType === 'text') {
+        definition.analyzer = newFieldAnalyzer.trim()
+      }
+      // object 类型的默认值可以省略
+      if (definition.type === 'object') delete definition.type
+      return definition
+    } catch {
+      return null
+    }
+  }, [newFieldType, newFieldAnalyzer, newFieldParams])
+
+  const validation = useMemo(() => {
+    if (!newFieldPath.trim()) return null
+    return validateNewField(fields, newFieldPath.trim(), newFieldDefinition || { type: newFieldType })
+  }, [fields, newFieldPath, newFieldDefinition, newFieldType])
+
+  if (!indexName) return null
+
+  const handleToggle = (path: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev)
+      if (next.has(path)) {
+        next.delete(path)
+      } else {
+        next.add(path)
+      }
+      return next
+    })
+  }
+
+  /**
+   * 提交新字段
+   */
+  const handleAddField = async () => {
+    if (!newFieldDefinition || !validation || validation.errors.length > 0) return
+
+    setIsSaving(true)
+    try {
+      await putIndexMapping(indexName, buildPutMappingBody(fields, newFieldPath.trim(), newFieldDefinition))
+      toast({ title: '字段已添加', description: `${newFieldPath.trim()} (${newFieldType})` })
+      setNewFieldPath('')
+      setNewFieldParams('')
+      setNewFieldAnalyzer('')
+      await loadMapping()
+    } catch (error) {
+      toast({
+        title: '添加字段失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive'
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle>索引映射 - {indexName}</DialogTitle>
+          <DialogDescription>
+            {mapping ? `共 ${fieldCount} 个字段（含多字段）` : '查看索引的字段映射配置'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && !mapping ? (
+          <div className="flex items-center justify-center h-32 text-muted-foreground">加载中...</div>
+        ) : loadError ? (
+          <div className="text-red-600 p-4 bg-red-50 rounded-md">{loadError}</div>
+        ) : (
+          <Tabs defaultValue="tree" className="w-full">
+            <TabsList className="grid w-full grid-cols-3">
+              <TabsTrigger value="tree">字段树</TabsTrigger>
+              <TabsTrigger value="add">添加字段</TabsTrigger>
+              <TabsTrigger value="json">JSON</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="tree" className="space-y-3">
+              <div className="flex items-center space-x-2">
+                <Input
+                  placeholder="按字段路径过滤..."
+                  value={fieldFilter}
+                  onChange={(e) => setFieldFilter(e.target.value)}
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setExpanded(new Set(flattenMappingFields(fields).map(field => field.path)))}
+                >
+                  全部展开
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setExpanded(new Set())}>
+                  全部折叠
+                </Button>
+              </div>
+              <ScrollArea className="h-[55vh] rounded-md border">
+                {visibleFields.length === 0 ? (
+                  <div className="flex items-center justify-center h-32 text-muted-foreground">
+                    {fieldFilter ? '没有匹配的字段' : '映射中没有字段'}
+                  </div>
+                ) : (
+                  <div className="py-1">
+                    {visibleFields.map(field => (
+                      <FieldRow key={field.path} field={field} depth={0} expanded={effectiveExpanded} onToggle={handleToggle} />
+                    ))}
+                  </div>
+                )}
+              </ScrollArea>
+            </TabsContent>
+
+            <TabsContent value="add" className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="new-field-path">字段路径</Label>
+                  <Input
+                    id="new-field-path"
+                    placeholder="user.address.city"
+                    value={newFieldPath}
+                    onChange={(e) => setNewFieldPath(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="new-field-type">类型</Label>
+                  <Select value={newFieldType} onValueChange={setNewFieldType}>
+                    <SelectTrigger id="new-field-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {FIELD_TYPES.map(type => (
+                        <SelectItem key={type} value={type}>{type}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              {newFieldType === 'text' && (
+                <div className="space-y-2">
+                  <Label htmlFor="new-field-analyzer">分析器</Label>
+                  <Input
+                    id="new-field-analyzer"
+                    placeholder="standard"
+                    value={newFieldAnalyzer}
+                    onChange={(e) => setNewFieldAnalyzer(e.target.value)}
+                  />
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="new-field-params">其他参数 (JSON)</Label>
+                <Textarea
+                  id="new-field-params"
+                  placeholder={'{\n  "ignore_above": 256\n}'}
+                  value={newFieldParams}
+                  onChange={(e) => setNewFieldParams(e.target.value)}
+                  className="min-h-[100px] font-mono text-sm"
+                />
+                {newFieldParams.trim() && !newFieldDefinition && (
+                  <p className="text-sm text-red-600">参数必须是有效的 JSON 对象</p>
+                )}
+              </div>
+
+              {validation?.errors.map(error => (
+                <div key={error} className="flex items-start text-sm text-red-600">
+                  <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 shrink-0" />
+                  {error}
+                </div>
+              ))}
+              {validation?.warnings.map(warning => (
+                <div key={warning} className="flex items-start text-sm text-yellow-700 dark:text-yellow-500">
+                  <Info className="h-4 w-4 mr-2 mt-0.5 shrink-0" />
+                  {warning}
+                </div>
+              ))}
+
+              {newFieldDefinition && validation && validation.errors.length === 0 && (
+                <div className="space-y-2">
+                  <Label>将提交的映射</Label>
+                  <pre className="text-xs bg-muted p-3 rounded-md overflow-auto max-h-40">
+                    {JSON.stringify(buildPutMappingBody(fields, newFieldPath.trim(), newFieldDefinition), null, 2)}
+                  </pre>
+                </div>
+              )}
+
+              <div className="flex justify-end">
+                <Button
+                  onClick={handleAddField}
+                  disabled={isSaving || !newFieldDefinition || !validation || validation.errors.length > 0}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  {isSaving ? '提交中...' : '添加字段'}
+                </Button>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="json">
+              <ScrollArea className="h-[60vh] w-full">
+                <pre className="text-sm bg-muted p-4 rounded-md overflow-auto">
+                  {JSON.stringify(mapping, null, 2)}
+                </pre>
+              </ScrollArea>
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,187 @@
+import React from 'react'
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import { LineChart as LineChartIcon, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { NodeMetricPoint, useMetricsStore } from '@/stores/metrics-store'
+
+/**
+ * 图表中展示的指标
+ */
+interface MetricDefinition {
+  key: keyof Omit<NodeMetricPoint, 'timestamp' | 'heapUsedBytes'>
+  title: string
+  unit: string
+  digits: number
+}
+
+const METRICS: MetricDefinition[] = [
+  { key: 'cpuPercent', title: 'CPU 使用率', unit: '%', digits: 0 },
+  { key: 'heapPercent', title: '堆内存使用率', unit: '%', digits: 1 },
+  { key: 'gcTimePerSecond', title: 'GC 耗时', unit: 'ms/s', digits: 1 },
+  { key: 'indexingRate', title: '索引速率', unit: '文档/s', digits: 1 },
+  { key: 'searchRate', title: '查询速率', unit: '次/s', digits: 1 },
+  { key: 'queryLatencyMs', title: '查询延迟', unit: 'ms', digits: 1 }
+]
+
+/**
+ * 采样间隔选项（秒）
+ */
+const SAMPLING_INTERVAL_OPTIONS = [5, 15, 30, 60, 300]
+
+/**
+ * 节点折线颜色
+ */
+const LINE_COLORS = ['#2563eb', '#16a34a', '#dc2626', '#d97706', '#7c3aed', '#0891b2', '#db2777', '#65a30d']
+
+/**
+ * 格式化时间轴刻度
+ */
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString('zh-CN', { hour: '2-digit', minute: '2-digit', second: '2-digit' })
+}
+
+/**
+ * 节点指标趋势图
+ * 展示后台采样得到的各节点 CPU、堆内存、GC、索引/查询速率和查询延迟的变化趋势
+ */
+export function NodeMetricsCharts() {
+  const {
+    history,
+    samplingInterval,
+    persistHistory,
+    samplingError,
+    setSamplingInterval,
+    setPersistHistory,
+    clearHistory
+  } = useMetricsStore()
+
+  const nodes = React.useMemo(() => {
+    return Object.entries(history).map(([nodeId, nodeHistory], i) => ({
+      nodeId,
+      name: nodeHistory.name,
+      color: LINE_COLORS[i % LINE_COLORS.length]
+    }))
+  }, [history])
+
+  /**
+   * 按时间戳合并各节点的数据点，recharts 每行数据以节点 ID 为键
+   */
+  const chartData = React.useMemo(() => {
+    const rows = new Map<number, Record<string, number | null>>()
+    Object.entries(history).forEach(([nodeId, nodeHistory]) => {
+      nodeHistory.points.forEach(point => {
+        const row = rows.get(point.timestamp) || { timestamp: point.timestamp }
+        METRICS.forEach(metric => {
+          row[`${nodeId}:${metric.key}`] = point[metric.key]
+        })
+        rows.set(point.timestamp, row)
+      })
+    })
+    return Array.from(rows.values()).sort((a, b) => (a.timestamp as number) - (b.timestamp as number))
+  }, [history])
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center space-x-2 text-base font-semibold">
+              <LineChartIcon className="h-5 w-5 text-primary" />
+              <span>节点指标趋势</span>
+            </CardTitle>
+            <CardDescription>
+              {samplingError ? `采样失败: ${samplingError}` : `每 ${samplingInterval} 秒采样一次，已记录 ${chartData.length} 个采样点`}
+            </CardDescription>
+          </div>
+          <div className="flex items-center space-x-4">
+            <div className="flex items-center space-x-2">
+              <Label htmlFor="metrics-interval" className="text-sm whitespace-nowrap">采样间隔</Label>
+              <Select
+                value={String(samplingInterval)}
+                onValueChange={(value) => setSamplingInterval(parseInt(value, 10))}
+              >
+                <SelectTrigger id="metrics-interval" className="w-24">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SAMPLING_INTERVAL_OPTIONS.map(seconds => (
+                    <SelectItem key={seconds} value={String(seconds)}>
+                      {seconds >= 60 ? `${seconds / 60} 分钟` : `${seconds} 秒`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="metrics-persist"
+                checked={persistHistory}
+                onCheckedChange={setPersistHistory}
+              />
+              <Label htmlFor="metrics-persist" className="text-sm whitespace-nowrap">保存到本地</Label>
+            </div>
+            <Button variant="outline" size="sm" onClick={clearHistory} disabled={chartData.length === 0}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              清空
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {chartData.length < 2 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            正在收集数据，至少需要两次采样才能显示趋势
+          </p>
+        ) : (
+          <div className="grid gap-6 md:grid-cols-2 xl:grid-cols-3">
+            {METRICS.map(metric => (
+              <div key={metric.key} className="space-y-2">
+                <h4 className="text-sm font-medium">
+                  {metric.title}
+                  <span className="ml-1 text-xs text-muted-foreground">({metric.unit})</span>
+                </h4>
+                <div className="h-48">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={chartData} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+                      <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                      <XAxis
+                        dataKey="timestamp"
+                        type="number"
+                        domain={['dataMin', 'dataMax']}
+                        tickFormatter={formatTime}
+                        tick={{ fontSize: 11 }}
+                        minTickGap={40}
+                      />
+                      <YAxis tick={{ fontSize: 11 }} width={45} />
+                      <Tooltip
+                        labelFormatter={(label) => formatTime(Number(label))}
+                        formatter={(value) => typeof value === 'number' ? `${value.toFixed(metric.digits)} ${metric.unit}` : '-'}
+                      />
+                      {nodes.length > 1 && <Legend wrapperStyle={{ fontSize: 11 }} />}
+                      {nodes.map(node => (
+                        <Line
+                          key={node.nodeId}
+                          type="monotone"
+                          dataKey={`${node.nodeId}:${metric.key}`}
+                          name={node.name}
+                          stroke={node.color}
+                          dot={false}
+                          isAnimationActive={false}
+                          connectNulls={false}
+                        />
+                      ))}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,119 @@
+import { useState } from 'react'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { ProxyProfile, ProxyProtocol } from '@/stores/elasticsearch-store'
+
+interface ProxyProfileFieldsProps {
+  idPrefix: string
+  value: ProxyProfile
+  onChange: (value: ProxyProfile) => void
+  hasSavedPassword?: boolean
+}
+
+/**
+ * 代理协议选项
+ */
+const PROXY_PROTOCOL_OPTIONS: Array<{ value: ProxyProtocol; label: string }> = [
+  { value: 'http', label: 'HTTP' },
+  { value: 'https', label: 'HTTPS' },
+  { value: 'socks5', label: 'SOCKS5' }
+]
+
+/**
+ * 解析不代理列表，支持逗号、空格和换行分隔
+ */
+function parseNoProxyList(input: string): string[] {
+  return input.split(/[\s,]+/).filter(Boolean)
+}
+
+/**
+ * 代理服务器表单
+ * 全局代理和连接级代理共用
+ */
+export function ProxyProfileFields({ idPrefix, value, onChange, hasSavedPassword }: ProxyProfileFieldsProps) {
+  // 保留原始输入，避免输入分隔符时被立即解析掉
+  const [noProxyInput, setNoProxyInput] = useState((value.noProxy || []).join(', '))
+
+  const update = (updates: Partial<ProxyProfile>) => {
+    onChange({ ...value, ...updates })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-4 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-proxy-protocol`}>协议</Label>
+          <Select
+            value={value.protocol}
+            onValueChange={(protocol) => update({ protocol: protocol as ProxyProtocol })}
+          >
+            <SelectTrigger id={`${idPrefix}-proxy-protocol`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PROXY_PROTOCOL_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="col-span-2 space-y-2">
+          <Label htmlFor={`${idPrefix}-proxy-host`}>代理地址</Label>
+          <Input
+            id={`${idPrefix}-proxy-host`}
+            placeholder="proxy.example.com"
+            value={value.host}
+            onChange={(e) => update({ host: e.target.value.trim() })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-proxy-port`}>端口</Label>
+          <Input
+            id={`${idPrefix}-proxy-port`}
+            type="number"
+            value={value.port || ''}
+            onChange={(e) => update({ port: parseInt(e.target.value, 10) || 0 })}
+          />
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-proxy-username`}>用户名（可选）</Label>
+          <Input
+            id={`${idPrefix}-proxy-username`}
+            value={value.username || ''}
+            onChange={(e) => update({ username: e.target.value || undefined })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-proxy-password`}>密码（可选）</Label>
+          <Input
+            id={`${idPrefix}-proxy-password`}
+            type="password"
+            placeholder={hasSavedPassword ? '留空保持不变' : ''}
+            value={value.password || ''}
+            onChange={(e) => update({ password: e.target.value || undefined })}
+          />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-proxy-no-proxy`}>不使用代理的主机</Label>
+        <Input
+          id={`${idPrefix}-proxy-no-proxy`}
+          placeholder="localhost, 10.0.0.5, .internal.example.com"
+          value={noProxyInput}
+          onChange={(e) => {
+            setNoProxyInput(e.target.value)
+            update({ noProxy: parseNoProxyList(e.target.value) })
+          }}
+        />
+        <p className="text-xs text-muted-foreground">
+          多个主机用逗号分隔，以点开头表示匹配该域名及其子域名，* 表示全部直连
+        </p>
+      </div>
+    </div>
+  )
+}
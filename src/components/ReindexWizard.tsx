@@ -0,0 +1,439 @@
+import { useEffect, useMemo, useState } from 'react'
+import { CheckCircle2, XCircle, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Progress } from '@/components/ui/progress'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { useToast } from '@/hooks/use-toast'
+import { ReindexRequest, ReindexTaskStatus, useElasticsearchStore } from '@/stores/elasticsearch-store'
+import { cn } from '@/lib/utils'
+import { createWildcardMatcher } from '@/lib/wildcard'
+
+type WizardStep = 'source' | 'dest' | 'options' | 'progress'
+
+const STEPS: { key: Exclude<WizardStep, 'progress'>; label: string }[] = [
+  { key: 'source', label: '源数据' },
+  { key: 'dest', label: '目标与脚本' },
+  { key: 'options', label: '执行选项' }
+]
+
+// 任务进度轮询间隔
+const POLL_INTERVAL = 2000
+
+/**
+ * 解析 JSON 对象，空字符串返回 undefined，格式错误返回 null
+ */
+function parseJsonObject(text: string): Record<string, any> | undefined | null {
+  if (!text.trim()) return undefined
+  try {
+    const value = JSON.parse(text)
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : null
+  } catch {
+    return null
+  }
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.floor(ms / 1000)
+  if (seconds < 60) return `${seconds} 秒`
+  return `${Math.floor(seconds / 60)} 分 ${seconds % 60} 秒`
+}
+
+interface ReindexWizardProps {
+  open: boolean
+  initialSource?: string
+  onClose: () => void
+}
+
+/**
+ * 重建索引向导
+ * 在后台执行 _reindex 并轮询 _tasks 显示进度，执行中可以取消
+ */
+export function ReindexWizard({ open, initialSource = '', onClose }: ReindexWizardProps) {
+  const { indices, startReindex, getReindexTask, cancelTask, refreshIndices } = useElasticsearchStore()
+  const { toast } = useToast()
+
+  const [step, setStep] = useState<WizardStep>('source')
+  const [source, setSource] = useState('')
+  const [queryText, setQueryText] = useState('')
+  const [dest, setDest] = useState('')
+  const [createDest, setCreateDest] = useState(true)
+  const [script, setScript] = useState('')
+  const [requestsPerSecond, setRequestsPerSecond] = useState('')
+  const [slices, setSlices] = useState('1')
+  const [conflicts, setConflicts] = useState<'abort' | 'proceed'>('abort')
+
+  const [isStarting, setIsStarting] = useState(false)
+  const [isCancelling, setIsCancelling] = useState(false)
+  const [taskId, setTaskId] = useState<string | null>(null)
+  const [status, setStatus] = useState<ReindexTaskStatus | null>(null)
+  const [startError, setStartError] = useState<string | null>(null)
+
+  // 打开时重置向导
+  useEffect(() => {
+    if (open) {
+      setStep('source')
+      setSource(initialSource)
+      setQueryText('')
+      setDest(initialSource && !initialSource.includes('*') && !initialSource.includes(',') ? `${initialSource}-reindexed` : '')
+      setCreateDest(true)
+      setScript('')
+      setRequestsPerSecond('')
+      setSlices('1')
+      setConflicts('abort')
+      setTaskId(null)
+      setStatus(null)
+      setStartError(null)
+    }
+  }, [open, initialSource])
+
+  // 轮询任务进度，完成后停止
+  useEffect(() => {
+    if (!taskId || status?.completed) return
+
+    let cancelled = false
+    const poll = async () => {
+      try {
+        const result = await getReindexTask(taskId)
+        if (cancelled) return
+        setStatus(result)
+        if (result.completed) {
+          refreshIndices()
+          toast({
+            title: result.cancelled ? '重建索引已取消' : result.error || result.failures.length > 0 ? '重建索引完成，但有失败' : '重建索引完成',
+            description: `已写入 ${(result.created + result.updated).toLocaleString()} 个文档`,
+            variant: result.error || result.failures.length > 0 ? 'destructive' : undefined
+          })
+        }
+      } catch (error) {
+        console.error('获取重建索引进度失败:', error)
+      }
+    }
+
+    poll()
+    const timer = setInterval(poll, POLL_INTERVAL)
+    return () => {
+      cancelled = true
+      clearInterval(timer)
+    }
+  }, [taskId, status?.completed, getReindexTask, refreshIndices, toast])
+
+  const matchesSource = useMemo(() => createWildcardMatcher(source), [source])
+  const matchedIndices = useMemo(
+    () => source.trim() ? indices.filter(index => matchesSource(index.index)) : [],
+    [indices, source, matchesSource]
+  )
+  const destExists = indices.some(index => index.index === dest.trim())
+  const query = parseJsonObject(queryText)
+  const isDestInSource = dest.trim() !== '' && source.trim() !== '' && matchesSource(dest.trim())
+
+  if (!open) return null
+
+  const canLeaveSource = source.trim() !== '' && query !== null
+  const canLeaveDest = dest.trim() !== '' && !isDestInSource && !dest.includes('*')
+
+  /**
+   * 启动重建索引
+   */
+  const handleStart = async () => {
+    const request: ReindexRequest = {
+      source: source.trim(),
+      dest: dest.trim(),
+      query: query || undefined,
+      script: script.trim() || undefined,
+      createDest: createDest && !destExists,
+      requestsPerSecond: parseFloat(requestsPerSecond) > 0 ? parseFloat(requestsPerSecond) : undefined,
+      slices: slices === 'auto' ? 'auto' : parseInt(slices, 10),
+      conflicts
+    }
+
+    setIsStarting(true)
+    setStartError(null)
+    try {
+      const id = await startReindex(request)
+      setTaskId(id)
+      setStep('progress')
+    } catch (error) {
+      setStartError(error instanceof Error ? error.message : '未知错误')
+    } finally {
+      setIsStarting(false)
+    }
+  }
+
+  /**
+   * 取消任务
+   */
+  const handleCancel = async () => {
+    if (!taskId) return
+    setIsCancelling(true)
+    try {
+      await cancelTask(taskId)
+    } catch (error) {
+      toast({
+        title: '取消任务失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive'
+      })
+    } finally {
+      setIsCancelling(false)
+    }
+  }
+
+  const processed = status ? status.created + status.updated + status.deleted + status.noops + status.versionConflicts : 0
+  const percent = status && status.total > 0 ? Math.min(100, (processed / status.total) * 100) : status?.completed ? 100 : 0
+  const isRunning = step === 'progress' && !status?.completed
+
+  return (
+    <Dialog open onOpenChange={(value) => !value && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>重建索引</DialogTitle>
+          <DialogDescription>
+            使用 _reindex 将文档从源索引复制到目标索引，可以在复制过程中筛选和转换文档
+          </DialogDescription>
+        </DialogHeader>
+
+        {step !== 'progress' && (
+          <div className="flex items-center space-x-2 text-sm">
+            {STEPS.map((item, i) => (
+              <div key={item.key} className="flex items-center space-x-2">
+                {i > 0 && <div className="w-8 h-px bg-border" />}
+                <span
+                  className={cn(
+                    'px-2 py-1 rounded',
+                    item.key === step ? 'bg-primary text-primary-foreground' : 'text-muted-foreground'
+                  )}
+                >
+                  {i + 1}. {item.label}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {step === 'source' && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="reindex-source">源索引</Label>
+              <Input
+                id="reindex-source"
+                placeholder="logs-2024.01.* 或 index-a,index-b"
+                value={source}
+                onChange={(e) => setSource(e.target.value)}
+              />
+              {source.trim() && (
+                <p className="text-xs text-muted-foreground">
+                  {matchedIndices.length > 0
+                    ? `匹配 ${matchedIndices.length} 个索引，共 ${matchedIndices.reduce((sum, index) => sum + (index.docsCount || 0), 0).toLocaleString()} 个文档`
+                    : '没有匹配的索引'}
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reindex-query">筛选查询 (可选)</Label>
+              <Textarea
+                id="reindex-query"
+                placeholder={'{\n  "range": {\n    "@timestamp": { "gte": "now-7d" }\n  }\n}'}
+                value={queryText}
+                onChange={(e) => setQueryText(e.target.value)}
+                className="min-h-[140px] font-mono text-sm"
+              />
+              {query === null && <p className="text-sm text-red-600">查询必须是有效的 JSON 对象</p>}
+              <p className="text-xs text-muted-foreground">填写 query 子句，留空则复制所有文档</p>
+            </div>
+          </div>
+        )}
+
+        {step === 'dest' && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="reindex-dest">目标索引</Label>
+              <Input
+                id="reindex-dest"
+                value={dest}
+                onChange={(e) => setDest(e.target.value)}
+              />
+              {isDestInSource && <p className="text-sm text-red-600">目标索引不能是源索引之一</p>}
+              {dest.includes('*') && <p className="text-sm text-red-600">目标索引不能包含通配符</p>}
+              {destExists && !isDestInSource && (
+                <p className="text-xs text-muted-foreground">目标索引已存在，文档将写入现有索引</p>
+              )}
+            </div>
+            <div className="flex items-start space-x-2">
+              <Checkbox
+                id="reindex-create-dest"
+                checked={createDest && !destExists}
+                disabled={destExists}
+                onCheckedChange={(checked) => setCreateDest(checked === true)}
+              />
+              <div className="space-y-1">
+                <Label htmlFor="reindex-create-dest">按源索引的映射创建目标索引</Label>
+                <p className="text-xs text-muted-foreground">
+                  复制源索引的字段映射和分析器；不勾选时目标索引将由动态映射自动创建
+                </p>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reindex-script">Painless 脚本 (可选)</Label>
+              <Textarea
+                id="reindex-script"
+                placeholder={"ctx._source.remove('obsolete_field');\nctx._source.status = ctx._source.status?.toLowerCase();"}
+                value={script}
+                onChange={(e) => setScript(e.target.value)}
+                className="min-h-[120px] font-mono text-sm"
+              />
+            </div>
+          </div>
+        )}
+
+        {step === 'options' && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="reindex-rps">每秒请求数限制</Label>
+                <Input
+                  id="reindex-rps"
+                  type="number"
+                  min="1"
+                  placeholder="不限制"
+                  value={requestsPerSecond}
+                  onChange={(e) => setRequestsPerSecond(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">限制写入速度，减少对集群的影响</p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="reindex-slices">切片数</Label>
+                <Select value={slices} onValueChange={setSlices}>
+                  <SelectTrigger id="reindex-slices">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {['1', '2', '4', '8', 'auto'].map(value => (
+                      <SelectItem key={value} value={value}>{value === 'auto' ? '自动' : value}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">并行执行的子任务数</p>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reindex-conflicts">版本冲突</Label>
+              <Select value={conflicts} onValueChange={(value) => setConflicts(value as 'abort' | 'proceed')}>
+                <SelectTrigger id="reindex-conflicts">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="abort">遇到冲突时中止</SelectItem>
+                  <SelectItem value="proceed">跳过冲突继续执行</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="rounded-md border p-3 text-sm space-y-1">
+              <div><span className="text-muted-foreground">源：</span><span className="font-mono">{source}</span></div>
+              <div>
+                <span className="text-muted-foreground">目标：</span>
+                <span className="font-mono">{dest}</span>
+                {createDest && !destExists && <span className="text-muted-foreground">（按源索引映射创建）</span>}
+              </div>
+              {query && <div className="text-muted-foreground">使用筛选查询</div>}
+              {script.trim() && <div className="text-muted-foreground">使用 Painless 脚本</div>}
+            </div>
+            {startError && (
+              <div className="text-sm text-red-600 p-3 bg-red-50 rounded-md break-all">{startError}</div>
+            )}
+          </div>
+        )}
+
+        {step === 'progress' && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span className="flex items-center">
+                  {isRunning ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : status?.error || status?.failures.length || status?.cancelled ? (
+                    <XCircle className="h-4 w-4 mr-2 text-red-600" />
+                  ) : (
+                    <CheckCircle2 className="h-4 w-4 mr-2 text-green-600" />
+                  )}
+                  {isRunning ? '执行中...' : status?.cancelled ? '已取消' : status?.error || status?.failures.length ? '执行失败' : '已完成'}
+                </span>
+                <span className="text-muted-foreground">
+                  {processed.toLocaleString()} / {(status?.total ?? 0).toLocaleString()}
+                </span>
+              </div>
+              <Progress value={percent} />
+            </div>
+            {status && (
+              <div className="grid grid-cols-3 gap-3 text-sm">
+                <div><span className="text-muted-foreground">新建：</span>{status.created.toLocaleString()}</div>
+                <div><span className="text-muted-foreground">更新：</span>{status.updated.toLocaleString()}</div>
+                <div><span className="text-muted-foreground">版本冲突：</span>{status.versionConflicts.toLocaleString()}</div>
+                <div><span className="text-muted-foreground">批次：</span>{status.batches}</div>
+                <div><span className="text-muted-foreground">耗时：</span>{formatDuration(status.runningTimeMs)}</div>
+                <div>
+                  <span className="text-muted-foreground">限速：</span>
+                  {status.requestsPerSecond > 0 && isFinite(status.requestsPerSecond) ? `${status.requestsPerSecond}/秒` : '不限制'}
+                </div>
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground font-mono">任务 ID: {taskId}</p>
+            {status?.error && (
+              <div className="text-sm text-red-600 p-3 bg-red-50 rounded-md break-all">{status.error}</div>
+            )}
+            {status && status.failures.length > 0 && (
+              <ScrollArea className="h-32 rounded-md border">
+                <div className="divide-y text-xs text-red-600">
+                  {status.failures.map((failure, i) => (
+                    <div key={i} className="p-2 break-all">{failure}</div>
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+            {isRunning && (
+              <p className="text-xs text-muted-foreground">关闭对话框后任务仍会在集群中继续执行</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'source' && (
+            <>
+              <Button variant="outline" onClick={onClose}>取消</Button>
+              <Button onClick={() => setStep('dest')} disabled={!canLeaveSource}>下一步</Button>
+            </>
+          )}
+          {step === 'dest' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('source')}>上一步</Button>
+              <Button onClick={() => setStep('options')} disabled={!canLeaveDest}>下一步</Button>
+            </>
+          )}
+          {step === 'options' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('dest')} disabled={isStarting}>上一步</Button>
+              <Button onClick={handleStart} disabled={isStarting}>
+                {isStarting ? '启动中...' : '开始重建索引'}
+              </Button>
+            </>
+          )}
+          {step === 'progress' && (
+            <>
+              {isRunning && (
+                <Button variant="outline" onClick={handleCancel} disabled={isCancelling}>
+                  {isCancelling ? '取消中...' : '取消任务'}
+                </Button>
+              )}
+              <Button onClick={onClose}>关闭</Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,277 @@
+import { useEffect, useMemo, useState } from 'react'
+import { ArrowRight } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Switch } from '@/components/ui/switch'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Textarea } from '@/components/ui/textarea'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { useToast } from '@/hooks/use-toast'
+import { SnapshotInfo, useElasticsearchStore } from '@/stores/elasticsearch-store'
+import { getRestorableEntries, renameRestoredIndex, resolveRestoreTargets, validateRenamePattern } from '@/lib/snapshot'
+
+interface RestoreSnapshotDialogProps {
+  snapshot: SnapshotInfo | null
+  onClose: () => void
+}
+
+/**
+ * 恢复目标的冲突状态
+ * 已打开的同名索引会导致恢复失败；已关闭的同名索引会被快照中的数据覆盖
+ */
+type TargetStatus = 'new' | 'overwrite-closed' | 'conflict'
+
+/**
+ * 解析索引设置覆盖，空字符串返回 undefined，格式错误返回 null
+ */
+function parseIndexSettings(text: string): Record<string, any> | undefined | null {
+  if (!text.trim()) return undefined
+  try {
+    const value = JSON.parse(text)
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : null
+  } catch (error) {
+    return null
+  }
+}
+
+/**
+ * 恢复快照对话框
+ * 选择要恢复的索引和数据流，预览重命名后的目标索引并检查冲突，恢复在后台执行
+ */
+export function RestoreSnapshotDialog({ snapshot, onClose }: RestoreSnapshotDialogProps) {
+  const { indices, dataStreams, restoreSnapshot } = useElasticsearchStore()
+  const { toast } = useToast()
+
+  const [selected, setSelected] = useState<string[]>([])
+  const [renamePattern, setRenamePattern] = useState('')
+  const [renameReplacement, setRenameReplacement] = useState('')
+  const [indexSettingsText, setIndexSettingsText] = useState('')
+  const [ignoreSettingsText, setIgnoreSettingsText] = useState('')
+  const [includeAliases, setIncludeAliases] = useState(true)
+  const [showSystem, setShowSystem] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const entries = useMemo(() => snapshot ? getRestorableEntries(snapshot) : [], [snapshot])
+
+  useEffect(() => {
+    if (!snapshot) return
+    setSelected([])
+    setRenamePattern('')
+    setRenameReplacement('')
+    setIndexSettingsText('')
+    setIgnoreSettingsText('')
+    setIncludeAliases(true)
+    setShowSystem(false)
+  }, [snapshot])
+
+  const patternError = validateRenamePattern(renamePattern)
+  const indexSettings = parseIndexSettings(indexSettingsText)
+
+  const targets = useMemo(() => {
+    if (patternError) return []
+    const existing = new Map(indices.map(index => [index.index, index.status]))
+    return resolveRestoreTargets(entries.filter(entry => selected.includes(entry.name)), renamePattern, renameReplacement)
+      .map(target => {
+        const status: TargetStatus = !existing.has(target.target)
+          ? 'new'
+          : existing.get(target.target) === 'close' ? 'overwrite-closed' : 'conflict'
+        return { ...target, status }
+      })
+  }, [entries, selected, renamePattern, renameReplacement, patternError, indices])
+
+  // 重命名后的数据流与已有数据流同名时无法恢复
+  const conflictingStreams = patternError ? [] : entries
+    .filter(entry => entry.kind === 'data-stream' && selected.includes(entry.name))
+    .map(entry => renameRestoredIndex(entry.name, renamePattern, renameReplacement))
+    .filter(name => dataStreams.some(stream => stream.name === name))
+
+  if (!snapshot) return null
+
+  const visibleEntries = entries.filter(entry => showSystem || !entry.name.startsWith('.') || entry.kind === 'data-stream')
+  const hasConflicts = targets.some(target => target.status === 'conflict') || conflictingStreams.length > 0
+  const overwriteCount = targets.filter(target => target.status === 'overwrite-closed').length
+  const isAllSelected = visibleEntries.length > 0 && visibleEntries.every(entry => selected.includes(entry.name))
+
+  const toggleEntry = (name: string, checked: boolean) => {
+    setSelected(prev => checked ? [...prev, name] : prev.filter(item => item !== name))
+  }
+
+  const handleRestore = async () => {
+    setIsSaving(true)
+    try {
+      await restoreSnapshot({
+        repository: snapshot.repository,
+        snapshot: snapshot.snapshot,
+        indices: selected,
+        renamePattern: renamePattern || undefined,
+        renameReplacement: renamePattern ? renameReplacement : undefined,
+        indexSettings: indexSettings || undefined,
+        ignoreIndexSettings: ignoreSettingsText.split(',').map(setting => setting.trim()).filter(Boolean),
+        includeAliases
+      }, targets.map(target => target.target))
+      toast({ title: '快照恢复已开始', description: `正在恢复 ${targets.length} 个索引，可在快照页面查看进度` })
+      onClose()
+    } catch (error) {
+      toast({
+        title: '恢复快照失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive'
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open onOpenChange={(value) => !value && !isSaving && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle>恢复快照 - {snapshot.snapshot}</DialogTitle>
+          <DialogDescription>
+            不会恢复集群全局状态。目标名称已存在且处于打开状态的索引无法恢复，需要先关闭、删除或使用重命名恢复为新索引
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="restore-select-all"
+                  checked={isAllSelected}
+                  onCheckedChange={(checked) => setSelected(checked === true ? visibleEntries.map(entry => entry.name) : [])}
+                />
+                <Label htmlFor="restore-select-all">快照内容（{entries.length}）</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Switch id="restore-show-system" checked={showSystem} onCheckedChange={setShowSystem} />
+                <Label htmlFor="restore-show-system" className="text-xs">显示系统索引</Label>
+              </div>
+            </div>
+            <ScrollArea className="h-[300px] rounded-md border p-2">
+              {visibleEntries.map(entry => (
+                <div key={entry.name} className="flex items-center space-x-2 py-1">
+                  <Checkbox
+                    id={`restore-${entry.name}`}
+                    checked={selected.includes(entry.name)}
+                    onCheckedChange={(checked) => toggleEntry(entry.name, checked === true)}
+                  />
+                  <Label htmlFor={`restore-${entry.name}`} className="font-mono text-sm font-normal">{entry.name}</Label>
+                  {entry.kind === 'data-stream' && (
+                    <Badge variant="outline" className="font-normal">数据流 · {entry.backingIndices.length} 个后备索引</Badge>
+                  )}
+                </div>
+              ))}
+            </ScrollArea>
+          </div>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="restore-rename-pattern">重命名规则（正则）</Label>
+                <Input
+                  id="restore-rename-pattern"
+                  placeholder="(.+)"
+                  value={renamePattern}
+                  onChange={(e) => setRenamePattern(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="restore-rename-replacement">替换为</Label>
+                <Input
+                  id="restore-rename-replacement"
+                  placeholder="restored-$1"
+                  value={renameReplacement}
+                  onChange={(e) => setRenameReplacement(e.target.value)}
+                  disabled={!renamePattern}
+                />
+              </div>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                setRenamePattern('(.+)')
+                setRenameReplacement('restored-$1')
+              }}
+            >
+              恢复为 restored- 前缀的新索引
+            </Button>
+            {patternError && <p className="text-sm text-red-600">{patternError}</p>}
+
+            <div className="space-y-2">
+              <Label htmlFor="restore-index-settings">覆盖索引设置（JSON）</Label>
+              <Textarea
+                id="restore-index-settings"
+                className="font-mono text-sm"
+                rows={4}
+                placeholder={'{\n  "index.number_of_replicas": 0\n}'}
+                value={indexSettingsText}
+                onChange={(e) => setIndexSettingsText(e.target.value)}
+              />
+              {indexSettings === null && <p className="text-sm text-red-600">索引设置必须是 JSON 对象</p>}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="restore-ignore-settings">忽略的索引设置</Label>
+              <Input
+                id="restore-ignore-settings"
+                placeholder="index.routing.allocation.require._name, index.lifecycle.name"
+                value={ignoreSettingsText}
+                onChange={(e) => setIgnoreSettingsText(e.target.value)}
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="restore-include-aliases">恢复别名</Label>
+              <Switch id="restore-include-aliases" checked={includeAliases} onCheckedChange={setIncludeAliases} />
+            </div>
+          </div>
+        </div>
+
+        {targets.length > 0 && (
+          <div className="space-y-2">
+            <Label>恢复目标（{targets.length}）</Label>
+            <ScrollArea className="h-[140px] rounded-md border p-2">
+              {targets.map(target => (
+                <div key={target.source} className="flex items-center space-x-2 py-0.5 font-mono text-sm">
+                  <span className="text-muted-foreground">{target.source}</span>
+                  <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                  <span>{target.target}</span>
+                  {target.status === 'conflict' && (
+                    <Badge variant="destructive" className="font-sans font-normal">已存在且处于打开状态</Badge>
+                  )}
+                  {target.status === 'overwrite-closed' && (
+                    <Badge variant="outline" className="font-sans font-normal text-orange-600">将覆盖已关闭的索引</Badge>
+                  )}
+                </div>
+              ))}
+            </ScrollArea>
+          </div>
+        )}
+
+        {conflictingStreams.length > 0 && (
+          <p className="text-sm text-red-600">数据流已存在：{conflictingStreams.join(', ')}，请先删除或使用重命名</p>
+        )}
+        {overwriteCount > 0 && !hasConflicts && (
+          <p className="text-sm text-orange-600">
+            {overwriteCount} 个已关闭的索引将被快照中的数据覆盖，恢复完成后会自动打开
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>取消</Button>
+          <Button
+            onClick={handleRestore}
+            disabled={isSaving || selected.length === 0 || patternError !== null || indexSettings === null || hasConflicts}
+          >
+            {isSaving ? '提交中...' : `恢复 ${targets.length} 个索引`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
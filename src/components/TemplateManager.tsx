@@ -0,0 +1,518 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { Plus, Trash2, Pencil, RefreshCw, Search, FlaskConical } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { Switch } from '@/components/ui/switch'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { useToast } from '@/hooks/use-toast'
+import { SimulatedIndexTemplate, TemplateInfo, TemplateKind, useElasticsearchStore } from '@/stores/elasticsearch-store'
+
+/**
+ * 新建模板时的默认定义
+ */
+const TEMPLATE_SKELETONS: Record<TemplateKind, Record<string, any>> = {
+  index: {
+    index_patterns: ['logs-*'],
+    priority: 100,
+    composed_of: [],
+    template: {
+      settings: { number_of_shards: 1 },
+      mappings: { properties: {} }
+    }
+  },
+  component: {
+    template: {
+      settings: {},
+      mappings: { properties: {} }
+    }
+  }
+}
+
+const KIND_LABELS: Record<TemplateKind, string> = {
+  index: '索引模板',
+  component: '组件模板'
+}
+
+interface TemplateEditorState {
+  kind: TemplateKind
+  name: string
+  body: string
+  isNew: boolean
+  managed: boolean
+}
+
+interface TemplateSimulatorProps {
+  indexName: string | null
+  onClose: () => void
+}
+
+/**
+ * 模板模拟对话框
+ * 预览以指定名称创建索引时，模板合并后生效的设置、映射和别名
+ */
+export function TemplateSimulator({ indexName, onClose }: TemplateSimulatorProps) {
+  const { simulateIndexTemplate } = useElasticsearchStore()
+  const [name, setName] = useState('')
+  const [result, setResult] = useState<SimulatedIndexTemplate | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const simulate = useCallback(async (target: string) => {
+    if (!target.trim()) return
+    setIsLoading(true)
+    setError(null)
+    try {
+      setResult(await simulateIndexTemplate(target.trim()))
+    } catch (err) {
+      setResult(null)
+      setError(err instanceof Error ? err.message : '未知错误')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [simulateIndexTemplate])
+
+  useEffect(() => {
+    if (indexName === null) return
+    setName(indexName)
+    setResult(null)
+    setError(null)
+    simulate(indexName)
+  }, [indexName, simulate])
+
+  if (indexName === null) return null
+
+  const isEmpty = result && Object.keys(result.settings).length === 0 && Object.keys(result.mappings).length === 0 && Object.keys(result.aliases).length === 0
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle>模拟索引模板</DialogTitle>
+          <DialogDescription>预览以该名称创建索引时生效的设置、映射和别名</DialogDescription>
+        </DialogHeader>
+        <div className="flex items-center space-x-2">
+          <Input
+            placeholder="logs-2024.01.01"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && simulate(name)}
+          />
+          <Button onClick={() => simulate(name)} disabled={isLoading || !name.trim()}>
+            {isLoading ? '模拟中...' : '模拟'}
+          </Button>
+        </div>
+        {error && <div className="text-sm text-red-600 p-3 bg-red-50 rounded-md break-all">{error}</div>}
+        {result && (
+          <div className="space-y-3">
+            {isEmpty && <p className="text-sm text-muted-foreground">没有模板匹配该索引名，索引将使用集群默认设置</p>}
+            {result.overlapping.length > 0 && (
+              <div className="text-sm">
+                <span className="text-muted-foreground">同样匹配但被覆盖的模板：</span>
+                {result.overlapping.map(item => (
+                  <Badge key={item.name} variant="outline" className="ml-2" title={item.indexPatterns.join(', ')}>{item.name}</Badge>
+                ))}
+              </div>
+            )}
+            <Tabs defaultValue="settings">
+              <TabsList>
+                <TabsTrigger value="settings">设置</TabsTrigger>
+                <TabsTrigger value="mappings">映射</TabsTrigger>
+                <TabsTrigger value="aliases">别名</TabsTrigger>
+              </TabsList>
+              {(['settings', 'mappings', 'aliases'] as const).map(section => (
+                <TabsContent key={section} value={section}>
+                  <ScrollArea className="h-[45vh]">
+                    <pre className="text-sm bg-muted p-4 rounded-md overflow-auto">
+                      {JSON.stringify(result[section], null, 2)}
+                    </pre>
+                  </ScrollArea>
+                </TabsContent>
+              ))}
+            </Tabs>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+/**
+ * 模板管理
+ * 管理可组合索引模板和组件模板，支持查看、新建、编辑、删除和模拟
+ */
+export function TemplateManager() {
+  const { getTemplates, putTemplate, deleteTemplate } = useElasticsearchStore()
+  const { toast } = useToast()
+
+  const [kind, setKind] = useState<TemplateKind>('index')
+  const [indexTemplates, setIndexTemplates] = useState<TemplateInfo[]>([])
+  const [componentTemplates, setComponentTemplates] = useState<TemplateInfo[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [searchTerm, setSearchTerm] = useState('')
+  const [showManaged, setShowManaged] = useState(false)
+
+  const [editor, setEditor] = useState<TemplateEditorState | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [pendingDelete, setPendingDelete] = useState<TemplateInfo | null>(null)
+  const [simulateName, setSimulateName] = useState<string | null>(null)
+
+  /**
+   * 同时加载两种模板，组件模板需要统计被哪些索引模板引用
+   */
+  const loadTemplates = useCallback(async () => {
+    setIsLoading(true)
+    setLoadError(null)
+    try {
+      const [indexResult, componentResult] = await Promise.all([getTemplates('index'), getTemplates('component')])
+      setIndexTemplates(indexResult)
+      setComponentTemplates(componentResult)
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : '获取模板失败')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [getTemplates])
+
+  useEffect(() => {
+    loadTemplates()
+  }, [loadTemplates])
+
+  const usedBy = useMemo(() => {
+    const map: Record<string, string[]> = {}
+    indexTemplates.forEach(template => {
+      template.composedOf.forEach(name => {
+        map[name] = [...(map[name] || []), template.name]
+      })
+    })
+    return map
+  }, [indexTemplates])
+
+  const visibleTemplates = useMemo(() => {
+    const keyword = searchTerm.trim().toLowerCase()
+    return (kind === 'index' ? indexTemplates : componentTemplates)
+      .filter(template => showManaged || (!template.managed && !template.name.startsWith('.')))
+      .filter(template => !keyword
+        || template.name.toLowerCase().includes(keyword)
+        || template.indexPatterns.some(pattern => pattern.toLowerCase().includes(keyword)))
+      .sort((a, b) => a.name.localeCompare(b.name))
+  }, [kind, indexTemplates, componentTemplates, searchTerm, showManaged])
+
+  // 编辑器校验
+  const editorErrors = useMemo(() => {
+    if (!editor) return []
+    const errors: string[] = []
+    if (!editor.name.trim()) {
+      errors.push('模板名称不能为空')
+    } else if (/[\s,*"<>|?\\/]/.test(editor.name)) {
+      errors.push('模板名称不能包含空格或 , * " < > | ? \\ /')
+    }
+
+    let body: any
+    try {
+      body = JSON.parse(editor.body)
+    } catch {
+      errors.push('模板定义必须是有效的 JSON')
+      return errors
+    }
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      errors.push('模板定义必须是 JSON 对象')
+      return errors
+    }
+
+    if (editor.kind === 'index') {
+      const patterns = ([] as string[]).concat(body.index_patterns || [])
+      if (patterns.length === 0) {
+        errors.push('索引模板必须指定 index_patterns')
+      }
+      const missing = ([] as string[]).concat(body.composed_of || [])
+        .filter(name => !componentTemplates.some(template => template.name === name))
+      if (missing.length > 0 && !body.ignore_missing_component_templates) {
+        errors.push(`组件模板不存在：${missing.join(', ')}`)
+      }
+    } else if (!body.template) {
+      errors.push('组件模板必须包含 template')
+    }
+    return errors
+  }, [editor, componentTemplates])
+
+  const openCreate = () => {
+    setEditor({ kind, name: '', body: JSON.stringify(TEMPLATE_SKELETONS[kind], null, 2), isNew: true, managed: false })
+  }
+
+  const openEdit = (template: TemplateInfo) => {
+    setEditor({
+      kind: template.kind,
+      name: template.name,
+      body: JSON.stringify(template.body, null, 2),
+      isNew: false,
+      managed: template.managed
+    })
+  }
+
+  const handleSave = async () => {
+    if (!editor || editorErrors.length > 0) return
+    const exists = (editor.kind === 'index' ? indexTemplates : componentTemplates).some(template => template.name === editor.name.trim())
+    if (editor.isNew && exists) {
+      toast({ title: '保存模板失败', description: `${KIND_LABELS[editor.kind]} ${editor.name.trim()} 已存在`, variant: 'destructive' })
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      await putTemplate(editor.kind, editor.name.trim(), JSON.parse(editor.body))
+      toast({ title: `${KIND_LABELS[editor.kind]}已保存`, description: editor.name.trim() })
+      setEditor(null)
+      await loadTemplates()
+    } catch (error) {
+      toast({
+        title: '保存模板失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive'
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return
+    try {
+      await deleteTemplate(pendingDelete.kind, pendingDelete.name)
+      toast({ title: `${KIND_LABELS[pendingDelete.kind]}已删除`, description: pendingDelete.name })
+      await loadTemplates()
+    } catch (error) {
+      toast({
+        title: '删除模板失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive'
+      })
+    } finally {
+      setPendingDelete(null)
+    }
+  }
+
+  /**
+   * 组件模板包含的内容摘要
+   */
+  const renderContents = (template: TemplateInfo) => {
+    const inner = template.body.template || {}
+    const parts = [
+      inner.settings && Object.keys(inner.settings).length > 0 && '设置',
+      inner.mappings && Object.keys(inner.mappings).length > 0 && '映射',
+      inner.aliases && Object.keys(inner.aliases).length > 0 && '别名',
+      inner.lifecycle && '生命周期'
+    ].filter(Boolean) as string[]
+    return parts.length > 0
+      ? parts.map(part => <Badge key={part} variant="secondary" className="mr-1">{part}</Badge>)
+      : <span className="text-muted-foreground">-</span>
+  }
+
+  const deleteBlockedBy = pendingDelete?.kind === 'component' ? usedBy[pendingDelete.name] || [] : []
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-4">
+          <div className="flex rounded-md border p-0.5">
+            {(['index', 'component'] as const).map(item => (
+              <Button
+                key={item}
+                variant={kind === item ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={() => setKind(item)}
+              >
+                {KIND_LABELS[item]}
+              </Button>
+            ))}
+          </div>
+          <div className="relative">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder={kind === 'index' ? '搜索名称或索引模式...' : '搜索名称...'}
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-8 w-64"
+            />
+          </div>
+          <div className="flex items-center space-x-2">
+            <Switch id="show-managed-templates" checked={showManaged} onCheckedChange={setShowManaged} />
+            <Label htmlFor="show-managed-templates" className="text-sm">显示内置模板</Label>
+          </div>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" size="sm" onClick={() => setSimulateName('')}>
+            <FlaskConical className="h-4 w-4 mr-2" />
+            模拟
+          </Button>
+          <Button variant="outline" size="sm" onClick={loadTemplates} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+            刷新
+          </Button>
+          <Button size="sm" onClick={openCreate}>
+            <Plus className="h-4 w-4 mr-2" />
+            新建{KIND_LABELS[kind]}
+          </Button>
+        </div>
+      </div>
+
+      {loadError && <div className="text-sm text-red-600 p-3 bg-red-50 rounded-md">{loadError}</div>}
+
+      <ScrollArea className="h-[400px]">
+        {visibleTemplates.length === 0 ? (
+          <div className="flex items-center justify-center h-32 text-muted-foreground">
+            {isLoading ? '加载中...' : searchTerm ? '未找到匹配的模板' : `暂无${KIND_LABELS[kind]}`}
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>名称</TableHead>
+                {kind === 'index' ? (
+                  <>
+                    <TableHead>索引模式</TableHead>
+                    <TableHead>组件模板</TableHead>
+                    <TableHead>优先级</TableHead>
+                  </>
+                ) : (
+                  <>
+                    <TableHead>内容</TableHead>
+                    <TableHead>引用它的索引模板</TableHead>
+                  </>
+                )}
+                <TableHead>版本</TableHead>
+                <TableHead className="text-right">操作</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleTemplates.map(template => (
+                <TableRow key={template.name}>
+                  <TableCell className="font-medium">
+                    {template.name}
+                    {template.dataStream && <Badge variant="outline" className="ml-2">数据流</Badge>}
+                    {template.managed && <Badge variant="outline" className="ml-2">内置</Badge>}
+                  </TableCell>
+                  {kind === 'index' ? (
+                    <>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {template.indexPatterns.map(pattern => (
+                            <Badge key={pattern} variant="secondary" className="font-mono font-normal">{pattern}</Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {template.composedOf.length > 0 ? template.composedOf.join(', ') : <span className="text-muted-foreground">-</span>}
+                      </TableCell>
+                      <TableCell>{template.priority ?? 0}</TableCell>
+                    </>
+                  ) : (
+                    <>
+                      <TableCell>{renderContents(template)}</TableCell>
+                      <TableCell className="text-sm">
+                        {usedBy[template.name]?.join(', ') || <span className="text-muted-foreground">-</span>}
+                      </TableCell>
+                    </>
+                  )}
+                  <TableCell>{template.version ?? '-'}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => openEdit(template)} title="查看和编辑">
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setPendingDelete(template)} title="删除">
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </ScrollArea>
+
+      {/* 模板编辑对话框 */}
+      <Dialog open={editor !== null} onOpenChange={(open) => !open && setEditor(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh]">
+          <DialogHeader>
+            <DialogTitle>
+              {editor?.isNew ? `新建${KIND_LABELS[editor.kind]}` : `${editor ? KIND_LABELS[editor.kind] : ''} - ${editor?.name}`}
+            </DialogTitle>
+            <DialogDescription>
+              {editor?.kind === 'index'
+                ? '索引模板按 index_patterns 匹配新建的索引，优先级最高的模板生效，composed_of 中的组件模板按顺序合并'
+                : '组件模板是可复用的设置、映射和别名片段，需要被索引模板引用才会生效'}
+            </DialogDescription>
+          </DialogHeader>
+          {editor && (
+            <div className="space-y-4">
+              {editor.isNew && (
+                <div className="space-y-2">
+                  <Label htmlFor="template-name">名称</Label>
+                  <Input
+                    id="template-name"
+                    value={editor.name}
+                    onChange={(e) => setEditor({ ...editor, name: e.target.value })}
+                  />
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="template-body">模板定义 (JSON)</Label>
+                <Textarea
+                  id="template-body"
+                  value={editor.body}
+                  onChange={(e) => setEditor({ ...editor, body: e.target.value })}
+                  className="min-h-[360px] font-mono text-sm"
+                />
+              </div>
+              {editor.managed && (
+                <p className="text-sm text-yellow-700 dark:text-yellow-500">
+                  这是内置模板，修改可能会在集群升级或相关功能重启时被覆盖
+                </p>
+              )}
+              {editorErrors.map(error => (
+                <p key={error} className="text-sm text-red-600">{error}</p>
+              ))}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditor(null)}>取消</Button>
+            <Button onClick={handleSave} disabled={isSaving || editorErrors.length > 0}>
+              {isSaving ? '保存中...' : '保存'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* 删除确认 */}
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>确认删除模板</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleteBlockedBy.length > 0
+                ? `组件模板 "${pendingDelete?.name}" 正在被索引模板 ${deleteBlockedBy.join(', ')} 引用，需要先从这些模板中移除引用才能删除。`
+                : `您确定要删除${pendingDelete ? KIND_LABELS[pendingDelete.kind] : ''} "${pendingDelete?.name}" 吗？已创建的索引不受影响，之后新建的索引将不再应用该模板。`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>取消</AlertDialogCancel>
+            {deleteBlockedBy.length === 0 && (
+              <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">
+                删除
+              </AlertDialogAction>
+            )}
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <TemplateSimulator indexName={simulateName} onClose={() => setSimulateName(null)} />
+    </div>
+  )
+}
@@ -0,0 +1,76 @@
+import { useState } from 'react'
+import { Lock } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useVaultStore } from '@/stores/vault-store'
+
+interface VaultUnlockDialogProps {
+  onUnlocked?: () => void
+}
+
+/**
+ * 凭据库解锁对话框
+ * 凭据库使用主密码加密且处于锁定状态时显示，解锁前无法连接需要认证的集群
+ */
+export function VaultUnlockDialog({ onUnlocked }: VaultUnlockDialogProps) {
+  const [passphrase, setPassphrase] = useState('')
+  const [isDismissed, setIsDismissed] = useState(false)
+  const { status, isLoading, error, unlock } = useVaultStore()
+
+  const isLocked = Boolean(status?.initialized && !status.unlocked && status.mode === 'passphrase')
+
+  /**
+   * 解锁凭据库
+   */
+  const handleUnlock = async () => {
+    if (!passphrase) return
+
+    try {
+      await unlock(passphrase)
+      setPassphrase('')
+      onUnlocked?.()
+    } catch (error) {
+      console.error('解锁凭据库失败:', error)
+    }
+  }
+
+  return (
+    <Dialog open={isLocked && !isDismissed} onOpenChange={(open) => !open && setIsDismissed(true)}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Lock className="h-5 w-5 mr-2" />
+            解锁凭据库
+          </DialogTitle>
+          <DialogDescription>
+            集群密码和 API 密钥使用主密码加密保存，请输入主密码以继续
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="vault-passphrase">主密码</Label>
+          <Input
+            id="vault-passphrase"
+            type="password"
+            autoFocus
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleUnlock()}
+          />
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setIsDismissed(true)}>
+            稍后
+          </Button>
+          <Button onClick={handleUnlock} disabled={!passphrase || isLoading}>
+            {isLoading ? '解锁中...' : '解锁'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -35,10 +35,8 @@ export function Header() {
   const { activeTab } = useAppStore()
   const { 
     currentConnection, 
-    clusterInfo,
     fetchClusterInfo,
-    fetchIndices,
-    testConnection
+    fetchIndices
   } = useElasticsearchStore()
   const { 
     ollamaConnected, 
@@ -58,108 +56,6 @@ export function Header() {
     }
   }, [ollamaConnected, fetchAvailableModels, availableModels.length])
 
-  /**
-   * 获取集群列表
-   * 从本地存储中获取已保存的集群配置
-   */
-  const getClusters = () => {
-    try {
-      const savedClusters = localStorage.getItem('elasticsearch-clusters')
-      if (savedClusters) {
-        const clusters = JSON.parse(savedClusters)
-        return clusters.map((cluster: any) => ({
-          id: cluster.id,
-          name: cluster.name,
-          host: cluster.host,
-          username: cluster.username,
-          password: cluster.password,
-          status: cluster.status || 'disconnected',
-          clusterName: cluster.clusterName,
-          version: cluster.version,
-          nodeCount: cluster.nodeCount
-        }))
-      }
-    } catch (error) {
-      console.error('获取集群列表失败:', error)
-    }
-    return []
-  }
-
-  /**
-   * 处理集群切换
-   * @param cluster 要切换到的集群
-   */
-  const handleClusterChange = async (cluster: any) => {
-    try {
-      // 解析主机地址、端口和协议
-      const parseHostAndPort = (hostInput: string): { host: string; port: number; protocol: 'http' | 'https' } => {
-        let protocol: 'http' | 'https' = 'http'
-        let cleanInput = hostInput
-        
-        if (hostInput.startsWith('https://')) {
-          protocol = 'https'
-          cleanInput = hostInput.replace(/^https:\/\//, '')
-        } else if (hostInput.startsWith('http://')) {
-          protocol = 'http'
-          cleanInput = hostInput.replace(/^http:\/\//, '')
-        }
-        
-        const portMatch = cleanInput.match(/^(.+):(\d+)$/)
-        if (portMatch) {
-          return {
-            host: portMatch[1],
-            port: parseInt(portMatch[2], 10),
-            protocol
-          }
-        }
-        
-        return {
-          host: cleanInput,
-          port: protocol === 'https' ? 9243 : 9200,
-          protocol
-        }
-      }
-
-      const { host, port, protocol } = parseHostAndPort(cluster.host)
-      
-      // 创建连接配置
-      const connectionConfig = {
-        id: cluster.id,
-        name: cluster.name,
-        host,
-        port,
-        protocol,
-        username: cluster.username,
-        password: cluster.password,
-        isDefault: false,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      }
-      
-      // 使用共享的切换集群函数
-      await useElasticsearchStore.getState().switchCluster(connectionConfig)
-      
-    } catch (error) {
-      console.error('切换集群失败:', error)
-    }
-  }
-
-  /**
-   * 测试集群连接
-   * @param connection 要测试的连接配置
-   */
-  const handleTestConnection = async (connection: any) => {
-    try {
-      return await testConnection(connection)
-    } catch (error) {
-      console.error('测试连接失败:', error)
-      return {
-        success: false,
-        error: '测试连接失败: ' + (error instanceof Error ? error.message : '未知错误')
-      }
-    }
-  }
-
   /**
    * 获取当前页面标题
    */
@@ -171,6 +67,16 @@ export function Header() {
         return '搜索查询'
       case 'indices':
         return '索引管理'
+      case 'lifecycle':
+        return '生命周期'
+      case 'snapshots':
+        return '快照'
+      case 'cluster-health':
+        return '集群健康'
+      case 'shard-allocation':
+        return '分片分布'
+      case 'alerts':
+        return '告警'
       case 'cluster-management':
         return '集群管理'
       case 'ai-chat':
@@ -240,22 +146,7 @@ export function Header() {
       <div className="flex items-center justify-between h-full px-6">
         {/* 左侧：集群选择器和页面标题 */}
         <div className="flex items-center space-x-6">
-          <ClusterSelector
-            currentCluster={currentConnection ? {
-              id: currentConnection.id,
-              name: currentConnection.name,
-              host: currentConnection.host,
-              username: currentConnection.username,
-              password: currentConnection.password,
-              status: currentConnection.status,
-              clusterName: clusterInfo?.cluster_name,
-              version: clusterInfo?.version?.number,
-              nodeCount: clusterInfo ? 1 : undefined
-            } : undefined}
-            clusters={getClusters()}
-            onClusterChange={handleClusterChange}
-            onTestConnection={handleTestConnection}
-          />
+          <ClusterSelector />
           <div className="h-6 w-px bg-border" />
           <h1 className="text-lg font-medium text-foreground">
             {getPageTitle()}
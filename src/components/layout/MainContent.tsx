@@ -2,6 +2,11 @@ import { useAppStore } from '@/stores/app-store'
 import { Dashboard } from '@/components/pages/Dashboard'
 import { SearchQuery } from '@/components/pages/SearchQuery'
 import { IndexManagement } from '@/components/pages/IndexManagement'
+import { Lifecycle } from '@/components/pages/Lifecycle'
+import { Snapshots } from '@/components/pages/Snapshots'
+import { ClusterHealth } from '@/components/pages/ClusterHealth'
+import { ShardAllocation } from '@/components/pages/ShardAllocation'
+import { Alerts } from '@/components/pages/Alerts'
 import { AIChat } from '@/components/pages/AIChat'
 import { Settings } from '@/components/pages/Settings'
 
@@ -23,6 +28,16 @@ export function MainContent() {
         return <SearchQuery />
       case 'indices':
         return <IndexManagement />
+      case 'lifecycle':
+        return <Lifecycle />
+      case 'snapshots':
+        return <Snapshots />
+      case 'cluster-health':
+        return <ClusterHealth />
+      case 'shard-allocation':
+        return <ShardAllocation />
+      case 'alerts':
+        return <Alerts />
       case 'ai-chat':
         return <AIChat />
       case 'settings':
@@ -5,12 +5,18 @@ import {
   BarChart3, 
   Settings, 
   Search,
+  HeartPulse,
+  LayoutGrid,
+  Bell,
+  Hourglass,
+  Archive,
   ChevronLeft,
   ChevronRight
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip'
 import { useAppStore } from '@/stores/app-store'
+import { useAlertStore } from '@/stores/alert-store'
 import { cn } from '@/lib/utils'
 
 /**
@@ -43,6 +49,31 @@ const navItems: NavItem[] = [
     label: '索引管理',
     icon: Database,
   },
+  {
+    id: 'lifecycle',
+    label: '生命周期',
+    icon: Hourglass,
+  },
+  {
+    id: 'snapshots',
+    label: '快照',
+    icon: Archive,
+  },
+  {
+    id: 'cluster-health',
+    label: '集群健康',
+    icon: HeartPulse,
+  },
+  {
+    id: 'shard-allocation',
+    label: '分片分布',
+    icon: LayoutGrid,
+  },
+  {
+    id: 'alerts',
+    label: '告警',
+    icon: Bell,
+  },
   {
     id: 'ai-chat',
     label: 'AI 聊天',
@@ -67,6 +98,7 @@ const bottomNavItems: NavItem[] = [
  */
 export function Sidebar() {
   const { sidebarCollapsed, toggleSidebar, activeTab, setActiveTab } = useAppStore()
+  const unreadAlerts = useAlertStore(state => state.unreadCount)
  
   /**
    * 渲染导航项
@@ -170,7 +202,9 @@ export function Sidebar() {
 
       {/* 导航菜单 */}
       <nav className="flex-1 px-4 py-4 space-y-2">
-        {navItems.map(renderNavItem)}
+        {navItems
+          .map(item => item.id === 'alerts' && unreadAlerts > 0 ? { ...item, badge: unreadAlerts } : item)
+          .map(renderNavItem)}
       </nav>
 
       {/* 底部菜单 */}
@@ -0,0 +1,471 @@
+import { useEffect, useState } from 'react'
+import { Bell, BellOff, Plus, Edit, Trash2, CheckCircle2, AlertTriangle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog'
+import { useToast } from '@/hooks/use-toast'
+import { AlertRule, AlertRuleType, useAlertStore } from '@/stores/alert-store'
+import { useElasticsearchStore } from '@/stores/elasticsearch-store'
+import { useSettingsStore } from '@/stores/settings-store'
+import { cn, formatDateTime } from '@/lib/utils'
+
+/**
+ * 规则类型说明
+ */
+const RULE_TYPE_LABELS: Record<AlertRuleType, string> = {
+  'cluster-health': '集群健康状态',
+  'node-left': '节点离开集群',
+  'disk-free': '磁盘剩余空间',
+  'doc-count-stalled': '索引文档数停止增长'
+}
+
+/**
+ * 检查间隔选项（秒）
+ */
+const CHECK_INTERVAL_OPTIONS = [10, 30, 60, 300, 900]
+
+type RuleForm = Omit<AlertRule, 'id'> & { id?: string }
+
+/**
+ * 按规则类型生成默认表单
+ */
+function createRuleForm(type: AlertRuleType = 'cluster-health'): RuleForm {
+  return {
+    name: RULE_TYPE_LABELS[type],
+    type,
+    enabled: true,
+    notify: true,
+    healthStatus: type === 'cluster-health' ? 'red' : undefined,
+    diskFreePercent: type === 'disk-free' ? 15 : undefined,
+    index: type === 'doc-count-stalled' ? '' : undefined,
+    stalledMinutes: type === 'doc-count-stalled' ? 30 : undefined
+  }
+}
+
+/**
+ * 描述规则的触发条件
+ */
+function describeCondition(rule: AlertRule): string {
+  switch (rule.type) {
+    case 'cluster-health':
+      return rule.healthStatus === 'yellow' ? '状态变为 yellow 或 red，或集群无法访问' : '状态变为 red，或集群无法访问'
+    case 'node-left':
+      return '监控期间出现过的节点从集群中消失'
+    case 'disk-free':
+      return `任一节点磁盘剩余低于 ${rule.diskFreePercent ?? 15}%`
+    case 'doc-count-stalled':
+      return `${rule.index} 的文档数 ${rule.stalledMinutes ?? 30} 分钟没有增长`
+    default:
+      return ''
+  }
+}
+
+/**
+ * 告警页面
+ * 管理告警规则并查看告警记录，规则由主进程按检查间隔评估
+ */
+export function Alerts() {
+  const { rules, log, checkInterval, fetchRules, saveRule, deleteRule, fetchLog, clearLog, markAllRead, setCheckInterval } = useAlertStore()
+  const { currentConnection } = useElasticsearchStore()
+  const enableNotifications = useSettingsStore(state => state.enableNotifications)
+  const { toast } = useToast()
+
+  const [ruleForm, setRuleForm] = useState<RuleForm | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [ruleToDelete, setRuleToDelete] = useState<AlertRule | null>(null)
+
+  const isMonitoring = currentConnection?.status === 'connected'
+
+  useEffect(() => {
+    fetchRules()
+    fetchLog()
+  }, [fetchRules, fetchLog])
+
+  // 停留在告警页面时收到的告警视为已读
+  useEffect(() => {
+    markAllRead()
+  }, [log, markAllRead])
+
+  /**
+   * 保存规则
+   */
+  const handleSaveRule = async () => {
+    if (!ruleForm) return
+    if (!ruleForm.name.trim()) {
+      toast({ title: '请输入规则名称', variant: 'destructive' })
+      return
+    }
+    if (ruleForm.type === 'doc-count-stalled' && !ruleForm.index?.trim()) {
+      toast({ title: '请输入要监控的索引', variant: 'destructive' })
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      await saveRule({ ...ruleForm, name: ruleForm.name.trim(), index: ruleForm.index?.trim() })
+      toast({ title: ruleForm.id ? '规则已更新' : '规则已创建' })
+      setRuleForm(null)
+    } catch (error) {
+      toast({
+        title: '保存规则失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive'
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  /**
+   * 切换规则的开关字段
+   */
+  const handleToggleRule = async (rule: AlertRule, updates: Partial<Pick<AlertRule, 'enabled' | 'notify'>>) => {
+    try {
+      await saveRule({ ...rule, ...updates })
+    } catch (error) {
+      toast({
+        title: '更新规则失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive'
+      })
+    }
+  }
+
+  /**
+   * 删除规则
+   */
+  const handleDeleteRule = async () => {
+    if (!ruleToDelete) return
+    try {
+      await deleteRule(ruleToDelete.id)
+      toast({ title: '规则已删除' })
+    } catch (error) {
+      toast({
+        title: '删除规则失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive'
+      })
+    } finally {
+      setRuleToDelete(null)
+    }
+  }
+
+  /**
+   * 清空告警记录
+   */
+  const handleClearLog = async () => {
+    try {
+      await clearLog()
+    } catch (error) {
+      toast({
+        title: '清空告警记录失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive'
+      })
+    }
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* 页面标题 */}
+      <div className="flex justify-between items-center">
+        <div className="space-y-1">
+          <h1 className="text-3xl font-bold tracking-tight">告警</h1>
+          <p className="text-muted-foreground">
+            {isMonitoring
+              ? `正在监控 ${currentConnection?.name}，每 ${checkInterval} 秒检查一次`
+              : '连接集群后开始按规则检查'}
+          </p>
+        </div>
+        <div className="flex items-center space-x-4">
+          <div className="flex items-center space-x-2">
+            <Label htmlFor="alert-interval" className="text-sm whitespace-nowrap">检查间隔</Label>
+            <Select
+              value={String(checkInterval)}
+              onValueChange={(value) => setCheckInterval(parseInt(value, 10))}
+            >
+              <SelectTrigger id="alert-interval" className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CHECK_INTERVAL_OPTIONS.map(seconds => (
+                  <SelectItem key={seconds} value={String(seconds)}>
+                    {seconds >= 60 ? `${seconds / 60} 分钟` : `${seconds} 秒`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={() => setRuleForm(createRuleForm())}>
+            <Plus className="h-4 w-4 mr-2" />
+            新建规则
+          </Button>
+        </div>
+      </div>
+
+      {!enableNotifications && (
+        <Card className="border-yellow-500/50">
+          <CardContent className="py-4 flex items-center text-sm">
+            <BellOff className="h-4 w-4 mr-2 text-yellow-600" />
+            系统通知已在设置中关闭，告警只会记录在下方列表中
+          </CardContent>
+        </Card>
+      )}
+
+      {/* 告警规则 */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Bell className="h-5 w-5 mr-2" />
+            告警规则
+          </CardTitle>
+          <CardDescription>规则在后台检查，窗口最小化时也会发送通知</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {rules.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              还没有告警规则
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>名称</TableHead>
+                  <TableHead>类型</TableHead>
+                  <TableHead>触发条件</TableHead>
+                  <TableHead className="w-24">系统通知</TableHead>
+                  <TableHead className="w-20">启用</TableHead>
+                  <TableHead className="w-24 text-right">操作</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map(rule => (
+                  <TableRow key={rule.id}>
+                    <TableCell className="font-medium">{rule.name}</TableCell>
+                    <TableCell>{RULE_TYPE_LABELS[rule.type]}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{describeCondition(rule)}</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={rule.notify}
+                        onCheckedChange={(notify) => handleToggleRule(rule, { notify })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={rule.enabled}
+                        onCheckedChange={(enabled) => handleToggleRule(rule, { enabled })}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => setRuleForm({ ...rule })}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => setRuleToDelete(rule)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* 告警记录 */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div className="space-y-1.5">
+              <CardTitle className="flex items-center">
+                <AlertTriangle className="h-5 w-5 mr-2" />
+                告警记录
+              </CardTitle>
+              <CardDescription>最近 {log.length} 条触发和恢复记录</CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={handleClearLog} disabled={log.length === 0}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              清空
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {log.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              暂无告警
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-44">时间</TableHead>
+                  <TableHead className="w-24">状态</TableHead>
+                  <TableHead>集群</TableHead>
+                  <TableHead>规则</TableHead>
+                  <TableHead>详情</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {log.map(event => (
+                  <TableRow key={event.id}>
+                    <TableCell className="text-sm">{formatDateTime(new Date(event.timestamp))}</TableCell>
+                    <TableCell>
+                      {event.state === 'resolved' ? (
+                        <Badge variant="outline" className="text-green-600">
+                          <CheckCircle2 className="h-3 w-3 mr-1" />
+                          已恢复
+                        </Badge>
+                      ) : (
+                        <Badge
+                          variant={event.severity === 'critical' ? 'destructive' : 'secondary'}
+                          className={cn(event.severity === 'warning' && 'text-yellow-600')}
+                        >
+                          {event.severity === 'critical' ? '严重' : '警告'}
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{event.connectionName}</TableCell>
+                    <TableCell>{event.ruleName}</TableCell>
+                    <TableCell className="text-sm">{event.message}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* 规则编辑对话框 */}
+      <Dialog open={!!ruleForm} onOpenChange={(open) => !open && setRuleForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{ruleForm?.id ? '编辑告警规则' : '新建告警规则'}</DialogTitle>
+            <DialogDescription>满足条件时记录告警，条件解除后记录恢复</DialogDescription>
+          </DialogHeader>
+          {ruleForm && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="rule-type">类型</Label>
+                <Select
+                  value={ruleForm.type}
+                  disabled={!!ruleForm.id}
+                  onValueChange={(type) => setRuleForm(createRuleForm(type as AlertRuleType))}
+                >
+                  <SelectTrigger id="rule-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(RULE_TYPE_LABELS) as AlertRuleType[]).map(type => (
+                      <SelectItem key={type} value={type}>{RULE_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="rule-name">名称</Label>
+                <Input
+                  id="rule-name"
+                  value={ruleForm.name}
+                  onChange={(e) => setRuleForm({ ...ruleForm, name: e.target.value })}
+                />
+              </div>
+
+              {ruleForm.type === 'cluster-health' && (
+                <div className="space-y-2">
+                  <Label htmlFor="rule-health">触发状态</Label>
+                  <Select
+                    value={ruleForm.healthStatus}
+                    onValueChange={(healthStatus) => setRuleForm({ ...ruleForm, healthStatus: healthStatus as 'yellow' | 'red' })}
+                  >
+                    <SelectTrigger id="rule-health">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="red">red</SelectItem>
+                      <SelectItem value="yellow">yellow 或 red</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {ruleForm.type === 'disk-free' && (
+                <div className="space-y-2">
+                  <Label htmlFor="rule-disk">磁盘剩余低于（%）</Label>
+                  <Input
+                    id="rule-disk"
+                    type="number"
+                    min={1}
+                    max={99}
+                    value={ruleForm.diskFreePercent ?? ''}
+                    onChange={(e) => setRuleForm({ ...ruleForm, diskFreePercent: Number(e.target.value) })}
+                  />
+                </div>
+              )}
+
+              {ruleForm.type === 'doc-count-stalled' && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="rule-index">索引</Label>
+                    <Input
+                      id="rule-index"
+                      placeholder="logs-*，多个用逗号分隔"
+                      value={ruleForm.index ?? ''}
+                      onChange={(e) => setRuleForm({ ...ruleForm, index: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="rule-stalled">停止增长（分钟）</Label>
+                    <Input
+                      id="rule-stalled"
+                      type="number"
+                      min={1}
+                      value={ruleForm.stalledMinutes ?? ''}
+                      onChange={(e) => setRuleForm({ ...ruleForm, stalledMinutes: Number(e.target.value) })}
+                    />
+                  </div>
+                </>
+              )}
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="rule-notify">发送系统通知</Label>
+                <Switch
+                  id="rule-notify"
+                  checked={ruleForm.notify}
+                  onCheckedChange={(notify) => setRuleForm({ ...ruleForm, notify })}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRuleForm(null)}>取消</Button>
+            <Button onClick={handleSaveRule} disabled={isSaving}>保存</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* 删除确认 */}
+      <AlertDialog open={!!ruleToDelete} onOpenChange={(open) => !open && setRuleToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>删除告警规则</AlertDialogTitle>
+            <AlertDialogDescription>
+              确定要删除规则 "{ruleToDelete?.name}" 吗？已有的告警记录会保留。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>取消</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteRule}>删除</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,484 @@
+import React, { useEffect, useState } from 'react'
+import { HeartPulse, RefreshCw, AlertTriangle, ChevronDown, ChevronRight, Info } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Progress } from '@/components/ui/progress'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { useToast } from '@/hooks/use-toast'
+import { AllocationExplanation, ShardInfo, useElasticsearchStore } from '@/stores/elasticsearch-store'
+import { cn, formatDateTime, formatNumber, getHealthColor } from '@/lib/utils'
+
+/**
+ * 健康状态说明
+ */
+const HEALTH_STATUS_LABELS: Record<'green' | 'yellow' | 'red', string> = {
+  green: '所有主分片和副本分片均已分配',
+  yellow: '所有主分片已分配，部分副本分片未分配',
+  red: '存在未分配的主分片，部分数据不可用'
+}
+
+/**
+ * 分片未分配原因
+ */
+const UNASSIGNED_REASON_LABELS: Record<string, string> = {
+  INDEX_CREATED: '索引刚创建',
+  CLUSTER_RECOVERED: '集群完全重启后恢复中',
+  INDEX_REOPENED: '索引重新打开',
+  DANGLING_INDEX_IMPORTED: '导入悬空索引',
+  NEW_INDEX_RESTORED: '从快照恢复到新索引',
+  EXISTING_INDEX_RESTORED: '从快照恢复到已关闭的索引',
+  REPLICA_ADDED: '新增了副本',
+  ALLOCATION_FAILED: '分配失败',
+  NODE_LEFT: '所在节点离开集群',
+  NODE_RESTARTING: '所在节点正在重启',
+  REROUTE_CANCELLED: '重路由被取消',
+  REINITIALIZED: '分片重新初始化',
+  REALLOCATED_REPLICA: '为更优的副本位置重新分配',
+  PRIMARY_FAILED: '主分片失败',
+  FORCED_EMPTY_PRIMARY: '强制分配了空的主分片',
+  MANUAL_ALLOCATION: '手动分配'
+}
+
+/**
+ * 分配判定结果
+ */
+const ALLOCATION_DECISION_LABELS: Record<string, string> = {
+  yes: '可以分配',
+  no: '无法分配',
+  throttled: '已限流，稍后分配',
+  awaiting_info: '正在收集分片信息',
+  allocation_delayed: '延迟分配中',
+  no_valid_shard_copy: '没有可用的分片副本',
+  no_attempt: '尚未尝试分配',
+  worse_balance: '分配到其他节点会使均衡变差'
+}
+
+/**
+ * 获取分片未分配原因的描述
+ */
+function getUnassignedReasonLabel(reason?: string): string {
+  if (!reason) return '-'
+  return UNASSIGNED_REASON_LABELS[reason] ? `${UNASSIGNED_REASON_LABELS[reason]} (${reason})` : reason
+}
+
+/**
+ * 格式化毫秒时长
+ */
+function formatDuration(millis: number): string {
+  if (millis < 1000) return `${millis} ms`
+  if (millis < 60000) return `${(millis / 1000).toFixed(1)} 秒`
+  return `${(millis / 60000).toFixed(1)} 分钟`
+}
+
+interface HealthStatCardProps {
+  title: string
+  value: number
+  description?: string
+  highlight?: boolean
+}
+
+/**
+ * 健康指标卡片
+ */
+function HealthStatCard({ title, value, description, highlight }: HealthStatCardProps) {
+  return (
+    <Card className={cn(highlight && value > 0 && 'border-orange-300 dark:border-orange-700')}>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className={cn('text-2xl font-bold', highlight && value > 0 && 'text-orange-600')}>
+          {formatNumber(value)}
+        </div>
+        {description && (
+          <p className="text-xs text-muted-foreground mt-1">{description}</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+/**
+ * 分配说明视图
+ * 将 _cluster/allocation/explain 的结果整理为概要、未分配信息和各节点的否决原因
+ */
+function AllocationExplanationView({ explanation }: { explanation: AllocationExplanation }) {
+  const [isRawOpen, setIsRawOpen] = useState(false)
+  const decision = explanation.can_allocate || explanation.can_move_to_other_node
+  const summary = explanation.allocate_explanation || explanation.move_explanation || explanation.rebalance_explanation
+  const { unassigned_info: unassignedInfo } = explanation
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center space-x-2">
+        <span className="text-sm text-muted-foreground">当前状态</span>
+        <Badge variant="outline">{explanation.current_state}</Badge>
+        {decision && (
+          <Badge variant={decision === 'yes' ? 'default' : 'destructive'}>
+            {ALLOCATION_DECISION_LABELS[decision] || decision}
+          </Badge>
+        )}
+      </div>
+
+      {summary && (
+        <div className="flex items-start space-x-2 rounded-md bg-muted/50 p-3 text-sm">
+          <Info className="h-4 w-4 mt-0.5 shrink-0 text-primary" />
+          <p>{summary}</p>
+        </div>
+      )}
+
+      {unassignedInfo && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">未分配信息</h4>
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            <span className="text-muted-foreground">原因</span>
+            <span>{getUnassignedReasonLabel(unassignedInfo.reason)}</span>
+            <span className="text-muted-foreground">发生时间</span>
+            <span>{formatDateTime(unassignedInfo.at)}</span>
+            {unassignedInfo.last_allocation_status && (
+              <>
+                <span className="text-muted-foreground">上次分配结果</span>
+                <span>{unassignedInfo.last_allocation_status}</span>
+              </>
+            )}
+            {unassignedInfo.failed_allocation_attempts !== undefined && (
+              <>
+                <span className="text-muted-foreground">失败次数</span>
+                <span>{unassignedInfo.failed_allocation_attempts}</span>
+              </>
+            )}
+          </div>
+          {unassignedInfo.details && (
+            <p className="rounded-md bg-red-50 dark:bg-red-950/30 p-2 text-xs font-mono break-all text-red-700 dark:text-red-300">
+              {unassignedInfo.details}
+            </p>
+          )}
+        </div>
+      )}
+
+      {explanation.can_remain_decisions && explanation.can_remain_decisions.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">无法留在当前节点的原因</h4>
+          {explanation.can_remain_decisions
+            .filter(decider => decider.decision !== 'YES')
+            .map(decider => (
+              <div key={decider.decider} className="text-sm">
+                <Badge variant="outline" className="mr-2">{decider.decider}</Badge>
+                {decider.explanation}
+              </div>
+            ))}
+        </div>
+      )}
+
+      {explanation.node_allocation_decisions && explanation.node_allocation_decisions.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">各节点的分配决策</h4>
+          {explanation.node_allocation_decisions.map(node => {
+            const blockers = (node.deciders || []).filter(decider => decider.decision !== 'YES')
+            return (
+              <div key={node.node_id} className="rounded-md border p-3 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">{node.node_name}</span>
+                  <Badge variant={node.node_decision === 'yes' ? 'default' : 'secondary'}>
+                    {node.node_decision}
+                  </Badge>
+                </div>
+                {blockers.map(decider => (
+                  <div key={decider.decider} className="text-xs">
+                    <Badge variant="outline" className="mr-2">{decider.decider}</Badge>
+                    <span className="text-muted-foreground">{decider.explanation}</span>
+                  </div>
+                ))}
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      <Collapsible open={isRawOpen} onOpenChange={setIsRawOpen}>
+        <CollapsibleTrigger className="flex items-center space-x-2 text-sm font-medium hover:text-primary">
+          {isRawOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+          <span>原始响应</span>
+        </CollapsibleTrigger>
+        <CollapsibleContent className="mt-2">
+          <pre className="rounded-md bg-muted p-3 text-xs overflow-auto max-h-64">
+            {JSON.stringify(explanation, null, 2)}
+          </pre>
+        </CollapsibleContent>
+      </Collapsible>
+    </div>
+  )
+}
+
+/**
+ * 集群健康页面组件
+ * 显示 _cluster/health 的分片统计和等待任务，并可查看未分配分片的分配说明
+ */
+export function ClusterHealth() {
+  const [isRefreshing, setIsRefreshing] = useState(false)
+  const [selectedShard, setSelectedShard] = useState<ShardInfo | null>(null)
+  const [explanation, setExplanation] = useState<AllocationExplanation | null>(null)
+  const [isExplaining, setIsExplaining] = useState(false)
+  const { toast } = useToast()
+
+  const {
+    currentConnection,
+    clusterHealth,
+    pendingTasks,
+    shards,
+    fetchClusterHealth,
+    fetchShards,
+    explainShardAllocation
+  } = useElasticsearchStore()
+
+  const isConnected = currentConnection?.status === 'connected'
+
+  /**
+   * 未分配的分片，主分片排在前面
+   */
+  const unassignedShards = React.useMemo(() => {
+    return shards
+      .filter(shard => shard.state === 'UNASSIGNED')
+      .sort((a, b) => Number(b.primary) - Number(a.primary) || a.index.localeCompare(b.index) || a.shard - b.shard)
+  }, [shards])
+
+  /**
+   * 刷新健康状态和分片列表
+   */
+  const handleRefresh = React.useCallback(async () => {
+    setIsRefreshing(true)
+    try {
+      await Promise.all([fetchClusterHealth(), fetchShards()])
+    } finally {
+      setIsRefreshing(false)
+    }
+  }, [fetchClusterHealth, fetchShards])
+
+  useEffect(() => {
+    if (isConnected) {
+      handleRefresh()
+    }
+  }, [isConnected, currentConnection?.id, handleRefresh])
+
+  /**
+   * 查看分片的分配说明
+   */
+  const handleExplainShard = async (shard: ShardInfo) => {
+    setSelectedShard(shard)
+    setExplanation(null)
+    setIsExplaining(true)
+    try {
+      setExplanation(await explainShardAllocation(shard.index, shard.shard, shard.primary))
+    } catch (error) {
+      setSelectedShard(null)
+      toast({
+        title: '获取分配说明失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive'
+      })
+    } finally {
+      setIsExplaining(false)
+    }
+  }
+
+  if (!isConnected) {
+    return (
+      <div className="p-6">
+        <Card>
+          <CardContent className="py-12 text-center">
+            <HeartPulse className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-sm text-muted-foreground">请先连接到 Elasticsearch 集群</p>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* 页面标题 */}
+      <div className="flex justify-between items-center">
+        <div className="space-y-1">
+          <h1 className="text-3xl font-bold tracking-tight">集群健康</h1>
+          <p className="text-muted-foreground">
+            查看分片分配情况，定位集群变黄或变红的原因
+          </p>
+        </div>
+        <Button variant="outline" onClick={handleRefresh} disabled={isRefreshing}>
+          <RefreshCw className={cn('h-4 w-4 mr-2', isRefreshing && 'animate-spin')} />
+          刷新
+        </Button>
+      </div>
+
+      {clusterHealth && (
+        <>
+          {/* 健康状态 */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span className="flex items-center">
+                  <HeartPulse className="h-5 w-5 mr-2" />
+                  {clusterHealth.cluster_name}
+                </span>
+                <Badge className={cn('uppercase', getHealthColor(clusterHealth.status))}>
+                  {clusterHealth.status}
+                </Badge>
+              </CardTitle>
+              <CardDescription>
+                {HEALTH_STATUS_LABELS[clusterHealth.status]}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">活跃分片比例</span>
+                <span className="font-medium">{clusterHealth.active_shards_percent_as_number.toFixed(1)}%</span>
+              </div>
+              <Progress value={clusterHealth.active_shards_percent_as_number} className="h-2" />
+              <p className="text-xs text-muted-foreground">
+                {clusterHealth.number_of_nodes} 个节点，其中 {clusterHealth.number_of_data_nodes} 个数据节点
+              </p>
+            </CardContent>
+          </Card>
+
+          {/* 分片统计 */}
+          <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-6">
+            <HealthStatCard title="活跃主分片" value={clusterHealth.active_primary_shards} />
+            <HealthStatCard title="活跃分片" value={clusterHealth.active_shards} />
+            <HealthStatCard title="迁移中" value={clusterHealth.relocating_shards} highlight />
+            <HealthStatCard title="初始化中" value={clusterHealth.initializing_shards} highlight />
+            <HealthStatCard
+              title="未分配"
+              value={clusterHealth.unassigned_shards}
+              description={clusterHealth.delayed_unassigned_shards > 0 ? `其中 ${clusterHealth.delayed_unassigned_shards} 个延迟分配` : undefined}
+              highlight
+            />
+            <HealthStatCard
+              title="等待任务"
+              value={clusterHealth.number_of_pending_tasks}
+              description={clusterHealth.task_max_waiting_in_queue_millis > 0 ? `最长等待 ${formatDuration(clusterHealth.task_max_waiting_in_queue_millis)}` : undefined}
+              highlight
+            />
+          </div>
+        </>
+      )}
+
+      {/* 未分配分片 */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <AlertTriangle className="h-5 w-5 mr-2" />
+            未分配分片
+          </CardTitle>
+          <CardDescription>
+            点击分片查看 Elasticsearch 给出的分配说明
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {unassignedShards.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">没有未分配的分片</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>索引</TableHead>
+                  <TableHead>分片</TableHead>
+                  <TableHead>类型</TableHead>
+                  <TableHead>原因</TableHead>
+                  <TableHead>发生时间</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {unassignedShards.map(shard => (
+                  <TableRow
+                    key={`${shard.index}-${shard.shard}-${shard.primary ? 'p' : 'r'}-${shard.unassignedAt}`}
+                    className="cursor-pointer"
+                    onClick={() => handleExplainShard(shard)}
+                  >
+                    <TableCell className="font-medium">{shard.index}</TableCell>
+                    <TableCell>{shard.shard}</TableCell>
+                    <TableCell>
+                      <Badge variant={shard.primary ? 'destructive' : 'secondary'}>
+                        {shard.primary ? '主分片' : '副本'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{getUnassignedReasonLabel(shard.unassignedReason)}</TableCell>
+                    <TableCell>{shard.unassignedAt ? formatDateTime(shard.unassignedAt) : '-'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* 等待任务 */}
+      <Card>
+        <CardHeader>
+          <CardTitle>等待执行的集群任务</CardTitle>
+          <CardDescription>
+            主节点队列中的任务，长时间堆积通常意味着主节点负载过高
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {pendingTasks.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">没有等待执行的任务</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>序号</TableHead>
+                  <TableHead>优先级</TableHead>
+                  <TableHead>来源</TableHead>
+                  <TableHead>排队时长</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pendingTasks.map(task => (
+                  <TableRow key={task.insertOrder}>
+                    <TableCell>{task.insertOrder}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{task.priority}</Badge>
+                    </TableCell>
+                    <TableCell className="max-w-md truncate" title={task.source}>
+                      {task.executing && <Badge className="mr-2">执行中</Badge>}
+                      {task.source}
+                    </TableCell>
+                    <TableCell>{formatDuration(task.timeInQueueMillis)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* 分配说明 */}
+      <Dialog open={Boolean(selectedShard)} onOpenChange={(open) => !open && setSelectedShard(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>分片分配说明</DialogTitle>
+            {selectedShard && (
+              <DialogDescription>
+                {selectedShard.index} 的第 {selectedShard.shard} 号{selectedShard.primary ? '主分片' : '副本分片'}
+              </DialogDescription>
+            )}
+          </DialogHeader>
+          <ScrollArea className="max-h-[65vh] pr-4">
+            {isExplaining || !explanation ? (
+              <div className="flex items-center justify-center py-12 text-sm text-muted-foreground">
+                <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                正在获取分配说明...
+              </div>
+            ) : (
+              <AllocationExplanationView explanation={explanation} />
+            )}
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -13,6 +13,7 @@ import { Button } from '@/components/ui/button'
 import { useElasticsearchStore } from '@/stores/elasticsearch-store'
 import { useAppStore } from '@/stores/app-store'
 import { formatNumber } from '@/lib/utils'
+import { NodeMetricsCharts } from '@/components/NodeMetricsCharts'
 
 /**
  * 统计卡片组件
@@ -339,6 +340,9 @@ export function Dashboard() {
             )}
           </CardContent>
         </Card>
+
+        {/* 节点指标趋势 */}
+        {currentConnection?.status === 'connected' && <NodeMetricsCharts />}
       </div>
     </div>
   )
@@ -1,4 +1,4 @@
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
@@ -12,8 +12,39 @@ import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel,
 import { Textarea } from '@/components/ui/textarea'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible'
-import { Database, Plus, Trash2, RefreshCw, Settings, MoreHorizontal, Search, ChevronDown, ChevronRight } from 'lucide-react'
-import { useElasticsearchStore } from '@/stores/elasticsearch-store'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Switch } from '@/components/ui/switch'
+import { Database, Plus, Trash2, RefreshCw, Settings, MoreHorizontal, Search, ChevronDown, ChevronRight, FolderOpen, FolderClosed, RotateCw, HardDriveDownload, Combine, Eraser, Snowflake, Sun, ListChecks, SlidersHorizontal, Copy, Link2, LayoutTemplate, RotateCcw, AlertTriangle, Layers, Camera, Upload } from 'lucide-react'
+import { IndexOperation, useElasticsearchStore } from '@/stores/elasticsearch-store'
+import { IndexOperationDialog, INDEX_OPERATIONS, isIndexOperationSupported } from '@/components/IndexOperationDialog'
+import { IndexSettingsEditor } from '@/components/IndexSettingsEditor'
+import { MappingExplorer } from '@/components/MappingExplorer'
+import { ReindexWizard } from '@/components/ReindexWizard'
+import { ImportWizard } from '@/components/ImportWizard'
+import { AliasManager } from '@/components/AliasManager'
+import { TemplateManager, TemplateSimulator } from '@/components/TemplateManager'
+import { DataStreamManager } from '@/components/DataStreamManager'
+import { CreateSnapshotDialog } from '@/components/CreateSnapshotDialog'
+import { useRetryIlmStep } from '@/hooks/use-retry-ilm-step'
+
+/**
+ * 索引操作菜单中的图标
+ */
+const INDEX_OPERATION_ICONS: Record<IndexOperation, React.ComponentType<{ className?: string }>> = {
+  open: FolderOpen,
+  close: FolderClosed,
+  refresh: RotateCw,
+  flush: HardDriveDownload,
+  forcemerge: Combine,
+  'clear-cache': Eraser,
+  freeze: Snowflake,
+  unfreeze: Sun
+}
+
+/**
+ * 批量操作菜单中的操作顺序
+ */
+const BULK_OPERATIONS: IndexOperation[] = ['open', 'close', 'refresh', 'flush', 'forcemerge', 'clear-cache', 'freeze', 'unfreeze']
 
 /**
  * 索引管理页面组件
@@ -25,11 +56,8 @@ export function IndexManagement() {
   const [isCreating, setIsCreating] = useState(false)
   const [selectedIndex, setSelectedIndex] = useState<string | null>(null)
   const [indexSettings, setIndexSettings] = useState<any>(null)
-  const [indexMapping, setIndexMapping] = useState<any>(null)
   const [isSettingsDialogOpen, setIsSettingsDialogOpen] = useState(false)
-  const [isMappingDialogOpen, setIsMappingDialogOpen] = useState(false)
   const [isLoadingSettings, setIsLoadingSettings] = useState(false)
-  const [isLoadingMapping, setIsLoadingMapping] = useState(false)
   
   // 创建索引高级设置
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false)
@@ -39,7 +67,27 @@ export function IndexManagement() {
   const [customMapping, setCustomMapping] = useState('')
   const [isAdvancedSettingsOpen, setIsAdvancedSettingsOpen] = useState(false)
   
-  const { indices, isLoading, createIndex, deleteIndex, refreshIndices, getIndexSettings, getIndexMapping } = useElasticsearchStore()
+  // 多选和索引运维操作
+  const [selectedIndices, setSelectedIndices] = useState<string[]>([])
+  const [pendingOperation, setPendingOperation] = useState<{ operation: IndexOperation; indices: string[] } | null>(null)
+  const [editingSettingsIndex, setEditingSettingsIndex] = useState<string | null>(null)
+  const [exploringMappingIndex, setExploringMappingIndex] = useState<string | null>(null)
+  const [reindexSource, setReindexSource] = useState<string | null>(null)
+  const [importTarget, setImportTarget] = useState<string | null>(null)
+  const [snapshotIndices, setSnapshotIndices] = useState<string[] | null>(null)
+  const [simulateIndexName, setSimulateIndexName] = useState<string | null>(null)
+  const [showBackingIndices, setShowBackingIndices] = useState(false)
+
+  const { indices, aliases, ilmExplain, dataStreams, clusterInfo, isLoading, createIndex, deleteIndex, refreshIndices, fetchAliases, fetchIlmExplain, fetchDataStreams, getIndexSettings } = useElasticsearchStore()
+  const retryIlmStep = useRetryIlmStep()
+  const clusterVersion = clusterInfo?.version?.number
+
+  // 索引列表中显示每个索引的别名、生命周期状态和所属数据流
+  useEffect(() => {
+    fetchAliases()
+    fetchIlmExplain()
+    fetchDataStreams()
+  }, [fetchAliases, fetchIlmExplain, fetchDataStreams])
 
   /**
    * 创建新索引（简单模式）
@@ -122,6 +170,7 @@ export function IndexManagement() {
   const handleDeleteIndex = async (indexName: string) => {
     try {
       await deleteIndex(indexName)
+      setSelectedIndices(prev => prev.filter(name => name !== indexName))
     } catch (error) {
       console.error('Failed to delete index:', error)
     }
@@ -132,6 +181,9 @@ export function IndexManagement() {
    */
   const handleRefresh = () => {
     refreshIndices()
+    fetchAliases()
+    fetchIlmExplain()
+    fetchDataStreams()
   }
 
   /**
@@ -153,34 +205,61 @@ export function IndexManagement() {
     }
   }
 
-  /**
-   * 查看索引映射
-   */
-  const handleViewMapping = async (indexName: string) => {
-    setSelectedIndex(indexName)
-    setIsLoadingMapping(true)
-    setIsMappingDialogOpen(true)
-    
-    try {
-      const mapping = await getIndexMapping(indexName)
-      setIndexMapping(mapping)
-    } catch (error) {
-      console.error('获取索引映射失败:', error)
-      setIndexMapping({ error: '获取映射失败: ' + (error instanceof Error ? error.message : '未知错误') })
-    } finally {
-      setIsLoadingMapping(false)
-    }
-  }
+  // 后备索引到所属数据流的映射
+  const dataStreamByIndex: Record<string, string> = Object.fromEntries(
+    dataStreams.flatMap(stream => stream.indices.map(index => [index, stream.name]))
+  )
 
   /**
-   * 过滤索引列表
+   * 过滤索引列表，数据流的后备索引默认隐藏，在数据流页签中查看
    */
   const filteredIndices = indices.filter(index =>
-    index.index.toLowerCase().includes(searchTerm.toLowerCase())
+    index.index.toLowerCase().includes(searchTerm.toLowerCase()) &&
+    (showBackingIndices || !dataStreamByIndex[index.index])
   )
 
   // formatSize 函数已移除，因为 storeSize 已经是格式化后的字符串
 
+  const isAllSelected = filteredIndices.length > 0 && filteredIndices.every(index => selectedIndices.includes(index.index))
+
+  /**
+   * 切换当前筛选结果的全选状态
+   */
+  const handleToggleAll = (checked: boolean) => {
+    const visible = filteredIndices.map(index => index.index)
+    setSelectedIndices(prev => checked
+      ? Array.from(new Set([...prev, ...visible]))
+      : prev.filter(name => !visible.includes(name)))
+  }
+
+  /**
+   * 切换单个索引的选中状态
+   */
+  const handleToggleIndex = (indexName: string, checked: boolean) => {
+    setSelectedIndices(prev => checked ? [...prev, indexName] : prev.filter(name => name !== indexName))
+  }
+
+  /**
+   * 渲染单个索引可执行的操作，打开和关闭按索引当前状态显示其一
+   */
+  const renderOperationItems = (indexName: string, status: 'open' | 'close') => {
+    const operations: IndexOperation[] = status === 'close'
+      ? ['open']
+      : ['close', 'refresh', 'flush', 'forcemerge', 'clear-cache', 'freeze', 'unfreeze']
+
+    return operations
+      .filter(operation => isIndexOperationSupported(operation, clusterVersion))
+      .map(operation => {
+        const IconComponent = INDEX_OPERATION_ICONS[operation]
+        return (
+          <DropdownMenuItem key={operation} onClick={() => setPendingOperation({ operation, indices: [indexName] })}>
+            <IconComponent className="mr-2 h-4 w-4" />
+            {INDEX_OPERATIONS[operation].label}
+          </DropdownMenuItem>
+        )
+      })
+  }
+
   /**
    * 获取索引状态颜色
    */
@@ -197,6 +276,43 @@ export function IndexManagement() {
     }
   }
 
+  const ilmByIndex = Object.fromEntries(ilmExplain.map(entry => [entry.index, entry]))
+
+  /**
+   * 显示索引当前的生命周期阶段，出错时显示失败步骤和重试按钮
+   */
+  const renderLifecycle = (indexName: string) => {
+    const entry = ilmByIndex[indexName]
+    if (!entry) {
+      return <span className="text-muted-foreground">-</span>
+    }
+
+    if (entry.failedStep) {
+      return (
+        <div className="flex items-center space-x-1">
+          <Badge
+            variant="destructive"
+            className="font-normal"
+            title={[`${entry.policy}: ${entry.phase}/${entry.action}/${entry.failedStep}`, entry.stepInfo].filter(Boolean).join('\n')}
+          >
+            <AlertTriangle className="h-3 w-3 mr-1" />
+            {entry.failedStep}
+          </Badge>
+          <Button variant="ghost" className="h-6 w-6 p-0" onClick={() => retryIlmStep(entry)} title="重试失败步骤">
+            <RotateCcw className="h-3 w-3" />
+          </Button>
+        </div>
+      )
+    }
+
+    return (
+      <span className="text-sm" title={`${entry.policy}: ${[entry.phase, entry.action, entry.step].filter(Boolean).join(' / ')}`}>
+        {entry.phase || '-'}
+        {entry.action && <span className="text-muted-foreground"> / {entry.action}</span>}
+      </span>
+    )
+  }
+
   return (
     <div className="h-full p-6 space-y-6">
       {/* 页面标题 */}
@@ -208,6 +324,14 @@ export function IndexManagement() {
           </p>
         </div>
         <div className="flex items-center space-x-2">
+          <Button variant="outline" size="sm" onClick={() => setImportTarget('')}>
+            <Upload className="h-4 w-4 mr-2" />
+            导入数据
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setReindexSource('')}>
+            <Copy className="h-4 w-4 mr-2" />
+            重建索引
+          </Button>
           <Button variant="outline" size="sm" onClick={handleRefresh} disabled={isLoading}>
             <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
             刷新
@@ -246,6 +370,15 @@ export function IndexManagement() {
             >
               {isCreating ? '创建中...' : '快速创建'}
             </Button>
+            <Button
+              variant="outline"
+              onClick={() => setSimulateIndexName(newIndexName.trim())}
+              disabled={!newIndexName.trim()}
+              title="预览以该名称创建索引时生效的模板"
+            >
+              <LayoutTemplate className="h-4 w-4 mr-2" />
+              匹配的模板
+            </Button>
             <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
               <DialogTrigger asChild>
                 <Button variant="outline" disabled={isCreating}>
@@ -392,140 +525,342 @@ export function IndexManagement() {
         </CardContent>
       </Card>
 
-      {/* 索引列表 */}
-      <Card className="flex-1">
-        <CardHeader>
-          <div className="flex items-center justify-between">
-            <div>
+      <Tabs defaultValue="indices">
+        <TabsList>
+          <TabsTrigger value="indices">
+            <Database className="h-4 w-4 mr-2" />
+            索引
+          </TabsTrigger>
+          <TabsTrigger value="data-streams">
+            <Layers className="h-4 w-4 mr-2" />
+            数据流
+          </TabsTrigger>
+          <TabsTrigger value="aliases">
+            <Link2 className="h-4 w-4 mr-2" />
+            别名
+          </TabsTrigger>
+          <TabsTrigger value="templates">
+            <LayoutTemplate className="h-4 w-4 mr-2" />
+            模板
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="indices">
+          {/* 索引列表 */}
+          <Card className="flex-1">
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle className="flex items-center">
+                    <Database className="h-5 w-5 mr-2" />
+                    索引列表
+                  </CardTitle>
+                  <CardDescription>
+                    当前 Elasticsearch 集群中的所有索引
+                  </CardDescription>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <div className="flex items-center space-x-2 mr-2">
+                    <Switch id="show-backing-indices" checked={showBackingIndices} onCheckedChange={setShowBackingIndices} />
+                    <Label htmlFor="show-backing-indices" className="text-sm">显示数据流后备索引</Label>
+                  </div>
+                  <div className="relative">
+                    <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                    <Input
+                      placeholder="搜索索引..."
+                      value={searchTerm}
+                      onChange={(e) => setSearchTerm(e.target.value)}
+                      className="pl-8 w-64"
+                    />
+                  </div>
+                  <Badge variant="secondary">
+                    {filteredIndices.length} 个索引
+                  </Badge>
+                </div>
+              </div>
+              {selectedIndices.length > 0 && (
+                <div className="flex items-center justify-between rounded-md bg-muted px-3 py-2 mt-4">
+                  <span className="text-sm">已选择 {selectedIndices.length} 个索引</span>
+                  <div className="flex items-center space-x-2">
+                    <Button variant="ghost" size="sm" onClick={() => setSelectedIndices([])}>
+                      取消选择
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => setReindexSource(selectedIndices.join(','))}>
+                      <Copy className="h-4 w-4 mr-2" />
+                      重建索引
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => setSnapshotIndices([...selectedIndices])}>
+                      <Camera className="h-4 w-4 mr-2" />
+                      创建快照
+                    </Button>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button size="sm">
+                          <ListChecks className="h-4 w-4 mr-2" />
+                          批量操作
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        {BULK_OPERATIONS
+                          .filter(operation => isIndexOperationSupported(operation, clusterVersion))
+                          .map(operation => {
+                            const IconComponent = INDEX_OPERATION_ICONS[operation]
+                            return (
+                              <DropdownMenuItem
+                                key={operation}
+                                onClick={() => setPendingOperation({ operation, indices: [...selectedIndices] })}
+                              >
+                                <IconComponent className="mr-2 h-4 w-4" />
+                                {INDEX_OPERATIONS[operation].label}
+                              </DropdownMenuItem>
+                            )
+                          })}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </div>
+                </div>
+              )}
+            </CardHeader>
+            <CardContent>
+              <ScrollArea className="h-[400px]">
+                {filteredIndices.length === 0 ? (
+                  <div className="flex items-center justify-center h-32 text-muted-foreground">
+                    {searchTerm ? '未找到匹配的索引' : '暂无索引'}
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-10">
+                          <Checkbox
+                            checked={isAllSelected}
+                            onCheckedChange={(checked) => handleToggleAll(checked === true)}
+                            aria-label="全选"
+                          />
+                        </TableHead>
+                        <TableHead>索引名称</TableHead>
+                        <TableHead>状态</TableHead>
+                        <TableHead>文档数量</TableHead>
+                        <TableHead>存储大小</TableHead>
+                        <TableHead>分片数</TableHead>
+                        <TableHead>副本数</TableHead>
+                        <TableHead>生命周期</TableHead>
+                        <TableHead className="text-right">操作</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {filteredIndices.map((index) => (
+                        <TableRow key={index.index}>
+                          <TableCell>
+                            <Checkbox
+                              checked={selectedIndices.includes(index.index)}
+                              onCheckedChange={(checked) => handleToggleIndex(index.index, checked === true)}
+                              aria-label={`选择 ${index.index}`}
+                            />
+                          </TableCell>
+                          <TableCell className="font-medium">
+                            {index.index}
+                            {index.status === 'close' && (
+                              <Badge variant="outline" className="ml-2">已关闭</Badge>
+                            )}
+                            {dataStreamByIndex[index.index] && (
+                              <Badge variant="outline" className="ml-2 font-normal">
+                                <Layers className="h-3 w-3 mr-1" />
+                                {dataStreamByIndex[index.index]}
+                              </Badge>
+                            )}
+                            {aliases
+                              .filter(entry => entry.index === index.index)
+                              .map(entry => (
+                                <Badge key={entry.alias} variant="secondary" className="ml-2 font-normal">
+                                  {entry.alias}
+                                </Badge>
+                              ))}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center space-x-2">
+                              <div className={`w-2 h-2 rounded-full ${getStatusColor(index.health)}`} />
+                              <span className="capitalize">{index.health}</span>
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            {index.docsCount?.toLocaleString() || '0'}
+                          </TableCell>
+                          <TableCell>
+                            {index.storeSize || '0'}
+                          </TableCell>
+                          <TableCell>{index.pri || 1}</TableCell>
+                          <TableCell>{index.rep || 0}</TableCell>
+                          <TableCell>{renderLifecycle(index.index)}</TableCell>
+                          <TableCell className="text-right">
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button variant="ghost" className="h-8 w-8 p-0">
+                                  <span className="sr-only">打开菜单</span>
+                                  <MoreHorizontal className="h-4 w-4" />
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end">
+                                <DropdownMenuLabel>操作</DropdownMenuLabel>
+                                <DropdownMenuItem onClick={() => handleViewSettings(index.index)}>
+                                  <Settings className="mr-2 h-4 w-4" />
+                                  查看设置
+                                </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => setEditingSettingsIndex(index.index)}>
+                                  <SlidersHorizontal className="mr-2 h-4 w-4" />
+                                  编辑设置
+                                </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => setExploringMappingIndex(index.index)}>
+                                  <Search className="mr-2 h-4 w-4" />
+                                  查看映射
+                                </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => setReindexSource(index.index)}>
+                                  <Copy className="mr-2 h-4 w-4" />
+                                  重建索引
+                                </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => setImportTarget(index.index)}>
+                                  <Upload className="mr-2 h-4 w-4" />
+                                  导入数据
+                                </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => setSnapshotIndices([index.index])}>
+                                  <Camera className="mr-2 h-4 w-4" />
+                                  创建快照
+                                </DropdownMenuItem>
+                                {ilmByIndex[index.index]?.failedStep && (
+                                  <DropdownMenuItem onClick={() => retryIlmStep(ilmByIndex[index.index])}>
+                                    <RotateCcw className="mr-2 h-4 w-4" />
+                                    重试失败的生命周期步骤
+                                  </DropdownMenuItem>
+                                )}
+                                <DropdownMenuSeparator />
+                                {renderOperationItems(index.index, index.status)}
+                                <DropdownMenuSeparator />
+                                <AlertDialog>
+                                  <AlertDialogTrigger asChild>
+                                    <DropdownMenuItem
+                                      className="text-red-600"
+                                      onSelect={(e) => e.preventDefault()}
+                                    >
+                                      <Trash2 className="mr-2 h-4 w-4" />
+                                      删除索引
+                                    </DropdownMenuItem>
+                                  </AlertDialogTrigger>
+                                  <AlertDialogContent>
+                                    <AlertDialogHeader>
+                                      <AlertDialogTitle>确认删除索引</AlertDialogTitle>
+                                      <AlertDialogDescription>
+                                        您确定要删除索引 "{index.index}" 吗？此操作不可撤销，所有数据将被永久删除。
+                                      </AlertDialogDescription>
+                                    </AlertDialogHeader>
+                                    <AlertDialogFooter>
+                                      <AlertDialogCancel>取消</AlertDialogCancel>
+                                      <AlertDialogAction
+                                        onClick={() => handleDeleteIndex(index.index)}
+                                        className="bg-red-600 hover:bg-red-700"
+                                      >
+                                        删除
+                                      </AlertDialogAction>
+                                    </AlertDialogFooter>
+                                  </AlertDialogContent>
+                                </AlertDialog>
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </ScrollArea>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="data-streams">
+          <Card>
+            <CardHeader>
               <CardTitle className="flex items-center">
-                <Database className="h-5 w-5 mr-2" />
-                索引列表
+                <Layers className="h-5 w-5 mr-2" />
+                数据流列表
               </CardTitle>
               <CardDescription>
-                当前 Elasticsearch 集群中的所有索引
+                数据流由按时间滚动的后备索引组成，写入只进入最新的写入索引，查询覆盖全部后备索引
               </CardDescription>
-            </div>
-            <div className="flex items-center space-x-2">
-              <div className="relative">
-                <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
-                <Input
-                  placeholder="搜索索引..."
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                  className="pl-8 w-64"
-                />
-              </div>
-              <Badge variant="secondary">
-                {filteredIndices.length} 个索引
-              </Badge>
-            </div>
-          </div>
-        </CardHeader>
-        <CardContent>
-          <ScrollArea className="h-[400px]">
-            {filteredIndices.length === 0 ? (
-              <div className="flex items-center justify-center h-32 text-muted-foreground">
-                {searchTerm ? '未找到匹配的索引' : '暂无索引'}
-              </div>
-            ) : (
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead>索引名称</TableHead>
-                    <TableHead>状态</TableHead>
-                    <TableHead>文档数量</TableHead>
-                    <TableHead>存储大小</TableHead>
-                    <TableHead>分片数</TableHead>
-                    <TableHead>副本数</TableHead>
-                    <TableHead className="text-right">操作</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {filteredIndices.map((index) => (
-                    <TableRow key={index.index}>
-                      <TableCell className="font-medium">
-                        {index.index}
-                      </TableCell>
-                      <TableCell>
-                        <div className="flex items-center space-x-2">
-                          <div className={`w-2 h-2 rounded-full ${getStatusColor(index.health)}`} />
-                          <span className="capitalize">{index.health}</span>
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        {index.docsCount?.toLocaleString() || '0'}
-                      </TableCell>
-                      <TableCell>
-                        {index.storeSize || '0'}
-                      </TableCell>
-                      <TableCell>{index.pri || 1}</TableCell>
-                      <TableCell>{index.rep || 0}</TableCell>
-                      <TableCell className="text-right">
-                        <DropdownMenu>
-                          <DropdownMenuTrigger asChild>
-                            <Button variant="ghost" className="h-8 w-8 p-0">
-                              <span className="sr-only">打开菜单</span>
-                              <MoreHorizontal className="h-4 w-4" />
-                            </Button>
-                          </DropdownMenuTrigger>
-                          <DropdownMenuContent align="end">
-                            <DropdownMenuLabel>操作</DropdownMenuLabel>
-                            <DropdownMenuItem onClick={() => handleViewSettings(index.index)}>
-                              <Settings className="mr-2 h-4 w-4" />
-                              查看设置
-                            </DropdownMenuItem>
-                            <DropdownMenuItem onClick={() => handleViewMapping(index.index)}>
-                              <Search className="mr-2 h-4 w-4" />
-                              查看映射
-                            </DropdownMenuItem>
-                            <DropdownMenuSeparator />
-                            <AlertDialog>
-                              <AlertDialogTrigger asChild>
-                                <DropdownMenuItem
-                                  className="text-red-600"
-                                  onSelect={(e) => e.preventDefault()}
-                                >
-                                  <Trash2 className="mr-2 h-4 w-4" />
-                                  删除索引
-                                </DropdownMenuItem>
-                              </AlertDialogTrigger>
-                              <AlertDialogContent>
-                                <AlertDialogHeader>
-                                  <AlertDialogTitle>确认删除索引</AlertDialogTitle>
-                                  <AlertDialogDescription>
-                                    您确定要删除索引 "{index.index}" 吗？此操作不可撤销，所有数据将被永久删除。
-                                  </AlertDialogDescription>
-                                </AlertDialogHeader>
-                                <AlertDialogFooter>
-                                  <AlertDialogCancel>取消</AlertDialogCancel>
-                                  <AlertDialogAction
-                                    onClick={() => handleDeleteIndex(index.index)}
-                                    className="bg-red-600 hover:bg-red-700"
-                                  >
-                                    删除
-                                  </AlertDialogAction>
-                                </AlertDialogFooter>
-                              </AlertDialogContent>
-                            </AlertDialog>
-                          </DropdownMenuContent>
-                        </DropdownMenu>
-                      </TableCell>
-                    </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
-            )}
-          </ScrollArea>
-        </CardContent>
-      </Card>
+            </CardHeader>
+            <CardContent>
+              <DataStreamManager />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="aliases">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Link2 className="h-5 w-5 mr-2" />
+                别名列表
+              </CardTitle>
+              <CardDescription>
+                管理索引别名，切换别名时所有操作在一个请求中原子执行
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <AliasManager />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="templates">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <LayoutTemplate className="h-5 w-5 mr-2" />
+                模板列表
+              </CardTitle>
+              <CardDescription>
+                管理可组合索引模板和组件模板，新建的索引按名称匹配模板
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <TemplateManager />
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      {/* 索引运维操作对话框 */}
+      <IndexOperationDialog
+        operation={pendingOperation?.operation ?? null}
+        indices={pendingOperation?.indices ?? []}
+        onClose={() => setPendingOperation(null)}
+      />
+
+      {/* 索引设置编辑器 */}
+      <IndexSettingsEditor
+        indexName={editingSettingsIndex}
+        isClosed={indices.find(index => index.index === editingSettingsIndex)?.status === 'close'}
+        onClose={() => setEditingSettingsIndex(null)}
+      />
 
       {/* 索引设置对话框 */}
       <Dialog open={isSettingsDialogOpen} onOpenChange={setIsSettingsDialogOpen}>
         <DialogContent className="max-w-4xl max-h-[80vh]">
           <DialogHeader>
             <DialogTitle>索引设置 - {selectedIndex}</DialogTitle>
-            <DialogDescription>
-              查看索引的详细配置设置
+            <DialogDescription className="flex items-center justify-between">
+              <span>查看索引的详细配置设置</span>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={isLoadingSettings || !selectedIndex}
+                onClick={() => {
+                  setIsSettingsDialogOpen(false)
+                  setEditingSettingsIndex(selectedIndex)
+                }}
+              >
+                <SlidersHorizontal className="h-4 w-4 mr-2" />
+                编辑
+              </Button>
             </DialogDescription>
           </DialogHeader>
           <ScrollArea className="h-[60vh] w-full">
@@ -546,32 +881,38 @@ export function IndexManagement() {
         </DialogContent>
       </Dialog>
 
-      {/* 索引映射对话框 */}
-      <Dialog open={isMappingDialogOpen} onOpenChange={setIsMappingDialogOpen}>
-        <DialogContent className="max-w-4xl max-h-[80vh]">
-          <DialogHeader>
-            <DialogTitle>索引映射 - {selectedIndex}</DialogTitle>
-            <DialogDescription>
-              查看索引的字段映射配置
-            </DialogDescription>
-          </DialogHeader>
-          <ScrollArea className="h-[60vh] w-full">
-            {isLoadingMapping ? (
-              <div className="flex items-center justify-center h-32">
-                <div className="text-muted-foreground">加载中...</div>
-              </div>
-            ) : indexMapping?.error ? (
-              <div className="text-red-600 p-4 bg-red-50 rounded-md">
-                {indexMapping.error}
-              </div>
-            ) : (
-              <pre className="text-sm bg-muted p-4 rounded-md overflow-auto">
-                {JSON.stringify(indexMapping, null, 2)}
-              </pre>
-            )}
-          </ScrollArea>
-        </DialogContent>
-      </Dialog>
+      {/* 索引映射浏览器 */}
+      <MappingExplorer
+        indexName={exploringMappingIndex}
+        onClose={() => setExploringMappingIndex(null)}
+      />
+
+      {/* 新建索引时匹配的模板 */}
+      <TemplateSimulator
+        indexName={simulateIndexName}
+        onClose={() => setSimulateIndexName(null)}
+      />
+
+      {/* 重建索引向导 */}
+      <ReindexWizard
+        open={reindexSource !== null}
+        initialSource={reindexSource ?? ''}
+        onClose={() => setReindexSource(null)}
+      />
+
+      {/* 导入数据向导 */}
+      <ImportWizard
+        open={importTarget !== null}
+        initialIndex={importTarget ?? ''}
+        onClose={() => setImportTarget(null)}
+      />
+
+      {/* 创建快照 */}
+      <CreateSnapshotDialog
+        open={snapshotIndices !== null}
+        initialIndices={snapshotIndices ?? []}
+        onClose={() => setSnapshotIndices(null)}
+      />
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,319 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { Plus, Pencil, Trash2, RefreshCw, RotateCcw, AlertTriangle, Search } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog'
+import { useToast } from '@/hooks/use-toast'
+import { useRetryIlmStep } from '@/hooks/use-retry-ilm-step'
+import { IlmPolicyInfo, useElasticsearchStore } from '@/stores/elasticsearch-store'
+import { IlmPolicyEditor, ILM_PHASE_META } from '@/components/IlmPolicyEditor'
+import { cn, formatDateTime } from '@/lib/utils'
+
+// 策略列表中阶段的显示顺序，frozen 阶段表单不支持编辑但仍需要展示
+const PHASE_ORDER = ['hot', 'warm', 'cold', 'frozen', 'delete']
+
+/**
+ * 生命周期页面
+ * 管理 ILM 策略，并查看受管理索引的执行状态和错误
+ */
+export function Lifecycle() {
+  const { ilmExplain, getIlmPolicies, deleteIlmPolicy, fetchIlmExplain } = useElasticsearchStore()
+  const { toast } = useToast()
+  const retryStep = useRetryIlmStep()
+
+  const [policies, setPolicies] = useState<IlmPolicyInfo[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [showManaged, setShowManaged] = useState(false)
+  const [onlyErrors, setOnlyErrors] = useState(true)
+  const [indexFilter, setIndexFilter] = useState('')
+
+  const [editing, setEditing] = useState<{ policy?: IlmPolicyInfo } | null>(null)
+  const [policyToDelete, setPolicyToDelete] = useState<IlmPolicyInfo | null>(null)
+
+  const loadAll = useCallback(async () => {
+    setIsLoading(true)
+    setLoadError(null)
+    try {
+      const [result] = await Promise.all([getIlmPolicies(), fetchIlmExplain()])
+      setPolicies(result)
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : '获取生命周期策略失败')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [getIlmPolicies, fetchIlmExplain])
+
+  useEffect(() => {
+    loadAll()
+  }, [loadAll])
+
+  const visiblePolicies = useMemo(
+    () => policies
+      .filter(policy => showManaged || !policy.meta?.managed)
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    [policies, showManaged]
+  )
+
+  const failedCount = ilmExplain.filter(entry => entry.failedStep).length
+  const visibleExplain = useMemo(() => {
+    const keyword = indexFilter.trim().toLowerCase()
+    return ilmExplain
+      .filter(entry => !onlyErrors || entry.failedStep)
+      .filter(entry => !keyword || entry.index.toLowerCase().includes(keyword) || entry.policy.toLowerCase().includes(keyword))
+      .sort((a, b) => Number(Boolean(b.failedStep)) - Number(Boolean(a.failedStep)) || a.index.localeCompare(b.index))
+  }, [ilmExplain, onlyErrors, indexFilter])
+
+  const handleDelete = async () => {
+    if (!policyToDelete) return
+    try {
+      await deleteIlmPolicy(policyToDelete.name)
+      toast({ title: '生命周期策略已删除', description: policyToDelete.name })
+      await loadAll()
+    } catch (error) {
+      toast({
+        title: '删除生命周期策略失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive'
+      })
+    } finally {
+      setPolicyToDelete(null)
+    }
+  }
+
+  const deleteBlocked = policyToDelete
+    ? policyToDelete.inUseBy.indices.length + policyToDelete.inUseBy.dataStreams.length + policyToDelete.inUseBy.templates.length > 0
+    : false
+
+  return (
+    <div className="h-full p-6 space-y-6 overflow-auto">
+      {/* 页面标题 */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">生命周期</h1>
+          <p className="text-muted-foreground">
+            管理索引生命周期策略，及时发现卡在错误步骤的索引
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={loadAll} disabled={isLoading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+          刷新
+        </Button>
+      </div>
+
+      {loadError && <div className="text-sm text-red-600 p-3 bg-red-50 rounded-md">{loadError}</div>}
+
+      {/* 策略列表 */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>生命周期策略</CardTitle>
+              <CardDescription>按阶段定义索引的滚动、降级和删除</CardDescription>
+            </div>
+            <div className="flex items-center space-x-4">
+              <div className="flex items-center space-x-2">
+                <Switch id="show-managed-policies" checked={showManaged} onCheckedChange={setShowManaged} />
+                <Label htmlFor="show-managed-policies" className="text-sm">显示内置策略</Label>
+              </div>
+              <Button size="sm" onClick={() => setEditing({})}>
+                <Plus className="h-4 w-4 mr-2" />
+                新建策略
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {visiblePolicies.length === 0 ? (
+            <div className="flex items-center justify-center h-24 text-muted-foreground">
+              {isLoading ? '加载中...' : '暂无生命周期策略'}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>名称</TableHead>
+                  <TableHead>阶段</TableHead>
+                  <TableHead>使用情况</TableHead>
+                  <TableHead>版本</TableHead>
+                  <TableHead>修改时间</TableHead>
+                  <TableHead className="text-right">操作</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visiblePolicies.map(policy => (
+                  <TableRow key={policy.name}>
+                    <TableCell className="font-medium">
+                      {policy.name}
+                      {policy.meta?.managed && <Badge variant="outline" className="ml-2">内置</Badge>}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {Object.keys(policy.phases)
+                          .sort((a, b) => PHASE_ORDER.indexOf(a) - PHASE_ORDER.indexOf(b))
+                          .map(phase => {
+                            const meta = ILM_PHASE_META[phase as keyof typeof ILM_PHASE_META]
+                            return (
+                              <Badge key={phase} variant="secondary" className="font-normal">
+                                <span className={cn('w-2 h-2 rounded-full mr-1.5', meta?.color || 'bg-cyan-500')} />
+                                {phase}
+                                {policy.phases[phase].min_age && policy.phases[phase].min_age !== '0ms' && (
+                                  <span className="ml-1 text-muted-foreground">{policy.phases[phase].min_age}</span>
+                                )}
+                              </Badge>
+                            )
+                          })}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {policy.inUseBy.indices.length} 个索引
+                      {policy.inUseBy.dataStreams.length > 0 && `，${policy.inUseBy.dataStreams.length} 个数据流`}
+                      {policy.inUseBy.templates.length > 0 && `，${policy.inUseBy.templates.length} 个模板`}
+                    </TableCell>
+                    <TableCell>{policy.version ?? '-'}</TableCell>
+                    <TableCell className="text-sm">{policy.modifiedDate ? formatDateTime(policy.modifiedDate) : '-'}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => setEditing({ policy })} title="编辑">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => setPolicyToDelete(policy)} title="删除">
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* 索引执行状态 */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center">
+                索引生命周期状态
+                {failedCount > 0 && (
+                  <Badge variant="destructive" className="ml-2">{failedCount} 个错误</Badge>
+                )}
+              </CardTitle>
+              <CardDescription>
+                共 {ilmExplain.length} 个受管理的索引，出错的索引会停在 ERROR 步骤，直到修复原因后重试
+              </CardDescription>
+            </div>
+            <div className="flex items-center space-x-4">
+              <div className="relative">
+                <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="搜索索引或策略..."
+                  value={indexFilter}
+                  onChange={(e) => setIndexFilter(e.target.value)}
+                  className="pl-8 w-56"
+                />
+              </div>
+              <div className="flex items-center space-x-2">
+                <Switch id="only-ilm-errors" checked={onlyErrors} onCheckedChange={setOnlyErrors} />
+                <Label htmlFor="only-ilm-errors" className="text-sm">仅显示错误</Label>
+              </div>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <ScrollArea className="h-[360px]">
+            {visibleExplain.length === 0 ? (
+              <div className="flex items-center justify-center h-24 text-muted-foreground">
+                {onlyErrors ? '没有出错的索引' : '没有受管理的索引'}
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>索引</TableHead>
+                    <TableHead>策略</TableHead>
+                    <TableHead>阶段 / 动作 / 步骤</TableHead>
+                    <TableHead>时长</TableHead>
+                    <TableHead>错误</TableHead>
+                    <TableHead className="text-right">操作</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleExplain.map(entry => (
+                    <TableRow key={entry.index}>
+                      <TableCell className="font-mono text-sm">{entry.index}</TableCell>
+                      <TableCell>{entry.policy}</TableCell>
+                      <TableCell className="text-sm">
+                        {[entry.phase, entry.action, entry.step].filter(Boolean).join(' / ') || '-'}
+                      </TableCell>
+                      <TableCell className="text-sm">{entry.age || '-'}</TableCell>
+                      <TableCell className="max-w-sm">
+                        {entry.failedStep ? (
+                          <div className="flex items-start text-sm text-red-600">
+                            <AlertTriangle className="h-4 w-4 mr-1 mt-0.5 shrink-0" />
+                            <span className="break-all">
+                              {entry.failedStep}
+                              {entry.stepInfo && `：${entry.stepInfo}`}
+                              {entry.isAutoRetryableError && (
+                                <span className="text-muted-foreground">（自动重试 {entry.failedStepRetryCount ?? 0} 次）</span>
+                              )}
+                            </span>
+                          </div>
+                        ) : (
+                          <span className="text-muted-foreground">-</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {entry.failedStep && (
+                          <Button variant="outline" size="sm" onClick={() => retryStep(entry)}>
+                            <RotateCcw className="h-4 w-4 mr-2" />
+                            重试
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </ScrollArea>
+        </CardContent>
+      </Card>
+
+      <IlmPolicyEditor
+        open={editing !== null}
+        policy={editing?.policy}
+        existingNames={policies.map(policy => policy.name)}
+        onClose={() => setEditing(null)}
+        onSaved={loadAll}
+      />
+
+      <AlertDialog open={policyToDelete !== null} onOpenChange={(open) => !open && setPolicyToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>确认删除生命周期策略</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleteBlocked
+                ? `策略 "${policyToDelete?.name}" 仍在被索引、数据流或模板使用，需要先解除关联才能删除。`
+                : `您确定要删除策略 "${policyToDelete?.name}" 吗？此操作不可撤销。`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>取消</AlertDialogCancel>
+            {!deleteBlocked && (
+              <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">
+                删除
+              </AlertDialogAction>
+            )}
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
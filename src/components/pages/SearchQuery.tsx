@@ -13,7 +13,10 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu'
 import { Panel, PanelGroup, PanelResizeHandle } from 'react-resizable-panels'
 import { Play, Save, History, Edit, Trash2, MoreHorizontal, Copy, Download, Filter, RefreshCw, ChevronUp, ChevronDown, ChevronsUpDown, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight } from 'lucide-react'
-import { useElasticsearchStore } from '@/stores/elasticsearch-store'
+import { useElasticsearchStore, DocumentWriteOptions } from '@/stores/elasticsearch-store'
+import { useSettingsStore } from '@/stores/settings-store'
+import { getSortableFields } from '@/lib/mapping'
+import { ExportDialog } from '@/components/ExportDialog'
 import { useToast } from '@/hooks/use-toast'
 
 /**
@@ -79,6 +82,9 @@ export function SearchQuery() {
   const [viewMode, setViewMode] = useState<'json' | 'table'>('json')
   const [editingDocument, setEditingDocument] = useState<any>(null)
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false)
+  const [isSavingDocument, setIsSavingDocument] = useState(false)
+  const [exportQuery, setExportQuery] = useState<{ query?: Record<string, any>; sort?: any[] } | null>(null)
+  const maxResults = useSettingsStore(state => state.maxResults)
 
   // 查询模板管理
   const [queryTemplates, setQueryTemplates] = useState<QueryTemplate[]>([])
@@ -115,9 +121,12 @@ export function SearchQuery() {
   // 可排序字段配置（基于字段类型判断）
   const [sortableFields, setSortableFields] = useState<Set<string>>(new Set())
 
-  const { indices, executeQuery, getIndexMapping } = useElasticsearchStore()
+  const { indices, dataStreams, executeQuery, getIndexMapping, indexDocument, deleteDocument, fetchDataStreams } = useElasticsearchStore()
   const { toast } = useToast()
 
+  // 数据流的后备索引通过数据流查询，不在索引列表中单独列出
+  const backingIndices = new Set(dataStreams.flatMap(stream => stream.indices))
+
   /**
    * 组件初始化
    */
@@ -125,6 +134,7 @@ export function SearchQuery() {
     loadQueryTemplates()
     loadQueryResults()
     initializeDefaultQuery()
+    fetchDataStreams()
   }, [])
 
   /**
@@ -163,24 +173,11 @@ export function SearchQuery() {
         const mapping = await getIndexMapping(selectedIndex)
 
         // 检查映射中的字段类型，确定可排序字段
-        const indexMapping = mapping[selectedIndex]?.mappings?.properties
+        // 数据流的映射按后备索引返回，使用最新的后备索引
+        const latestIndex = Object.keys(mapping).sort().pop()
+        const indexMapping = (mapping[selectedIndex] ?? (latestIndex ? mapping[latestIndex] : undefined))?.mappings?.properties
         if (indexMapping) {
-          const sortableFieldsSet = new Set<string>()
-
-          // 遍历字段，检查哪些字段支持排序
-          Object.entries(indexMapping).forEach(([fieldName, fieldConfig]: [string, any]) => {
-            const fieldType = fieldConfig.type
-            // 支持排序的字段类型
-            if (['date', 'long', 'integer', 'short', 'byte', 'double', 'float', 'keyword'].includes(fieldType)) {
-              sortableFieldsSet.add(fieldName)
-            }
-            // text字段如果有keyword子字段也支持排序
-            if (fieldType === 'text' && fieldConfig.fields?.keyword) {
-              sortableFieldsSet.add(`${fieldName}.keyword`)
-            }
-          })
-
-          setSortableFields(sortableFieldsSet)
+          setSortableFields(getSortableFields(indexMapping))
 
           // 如果存在@timestamp字段，默认按时间倒序排序
           if (indexMapping['@timestamp']) {
@@ -297,6 +294,15 @@ export function SearchQuery() {
       if (parsedQuery.size === undefined) {
         parsedQuery.size = effectivePagination.pageSize
       }
+      // 返回文档数不超过设置中的最大返回结果数
+      if (typeof parsedQuery.size === 'number' && parsedQuery.size > maxResults) {
+        parsedQuery.size = maxResults
+      }
+
+      // 返回文档的 seq_no/primary_term，用于编辑和删除时的乐观并发控制
+      if (parsedQuery.seq_no_primary_term === undefined) {
+        parsedQuery.seq_no_primary_term = true
+      }
 
       // 应用排序配置（仅在用户未指定时）
       if (sortConfig && !parsedQuery.sort) {
@@ -380,17 +386,48 @@ export function SearchQuery() {
     setIsEditDialogOpen(true)
   }
 
+  /**
+   * 获取文档写入的并发控制参数
+   * 查询结果带有 seq_no/primary_term 时，写入前校验文档未被其他操作修改
+   */
+  const getConcurrencyOptions = (hit: any): DocumentWriteOptions => ({
+    ifSeqNo: hit._seq_no,
+    ifPrimaryTerm: hit._primary_term,
+    refresh: 'wait_for'
+  })
+
+  /**
+   * 获取文档写入失败的提示标题
+   */
+  const getDocumentErrorTitle = (error: any, fallback: string) => {
+    return error?.message?.includes('版本冲突') ? '版本冲突' : fallback
+  }
+
   /**
    * 保存编辑的文档
+   * 以整体替换的方式写回 Elasticsearch
    */
   const handleSaveDocument = async () => {
-    if (!editingDocument || !selectedIndex) return
+    if (!editingDocument) return
 
+    setIsSavingDocument(true)
     try {
-      // 这里需要调用Elasticsearch的更新API
-      // 暂时只更新本地状态
+      const response = await indexDocument(
+        editingDocument._index,
+        editingDocument._source,
+        editingDocument._id,
+        getConcurrencyOptions(editingDocument)
+      )
+
+      // 使用写入后的版本信息更新本地结果，便于后续再次编辑
+      const savedDocument = {
+        ...editingDocument,
+        _version: response._version,
+        _seq_no: response._seq_no,
+        _primary_term: response._primary_term
+      }
       const updatedResults = results.map(result =>
-        result._id === editingDocument._id ? editingDocument : result
+        result._id === savedDocument._id && result._index === savedDocument._index ? savedDocument : result
       )
       setResults(updatedResults)
       setIsEditDialogOpen(false)
@@ -398,35 +435,38 @@ export function SearchQuery() {
 
       toast({
         title: '文档更新成功',
-        description: `文档 ${editingDocument._id} 已更新`
+        description: `文档 ${savedDocument._id} 已更新`
       })
     } catch (error: any) {
       toast({
-        title: '文档更新失败',
+        title: getDocumentErrorTitle(error, '文档更新失败'),
         description: error.message,
         variant: 'destructive'
       })
+    } finally {
+      setIsSavingDocument(false)
     }
   }
 
   /**
    * 删除文档
    */
-  const handleDeleteDocument = async (documentId: string) => {
+  const handleDeleteDocument = async (hit: any) => {
     try {
-      // 这里需要调用Elasticsearch的删除API
-      // 暂时只更新本地状态
-      const updatedResults = results.filter(result => result._id !== documentId)
+      await deleteDocument(hit._index, hit._id, getConcurrencyOptions(hit))
+
+      const updatedResults = results.filter(result => !(result._id === hit._id && result._index === hit._index))
       setResults(updatedResults)
       setTotalHits(totalHits - 1)
+      setPagination(prev => ({ ...prev, totalItems: Math.max(prev.totalItems - 1, 0) }))
 
       toast({
         title: '文档删除成功',
-        description: `文档 ${documentId} 已删除`
+        description: `文档 ${hit._id} 已删除`
       })
     } catch (error: any) {
       toast({
-        title: '文档删除失败',
+        title: getDocumentErrorTitle(error, '文档删除失败'),
         description: error.message,
         variant: 'destructive'
       })
@@ -723,43 +763,33 @@ export function SearchQuery() {
   }
 
   /**
-   * 导出查询结果
+   * 导出当前查询匹配的所有文档
    */
   const handleExportResults = () => {
-    if (results.length === 0) {
+    if (!selectedIndex || !queryBody.trim()) {
       toast({
-        title: '无数据导出',
-        description: '请先执行查询获取结果',
+        title: '参数错误',
+        description: '请选择索引并输入查询语句',
         variant: 'destructive'
       })
       return
     }
 
-    const exportData = {
-      query: JSON.parse(queryBody),
-      index: selectedIndex,
-      totalHits,
-      results: results.map(hit => hit._source),
-      exportedAt: new Date().toISOString()
+    try {
+      const parsedQuery = JSON.parse(queryBody)
+      // 与执行查询一致，未指定排序时使用表格中的排序
+      const sort = parsedQuery.sort ?? (sortConfig ? [{ [sortConfig.field]: { order: sortConfig.direction } }] : undefined)
+      setExportQuery({
+        query: parsedQuery.query,
+        sort: sort === undefined || Array.isArray(sort) ? sort : [sort]
+      })
+    } catch (error) {
+      toast({
+        title: '导出失败',
+        description: '查询语句不是有效的 JSON',
+        variant: 'destructive'
+      })
     }
-
-    const blob = new Blob([JSON.stringify(exportData, null, 2)], {
-      type: 'application/json'
-    })
-
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = `elasticsearch-results-${Date.now()}.json`
-    document.body.appendChild(a)
-    a.click()
-    document.body.removeChild(a)
-    URL.revokeObjectURL(url)
-
-    toast({
-      title: '导出成功',
-      description: '查询结果已导出为JSON文件'
-    })
   }
 
   /**
@@ -958,11 +988,24 @@ export function SearchQuery() {
                         onChange={(e) => setSelectedIndex(e.target.value)}
                       >
                         <option value="">请选择索引</option>
-                        {indices.map((index) => (
-                          <option key={index.index} value={index.index}>
-                            {index.index} ({index.docsCount} 文档)
-                          </option>
-                        ))}
+                        {dataStreams.length > 0 && (
+                          <optgroup label="数据流">
+                            {dataStreams.map((stream) => (
+                              <option key={stream.name} value={stream.name}>
+                                {stream.name} ({stream.indices.length} 个后备索引)
+                              </option>
+                            ))}
+                          </optgroup>
+                        )}
+                        <optgroup label="索引">
+                          {indices
+                            .filter((index) => !backingIndices.has(index.index))
+                            .map((index) => (
+                              <option key={index.index} value={index.index}>
+                                {index.index} ({index.docsCount} 文档)
+                              </option>
+                            ))}
+                        </optgroup>
                       </select>
                     </div>
 
@@ -1142,7 +1185,7 @@ export function SearchQuery() {
                                               </AlertDialogHeader>
                                               <AlertDialogFooter>
                                                 <AlertDialogCancel>取消</AlertDialogCancel>
-                                                <AlertDialogAction onClick={() => handleDeleteDocument(hit._id)}>
+                                                <AlertDialogAction onClick={() => handleDeleteDocument(hit)}>
                                                   删除
                                                 </AlertDialogAction>
                                               </AlertDialogFooter>
@@ -1198,7 +1241,7 @@ export function SearchQuery() {
                                           </AlertDialogHeader>
                                           <AlertDialogFooter>
                                             <AlertDialogCancel>取消</AlertDialogCancel>
-                                            <AlertDialogAction onClick={() => handleDeleteDocument(hit._id)}>
+                                            <AlertDialogAction onClick={() => handleDeleteDocument(hit)}>
                                               删除
                                             </AlertDialogAction>
                                           </AlertDialogFooter>
@@ -1610,12 +1653,22 @@ export function SearchQuery() {
                   handleSaveDocument()
                 }
               }}
+              disabled={isSavingDocument}
             >
-              保存
+              {isSavingDocument ? '保存中...' : '保存'}
             </Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* 导出查询结果 */}
+      <ExportDialog
+        open={exportQuery !== null}
+        index={selectedIndex}
+        query={exportQuery?.query}
+        sort={exportQuery?.sort}
+        onClose={() => setExportQuery(null)}
+      />
     </div>
   )
 }
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
@@ -6,10 +6,16 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Switch } from '@/components/ui/switch'
 import { Separator } from '@/components/ui/separator'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { Badge } from '@/components/ui/badge'
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog'
-import {  Bot, Palette, Download, Upload, Trash2, Save, TestTube } from 'lucide-react'
+import {  Bot, Palette, Download, Upload, Trash2, Save, TestTube, KeyRound, Lock, Unlock, Globe, RefreshCw, Search } from 'lucide-react'
 import { useTheme } from '@/components/theme-provider'
 import { useAIStore } from '@/stores/ai-store'
+import { useVaultStore, VaultMode } from '@/stores/vault-store'
+import { useProxyStore, GlobalProxySettings } from '@/stores/proxy-store'
+import { useSettingsStore, MIN_REFRESH_INTERVAL, MAX_REFRESH_INTERVAL, MIN_MAX_RESULTS, MAX_MAX_RESULTS } from '@/stores/settings-store'
+import { ProxyProfileFields } from '@/components/ProxyProfileFields'
 
 /**
  * 设置页面组件
@@ -17,13 +23,106 @@ import { useAIStore } from '@/stores/ai-store'
  */
 export function Settings() {
   const [ollamaHost, setOllamaHost] = useState('http://localhost:11434')
-  const [autoRefresh, setAutoRefresh] = useState(true)
-  const [refreshInterval, setRefreshInterval] = useState(30)
-  const [maxResults, setMaxResults] = useState(100)
-  const [enableNotifications, setEnableNotifications] = useState(true)
   const [isTestingConnection, setIsTestingConnection] = useState(false)
+  const [vaultMode, setVaultMode] = useState<VaultMode>('keyfile')
+  const [vaultPassphrase, setVaultPassphrase] = useState('')
+  const [vaultPassphraseConfirm, setVaultPassphraseConfirm] = useState('')
+  const [unlockPassphrase, setUnlockPassphrase] = useState('')
+  const [proxyForm, setProxyForm] = useState<GlobalProxySettings | null>(null)
   
   const { theme, setTheme } = useTheme()
+  const { status: vaultStatus, isLoading: isVaultLoading, fetchStatus, configure, unlock, lock } = useVaultStore()
+  const { isLoading: isProxySaving, fetchGlobalProxy, saveGlobalProxy } = useProxyStore()
+  const { autoRefresh, refreshInterval, maxResults, enableNotifications, updatePreferences, resetPreferences } = useSettingsStore()
+
+  /**
+   * 加载凭据库状态
+   */
+  useEffect(() => {
+    fetchStatus().then((status) => {
+      if (status?.mode) {
+        setVaultMode(status.mode)
+      }
+    })
+  }, [fetchStatus])
+
+  /**
+   * 加载全局代理配置
+   */
+  useEffect(() => {
+    fetchGlobalProxy().then(setProxyForm)
+  }, [fetchGlobalProxy])
+
+  // Ollama 请求由渲染进程会话发出，Chromium 不支持 SOCKS5 代理认证
+  const isSocksProxyWithAuth = Boolean(proxyForm?.enabled && proxyForm.protocol === 'socks5' && proxyForm.username)
+
+  /**
+   * 保存凭据库加密方式
+   * 切换方式时会使用新密钥重新加密已有凭据
+   */
+  const handleConfigureVault = async () => {
+    if (vaultMode === 'passphrase') {
+      if (vaultPassphrase.length < 8) {
+        alert('主密码至少需要 8 个字符')
+        return
+      }
+      if (vaultPassphrase !== vaultPassphraseConfirm) {
+        alert('两次输入的主密码不一致')
+        return
+      }
+    }
+
+    try {
+      await configure(vaultMode, vaultMode === 'passphrase' ? vaultPassphrase : undefined)
+      setVaultPassphrase('')
+      setVaultPassphraseConfirm('')
+      alert('凭据库加密方式已更新')
+    } catch (error) {
+      alert('更新凭据库失败: ' + (error instanceof Error ? error.message : '未知错误'))
+    }
+  }
+
+  /**
+   * 解锁凭据库
+   */
+  const handleUnlockVault = async () => {
+    try {
+      await unlock(unlockPassphrase)
+      setUnlockPassphrase('')
+    } catch (error) {
+      alert('解锁失败: ' + (error instanceof Error ? error.message : '未知错误'))
+    }
+  }
+
+  /**
+   * 获取凭据库状态文本
+   */
+  const getVaultStatusText = () => {
+    if (!vaultStatus?.initialized) return '未初始化'
+    return vaultStatus.unlocked ? '已解锁' : '已锁定'
+  }
+
+  /**
+   * 保存全局代理配置
+   * 保存后立即生效，已建立的集群连接会在下次请求时使用新代理重建
+   */
+  const handleSaveProxy = async () => {
+    if (!proxyForm) return
+    if (proxyForm.enabled && (!proxyForm.host || !proxyForm.port)) {
+      alert('请填写代理地址和端口')
+      return
+    }
+    if (isSocksProxyWithAuth && !window.confirm('Ollama 请求由内置浏览器发出，不支持 SOCKS5 代理认证，将无法经过此代理。Elasticsearch 连接不受影响。确定要保存吗？')) {
+      return
+    }
+
+    try {
+      setProxyForm(await saveGlobalProxy(proxyForm))
+      alert('代理配置已保存')
+    } catch (error) {
+      alert('保存代理配置失败: ' + (error instanceof Error ? error.message : '未知错误'))
+    }
+  }
 
   /**
    * 测试 Ollama 连接
@@ -117,10 +216,12 @@ export function Settings() {
         
         if (config.preferences) {
           setTheme(config.preferences.theme || theme)
-          setAutoRefresh(config.preferences.autoRefresh ?? autoRefresh)
-          setRefreshInterval(config.preferences.refreshInterval || refreshInterval)
-          setMaxResults(config.preferences.maxResults || maxResults)
-          setEnableNotifications(config.preferences.enableNotifications ?? enableNotifications)
+          updatePreferences({
+            autoRefresh: config.preferences.autoRefresh ?? autoRefresh,
+            refreshInterval: config.preferences.refreshInterval || refreshInterval,
+            maxResults: config.preferences.maxResults || maxResults,
+            enableNotifications: config.preferences.enableNotifications ?? enableNotifications
+          })
         }
         
         alert('配置导入成功！')
@@ -136,10 +237,7 @@ export function Settings() {
    */
   const handleResetSettings = () => {
     setOllamaHost('http://localhost:11434')
-    setAutoRefresh(true)
-    setRefreshInterval(30)
-    setMaxResults(100)
-    setEnableNotifications(true)
+    resetPreferences()
     setTheme('system')
     alert('设置已重置为默认值')
   }
@@ -174,12 +272,86 @@ export function Settings() {
         </div>
       </div>
 
-      <Tabs defaultValue="ollama" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-2">
+      <Tabs defaultValue="general" className="space-y-6">
+        <TabsList className="grid w-full grid-cols-5">
+          <TabsTrigger value="general">常规</TabsTrigger>
           <TabsTrigger value="ollama">Ollama 配置</TabsTrigger>
+          <TabsTrigger value="proxy">网络代理</TabsTrigger>
+          <TabsTrigger value="security">凭据安全</TabsTrigger>
           <TabsTrigger value="appearance">外观</TabsTrigger>
         </TabsList>
 
+        {/* 常规设置 */}
+        <TabsContent value="general" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <RefreshCw className="h-5 w-5 mr-2" />
+                数据刷新
+              </CardTitle>
+              <CardDescription>
+                自动刷新集群信息、索引列表和节点信息，窗口隐藏时暂停
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="auto-refresh">自动刷新</Label>
+                  <p className="text-sm text-muted-foreground">
+                    刷新失败时会逐步延长重试间隔
+                  </p>
+                </div>
+                <Switch
+                  id="auto-refresh"
+                  checked={autoRefresh}
+                  onCheckedChange={(checked) => updatePreferences({ autoRefresh: checked })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="refresh-interval">刷新间隔（秒）</Label>
+                <Input
+                  id="refresh-interval"
+                  type="number"
+                  min={MIN_REFRESH_INTERVAL}
+                  max={MAX_REFRESH_INTERVAL}
+                  key={refreshInterval}
+                  defaultValue={refreshInterval}
+                  disabled={!autoRefresh}
+                  onBlur={(e) => updatePreferences({ refreshInterval: parseInt(e.target.value, 10) })}
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Search className="h-5 w-5 mr-2" />
+                查询
+              </CardTitle>
+              <CardDescription>
+                限制单次查询返回的文档数，避免大结果集拖慢界面
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <Label htmlFor="max-results">最大返回结果数</Label>
+              <Input
+                id="max-results"
+                type="number"
+                min={MIN_MAX_RESULTS}
+                max={MAX_MAX_RESULTS}
+                key={maxResults}
+                defaultValue={maxResults}
+                onBlur={(e) => updatePreferences({ maxResults: parseInt(e.target.value, 10) })}
+              />
+              <p className="text-sm text-muted-foreground">
+                查询中的 size 超过该值时按该值截断
+              </p>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         {/* Ollama 配置 */}
         <TabsContent value="ollama" className="space-y-6">
           <Card>
@@ -221,6 +393,158 @@ export function Settings() {
           </Card>
         </TabsContent>
 
+        {/* 网络代理 */}
+        <TabsContent value="proxy" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Globe className="h-5 w-5 mr-2" />
+                全局代理
+              </CardTitle>
+              <CardDescription>
+                Elasticsearch 连接和 Ollama 请求默认经过此代理，单个连接可以在集群配置中覆盖
+              </CardDescription>
+            </CardHeader>
+            {proxyForm && (
+              <CardContent className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="global-proxy-enabled">启用代理</Label>
+                    <p className="text-sm text-muted-foreground">
+                      本机地址始终直连，代理密码加密保存在凭据库中
+                    </p>
+                  </div>
+                  <Switch
+                    id="global-proxy-enabled"
+                    checked={proxyForm.enabled}
+                    onCheckedChange={(enabled) => setProxyForm({ ...proxyForm, enabled })}
+                  />
+                </div>
+
+                <ProxyProfileFields
+                  idPrefix="global"
+                  value={proxyForm}
+                  onChange={(profile) => setProxyForm({ ...proxyForm, ...profile })}
+                  hasSavedPassword={Boolean(proxyForm.credentialId)}
+                />
+
+                {isSocksProxyWithAuth && (
+                  <p className="text-sm text-yellow-600">
+                    Ollama 请求不支持 SOCKS5 代理认证，启用后将无法访问 Ollama。如需同时代理 Ollama，请使用 HTTP 代理或不需要认证的 SOCKS5 代理
+                  </p>
+                )}
+
+                <Button onClick={handleSaveProxy} disabled={isProxySaving}>
+                  <Save className="h-4 w-4 mr-2" />
+                  {isProxySaving ? '保存中...' : '保存代理配置'}
+                </Button>
+              </CardContent>
+            )}
+          </Card>
+        </TabsContent>
+
+        {/* 凭据安全 */}
+        <TabsContent value="security" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span className="flex items-center">
+                  <KeyRound className="h-5 w-5 mr-2" />
+                  凭据库
+                </span>
+                <Badge variant={vaultStatus?.unlocked ? 'default' : 'secondary'}>
+                  {getVaultStatusText()}
+                </Badge>
+              </CardTitle>
+              <CardDescription>
+                集群密码、API 密钥等凭据加密保存在本机，界面中只保存凭据引用
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {vaultStatus?.initialized && !vaultStatus.unlocked ? (
+                <div className="space-y-2">
+                  <Label htmlFor="settings-unlock-passphrase">主密码</Label>
+                  <div className="flex space-x-2">
+                    <Input
+                      id="settings-unlock-passphrase"
+                      type="password"
+                      value={unlockPassphrase}
+                      onChange={(e) => setUnlockPassphrase(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && handleUnlockVault()}
+                    />
+                    <Button onClick={handleUnlockVault} disabled={!unlockPassphrase || isVaultLoading}>
+                      <Unlock className="h-4 w-4 mr-2" />
+                      解锁
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <div className="space-y-2">
+                    <Label>加密方式</Label>
+                    <RadioGroup value={vaultMode} onValueChange={(value) => setVaultMode(value as VaultMode)}>
+                      <div className="flex items-start space-x-2">
+                        <RadioGroupItem value="keyfile" id="vault-mode-keyfile" className="mt-1" />
+                        <div>
+                          <Label htmlFor="vault-mode-keyfile">密钥文件</Label>
+                          <p className="text-sm text-muted-foreground">
+                            使用保存在应用数据目录中的随机密钥，启动时自动解锁
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex items-start space-x-2">
+                        <RadioGroupItem value="passphrase" id="vault-mode-passphrase" className="mt-1" />
+                        <div>
+                          <Label htmlFor="vault-mode-passphrase">主密码</Label>
+                          <p className="text-sm text-muted-foreground">
+                            每次启动时需要输入主密码，适合多人共用的工作站
+                          </p>
+                        </div>
+                      </div>
+                    </RadioGroup>
+                  </div>
+
+                  {vaultMode === 'passphrase' && (
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="vault-passphrase-new">主密码</Label>
+                        <Input
+                          id="vault-passphrase-new"
+                          type="password"
+                          value={vaultPassphrase}
+                          onChange={(e) => setVaultPassphrase(e.target.value)}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="vault-passphrase-confirm">确认主密码</Label>
+                        <Input
+                          id="vault-passphrase-confirm"
+                          type="password"
+                          value={vaultPassphraseConfirm}
+                          onChange={(e) => setVaultPassphraseConfirm(e.target.value)}
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  <div className="flex space-x-2">
+                    <Button onClick={handleConfigureVault} disabled={isVaultLoading}>
+                      <Save className="h-4 w-4 mr-2" />
+                      保存加密方式
+                    </Button>
+                    {vaultStatus?.mode === 'passphrase' && vaultStatus.unlocked && (
+                      <Button variant="outline" onClick={() => lock()}>
+                        <Lock className="h-4 w-4 mr-2" />
+                        立即锁定
+                      </Button>
+                    )}
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         {/* 外观设置 */}
         <TabsContent value="appearance" className="space-y-6">
           <Card>
@@ -267,12 +591,12 @@ export function Settings() {
                 <div className="space-y-0.5">
                   <Label>启用通知</Label>
                   <p className="text-sm text-muted-foreground">
-                    接收查询完成和错误通知
+                    告警规则触发和恢复时发送系统通知
                   </p>
                 </div>
                 <Switch
                   checked={enableNotifications}
-                  onCheckedChange={setEnableNotifications}
+                  onCheckedChange={(checked) => updatePreferences({ enableNotifications: checked })}
                 />
               </div>
               
@@ -0,0 +1,310 @@
+import React, { useEffect, useState } from 'react'
+import { LayoutGrid, RefreshCw, Search } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Progress } from '@/components/ui/progress'
+import { DiskWatermarks, NodeDiskUsage, ShardInfo, useElasticsearchStore } from '@/stores/elasticsearch-store'
+import { cn, formatBytes, formatNumber, parseByteSize } from '@/lib/utils'
+import { createWildcardMatcher } from '@/lib/wildcard'
+
+/**
+ * 节点磁盘水位级别
+ */
+type DiskLevel = 'normal' | 'approaching' | 'low' | 'high' | 'flood'
+
+/**
+ * 距离低水位线多少个百分点时提示接近水位线
+ */
+const APPROACHING_MARGIN_PERCENT = 5
+
+/**
+ * 未分配分片所在的列
+ */
+const UNASSIGNED_COLUMN = '__unassigned__'
+
+const DISK_LEVEL_LABELS: Record<Exclude<DiskLevel, 'normal'>, string> = {
+  approaching: '接近低水位线',
+  low: '超过低水位线',
+  high: '超过高水位线',
+  flood: '超过洪水水位线'
+}
+
+const DISK_LEVEL_STYLES: Record<DiskLevel, string> = {
+  normal: '',
+  approaching: 'bg-yellow-50 dark:bg-yellow-950/30',
+  low: 'bg-orange-50 dark:bg-orange-950/30',
+  high: 'bg-red-50 dark:bg-red-950/30',
+  flood: 'bg-red-100 dark:bg-red-950/60'
+}
+
+/**
+ * 判断节点磁盘是否达到水位线
+ * 水位线可以是已用百分比、已用比例或需要保留的剩余空间
+ */
+function reachesWatermark(node: NodeDiskUsage, watermark: string, marginPercent = 0): boolean {
+  const value = watermark.trim()
+  if (value.endsWith('%') || /^0?\.\d+$/.test(value)) {
+    if (node.diskPercent === undefined) return false
+    const percent = value.endsWith('%') ? parseFloat(value) : parseFloat(value) * 100
+    return node.diskPercent >= percent - marginPercent
+  }
+
+  const minFreeBytes = parseByteSize(value)
+  if (minFreeBytes === null || node.diskAvailBytes === undefined) return false
+  const marginBytes = node.diskTotalBytes ? node.diskTotalBytes * marginPercent / 100 : 0
+  return node.diskAvailBytes <= minFreeBytes + marginBytes
+}
+
+/**
+ * 获取节点的磁盘水位级别
+ */
+function getDiskLevel(node: NodeDiskUsage | undefined, watermarks: DiskWatermarks | undefined): DiskLevel {
+  if (!node || !watermarks?.enabled) return 'normal'
+  if (reachesWatermark(node, watermarks.floodStage)) return 'flood'
+  if (reachesWatermark(node, watermarks.high)) return 'high'
+  if (reachesWatermark(node, watermarks.low)) return 'low'
+  if (reachesWatermark(node, watermarks.low, APPROACHING_MARGIN_PERCENT)) return 'approaching'
+  return 'normal'
+}
+
+/**
+ * 获取分片标记的样式，主分片实心、副本空心，颜色表示状态
+ */
+function getShardStyle(shard: ShardInfo): string {
+  switch (shard.state) {
+    case 'STARTED':
+      return shard.primary ? 'bg-green-600 text-white border-green-600' : 'border-green-600 text-green-700 dark:text-green-400'
+    case 'RELOCATING':
+      return shard.primary ? 'bg-yellow-500 text-white border-yellow-500' : 'border-yellow-500 text-yellow-700 dark:text-yellow-400'
+    case 'INITIALIZING':
+      return shard.primary ? 'bg-blue-500 text-white border-blue-500' : 'border-blue-500 text-blue-700 dark:text-blue-400'
+    default:
+      return shard.primary ? 'bg-red-600 text-white border-red-600' : 'border-red-600 text-red-700 dark:text-red-400'
+  }
+}
+
+/**
+ * 分片提示信息
+ */
+function getShardTitle(shard: ShardInfo): string {
+  return [
+    `${shard.index} 第 ${shard.shard} 号${shard.primary ? '主分片' : '副本分片'}`,
+    `状态: ${shard.state}${shard.relocatingNode ? ` -> ${shard.relocatingNode}` : ''}`,
+    `大小: ${shard.storeBytes !== undefined ? formatBytes(shard.storeBytes) : '-'}`,
+    `文档数: ${shard.docs !== undefined ? formatNumber(shard.docs) : '-'}`,
+    shard.unassignedReason ? `未分配原因: ${shard.unassignedReason}` : ''
+  ].filter(Boolean).join('\n')
+}
+
+/**
+ * 分片分布页面组件
+ * 以索引 × 节点的网格展示主分片和副本分片的位置、状态、大小和文档数
+ */
+export function ShardAllocation() {
+  const [indexPattern, setIndexPattern] = useState('')
+  const [isRefreshing, setIsRefreshing] = useState(false)
+
+  const {
+    currentConnection,
+    shards,
+    diskAllocation,
+    fetchShards,
+    fetchDiskAllocation
+  } = useElasticsearchStore()
+
+  const isConnected = currentConnection?.status === 'connected'
+
+  /**
+   * 刷新分片和磁盘信息
+   */
+  const handleRefresh = React.useCallback(async () => {
+    setIsRefreshing(true)
+    try {
+      await Promise.all([fetchShards(), fetchDiskAllocation()])
+    } finally {
+      setIsRefreshing(false)
+    }
+  }, [fetchShards, fetchDiskAllocation])
+
+  useEffect(() => {
+    if (isConnected) {
+      handleRefresh()
+    }
+  }, [isConnected, currentConnection?.id, handleRefresh])
+
+  /**
+   * 按索引和节点分组的分片
+   */
+  const { indexNames, shardsByCell } = React.useMemo(() => {
+    const matches = createWildcardMatcher(indexPattern)
+    const grouped = new Map<string, ShardInfo[]>()
+    const names = new Set<string>()
+
+    shards.filter(shard => matches(shard.index)).forEach(shard => {
+      names.add(shard.index)
+      const key = `${shard.index}\n${shard.node || UNASSIGNED_COLUMN}`
+      grouped.set(key, [...(grouped.get(key) || []), shard])
+    })
+
+    grouped.forEach(cellShards => cellShards.sort((a, b) => a.shard - b.shard || Number(b.primary) - Number(a.primary)))
+    return {
+      indexNames: Array.from(names).sort(),
+      shardsByCell: grouped
+    }
+  }, [shards, indexPattern])
+
+  /**
+   * 网格的列：所有数据节点，存在未分配分片时追加未分配列
+   */
+  const columns = React.useMemo(() => {
+    const nodeNames = new Set<string>(diskAllocation?.nodes.map(node => node.node) || [])
+    shards.forEach(shard => shard.node && nodeNames.add(shard.node))
+    const sorted = Array.from(nodeNames).sort()
+    return shards.some(shard => !shard.node) ? [...sorted, UNASSIGNED_COLUMN] : sorted
+  }, [shards, diskAllocation])
+
+  const diskByNode = React.useMemo(() => {
+    return new Map((diskAllocation?.nodes || []).map(node => [node.node, node]))
+  }, [diskAllocation])
+
+  if (!isConnected) {
+    return (
+      <div className="p-6">
+        <Card>
+          <CardContent className="py-12 text-center">
+            <LayoutGrid className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-sm text-muted-foreground">请先连接到 Elasticsearch 集群</p>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* 页面标题 */}
+      <div className="flex justify-between items-center">
+        <div className="space-y-1">
+          <h1 className="text-3xl font-bold tracking-tight">分片分布</h1>
+          <p className="text-muted-foreground">
+            查看每个索引的主分片和副本分片在各节点上的分布
+          </p>
+        </div>
+        <Button variant="outline" onClick={handleRefresh} disabled={isRefreshing}>
+          <RefreshCw className={cn('h-4 w-4 mr-2', isRefreshing && 'animate-spin')} />
+          刷新
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <LayoutGrid className="h-5 w-5 mr-2" />
+            分片网格
+          </CardTitle>
+          <CardDescription>
+            实心为主分片，空心为副本分片；绿色已启动，黄色迁移中，蓝色初始化中，红色未分配。
+            {diskAllocation && (
+              diskAllocation.watermarks.enabled
+                ? ` 磁盘水位线：低 ${diskAllocation.watermarks.low}，高 ${diskAllocation.watermarks.high}，洪水 ${diskAllocation.watermarks.floodStage}`
+                : ' 磁盘水位线检查已关闭'
+            )}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="relative max-w-md">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="按索引名过滤，支持通配符，如 logs-*,metrics-*"
+              value={indexPattern}
+              onChange={(e) => setIndexPattern(e.target.value)}
+              className="pl-8"
+            />
+          </div>
+
+          {indexNames.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              {shards.length === 0 ? '暂无分片信息' : '没有匹配的索引'}
+            </p>
+          ) : (
+            <div className="overflow-auto max-h-[70vh] border rounded-md">
+              <table className="text-sm border-collapse">
+                <thead className="sticky top-0 z-20 bg-card">
+                  <tr>
+                    <th className="sticky left-0 z-30 bg-card text-left font-medium p-2 border-b border-r min-w-[200px]">
+                      索引 ({indexNames.length})
+                    </th>
+                    {columns.map(column => {
+                      if (column === UNASSIGNED_COLUMN) {
+                        return (
+                          <th key={column} className="text-left font-medium p-2 border-b min-w-[140px] text-red-600">
+                            未分配
+                          </th>
+                        )
+                      }
+                      const disk = diskByNode.get(column)
+                      const level = getDiskLevel(disk, diskAllocation?.watermarks)
+                      return (
+                        <th key={column} className={cn('text-left font-medium p-2 border-b min-w-[160px] align-top', DISK_LEVEL_STYLES[level])}>
+                          <div className="truncate" title={column}>{column}</div>
+                          {disk && (
+                            <div className="space-y-1 mt-1 font-normal">
+                              <div className="flex justify-between text-xs text-muted-foreground">
+                                <span>{disk.shards} 个分片</span>
+                                <span>{disk.diskPercent !== undefined ? `${disk.diskPercent}%` : '-'}</span>
+                              </div>
+                              <Progress value={disk.diskPercent || 0} className="h-1.5" />
+                              {disk.diskAvailBytes !== undefined && (
+                                <div className="text-xs text-muted-foreground">
+                                  剩余 {formatBytes(disk.diskAvailBytes)}
+                                </div>
+                              )}
+                              {level !== 'normal' && (
+                                <Badge variant={level === 'approaching' ? 'secondary' : 'destructive'} className="text-xs">
+                                  {DISK_LEVEL_LABELS[level]}
+                                </Badge>
+                              )}
+                            </div>
+                          )}
+                        </th>
+                      )
+                    })}
+                  </tr>
+                </thead>
+                <tbody>
+                  {indexNames.map(indexName => (
+                    <tr key={indexName} className="hover:bg-muted/50">
+                      <td className="sticky left-0 z-10 bg-card p-2 border-b border-r font-medium truncate max-w-[260px]" title={indexName}>
+                        {indexName}
+                      </td>
+                      {columns.map(column => {
+                        const level = column === UNASSIGNED_COLUMN ? 'normal' : getDiskLevel(diskByNode.get(column), diskAllocation?.watermarks)
+                        return (
+                          <td key={column} className={cn('p-2 border-b align-top', DISK_LEVEL_STYLES[level])}>
+                            <div className="flex flex-wrap gap-1">
+                              {(shardsByCell.get(`${indexName}\n${column}`) || []).map((shard, i) => (
+                                <span
+                                  key={`${shard.shard}-${shard.primary ? 'p' : 'r'}-${i}`}
+                                  title={getShardTitle(shard)}
+                                  className={cn('inline-flex items-center justify-center min-w-[2rem] px-1 h-6 rounded border text-xs font-mono cursor-default', getShardStyle(shard))}
+                                >
+                                  {shard.primary ? 'P' : 'R'}{shard.shard}
+                                </span>
+                              ))}
+                            </div>
+                          </td>
+                        )
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
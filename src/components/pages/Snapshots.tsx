@@ -0,0 +1,566 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Plus, Trash2, RefreshCw, ShieldCheck, ArchiveRestore, Camera, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Progress } from '@/components/ui/progress'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { useToast } from '@/hooks/use-toast'
+import { RestoreTask, SnapshotInfo, SnapshotRepositoryInfo, SnapshotRepositoryType, useElasticsearchStore } from '@/stores/elasticsearch-store'
+import { CreateSnapshotDialog } from '@/components/CreateSnapshotDialog'
+import { RestoreSnapshotDialog } from '@/components/RestoreSnapshotDialog'
+import { cn, formatBytes, formatDateTime } from '@/lib/utils'
+
+// 有快照正在创建时刷新快照列表的间隔
+const SNAPSHOT_POLL_INTERVAL = 5000
+
+/**
+ * 常用仓库类型及其默认设置
+ */
+const REPOSITORY_TYPES: Record<SnapshotRepositoryType, Record<string, string>> = {
+  fs: { location: '' },
+  url: { url: '' },
+  s3: { bucket: '' },
+  gcs: { bucket: '' },
+  azure: { container: '' },
+  source: { delegate_type: 'fs', location: '' }
+}
+
+const SNAPSHOT_STATE_STYLES: Record<string, string> = {
+  SUCCESS: 'bg-green-100 text-green-700',
+  IN_PROGRESS: 'bg-blue-100 text-blue-700',
+  PARTIAL: 'bg-yellow-100 text-yellow-700',
+  FAILED: 'bg-red-100 text-red-700',
+  INCOMPATIBLE: 'bg-gray-100 text-gray-700'
+}
+
+/**
+ * 格式化毫秒时长
+ */
+function formatDuration(millis: number): string {
+  if (millis < 1000) return `${millis} ms`
+  if (millis < 60000) return `${(millis / 1000).toFixed(1)} 秒`
+  return `${(millis / 60000).toFixed(1)} 分钟`
+}
+
+/**
+ * 仓库的位置信息，按常见类型取对应设置
+ */
+function describeRepository(repository: SnapshotRepositoryInfo): string {
+  const { settings } = repository
+  return settings.location || settings.url || [settings.bucket, settings.base_path].filter(Boolean).join('/') || settings.container || '-'
+}
+
+/**
+ * 汇总恢复任务进度，按已恢复的字节计算百分比
+ */
+function summarizeRestore(task: RestoreTask) {
+  const totalShards = task.progress.reduce((sum, item) => sum + item.totalShards, 0)
+  const doneShards = task.progress.reduce((sum, item) => sum + item.doneShards, 0)
+  const totalBytes = task.progress.reduce((sum, item) => sum + item.totalBytes, 0)
+  const recoveredBytes = task.progress.reduce((sum, item) => sum + item.recoveredBytes, 0)
+  const percent = task.completed ? 100 : totalBytes > 0 ? Math.round((recoveredBytes / totalBytes) * 100) : 0
+  return { totalShards, doneShards, totalBytes, recoveredBytes, percent }
+}
+
+/**
+ * 快照页面
+ * 管理快照仓库和快照，从快照恢复索引并跟踪恢复进度
+ */
+export function Snapshots() {
+  const {
+    restoreTasks,
+    getSnapshotRepositories,
+    createSnapshotRepository,
+    deleteSnapshotRepository,
+    verifySnapshotRepository,
+    getSnapshots,
+    deleteSnapshot,
+    dismissRestoreTask
+  } = useElasticsearchStore()
+  const { toast } = useToast()
+
+  const [repositories, setRepositories] = useState<SnapshotRepositoryInfo[]>([])
+  const [selectedRepository, setSelectedRepository] = useState('')
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isLoadingSnapshots, setIsLoadingSnapshots] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [verifyingRepository, setVerifyingRepository] = useState<string | null>(null)
+
+  const [isRepositoryDialogOpen, setIsRepositoryDialogOpen] = useState(false)
+  const [repositoryName, setRepositoryName] = useState('')
+  const [repositoryType, setRepositoryType] = useState<SnapshotRepositoryType>('fs')
+  const [repositorySettings, setRepositorySettings] = useState('')
+  const [isSavingRepository, setIsSavingRepository] = useState(false)
+
+  const [repositoryToDelete, setRepositoryToDelete] = useState<string | null>(null)
+  const [snapshotToDelete, setSnapshotToDelete] = useState<SnapshotInfo | null>(null)
+  const [snapshotToRestore, setSnapshotToRestore] = useState<SnapshotInfo | null>(null)
+  const [isCreateSnapshotOpen, setIsCreateSnapshotOpen] = useState(false)
+
+  const loadRepositories = useCallback(async () => {
+    setIsLoading(true)
+    setLoadError(null)
+    try {
+      const result = await getSnapshotRepositories()
+      setRepositories(result)
+      setSelectedRepository(prev => result.some(item => item.name === prev) ? prev : result[0]?.name ?? '')
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : '获取快照仓库失败')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [getSnapshotRepositories])
+
+  const loadSnapshots = useCallback(async () => {
+    if (!selectedRepository) {
+      setSnapshots([])
+      return
+    }
+    setIsLoadingSnapshots(true)
+    try {
+      setSnapshots(await getSnapshots(selectedRepository))
+    } catch (error) {
+      setSnapshots([])
+      setLoadError(error instanceof Error ? error.message : '获取快照失败')
+    } finally {
+      setIsLoadingSnapshots(false)
+    }
+  }, [selectedRepository, getSnapshots])
+
+  useEffect(() => {
+    loadRepositories()
+  }, [loadRepositories])
+
+  useEffect(() => {
+    loadSnapshots()
+  }, [loadSnapshots])
+
+  // 有快照正在创建时定时刷新，直到全部结束
+  const hasRunningSnapshot = snapshots.some(snapshot => snapshot.state === 'IN_PROGRESS')
+  useEffect(() => {
+    if (!hasRunningSnapshot) return
+    const timer = setInterval(loadSnapshots, SNAPSHOT_POLL_INTERVAL)
+    return () => clearInterval(timer)
+  }, [hasRunningSnapshot, loadSnapshots])
+
+  const handleRefresh = () => {
+    loadRepositories()
+    loadSnapshots()
+  }
+
+  const openRepositoryDialog = () => {
+    setRepositoryName('')
+    setRepositoryType('fs')
+    setRepositorySettings(JSON.stringify(REPOSITORY_TYPES.fs, null, 2))
+    setIsRepositoryDialogOpen(true)
+  }
+
+  const handleRepositoryTypeChange = (type: SnapshotRepositoryType) => {
+    setRepositoryType(type)
+    setRepositorySettings(JSON.stringify(REPOSITORY_TYPES[type], null, 2))
+  }
+
+  const handleCreateRepository = async () => {
+    let settings: Record<string, any>
+    try {
+      settings = JSON.parse(repositorySettings || '{}')
+    } catch (error) {
+      toast({ title: '仓库设置格式错误', description: '仓库设置必须是有效的 JSON', variant: 'destructive' })
+      return
+    }
+
+    setIsSavingRepository(true)
+    try {
+      await createSnapshotRepository(repositoryName.trim(), repositoryType, settings)
+      toast({ title: '快照仓库已注册', description: repositoryName.trim() })
+      setIsRepositoryDialogOpen(false)
+      setSelectedRepository(repositoryName.trim())
+      await loadRepositories()
+    } catch (error) {
+      toast({
+        title: '注册快照仓库失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive'
+      })
+    } finally {
+      setIsSavingRepository(false)
+    }
+  }
+
+  const handleVerifyRepository = async (name: string) => {
+    setVerifyingRepository(name)
+    try {
+      const nodes = await verifySnapshotRepository(name)
+      toast({ title: '仓库验证通过', description: `${nodes.length} 个节点可以访问仓库：${nodes.join(', ')}` })
+    } catch (error) {
+      toast({
+        title: '仓库验证失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive'
+      })
+    } finally {
+      setVerifyingRepository(null)
+    }
+  }
+
+  const handleDeleteRepository = async () => {
+    if (!repositoryToDelete) return
+    try {
+      await deleteSnapshotRepository(repositoryToDelete)
+      toast({ title: '快照仓库已移除', description: repositoryToDelete })
+      await loadRepositories()
+    } catch (error) {
+      toast({
+        title: '移除快照仓库失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive'
+      })
+    } finally {
+      setRepositoryToDelete(null)
+    }
+  }
+
+  const handleDeleteSnapshot = async () => {
+    if (!snapshotToDelete) return
+    try {
+      await deleteSnapshot(snapshotToDelete.repository, snapshotToDelete.snapshot)
+      toast({ title: '快照已删除', description: snapshotToDelete.snapshot })
+      await loadSnapshots()
+    } catch (error) {
+      toast({
+        title: '删除快照失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive'
+      })
+    } finally {
+      setSnapshotToDelete(null)
+    }
+  }
+
+  return (
+    <div className="h-full p-6 space-y-6 overflow-auto">
+      {/* 页面标题 */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">快照</h1>
+          <p className="text-muted-foreground">
+            管理快照仓库，备份索引并从快照中恢复
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleRefresh} disabled={isLoading || isLoadingSnapshots}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${isLoading || isLoadingSnapshots ? 'animate-spin' : ''}`} />
+          刷新
+        </Button>
+      </div>
+
+      {loadError && <div className="text-sm text-red-600 p-3 bg-red-50 rounded-md">{loadError}</div>}
+
+      {/* 恢复任务 */}
+      {restoreTasks.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>恢复任务</CardTitle>
+            <CardDescription>恢复在集群后台执行，离开页面不会中断</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {restoreTasks.map(task => {
+              const summary = summarizeRestore(task)
+              return (
+                <div key={task.id} className="rounded-md border p-4 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium">{task.repository} / {task.snapshot}</span>
+                      {task.completed ? (
+                        <Badge className="bg-green-100 text-green-700 hover:bg-green-100">已完成</Badge>
+                      ) : (
+                        <Badge variant="secondary">恢复中</Badge>
+                      )}
+                      <span className="text-xs text-muted-foreground">开始于 {formatDateTime(new Date(task.startedAt))}</span>
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => dismissRestoreTask(task.id)} title="移除">
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <Progress value={summary.percent} />
+                  <div className="text-sm text-muted-foreground">
+                    {summary.doneShards} / {summary.totalShards} 个分片完成，
+                    已恢复 {formatBytes(summary.recoveredBytes)} / {formatBytes(summary.totalBytes)}
+                  </div>
+                  {task.error && <p className="text-sm text-red-600">{task.error}</p>}
+                  <div className="flex flex-wrap gap-1">
+                    {task.indices.map(index => {
+                      const progress = task.progress.find(item => item.index === index)
+                      const done = progress && progress.totalShards > 0 && progress.doneShards === progress.totalShards
+                      return (
+                        <Badge key={index} variant="outline" className={cn('font-mono font-normal', done && 'text-green-700')}>
+                          {index}
+                          {progress && !done && (
+                            <span className="ml-1 text-muted-foreground">
+                              {progress.exists ? `${progress.doneShards}/${progress.totalShards}` : '等待中'}
+                            </span>
+                          )}
+                        </Badge>
+                      )
+                    })}
+                  </div>
+                </div>
+              )
+            })}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* 仓库列表 */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>快照仓库</CardTitle>
+              <CardDescription>fs 类型仓库的路径需要在所有节点的 path.repo 中配置</CardDescription>
+            </div>
+            <Button size="sm" onClick={openRepositoryDialog}>
+              <Plus className="h-4 w-4 mr-2" />
+              注册仓库
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {repositories.length === 0 ? (
+            <div className="flex items-center justify-center h-24 text-muted-foreground">
+              {isLoading ? '加载中...' : '暂无快照仓库'}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>名称</TableHead>
+                  <TableHead>类型</TableHead>
+                  <TableHead>位置</TableHead>
+                  <TableHead className="text-right">操作</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {repositories.map(repository => (
+                  <TableRow
+                    key={repository.name}
+                    className={cn('cursor-pointer', repository.name === selectedRepository && 'bg-muted/50')}
+                    onClick={() => setSelectedRepository(repository.name)}
+                  >
+                    <TableCell className="font-medium">{repository.name}</TableCell>
+                    <TableCell><Badge variant="outline">{repository.type}</Badge></TableCell>
+                    <TableCell className="font-mono text-sm">{describeRepository(repository)}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap" onClick={(e) => e.stopPropagation()}>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleVerifyRepository(repository.name)}
+                        disabled={verifyingRepository === repository.name}
+                        title="验证"
+                      >
+                        <ShieldCheck className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => setRepositoryToDelete(repository.name)} title="移除">
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* 快照列表 */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>快照{selectedRepository && ` - ${selectedRepository}`}</CardTitle>
+              <CardDescription>快照是增量的，删除快照只会释放不被其他快照引用的文件</CardDescription>
+            </div>
+            <Button size="sm" onClick={() => setIsCreateSnapshotOpen(true)} disabled={!selectedRepository}>
+              <Camera className="h-4 w-4 mr-2" />
+              创建快照
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <ScrollArea className="h-[400px]">
+            {snapshots.length === 0 ? (
+              <div className="flex items-center justify-center h-32 text-muted-foreground">
+                {isLoadingSnapshots ? '加载中...' : selectedRepository ? '仓库中暂无快照' : '请选择快照仓库'}
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>名称</TableHead>
+                    <TableHead>状态</TableHead>
+                    <TableHead>开始时间</TableHead>
+                    <TableHead>耗时</TableHead>
+                    <TableHead>索引</TableHead>
+                    <TableHead>分片</TableHead>
+                    <TableHead>大小</TableHead>
+                    <TableHead className="text-right">操作</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {snapshots.map(snapshot => (
+                    <TableRow key={snapshot.uuid}>
+                      <TableCell className="font-medium">
+                        {snapshot.snapshot}
+                        {snapshot.includeGlobalState && <Badge variant="outline" className="ml-2 font-normal">集群状态</Badge>}
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={cn('font-normal', SNAPSHOT_STATE_STYLES[snapshot.state] || SNAPSHOT_STATE_STYLES.INCOMPATIBLE)}>
+                          {snapshot.state}
+                        </Badge>
+                        {snapshot.failures.length > 0 && (
+                          <span className="ml-2 text-xs text-red-600" title={snapshot.failures.join('\n')}>
+                            {snapshot.failures.length} 个分片失败
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {snapshot.startTime ? formatDateTime(new Date(snapshot.startTime)) : '-'}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {snapshot.state === 'IN_PROGRESS' || snapshot.durationMs === undefined ? '-' : formatDuration(snapshot.durationMs)}
+                      </TableCell>
+                      <TableCell className="text-sm" title={snapshot.indices.join('\n')}>
+                        {snapshot.indices.length}
+                        {snapshot.dataStreams.length > 0 && (
+                          <span className="text-muted-foreground">（{snapshot.dataStreams.length} 个数据流）</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">{snapshot.shards.successful} / {snapshot.shards.total}</TableCell>
+                      <TableCell className="text-sm">
+                        {snapshot.sizeBytes !== undefined ? formatBytes(snapshot.sizeBytes) : '-'}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setSnapshotToRestore(snapshot)}
+                          disabled={snapshot.state !== 'SUCCESS' && snapshot.state !== 'PARTIAL'}
+                          title="恢复"
+                        >
+                          <ArchiveRestore className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => setSnapshotToDelete(snapshot)} title="删除">
+                          <Trash2 className="h-4 w-4 text-red-600" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </ScrollArea>
+        </CardContent>
+      </Card>
+
+      {/* 注册仓库对话框 */}
+      <Dialog open={isRepositoryDialogOpen} onOpenChange={(open) => !isSavingRepository && setIsRepositoryDialogOpen(open)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>注册快照仓库</DialogTitle>
+            <DialogDescription>
+              注册时集群会验证所有节点都能访问仓库；s3、gcs 和 azure 类型需要在节点上配置相应的凭据
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="repository-name">名称</Label>
+              <Input id="repository-name" value={repositoryName} onChange={(e) => setRepositoryName(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="repository-type">类型</Label>
+              <Select value={repositoryType} onValueChange={(value) => handleRepositoryTypeChange(value as SnapshotRepositoryType)}>
+                <SelectTrigger id="repository-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.keys(REPOSITORY_TYPES).map(type => (
+                    <SelectItem key={type} value={type}>{type}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="repository-settings">设置（JSON）</Label>
+              <Textarea
+                id="repository-settings"
+                className="font-mono text-sm"
+                rows={6}
+                value={repositorySettings}
+                onChange={(e) => setRepositorySettings(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsRepositoryDialogOpen(false)} disabled={isSavingRepository}>取消</Button>
+            <Button onClick={handleCreateRepository} disabled={isSavingRepository || !repositoryName.trim()}>
+              {isSavingRepository ? '注册中...' : '注册'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <CreateSnapshotDialog
+        open={isCreateSnapshotOpen}
+        initialRepository={selectedRepository}
+        onClose={() => setIsCreateSnapshotOpen(false)}
+        onCreated={loadSnapshots}
+      />
+
+      <RestoreSnapshotDialog snapshot={snapshotToRestore} onClose={() => setSnapshotToRestore(null)} />
+
+      {/* 移除仓库确认 */}
+      <AlertDialog open={repositoryToDelete !== null} onOpenChange={(open) => !open && setRepositoryToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>确认移除快照仓库</AlertDialogTitle>
+            <AlertDialogDescription>
+              将从集群中移除仓库 "{repositoryToDelete}" 的注册，仓库中已有的快照文件不会被删除，重新注册后可以继续使用。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>取消</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteRepository}>移除</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* 删除快照确认 */}
+      <AlertDialog open={snapshotToDelete !== null} onOpenChange={(open) => !open && setSnapshotToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>确认删除快照</AlertDialogTitle>
+            <AlertDialogDescription>
+              {snapshotToDelete?.state === 'IN_PROGRESS'
+                ? `快照 "${snapshotToDelete?.snapshot}" 正在创建，删除会中止快照。`
+                : `您确定要删除快照 "${snapshotToDelete?.snapshot}" 吗？删除后将无法从该快照恢复数据，此操作不可撤销。`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>取消</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteSnapshot} className="bg-red-600 hover:bg-red-700">
+              删除
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,76 @@
+import * as React from "react"
+import { useElasticsearchStore } from "@/stores/elasticsearch-store"
+import { useSettingsStore } from "@/stores/settings-store"
+
+/**
+ * 连续失败时的最长重试间隔（毫秒）
+ */
+const MAX_BACKOFF_DELAY = 10 * 60 * 1000
+
+/**
+ * 计算下一次刷新的延迟
+ * 连续失败时按 2 的指数退避，最长不超过 MAX_BACKOFF_DELAY
+ */
+function getNextDelay(intervalSeconds: number, failures: number): number {
+  const base = intervalSeconds * 1000
+  if (failures === 0) return base
+  return Math.min(MAX_BACKOFF_DELAY, base * Math.pow(2, failures))
+}
+
+/**
+ * 自动刷新调度器
+ * 按设置中的间隔刷新集群信息、索引和节点信息；窗口隐藏时暂停，重新可见时立即刷新
+ */
+export function useRefreshScheduler() {
+  const autoRefresh = useSettingsStore(state => state.autoRefresh)
+  const refreshInterval = useSettingsStore(state => state.refreshInterval)
+  const connectionId = useElasticsearchStore(state => state.currentConnection?.id)
+  const isConnected = useElasticsearchStore(state => state.currentConnection?.status === 'connected')
+
+  React.useEffect(() => {
+    if (!autoRefresh || !isConnected) return
+
+    let timer: ReturnType<typeof setTimeout> | null = null
+    let failures = 0
+    let isRefreshing = false
+    let disposed = false
+
+    const schedule = () => {
+      if (timer) clearTimeout(timer)
+      timer = document.hidden ? null : setTimeout(refresh, getNextDelay(refreshInterval, failures))
+    }
+
+    const refresh = async () => {
+      if (isRefreshing || document.hidden) return
+      isRefreshing = true
+      try {
+        await useElasticsearchStore.getState().refreshClusterData()
+        failures = 0
+      } catch (error) {
+        failures += 1
+        console.warn(`自动刷新失败（连续 ${failures} 次），将延迟重试:`, error)
+      } finally {
+        isRefreshing = false
+        if (!disposed) schedule()
+      }
+    }
+
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        if (timer) clearTimeout(timer)
+        timer = null
+      } else {
+        refresh()
+      }
+    }
+
+    schedule()
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+
+    return () => {
+      disposed = true
+      if (timer) clearTimeout(timer)
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+    }
+  }, [autoRefresh, refreshInterval, isConnected, connectionId])
+}
@@ -0,0 +1,25 @@
+import * as React from "react"
+import { useToast } from "@/hooks/use-toast"
+import { IlmExplainInfo, useElasticsearchStore } from "@/stores/elasticsearch-store"
+
+/**
+ * 重试索引失败的 ILM 步骤并提示结果
+ * 索引管理页面和生命周期页面共用
+ */
+export function useRetryIlmStep() {
+  const retryIlmStep = useElasticsearchStore(state => state.retryIlmStep)
+  const { toast } = useToast()
+
+  return React.useCallback(async (entry: IlmExplainInfo) => {
+    try {
+      await retryIlmStep(entry.index)
+      toast({ title: "已重试失败步骤", description: `${entry.index}: ${entry.failedStep}` })
+    } catch (error) {
+      toast({
+        title: "重试失败步骤失败",
+        description: error instanceof Error ? error.message : "未知错误",
+        variant: "destructive"
+      })
+    }
+  }, [retryIlmStep, toast])
+}
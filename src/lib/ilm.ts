@@ -0,0 +1,237 @@
+/**
+ * 表单支持编辑的生命周期阶段
+ */
+export type IlmPhaseName = 'hot' | 'warm' | 'cold' | 'delete'
+
+export const ILM_PHASES: IlmPhaseName[] = ['hot', 'warm', 'cold', 'delete']
+
+/**
+ * 单个阶段的表单
+ * 数值字段使用字符串保存输入内容，空字符串表示不设置；extraActions 保存表单不支持的动作，保存时原样写回
+ */
+export interface IlmPhaseForm {
+  enabled: boolean
+  minAge: string
+  rolloverMaxAge: string
+  rolloverMaxDocs: string
+  rolloverMaxPrimaryShardSize: string
+  priority: string
+  forceMergeSegments: string
+  shrinkShards: string
+  replicas: string
+  readonly: boolean
+  extraActions: Record<string, any>
+}
+
+/**
+ * 策略表单，extraPhases 保存 frozen 等表单不支持的阶段
+ */
+export interface IlmPolicyForm {
+  phases: Record<IlmPhaseName, IlmPhaseForm>
+  extraPhases: Record<string, any>
+  meta?: Record<string, any>
+}
+
+// 表单中直接编辑的动作
+const FORM_ACTIONS = ['rollover', 'set_priority', 'forcemerge', 'shrink', 'allocate', 'readonly', 'delete']
+
+function emptyPhase(enabled = false): IlmPhaseForm {
+  return {
+    enabled,
+    minAge: '',
+    rolloverMaxAge: '',
+    rolloverMaxDocs: '',
+    rolloverMaxPrimaryShardSize: '',
+    priority: '',
+    forceMergeSegments: '',
+    shrinkShards: '',
+    replicas: '',
+    readonly: false,
+    extraActions: {}
+  }
+}
+
+/**
+ * 新建策略的默认表单：hot 阶段按 30 天或 50gb 滚动
+ */
+export function createIlmPolicyForm(): IlmPolicyForm {
+  return {
+    phases: {
+      hot: { ...emptyPhase(true), rolloverMaxAge: '30d', rolloverMaxPrimaryShardSize: '50gb', priority: '100' },
+      warm: { ...emptyPhase(), minAge: '7d', priority: '50' },
+      cold: { ...emptyPhase(), minAge: '30d', priority: '0' },
+      delete: { ...emptyPhase(), minAge: '90d' }
+    },
+    extraPhases: {}
+  }
+}
+
+const toText = (value: unknown) => value === undefined || value === null ? '' : String(value)
+
+/**
+ * 去掉指定参数，没有剩余参数时返回 undefined
+ */
+function omit(value: Record<string, any> | undefined, keys: string[]): Record<string, any> | undefined {
+  if (!value) return undefined
+  const rest = Object.fromEntries(Object.entries(value).filter(([key]) => !keys.includes(key)))
+  return Object.keys(rest).length > 0 ? rest : undefined
+}
+
+/**
+ * 将策略定义转换为表单
+ */
+export function policyToForm(phases: Record<string, any>, meta?: Record<string, any>): IlmPolicyForm {
+  const form: IlmPolicyForm = {
+    phases: { hot: emptyPhase(), warm: emptyPhase(), cold: emptyPhase(), delete: emptyPhase() },
+    extraPhases: {},
+    meta
+  }
+
+  Object.entries(phases).forEach(([name, phase]) => {
+    if (!ILM_PHASES.includes(name as IlmPhaseName)) {
+      form.extraPhases[name] = phase
+      return
+    }
+
+    const actions = phase.actions || {}
+    const extraActions: Record<string, any> = Object.fromEntries(Object.entries(actions).filter(([action]) => !FORM_ACTIONS.includes(action)))
+    // rollover、allocate 和 delete 中表单不支持的参数（如 max_size、include/exclude）同样保留
+    const rolloverRest = omit(actions.rollover, ['max_age', 'max_docs', 'max_primary_shard_size'])
+    const allocateRest = omit(actions.allocate, ['number_of_replicas'])
+    const deleteRest = omit(actions.delete, [])
+    if (rolloverRest) extraActions.rollover = rolloverRest
+    if (allocateRest) extraActions.allocate = allocateRest
+    if (deleteRest) extraActions.delete = deleteRest
+
+    form.phases[name as IlmPhaseName] = {
+      enabled: true,
+      minAge: toText(phase.min_age),
+      rolloverMaxAge: toText(actions.rollover?.max_age),
+      rolloverMaxDocs: toText(actions.rollover?.max_docs),
+      rolloverMaxPrimaryShardSize: toText(actions.rollover?.max_primary_shard_size),
+      priority: toText(actions.set_priority?.priority),
+      forceMergeSegments: toText(actions.forcemerge?.max_num_segments),
+      shrinkShards: toText(actions.shrink?.number_of_shards),
+      replicas: toText(actions.allocate?.number_of_replicas),
+      readonly: Boolean(actions.readonly),
+      extraActions
+    }
+  })
+
+  return form
+}
+
+/**
+ * 将表单转换为 putLifecycle 的 policy
+ */
+export function formToPolicy(form: IlmPolicyForm): { phases: Record<string, any>; _meta?: Record<string, any> } {
+  const phases: Record<string, any> = { ...form.extraPhases }
+
+  ILM_PHASES.forEach(name => {
+    const phase = form.phases[name]
+    if (!phase.enabled) return
+
+    const actions: Record<string, any> = { ...phase.extraActions }
+    if (name === 'hot') {
+      const rollover: Record<string, any> = { ...(actions.rollover || {}) }
+      if (phase.rolloverMaxAge) rollover.max_age = phase.rolloverMaxAge
+      if (phase.rolloverMaxDocs) rollover.max_docs = Number(phase.rolloverMaxDocs)
+      if (phase.rolloverMaxPrimaryShardSize) rollover.max_primary_shard_size = phase.rolloverMaxPrimaryShardSize
+      if (Object.keys(rollover).length > 0) actions.rollover = rollover
+    }
+    if (name !== 'delete') {
+      if (phase.priority) actions.set_priority = { priority: Number(phase.priority) }
+      if (phase.forceMergeSegments && name !== 'cold') actions.forcemerge = { max_num_segments: Number(phase.forceMergeSegments) }
+      if (phase.shrinkShards && name !== 'cold') actions.shrink = { number_of_shards: Number(phase.shrinkShards) }
+      if (phase.replicas && name !== 'hot') {
+        actions.allocate = { ...(actions.allocate || {}), number_of_replicas: Number(phase.replicas) }
+      }
+      if (phase.readonly) actions.readonly = {}
+    } else {
+      actions.delete = { ...(actions.delete || {}) }
+    }
+
+    phases[name] = {
+      ...(name !== 'hot' && phase.minAge ? { min_age: phase.minAge } : {}),
+      actions
+    }
+  })
+
+  return form.meta ? { phases, _meta: form.meta } : { phases }
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  nanos: 1e-6,
+  micros: 1e-3,
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000
+}
+
+/**
+ * 解析时间值，格式错误返回 null
+ */
+export function parseIlmDuration(value: string): number | null {
+  const match = value.trim().match(/^(\d+)(nanos|micros|ms|s|m|h|d)$/)
+  return match ? Number(match[1]) * DURATION_UNITS[match[2]] : null
+}
+
+/**
+ * 校验策略表单
+ * 只检查会被集群拒绝的常见问题：时间格式、阶段顺序、hot 阶段缺少滚动时使用 forcemerge/shrink
+ */
+export function validateIlmForm(form: IlmPolicyForm): string[] {
+  const errors: string[] = []
+  const enabled = ILM_PHASES.filter(name => form.phases[name].enabled)
+
+  if (enabled.length === 0 && Object.keys(form.extraPhases).length === 0) {
+    errors.push('至少需要启用一个阶段')
+  }
+
+  let previous: { name: IlmPhaseName; age: number } | null = null
+  enabled.forEach(name => {
+    const phase = form.phases[name]
+    if (name !== 'hot' && phase.minAge) {
+      const age = parseIlmDuration(phase.minAge)
+      if (age === null) {
+        errors.push(`${name} 阶段的 min_age 格式无效，应为数字加单位，如 7d、12h`)
+      } else {
+        if (previous && age < previous.age) {
+          errors.push(`${name} 阶段的 min_age 不能小于 ${previous.name} 阶段`)
+        }
+        previous = { name, age }
+      }
+    }
+
+    const integers: [string, string][] = [
+      [phase.priority, '优先级'],
+      [phase.forceMergeSegments, '段数'],
+      [phase.shrinkShards, '分片数'],
+      [phase.replicas, '副本数'],
+      [phase.rolloverMaxDocs, '最大文档数']
+    ]
+    integers.forEach(([value, label]) => {
+      if (value && !/^\d+$/.test(value)) {
+        errors.push(`${name} 阶段的${label}必须是非负整数`)
+      }
+    })
+  })
+
+  const hot = form.phases.hot
+  if (hot.enabled) {
+    if (hot.rolloverMaxAge && parseIlmDuration(hot.rolloverMaxAge) === null) {
+      errors.push('滚动条件 max_age 格式无效，应为数字加单位，如 30d')
+    }
+    if (hot.rolloverMaxPrimaryShardSize && !/^\d+(\.\d+)?(b|kb|mb|gb|tb|pb)$/i.test(hot.rolloverMaxPrimaryShardSize)) {
+      errors.push('滚动条件 max_primary_shard_size 格式无效，如 50gb')
+    }
+    const hasRollover = Boolean(hot.rolloverMaxAge || hot.rolloverMaxDocs || hot.rolloverMaxPrimaryShardSize || hot.extraActions.rollover)
+    if (!hasRollover && (hot.forceMergeSegments || hot.shrinkShards || hot.readonly)) {
+      errors.push('hot 阶段使用强制合并、收缩或只读时必须同时配置滚动')
+    }
+  }
+
+  return errors
+}
@@ -0,0 +1,65 @@
+import type { ImportColumn, ImportFieldType } from '@/stores/elasticsearch-store'
+
+/**
+ * 导入时可选择的字段类型
+ */
+export const IMPORT_FIELD_TYPES: { value: ImportFieldType; label: string }[] = [
+  { value: 'keyword', label: 'keyword' },
+  { value: 'text', label: 'text' },
+  { value: 'long', label: 'long' },
+  { value: 'double', label: 'double' },
+  { value: 'boolean', label: 'boolean' },
+  { value: 'date', label: 'date' },
+  { value: 'object', label: 'object (JSON)' }
+]
+
+// 文档中不能包含的元数据字段
+const METADATA_FIELDS = ['_id', '_index', '_source', '_routing', '_version', '_seq_no', '_primary_term', '_ignored', '_field_names']
+
+/**
+ * 字段类型对应的映射定义
+ * text 与动态映射一致带有 keyword 子字段；object 不写入映射，由动态映射处理
+ */
+function toFieldMapping(type: ImportFieldType): Record<string, any> | null {
+  switch (type) {
+    case 'text':
+      return { type: 'text', fields: { keyword: { type: 'keyword', ignore_above: 256 } } }
+    case 'object':
+      return null
+    default:
+      return { type }
+  }
+}
+
+/**
+ * 按导入字段生成目标索引的映射
+ * 跳过的列不写入映射；字段名中的点会被 Elasticsearch 展开为对象
+ */
+export function buildImportMapping(columns: ImportColumn[]): { properties: Record<string, any> } {
+  const properties: Record<string, any> = {}
+  columns.forEach(column => {
+    const mapping = column.field ? toFieldMapping(column.type) : null
+    if (mapping) properties[column.field] = mapping
+  })
+  return { properties }
+}
+
+/**
+ * 校验 CSV 字段映射，返回错误信息
+ */
+export function validateImportColumns(columns: ImportColumn[]): string[] {
+  const errors: string[] = []
+  const fields = columns.map(column => column.field.trim()).filter(Boolean)
+  if (fields.length === 0) {
+    errors.push('至少需要导入一列')
+  }
+  const duplicates = fields.filter((field, i) => fields.indexOf(field) !== i)
+  if (duplicates.length > 0) {
+    errors.push(`字段名重复：${[...new Set(duplicates)].join(', ')}`)
+  }
+  const reserved = fields.filter(field => METADATA_FIELDS.includes(field))
+  if (reserved.length > 0) {
+    errors.push(`${reserved.join(', ')} 是元数据字段，不能写入文档，请重命名或跳过该列`)
+  }
+  return errors
+}
@@ -0,0 +1,207 @@
+/**
+ * 映射字段
+ * children 为 object/nested 字段的子属性，multiFields 为 fields 中定义的多字段
+ */
+export interface MappingField {
+  name: string
+  path: string
+  type: string
+  analyzer?: string
+  searchAnalyzer?: string
+  normalizer?: string
+  format?: string
+  index?: boolean
+  docValues?: boolean
+  isMultiField: boolean
+  children: MappingField[]
+  multiFields: MappingField[]
+  definition: Record<string, any>
+}
+
+/**
+ * 可以包含子属性的字段类型
+ */
+export const OBJECT_FIELD_TYPES = ['object', 'nested', 'flattened']
+
+/**
+ * 支持排序和聚合的字段类型
+ */
+const SORTABLE_FIELD_TYPES = [
+  'date', 'date_nanos', 'long', 'integer', 'short', 'byte', 'double', 'float', 'half_float', 'scaled_float',
+  'unsigned_long', 'keyword', 'constant_keyword', 'boolean', 'ip', 'version'
+]
+
+/**
+ * 解析映射中的 properties，返回字段树
+ * 含有 properties 但没有 type 的字段按 object 处理
+ */
+export function parseMappingProperties(properties: Record<string, any> | undefined, parentPath = ''): MappingField[] {
+  return Object.entries(properties || {})
+    .map(([name, definition]) => parseField(name, definition || {}, parentPath ? `${parentPath}.${name}` : name, false))
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
+
+function parseField(name: string, definition: Record<string, any>, path: string, isMultiField: boolean): MappingField {
+  return {
+    name,
+    path,
+    type: definition.type || 'object',
+    analyzer: definition.analyzer,
+    searchAnalyzer: definition.search_analyzer,
+    normalizer: definition.normalizer,
+    format: definition.format,
+    index: definition.index,
+    docValues: definition.doc_values,
+    isMultiField,
+    children: parseMappingProperties(definition.properties, path),
+    multiFields: Object.entries(definition.fields || {})
+      .map(([subName, subDefinition]) => parseField(subName, (subDefinition as Record<string, any>) || {}, `${path}.${subName}`, true))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    definition
+  }
+}
+
+/**
+ * 将字段树展开为列表，包含子属性和多字段
+ */
+export function flattenMappingFields(fields: MappingField[]): MappingField[] {
+  return fields.flatMap(field => [field, ...flattenMappingFields(field.multiFields), ...flattenMappingFields(field.children)])
+}
+
+/**
+ * 按路径查找字段
+ */
+export function findMappingField(fields: MappingField[], path: string): MappingField | undefined {
+  return flattenMappingFields(fields).find(field => field.path === path)
+}
+
+/**
+ * 获取可排序的字段路径
+ * nested 字段内的属性需要在 nested 上下文中排序，这里不包含
+ */
+export function getSortableFields(properties: Record<string, any> | undefined): Set<string> {
+  const sortable = new Set<string>()
+  const walk = (fields: MappingField[]) => {
+    fields.forEach(field => {
+      if (field.type === 'nested') return
+      if (SORTABLE_FIELD_TYPES.includes(field.type) && field.docValues !== false) {
+        sortable.add(field.path)
+      }
+      walk(field.multiFields)
+      walk(field.children)
+    })
+  }
+  walk(parseMappingProperties(properties))
+  return sortable
+}
+
+/**
+ * 获取 _source 中的叶子字段路径，不包含多字段
+ * 用于按列导出文档，object/nested 字段展开为子属性
+ */
+export function getLeafFieldPaths(properties: Record<string, any> | undefined): string[] {
+  const paths: string[] = []
+  const walk = (fields: MappingField[]) => {
+    fields.forEach(field => {
+      if (field.children.length > 0) {
+        walk(field.children)
+      } else {
+        paths.push(field.path)
+      }
+    })
+  }
+  walk(parseMappingProperties(properties))
+  return paths
+}
+
+/**
+ * 新增字段的校验结果
+ * errors 中的问题会导致集群拒绝请求，warnings 只做提示
+ */
+export interface NewFieldValidation {
+  errors: string[]
+  warnings: string[]
+  // 父字段是普通字段时，新字段作为其多字段添加
+  asMultiFieldOf?: MappingField
+}
+
+/**
+ * 校验新增字段
+ * 已有字段的类型不能修改，多字段下不能再定义多字段，nested 和 object 之间也不能互相转换
+ */
+export function validateNewField(fields: MappingField[], path: string, definition: Record<string, any>): NewFieldValidation {
+  const result: NewFieldValidation = { errors: [], warnings: [] }
+  const segments = path.split('.')
+
+  if (!path || segments.some(segment => !segment.trim())) {
+    result.errors.push('字段路径不能为空，也不能以 . 开头或结尾')
+    return result
+  }
+
+  const existing = findMappingField(fields, path)
+  if (existing) {
+    if (existing.type !== (definition.type || 'object')) {
+      result.errors.push(`字段 ${path} 已存在，类型为 ${existing.type}，已有字段的类型不能修改，需要重建索引`)
+    } else {
+      result.warnings.push(`字段 ${path} 已存在，提交后只会更新可修改的参数（如 ignore_above、fields），其他参数变化会被拒绝`)
+    }
+    return result
+  }
+
+  // 找到最近的已存在的祖先字段
+  for (let i = segments.length - 1; i > 0; i--) {
+    const ancestor = findMappingField(fields, segments.slice(0, i).join('.'))
+    if (!ancestor) continue
+
+    if (ancestor.isMultiField) {
+      result.errors.push(`${ancestor.path} 是多字段，不能再包含子字段`)
+    } else if (ancestor.type === 'flattened') {
+      result.errors.push(`${ancestor.path} 是 flattened 字段，其中的键不需要单独定义映射`)
+    } else if (!OBJECT_FIELD_TYPES.includes(ancestor.type)) {
+      if (i === segments.length - 1) {
+        result.asMultiFieldOf = ancestor
+        result.warnings.push(`${ancestor.path} 的类型为 ${ancestor.type}，新字段将作为它的多字段添加`)
+        if (definition.properties || OBJECT_FIELD_TYPES.includes(definition.type)) {
+          result.errors.push('多字段不能是 object 或 nested 类型')
+        }
+      } else {
+        result.errors.push(`${ancestor.path} 的类型为 ${ancestor.type}，不能包含子对象`)
+      }
+    }
+    break
+  }
+
+  return result
+}
+
+/**
+ * 构造 putMapping 请求体
+ * 嵌套路径展开为多层 properties；祖先中的 nested 字段需要保留类型，否则会被当作 object 导致冲突
+ */
+export function buildPutMappingBody(fields: MappingField[], path: string, definition: Record<string, any>): { properties: Record<string, any> } {
+  const validation = validateNewField(fields, path, definition)
+  const parent = validation.asMultiFieldOf
+  const segments = path.split('.')
+
+  // 作为多字段添加时需要带上父字段的完整定义，省略的参数会被视为修改
+  let leafName = segments[segments.length - 1]
+  let leaf: Record<string, any> = definition
+  let depth = segments.length - 1
+  if (parent) {
+    leafName = parent.name
+    leaf = { ...parent.definition, fields: { ...(parent.definition.fields || {}), [segments[segments.length - 1]]: definition } }
+    depth = segments.length - 2
+  }
+
+  let body: Record<string, any> = { [leafName]: leaf }
+  for (let i = depth; i > 0; i--) {
+    const ancestor = findMappingField(fields, segments.slice(0, i).join('.'))
+    body = {
+      [segments[i - 1]]: {
+        ...(ancestor?.type === 'nested' ? { type: 'nested' } : {}),
+        properties: body
+      }
+    }
+  }
+  return { properties: body }
+}
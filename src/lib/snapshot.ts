@@ -0,0 +1,86 @@
+import type { SnapshotInfo } from '@/stores/elasticsearch-store'
+
+/**
+ * 快照中可以选择恢复的条目
+ * 数据流作为一个条目恢复，backingIndices 为快照中属于它的后备索引
+ */
+export interface RestorableEntry {
+  name: string
+  kind: 'index' | 'data-stream'
+  backingIndices: string[]
+}
+
+/**
+ * 恢复目标，source 为快照中的索引，target 为恢复后的索引名
+ */
+export interface RestoreTarget {
+  source: string
+  target: string
+}
+
+// 后备索引名的后缀：.ds-<数据流>-<yyyy.MM.dd>-<生成号>，7.11 之前没有日期部分
+const BACKING_INDEX_SUFFIX = /^(\d{4}\.\d{2}\.\d{2}-)?\d{6}$/
+
+/**
+ * 判断索引是否为数据流的后备索引
+ */
+export function isBackingIndexOf(index: string, dataStream: string): boolean {
+  const prefix = `.ds-${dataStream}-`
+  return index.startsWith(prefix) && BACKING_INDEX_SUFFIX.test(index.slice(prefix.length))
+}
+
+/**
+ * 列出快照中可恢复的数据流和普通索引，后备索引归入所属的数据流
+ */
+export function getRestorableEntries(snapshot: SnapshotInfo): RestorableEntry[] {
+  const streams: RestorableEntry[] = snapshot.dataStreams.map(name => ({
+    name,
+    kind: 'data-stream',
+    backingIndices: snapshot.indices.filter(index => isBackingIndexOf(index, name))
+  }))
+  const backing = new Set(streams.flatMap(stream => stream.backingIndices))
+  const indices: RestorableEntry[] = snapshot.indices
+    .filter(index => !backing.has(index))
+    .map(name => ({ name, kind: 'index', backingIndices: [] }))
+
+  return [...streams, ...indices].sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/**
+ * 校验重命名正则，有效时返回 null
+ */
+export function validateRenamePattern(pattern: string): string | null {
+  if (!pattern) return null
+  try {
+    new RegExp(pattern)
+    return null
+  } catch (error) {
+    return '重命名规则不是有效的正则表达式: ' + (error instanceof Error ? error.message : '未知错误')
+  }
+}
+
+/**
+ * 按重命名规则计算恢复后的名称
+ * 与 Elasticsearch 一致替换所有匹配，replacement 中可以使用 $1 引用分组；pattern 为空时保持原名
+ */
+export function renameRestoredIndex(name: string, pattern: string, replacement: string): string {
+  return pattern ? name.replace(new RegExp(pattern, 'g'), replacement) : name
+}
+
+/**
+ * 计算所选条目恢复后的所有索引
+ * 数据流展开为它的后备索引，重命名规则同样作用于后备索引名
+ */
+export function resolveRestoreTargets(entries: RestorableEntry[], pattern: string, replacement: string): RestoreTarget[] {
+  return entries
+    .flatMap(entry => entry.kind === 'data-stream' ? entry.backingIndices : [entry.name])
+    .map(source => ({ source, target: renameRestoredIndex(source, pattern, replacement) }))
+}
+
+/**
+ * 生成默认快照名，格式为 snapshot-yyyy.mm.dd-hhmmss
+ */
+export function createSnapshotName(date = new Date()): string {
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `snapshot-${date.getFullYear()}.${pad(date.getMonth() + 1)}.${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`
+}
@@ -24,6 +24,17 @@ export function formatBytes(bytes: number, decimals = 2): string {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + ' ' + sizes[i]
 }
 
+/**
+ * 解析 Elasticsearch 的字节大小字符串，如 500mb、1.5gb，无法解析时返回 null
+ */
+export function parseByteSize(value: string): number | null {
+  const match = value.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb|tb|pb)?$/)
+  if (!match) return null
+
+  const units = ['b', 'kb', 'mb', 'gb', 'tb', 'pb']
+  return parseFloat(match[1]) * Math.pow(1024, units.indexOf(match[2] || 'b'))
+}
+
 /**
  * 格式化数字，添加千分位分隔符
  */
@@ -287,4 +298,81 @@ export function buildURLParams(params: Record<string, string | number | boolean>
   })
   
   return searchParams.toString()
-}
\ No newline at end of file
+}
+
+/**
+ * 解析主机地址、端口和协议
+ * 支持 localhost、localhost:9200、https://es.example.com:9243 等格式，未指定端口时使用协议默认端口
+ */
+export function parseHostAndPort(hostInput: string): { host: string; port: number; protocol: 'http' | 'https' } {
+  let protocol: 'http' | 'https' = 'http'
+  let cleanInput = hostInput.trim().replace(/\/+$/, '')
+
+  if (cleanInput.startsWith('https://')) {
+    protocol = 'https'
+    cleanInput = cleanInput.replace(/^https:\/\//, '')
+  } else if (cleanInput.startsWith('http://')) {
+    cleanInput = cleanInput.replace(/^http:\/\//, '')
+  }
+
+  const portMatch = cleanInput.match(/^(.+):(\d+)$/)
+  if (portMatch) {
+    return {
+      host: portMatch[1],
+      port: parseInt(portMatch[2], 10),
+      protocol
+    }
+  }
+
+  return {
+    host: cleanInput,
+    port: protocol === 'https' ? 9243 : 9200,
+    protocol
+  }
+}
+
+/**
+ * 解析节点地址列表
+ * 多个地址以逗号、空格或换行分隔，返回规范化后的节点 URL
+ */
+export function parseNodeList(input: string): string[] {
+  return input
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map(address => formatHostAndPort(parseHostAndPort(address)))
+}
+
+/**
+ * 格式化连接地址，与 parseHostAndPort 互逆
+ */
+export function formatHostAndPort(connection: { host: string; port: number; protocol: 'http' | 'https' }): string {
+  return `${connection.protocol}://${connection.host}:${connection.port}`
+}
+
+/**
+ * 解析 Elastic Cloud ID
+ * Cloud ID 格式为 名称:Base64(域名$ES实例ID$Kibana实例ID)，返回 Elasticsearch 的访问地址
+ */
+export function parseCloudId(cloudId: string): { host: string; port: number; protocol: 'https' } {
+  const trimmed = cloudId.trim()
+  const encoded = trimmed.slice(trimmed.lastIndexOf(':') + 1)
+
+  let decoded: string
+  try {
+    decoded = atob(encoded)
+  } catch (error) {
+    throw new Error('Cloud ID 格式错误')
+  }
+
+  const [domain, esId] = decoded.split('$')
+  if (!domain || !esId) {
+    throw new Error('Cloud ID 格式错误')
+  }
+
+  const [hostname, port] = domain.split(':')
+  return {
+    host: `${esId}.${hostname}`,
+    port: port ? parseInt(port, 10) : 443,
+    protocol: 'https'
+  }
+}
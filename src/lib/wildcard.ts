@@ -0,0 +1,15 @@
+/**
+ * 将逗号分隔的通配符模式（如 logs-*,metrics-*）转换为匹配函数，模式为空时匹配全部
+ */
+export function createWildcardMatcher(patterns: string): (value: string) => boolean {
+  const regexes = patterns
+    .split(',')
+    .map(pattern => pattern.trim())
+    .filter(Boolean)
+    .map(pattern => new RegExp('^' + pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*') + '$'))
+
+  if (regexes.length === 0) {
+    return () => true
+  }
+  return (value) => regexes.some(regex => regex.test(value))
+}
@@ -0,0 +1,168 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+
+/**
+ * 获取告警 API
+ */
+const getAlertAPI = () => {
+  if (typeof window !== 'undefined' && window.electronAPI && window.electronAPI.alerts) {
+    return window.electronAPI.alerts
+  }
+  throw new Error('Alert API not available. Please ensure you are running in Electron environment.')
+}
+
+/**
+ * 告警规则类型
+ */
+export type AlertRuleType = 'cluster-health' | 'node-left' | 'disk-free' | 'doc-count-stalled'
+
+/**
+ * 告警规则
+ * 不同类型使用不同的条件字段，未使用的字段保持为空
+ */
+export interface AlertRule {
+  id: string
+  name: string
+  type: AlertRuleType
+  enabled: boolean
+  // 触发时发送系统通知
+  notify: boolean
+  // cluster-health: 达到该状态时触发，yellow 同时包含 red
+  healthStatus?: 'yellow' | 'red'
+  // disk-free: 磁盘剩余百分比阈值
+  diskFreePercent?: number
+  // doc-count-stalled: 索引名称，支持通配符
+  index?: string
+  // doc-count-stalled: 文档数停止增长的分钟数
+  stalledMinutes?: number
+}
+
+/**
+ * 告警记录
+ */
+export interface AlertEvent {
+  id: string
+  ruleId: string
+  ruleName: string
+  connectionId: string
+  connectionName: string
+  state: 'firing' | 'resolved'
+  severity: 'critical' | 'warning'
+  message: string
+  timestamp: number
+}
+
+/**
+ * 告警状态接口
+ */
+interface AlertState {
+  rules: AlertRule[]
+  log: AlertEvent[]
+  // 打开告警页面前收到的新告警数
+  unreadCount: number
+  // 规则检查间隔（秒）
+  checkInterval: number
+}
+
+/**
+ * 告警操作接口
+ */
+interface AlertActions {
+  fetchRules: () => Promise<void>
+  saveRule: (rule: Omit<AlertRule, 'id'> & { id?: string }) => Promise<AlertRule>
+  deleteRule: (ruleId: string) => Promise<void>
+  fetchLog: () => Promise<void>
+  clearLog: () => Promise<void>
+  receiveEvent: (event: AlertEvent) => void
+  markAllRead: () => void
+  setCheckInterval: (seconds: number) => void
+}
+
+/**
+ * 告警 Store 类型
+ */
+export type AlertStore = AlertState & AlertActions
+
+/**
+ * 检查间隔可选范围（秒）
+ */
+export const MIN_CHECK_INTERVAL = 10
+export const MAX_CHECK_INTERVAL = 3600
+
+// 告警记录保留条数，与主进程一致
+const MAX_LOG_ENTRIES = 500
+
+/**
+ * 告警状态管理 Store
+ * 规则和告警记录由主进程保存并评估，这里只持久化检查间隔
+ */
+export const useAlertStore = create<AlertStore>()(
+  persist(
+    (set) => ({
+      rules: [],
+      log: [],
+      unreadCount: 0,
+      checkInterval: 30,
+
+      fetchRules: async () => {
+        try {
+          const rules = await getAlertAPI().getRules()
+          set({ rules })
+        } catch (error) {
+          console.error('获取告警规则失败:', error)
+        }
+      },
+
+      saveRule: async (rule) => {
+        const saved = await getAlertAPI().saveRule(rule)
+        set((state) => ({
+          rules: state.rules.some(r => r.id === saved.id)
+            ? state.rules.map(r => r.id === saved.id ? saved : r)
+            : [...state.rules, saved]
+        }))
+        return saved
+      },
+
+      deleteRule: async (ruleId) => {
+        await getAlertAPI().deleteRule(ruleId)
+        set((state) => ({ rules: state.rules.filter(r => r.id !== ruleId) }))
+      },
+
+      fetchLog: async () => {
+        try {
+          const log = await getAlertAPI().getLog()
+          set({ log })
+        } catch (error) {
+          console.error('获取告警记录失败:', error)
+        }
+      },
+
+      clearLog: async () => {
+        await getAlertAPI().clearLog()
+        set({ log: [], unreadCount: 0 })
+      },
+
+      receiveEvent: (event) => {
+        set((state) => ({
+          log: [event, ...state.log.filter(e => e.id !== event.id)].slice(0, MAX_LOG_ENTRIES),
+          unreadCount: event.state === 'firing' ? state.unreadCount + 1 : state.unreadCount
+        }))
+      },
+
+      markAllRead: () => {
+        set({ unreadCount: 0 })
+      },
+
+      setCheckInterval: (seconds) => {
+        const checkInterval = Math.min(MAX_CHECK_INTERVAL, Math.max(MIN_CHECK_INTERVAL, seconds))
+        set({ checkInterval })
+      },
+    }),
+    {
+      name: 'magic-cube-alert-store',
+      partialize: (state) => ({
+        checkInterval: state.checkInterval,
+      }),
+    }
+  )
+)
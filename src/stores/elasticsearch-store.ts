@@ -1,5 +1,6 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
+import { parseHostAndPort } from '@/lib/utils'
 
 /**
  * 获取 Elasticsearch API
@@ -12,6 +13,110 @@ const getElasticsearchAPI = () => {
   throw new Error('Elasticsearch API not available. Please ensure you are running in Electron environment.')
 }
 
+/**
+ * 释放主进程中缓存的客户端
+ * 仅做资源回收，失败时不影响渲染进程状态
+ */
+const releaseClient = (connectionId: string) => {
+  try {
+    getElasticsearchAPI().disconnect(connectionId).catch((error) => {
+      console.warn('释放 Elasticsearch 客户端失败:', error)
+    })
+  } catch (error) {
+    console.warn('释放 Elasticsearch 客户端失败:', error)
+  }
+}
+
+/**
+ * 不影响客户端构建的连接字段，修改这些字段时无需重建客户端
+ */
+const DISPLAY_ONLY_CONNECTION_FIELDS: Array<keyof ElasticsearchConnection> = ['name', 'isDefault']
+
+/**
+ * 旧版本集群选择器使用的 localStorage 键，启动时迁移到连接仓库后删除
+ */
+const LEGACY_CLUSTERS_KEY = 'elasticsearch-clusters'
+const LEGACY_CURRENT_CLUSTER_KEY = 'current-cluster-id'
+
+/**
+ * 恢复进度轮询间隔，所有恢复任务完成后停止轮询
+ */
+const RESTORE_POLL_INTERVAL = 2000
+let restorePollTimer: ReturnType<typeof setInterval> | null = null
+let isPollingRestores = false
+
+/**
+ * TLS 配置
+ * CA 可以是文件路径或 PEM 内容；客户端证书和私钥用于双向 TLS，
+ * caFingerprint 为 CA 证书的 SHA256 指纹
+ */
+export interface TlsProfile {
+  caPath?: string
+  caPem?: string
+  certPath?: string
+  keyPath?: string
+  keyPassphrase?: string
+  caFingerprint?: string
+  allowInsecure?: boolean
+}
+
+/**
+ * SSH 隧道配置
+ * 通过跳板机转发到集群主地址，localPort 为空时自动分配本地端口
+ */
+export interface SshTunnelProfile {
+  enabled?: boolean
+  host: string
+  port?: number
+  username: string
+  authMethod?: 'privateKey' | 'password'
+  privateKeyPath?: string
+  passphrase?: string
+  password?: string
+  localPort?: number
+}
+
+/**
+ * 代理协议
+ */
+export type ProxyProtocol = 'http' | 'https' | 'socks5'
+
+/**
+ * 代理配置
+ * noProxy 中的主机名不经过代理，支持精确匹配、.example.com 后缀匹配和 * 通配
+ */
+export interface ProxyProfile {
+  protocol: ProxyProtocol
+  host: string
+  port: number
+  username?: string
+  password?: string
+  noProxy?: string[]
+}
+
+/**
+ * 连接的代理模式
+ * global: 使用全局代理；none: 直连；custom: 使用连接自己的代理配置
+ */
+export type ProxyMode = 'global' | 'none' | 'custom'
+
+/**
+ * 传输层配置
+ * 控制节点嗅探、请求超时（毫秒）和失败重试次数，未配置时使用客户端默认值
+ */
+export interface TransportProfile {
+  sniffOnStart?: boolean
+  sniffOnConnectionFault?: boolean
+  requestTimeout?: number
+  maxRetries?: number
+}
+
+/**
+ * 认证方式
+ * cloud 使用 Cloud ID 定位集群，认证使用 API 密钥或用户名密码
+ */
+export type AuthType = 'none' | 'basic' | 'apiKey' | 'bearer' | 'cloud'
+
 /**
  * Elasticsearch 连接配置
  */
@@ -21,14 +126,132 @@ export interface ElasticsearchConnection {
   host: string
   port: number
   protocol: 'http' | 'https'
+  nodes?: string[]
+  transport?: TransportProfile
+  authType?: AuthType
   username?: string
   password?: string
   apiKey?: string
+  bearerToken?: string
+  cloudId?: string
+  credentialId?: string
+  tls?: TlsProfile
+  sshTunnel?: SshTunnelProfile
+  proxyMode?: ProxyMode
+  proxy?: ProxyProfile
   isDefault: boolean
   createdAt: string
   updatedAt: string
 }
 
+/**
+ * 连接状态
+ */
+export type ConnectionStatus = 'connected' | 'disconnected' | 'error' | 'testing'
+
+/**
+ * 连接的运行时状态
+ * 记录最近一次连接或测试的结果，不做持久化
+ */
+export interface ConnectionRuntimeState {
+  status: ConnectionStatus
+  clusterName?: string
+  version?: string
+  nodeCount?: number
+  lastConnected?: string
+  lastNode?: string
+  lastNodeAt?: string
+}
+
+/**
+ * 旧版本集群选择器保存的集群配置，地址为 host 字符串
+ */
+interface LegacyCluster {
+  id: string
+  name: string
+  host: string
+  username?: string
+  password?: string
+  apiKey?: string
+  credentialId?: string
+  tls?: TlsProfile
+  createdAt?: string
+}
+
+/**
+ * 连接中的机密字段
+ * 这些字段只保存在主进程的凭据库中，渲染进程通过 credentialId 引用
+ */
+export interface ConnectionSecrets {
+  password?: string
+  apiKey?: string
+  bearerToken?: string
+  tlsKeyPassphrase?: string
+  sshPassword?: string
+  sshPassphrase?: string
+  proxyPassword?: string
+}
+
+/**
+ * 从连接配置中分离机密字段
+ * 返回不含机密信息的连接配置，以及需要写入凭据库的字段
+ */
+export function separateSecrets<T extends { password?: string; apiKey?: string; bearerToken?: string; tls?: TlsProfile; sshTunnel?: SshTunnelProfile; proxy?: ProxyProfile }>(connection: T): { connection: T; secrets: ConnectionSecrets } {
+  const { password, apiKey, bearerToken, ...rest } = connection
+  const secrets: ConnectionSecrets = {}
+  if (password) secrets.password = password
+  if (apiKey) secrets.apiKey = apiKey
+  if (bearerToken) secrets.bearerToken = bearerToken
+
+  let tls = connection.tls
+  if (tls?.keyPassphrase) {
+    secrets.tlsKeyPassphrase = tls.keyPassphrase
+    const { keyPassphrase: _keyPassphrase, ...tlsRest } = tls
+    tls = tlsRest
+  }
+
+  let sshTunnel = connection.sshTunnel
+  if (sshTunnel?.password || sshTunnel?.passphrase) {
+    const { password: sshPassword, passphrase: sshPassphrase, ...tunnelRest } = sshTunnel
+    if (sshPassword) secrets.sshPassword = sshPassword
+    if (sshPassphrase) secrets.sshPassphrase = sshPassphrase
+    sshTunnel = tunnelRest
+  }
+
+  let proxy = connection.proxy
+  if (proxy?.password) {
+    const { password: proxyPassword, ...proxyRest } = proxy
+    secrets.proxyPassword = proxyPassword
+    proxy = proxyRest
+  }
+
+  return {
+    connection: { ...rest, ...(tls ? { tls } : {}), ...(sshTunnel ? { sshTunnel } : {}), ...(proxy ? { proxy } : {}) } as T,
+    secrets
+  }
+}
+
+/**
+ * 获取连接的认证方式
+ * 旧版本的连接没有 authType 字段，根据已填写的凭据推断
+ */
+export function getAuthType(connection: Pick<ElasticsearchConnection, 'authType' | 'username' | 'apiKey'>): AuthType {
+  if (connection.authType) {
+    return connection.authType
+  }
+  if (connection.username) {
+    return 'basic'
+  }
+  return connection.apiKey ? 'apiKey' : 'none'
+}
+
+/**
+ * 判断是否包含需要保存的机密字段
+ */
+export function hasSecrets(secrets: ConnectionSecrets): boolean {
+  return Object.values(secrets).some(Boolean)
+}
+
 /**
  * 集群信息
  */
@@ -122,275 +345,1678 @@ export interface IndexInfo {
 }
 
 /**
- * Elasticsearch 状态接口
+ * 索引运维操作
  */
-interface ElasticsearchState {
-  // 连接配置
-  connections: ElasticsearchConnection[]
-  currentConnection: (ElasticsearchConnection & { status: 'connected' | 'disconnected' | 'error' | 'testing' }) | null
-
-  // 连接状态
-  isConnecting: boolean
-  isLoading: boolean
-  connectionError: string | null
+export type IndexOperation = 'open' | 'close' | 'refresh' | 'flush' | 'forcemerge' | 'clear-cache' | 'freeze' | 'unfreeze'
 
-  // 集群信息
-  clusterInfo: ClusterInfo | null
+/**
+ * 索引运维操作选项，maxNumSegments 仅用于强制合并
+ */
+export interface IndexOperationOptions {
+  maxNumSegments?: number
+}
 
-  // 节点信息
-  nodesInfo: NodesInfo | null
+/**
+ * 索引设置更新选项
+ * 静态设置只能在索引关闭时修改，reopen 为 true 时先关闭索引，更新后重新打开
+ */
+export interface IndexSettingsUpdateOptions {
+  reopen?: boolean
+}
 
-  // 索引信息
-  indices: IndexInfo[]
-  selectedIndex: string | null
+/**
+ * 别名信息，每个别名与索引的组合一条
+ */
+export interface AliasInfo {
+  alias: string
+  index: string
+  isWriteIndex?: boolean
+  filter?: Record<string, any>
+  indexRouting?: string
+  searchRouting?: string
+}
 
-  // 查询历史
-  queryHistory: Array<{
-    id: string
-    query: string
-    timestamp: string
-    index?: string
-    results?: any
-  }>
+/**
+ * 别名操作
+ */
+export interface AliasAction {
+  type: 'add' | 'remove'
+  alias: string
+  index: string
+  filter?: Record<string, any>
+  indexRouting?: string
+  searchRouting?: string
+  isWriteIndex?: boolean
 }
 
 /**
- * Elasticsearch 操作接口
+ * 模板类型：可组合索引模板或组件模板
  */
-interface ElasticsearchActions {
-  // 连接管理
-  addConnection: (connection: Omit<ElasticsearchConnection, 'id' | 'createdAt' | 'updatedAt'>) => void
-  updateConnection: (id: string, updates: Partial<ElasticsearchConnection>) => void
-  deleteConnection: (id: string) => void
-  setCurrentConnection: (connection: ElasticsearchConnection | null) => void
+export type TemplateKind = 'index' | 'component'
 
-  // 连接操作
-  connect: (connection: ElasticsearchConnection) => Promise<void>
-  disconnect: () => void
-  testConnection: (connection: ElasticsearchConnection) => Promise<{
-    success: boolean
-    version?: string
-    nodeCount?: number
-    clusterName?: string
-    error?: string
-  }>
-  switchCluster: (connection: ElasticsearchConnection) => Promise<boolean>
+/**
+ * 模板信息
+ * managed 为 true 表示由 Elasticsearch 或其他组件自动维护的内置模板
+ */
+export interface TemplateInfo {
+  name: string
+  kind: TemplateKind
+  indexPatterns: string[]
+  composedOf: string[]
+  priority?: number
+  version?: number
+  dataStream: boolean
+  managed: boolean
+  body: Record<string, any>
+}
 
-  // 集群操作
-  fetchClusterInfo: () => Promise<void>
-  fetchIndices: () => Promise<void>
-  fetchNodesInfo: () => Promise<void>
+/**
+ * 模板模拟结果，overlapping 为同样匹配但优先级较低的模板
+ */
+export interface SimulatedIndexTemplate {
+  settings: Record<string, any>
+  mappings: Record<string, any>
+  aliases: Record<string, any>
+  overlapping: { name: string; indexPatterns: string[] }[]
+}
 
-  // 索引操作
-  setSelectedIndex: (index: string | null) => void
-  executeQuery: (index: string, queryBody: any) => Promise<any>
-  createIndex: (name: string, settings?: any) => Promise<any>
-  deleteIndex: (name: string) => Promise<any>
-  getIndexSettings: (indexName: string) => Promise<any>
-  getIndexMapping: (indexName: string) => Promise<any>
-  refreshIndices: () => Promise<void>
+/**
+ * ILM 策略信息
+ */
+export interface IlmPolicyInfo {
+  name: string
+  version?: number
+  modifiedDate?: string
+  phases: Record<string, any>
+  meta?: Record<string, any>
+  inUseBy: { indices: string[]; dataStreams: string[]; templates: string[] }
+}
 
-  // 查询历史
-  addToHistory: (query: string, index?: string, results?: any) => void
-  clearHistory: () => void
+/**
+ * 索引的 ILM 执行状态
+ * failedStep 不为空表示索引卡在 ERROR 步骤，需要修复原因后重试
+ */
+export interface IlmExplainInfo {
+  index: string
+  policy: string
+  phase?: string
+  action?: string
+  step?: string
+  age?: string
+  failedStep?: string
+  stepInfo?: string
+  isAutoRetryableError?: boolean
+  failedStepRetryCount?: number
+}
 
-  // 错误处理
-  setConnectionError: (error: string | null) => void
-  clearError: () => void
+/**
+ * 数据流信息
+ * indices 为按生成顺序排列的后备索引，最后一个是当前的写入索引
+ */
+export interface DataStreamInfo {
+  name: string
+  timestampField: string
+  indices: string[]
+  generation: number
+  status: string
+  template: string
+  ilmPolicy?: string
+  hidden: boolean
+  storeSizeBytes?: number
+  maximumTimestamp?: number
 }
 
 /**
- * Elasticsearch Store 类型
+ * 支持注册的快照仓库类型
  */
-export type ElasticsearchStore = ElasticsearchState & ElasticsearchActions
+export type SnapshotRepositoryType = 'fs' | 'url' | 's3' | 'gcs' | 'azure' | 'source'
 
 /**
- * 初始状态
+ * 快照仓库信息
  */
-const initialState: ElasticsearchState = {
-  connections: [],
-  currentConnection: null,
-  isConnecting: false,
-  isLoading: false,
-  connectionError: null,
-  clusterInfo: null,
-  nodesInfo: null,
-  indices: [],
-  selectedIndex: null,
-  queryHistory: [],
+export interface SnapshotRepositoryInfo {
+  name: string
+  type: string
+  settings: Record<string, any>
 }
 
 /**
- * 生成唯一 ID
+ * 快照信息
+ * indices 包含数据流的后备索引，sizeBytes 为快照中各索引大小之和
  */
-function generateId(): string {
-  return Date.now().toString(36) + Math.random().toString(36).substr(2)
+export interface SnapshotInfo {
+  snapshot: string
+  uuid: string
+  repository: string
+  state: string
+  indices: string[]
+  dataStreams: string[]
+  includeGlobalState: boolean
+  startTime?: number
+  endTime?: number
+  durationMs?: number
+  shards: { total: number; successful: number; failed: number }
+  sizeBytes?: number
+  failures: string[]
 }
 
-// Elasticsearch 客户端功能现在通过 Electron IPC 提供，无需在渲染进程中创建客户端
+/**
+ * 创建快照请求，indices 为空时快照所有索引
+ */
+export interface CreateSnapshotRequest {
+  repository: string
+  snapshot: string
+  indices: string[]
+  includeGlobalState: boolean
+  ignoreUnavailable?: boolean
+}
 
 /**
- * Elasticsearch 状态管理 Store
+ * 恢复快照请求
+ * indices 可以包含数据流名称，renamePattern 和 renameReplacement 对恢复的索引名执行正则替换
  */
-export const useElasticsearchStore = create<ElasticsearchStore>()(
-  persist(
-    (set, get) => ({
-      ...initialState,
+export interface RestoreSnapshotRequest {
+  repository: string
+  snapshot: string
+  indices: string[]
+  renamePattern?: string
+  renameReplacement?: string
+  indexSettings?: Record<string, any>
+  ignoreIndexSettings?: string[]
+  includeAliases: boolean
+}
 
-      // 连接管理
-      addConnection: (connectionData) => {
-        const connection: ElasticsearchConnection = {
-          ...connectionData,
-          id: generateId(),
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString(),
-        }
+/**
+ * 单个索引的恢复进度，索引尚未创建时 exists 为 false
+ */
+export interface RestoreIndexProgress {
+  index: string
+  exists: boolean
+  totalShards: number
+  doneShards: number
+  totalBytes: number
+  recoveredBytes: number
+}
 
-        set((state) => ({
-          connections: [...state.connections, connection]
-        }))
-      },
+/**
+ * 后台恢复任务
+ * indices 为恢复后的目标索引，progress 为最近一次查询到的进度
+ */
+export interface RestoreTask {
+  id: string
+  repository: string
+  snapshot: string
+  indices: string[]
+  startedAt: number
+  progress: RestoreIndexProgress[]
+  completed: boolean
+  error?: string
+}
 
-      updateConnection: (id, updates) => {
-        set((state) => ({
-          connections: state.connections.map(conn =>
-            conn.id === id
-              ? { ...conn, ...updates, updatedAt: new Date().toISOString() }
-              : conn
-          )
-        }))
-      },
+/**
+ * 导入文件格式
+ */
+export type ImportFormat = 'ndjson' | 'csv' | 'json'
 
-      deleteConnection: (id) => {
-        set((state) => {
-          const newConnections = state.connections.filter(conn => conn.id !== id)
-          const newCurrentConnection = state.currentConnection?.id === id
-            ? null
-            : state.currentConnection
+/**
+ * 推断的字段类型，object 表示嵌套对象或数组，由动态映射处理
+ */
+export type ImportFieldType = 'keyword' | 'text' | 'long' | 'double' | 'boolean' | 'date' | 'object'
 
-          return {
-            connections: newConnections,
-            currentConnection: newCurrentConnection,
-          }
-        })
-      },
+/**
+ * 导入字段
+ * name 为文件中的列名或顶层字段名；field 为写入的字段名，CSV 中为空表示跳过该列
+ */
+export interface ImportColumn {
+  name: string
+  field: string
+  type: ImportFieldType
+}
 
-      setCurrentConnection: (connection: ElasticsearchConnection | null) => {
-        set({ currentConnection: connection ? { ...connection, status: 'disconnected' } : null })
+/**
+ * 文件预览选项，未指定时按扩展名和文件内容推断
+ */
+export interface ImportPreviewOptions {
+  format?: ImportFormat
+  delimiter?: string
+}
+
+/**
+ * 导入文件预览，columns 由文件开头的记录推断
+ */
+export interface ImportPreview {
+  filePath: string
+  fileName: string
+  sizeBytes: number
+  format: ImportFormat
+  delimiter: string
+  columns: ImportColumn[]
+  sample: Record<string, any>[]
+  sampledRecords: number
+  parseErrors: string[]
+}
+
+/**
+ * 导入请求
+ * columns 仅用于 CSV；createIndex 不为空时先按推断的映射创建目标索引
+ */
+export interface ImportRequest {
+  importId: string
+  fileToken: string
+  format: ImportFormat
+  delimiter?: string
+  columns?: ImportColumn[]
+  index: string
+  opType: 'index' | 'create'
+  idField?: string
+  createIndex?: { mappings: Record<string, any>; settings?: Record<string, any> }
+  flushBytes?: number
+  concurrency?: number
+}
+
+/**
+ * 导入进度
+ */
+export interface ImportProgress {
+  importId: string
+  bytesRead: number
+  totalBytes: number
+  records: number
+  successful: number
+  failed: number
+}
+
+/**
+ * 单个文档的导入错误，解析错误带有行号，写入错误带有 ID 和文档内容
+ */
+export interface ImportDocumentError {
+  line?: number
+  id?: string
+  status?: number
+  reason: string
+  document?: string
+}
+
+/**
+ * 导入结果
+ */
+export interface ImportResult {
+  importId: string
+  records: number
+  successful: number
+  failed: number
+  errors: ImportDocumentError[]
+  errorsTruncated: boolean
+  aborted: boolean
+  timeMs: number
+}
+
+/**
+ * 用户在文件对话框中选择的文件
+ * 主进程通过令牌取回路径，filePath 仅用于展示
+ */
+export interface SelectedFile {
+  fileToken: string
+  filePath: string
+}
+
+/**
+ * 导出文件格式
+ * csv 和 xlsx 按列展开文档；ndjson 每行写入一个 _source
+ */
+export type ExportFormat = 'csv' | 'ndjson' | 'xlsx'
+
+/**
+ * 导出请求
+ * columns 为展开后的字段路径，为空时按第一批文档推断；includeMetadata 为 true 时 csv/xlsx 增加 _index 和 _id 列
+ */
+export interface ExportRequest {
+  exportId: string
+  fileToken: string
+  format: ExportFormat
+  index: string
+  query?: Record<string, any>
+  sort?: any[]
+  columns?: string[]
+  includeMetadata?: boolean
+  delimiter?: string
+  maxRows?: number
+  batchSize?: number
+}
+
+/**
+ * 导出进度，total 为查询匹配的文档总数
+ */
+export interface ExportProgress {
+  exportId: string
+  rows: number
+  total: number
+}
+
+/**
+ * 导出结果
+ * limitReached 表示因行数限制没有导出全部匹配的文档
+ */
+export interface ExportResult {
+  exportId: string
+  filePath: string
+  rows: number
+  total: number
+  sizeBytes: number
+  aborted: boolean
+  limitReached: boolean
+  timeMs: number
+}
+
+/**
+ * 重建索引请求
+ * source 可以是逗号分隔的索引列表或通配符，createDest 为 true 时按源索引的映射创建目标索引
+ */
+export interface ReindexRequest {
+  source: string
+  dest: string
+  query?: Record<string, any>
+  script?: string
+  createDest?: boolean
+  requestsPerSecond?: number
+  slices?: number | 'auto'
+  conflicts?: 'abort' | 'proceed'
+}
+
+/**
+ * 重建索引任务状态
+ */
+export interface ReindexTaskStatus {
+  taskId: string
+  completed: boolean
+  cancelled: boolean
+  total: number
+  created: number
+  updated: number
+  deleted: number
+  noops: number
+  versionConflicts: number
+  batches: number
+  requestsPerSecond: number
+  runningTimeMs: number
+  failures: string[]
+  error?: string
+}
+
+/**
+ * 单个索引的操作结果
+ */
+export interface IndexOperationResult {
+  index: string
+  success: boolean
+  error?: string
+}
+
+/**
+ * 集群健康状态
+ */
+export interface ClusterHealth {
+  cluster_name: string
+  status: 'green' | 'yellow' | 'red'
+  timed_out: boolean
+  number_of_nodes: number
+  number_of_data_nodes: number
+  active_primary_shards: number
+  active_shards: number
+  relocating_shards: number
+  initializing_shards: number
+  unassigned_shards: number
+  delayed_unassigned_shards: number
+  number_of_pending_tasks: number
+  number_of_in_flight_fetch: number
+  task_max_waiting_in_queue_millis: number
+  active_shards_percent_as_number: number
+}
+
+/**
+ * 等待执行的集群任务
+ */
+export interface PendingTask {
+  insertOrder: number
+  priority: string
+  source: string
+  timeInQueueMillis: number
+  executing: boolean
+}
+
+/**
+ * 分片状态
+ */
+export type ShardState = 'STARTED' | 'RELOCATING' | 'INITIALIZING' | 'UNASSIGNED'
+
+/**
+ * 分片信息，来自 _cat/shards
+ */
+export interface ShardInfo {
+  index: string
+  shard: number
+  primary: boolean
+  state: ShardState
+  docs?: number
+  storeBytes?: number
+  node?: string
+  relocatingNode?: string
+  unassignedReason?: string
+  unassignedAt?: string
+}
+
+/**
+ * 节点磁盘使用情况，来自 _cat/allocation
+ */
+export interface NodeDiskUsage {
+  node: string
+  shards: number
+  diskUsedBytes?: number
+  diskAvailBytes?: number
+  diskTotalBytes?: number
+  diskPercent?: number
+}
+
+/**
+ * 磁盘水位线配置
+ * 值为已用百分比（如 85%）或需要保留的剩余空间（如 50gb）
+ */
+export interface DiskWatermarks {
+  enabled: boolean
+  low: string
+  high: string
+  floodStage: string
+}
+
+/**
+ * 集群磁盘分配情况
+ */
+export interface DiskAllocation {
+  nodes: NodeDiskUsage[]
+  watermarks: DiskWatermarks
+}
+
+/**
+ * 分配决策器的判定结果
+ */
+export interface AllocationDecider {
+  decider: string
+  decision: 'YES' | 'NO' | 'THROTTLE'
+  explanation: string
+}
+
+/**
+ * 单个节点的分配决策
+ */
+export interface NodeAllocationDecision {
+  node_id: string
+  node_name: string
+  transport_address?: string
+  node_decision: string
+  weight_ranking?: number
+  deciders?: AllocationDecider[]
+}
+
+/**
+ * 分片分配说明，来自 _cluster/allocation/explain
+ */
+export interface AllocationExplanation {
+  index: string
+  shard: number
+  primary: boolean
+  current_state: string
+  current_node?: {
+    id: string
+    name: string
+    transport_address?: string
+  }
+  unassigned_info?: {
+    reason: string
+    at: string
+    details?: string
+    last_allocation_status?: string
+    failed_allocation_attempts?: number
+    delayed?: boolean
+  }
+  can_allocate?: string
+  allocate_explanation?: string
+  can_remain_on_current_node?: string
+  can_rebalance_cluster?: string
+  can_move_to_other_node?: string
+  move_explanation?: string
+  rebalance_explanation?: string
+  can_remain_decisions?: AllocationDecider[]
+  node_allocation_decisions?: NodeAllocationDecision[]
+}
+
+/**
+ * 文档写入选项
+ * 传入 ifSeqNo/ifPrimaryTerm 时启用乐观并发控制
+ */
+export interface DocumentWriteOptions {
+  ifSeqNo?: number
+  ifPrimaryTerm?: number
+  refresh?: boolean | 'wait_for'
+}
+
+/**
+ * 文档写入结果
+ */
+export interface DocumentWriteResult {
+  _index: string
+  _id: string
+  _version: number
+  _seq_no: number
+  _primary_term: number
+  result: 'created' | 'updated' | 'deleted' | 'noop' | 'not_found'
+}
+
+/**
+ * Elasticsearch 状态接口
+ */
+interface ElasticsearchState {
+  // 连接配置
+  connections: ElasticsearchConnection[]
+  currentConnection: (ElasticsearchConnection & { status: ConnectionStatus }) | null
+  connectionStates: Record<string, ConnectionRuntimeState>
+
+  // 连接状态
+  isConnecting: boolean
+  isLoading: boolean
+  connectionError: string | null
+
+  // 集群信息
+  clusterInfo: ClusterInfo | null
+
+  // 节点信息
+  nodesInfo: NodesInfo | null
+
+  // 集群健康
+  clusterHealth: ClusterHealth | null
+  pendingTasks: PendingTask[]
+  shards: ShardInfo[]
+  diskAllocation: DiskAllocation | null
+
+  // 索引信息
+  indices: IndexInfo[]
+  aliases: AliasInfo[]
+  ilmExplain: IlmExplainInfo[]
+  dataStreams: DataStreamInfo[]
+  restoreTasks: RestoreTask[]
+  selectedIndex: string | null
+
+  // 查询历史
+  queryHistory: Array<{
+    id: string
+    query: string
+    timestamp: string
+    index?: string
+    results?: any
+  }>
+}
+
+/**
+ * Elasticsearch 操作接口
+ */
+interface ElasticsearchActions {
+  // 连接管理
+  addConnection: (connection: Omit<ElasticsearchConnection, 'id' | 'createdAt' | 'updatedAt'>) => ElasticsearchConnection
+  updateConnection: (id: string, updates: Partial<ElasticsearchConnection>) => void
+  deleteConnection: (id: string) => void
+  setCurrentConnection: (connection: ElasticsearchConnection | null) => void
+  setConnectionState: (id: string, state: Partial<ConnectionRuntimeState>) => void
+  migrateLegacyClusters: () => void
+
+  // 连接操作
+  connect: (connection: ElasticsearchConnection) => Promise<void>
+  disconnect: () => void
+  testConnection: (connection: ElasticsearchConnection) => Promise<{
+    success: boolean
+    stage?: 'tunnel' | 'cluster'
+    version?: string
+    nodeCount?: number
+    clusterName?: string
+    error?: string
+  }>
+  switchCluster: (connection: ElasticsearchConnection) => Promise<boolean>
+
+  // 集群操作
+  fetchClusterInfo: () => Promise<void>
+  fetchIndices: () => Promise<void>
+  fetchNodesInfo: () => Promise<void>
+  refreshClusterData: () => Promise<void>
+  fetchClusterHealth: () => Promise<void>
+  fetchShards: () => Promise<void>
+  fetchDiskAllocation: () => Promise<void>
+  explainShardAllocation: (index: string, shard: number, primary: boolean) => Promise<AllocationExplanation>
+
+  // 索引操作
+  setSelectedIndex: (index: string | null) => void
+  executeQuery: (index: string, queryBody: any) => Promise<any>
+  createIndex: (name: string, settings?: any) => Promise<any>
+  deleteIndex: (name: string) => Promise<any>
+  runIndexOperation: (
+    operation: IndexOperation,
+    indices: string[],
+    options?: IndexOperationOptions,
+    onProgress?: (result: IndexOperationResult, completed: number, total: number) => void
+  ) => Promise<IndexOperationResult[]>
+  getIndexSettings: (indexName: string) => Promise<any>
+  updateIndexSettings: (indexName: string, settings: Record<string, unknown>, options?: IndexSettingsUpdateOptions) => Promise<void>
+  getIndexMapping: (indexName: string) => Promise<any>
+  putIndexMapping: (indexName: string, mapping: { properties: Record<string, any> }) => Promise<void>
+  fetchAliases: () => Promise<void>
+  updateAliases: (actions: AliasAction[]) => Promise<void>
+  getTemplates: (kind: TemplateKind) => Promise<TemplateInfo[]>
+  putTemplate: (kind: TemplateKind, name: string, body: Record<string, any>) => Promise<void>
+  deleteTemplate: (kind: TemplateKind, name: string) => Promise<void>
+  simulateIndexTemplate: (indexName: string) => Promise<SimulatedIndexTemplate>
+  getIlmPolicies: () => Promise<IlmPolicyInfo[]>
+  putIlmPolicy: (name: string, policy: { phases: Record<string, any>; _meta?: Record<string, any> }) => Promise<void>
+  deleteIlmPolicy: (name: string) => Promise<void>
+  fetchIlmExplain: () => Promise<void>
+  retryIlmStep: (index: string) => Promise<void>
+  fetchDataStreams: () => Promise<void>
+  createDataStream: (name: string) => Promise<void>
+  deleteDataStream: (name: string) => Promise<void>
+  rolloverDataStream: (name: string) => Promise<{ oldIndex: string; newIndex: string }>
+  getSnapshotRepositories: () => Promise<SnapshotRepositoryInfo[]>
+  createSnapshotRepository: (name: string, type: SnapshotRepositoryType, settings: Record<string, any>) => Promise<void>
+  deleteSnapshotRepository: (name: string) => Promise<void>
+  verifySnapshotRepository: (name: string) => Promise<string[]>
+  getSnapshots: (repository: string) => Promise<SnapshotInfo[]>
+  createSnapshot: (request: CreateSnapshotRequest) => Promise<void>
+  deleteSnapshot: (repository: string, snapshot: string) => Promise<void>
+  restoreSnapshot: (request: RestoreSnapshotRequest, targetIndices: string[]) => Promise<string>
+  refreshRestoreTasks: () => Promise<void>
+  dismissRestoreTask: (id: string) => void
+  selectImportFile: () => Promise<SelectedFile | null>
+  previewImportFile: (fileToken: string, options?: ImportPreviewOptions) => Promise<ImportPreview>
+  bulkImport: (request: ImportRequest) => Promise<ImportResult>
+  cancelImport: (importId: string) => Promise<void>
+  selectExportFile: (defaultName: string, format: ExportFormat) => Promise<SelectedFile | null>
+  exportDocuments: (request: ExportRequest) => Promise<ExportResult>
+  cancelExport: (exportId: string) => Promise<void>
+  startReindex: (request: ReindexRequest) => Promise<string>
+  getReindexTask: (taskId: string) => Promise<ReindexTaskStatus>
+  cancelTask: (taskId: string) => Promise<void>
+  refreshIndices: () => Promise<void>
+
+  // 文档操作
+  updateDocument: (index: string, id: string, doc: any, options?: DocumentWriteOptions) => Promise<DocumentWriteResult>
+  indexDocument: (index: string, document: any, id?: string, options?: DocumentWriteOptions) => Promise<DocumentWriteResult>
+  deleteDocument: (index: string, id: string, options?: DocumentWriteOptions) => Promise<DocumentWriteResult>
+
+  // 查询历史
+  addToHistory: (query: string, index?: string, results?: any) => void
+  clearHistory: () => void
+
+  // 错误处理
+  setConnectionError: (error: string | null) => void
+  clearError: () => void
+}
+
+/**
+ * Elasticsearch Store 类型
+ */
+export type ElasticsearchStore = ElasticsearchState & ElasticsearchActions
+
+/**
+ * 初始状态
+ */
+const initialState: ElasticsearchState = {
+  connections: [],
+  currentConnection: null,
+  connectionStates: {},
+  isConnecting: false,
+  isLoading: false,
+  connectionError: null,
+  clusterInfo: null,
+  nodesInfo: null,
+  clusterHealth: null,
+  pendingTasks: [],
+  shards: [],
+  diskAllocation: null,
+  indices: [],
+  aliases: [],
+  ilmExplain: [],
+  dataStreams: [],
+  restoreTasks: [],
+  selectedIndex: null,
+  queryHistory: [],
+}
+
+/**
+ * 生成唯一 ID
+ */
+function generateId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).substr(2)
+}
+
+// Elasticsearch 客户端功能现在通过 Electron IPC 提供，无需在渲染进程中创建客户端
+
+/**
+ * Elasticsearch 状态管理 Store
+ */
+export const useElasticsearchStore = create<ElasticsearchStore>()(
+  persist(
+    (set, get) => ({
+      ...initialState,
+
+      // 连接管理
+      addConnection: (connectionData) => {
+        const connection: ElasticsearchConnection = {
+          ...connectionData,
+          id: generateId(),
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        }
+
+        set((state) => ({
+          connections: [...state.connections, connection]
+        }))
+
+        return connection
+      },
+
+      updateConnection: (id, updates) => {
+        // 地址或凭据变化时关闭旧客户端，下次调用时按新配置重建
+        const affectsClient = (Object.keys(updates) as Array<keyof ElasticsearchConnection>)
+          .some(key => !DISPLAY_ONLY_CONNECTION_FIELDS.includes(key))
+        if (affectsClient) {
+          releaseClient(id)
+        }
+
+        const updatedAt = new Date().toISOString()
+        set((state) => ({
+          connections: state.connections.map(conn =>
+            conn.id === id
+              ? { ...conn, ...updates, updatedAt }
+              : conn
+          ),
+          // 当前连接与仓库保持一致，保留其连接状态
+          currentConnection: state.currentConnection?.id === id
+            ? { ...state.currentConnection, ...updates, updatedAt }
+            : state.currentConnection
+        }))
+      },
+
+      deleteConnection: (id) => {
+        releaseClient(id)
+
+        set((state) => {
+          const newConnections = state.connections.filter(conn => conn.id !== id)
+          const newCurrentConnection = state.currentConnection?.id === id
+            ? null
+            : state.currentConnection
+          const { [id]: _removed, ...connectionStates } = state.connectionStates
+
+          return {
+            connections: newConnections,
+            currentConnection: newCurrentConnection,
+            connectionStates,
+          }
+        })
+      },
+
+      setCurrentConnection: (connection: ElasticsearchConnection | null) => {
+        set({ currentConnection: connection ? { ...connection, status: 'disconnected' } : null })
+      },
+
+      setConnectionState: (id, state) => {
+        set((current) => ({
+          connectionStates: {
+            ...current.connectionStates,
+            [id]: {
+              ...(current.connectionStates[id] || { status: 'disconnected' }),
+              ...state
+            }
+          }
+        }))
+      },
+
+      /**
+       * 迁移旧版本集群选择器保存在 localStorage 中的集群配置
+       * 已存在于连接仓库中的集群不会重复添加，迁移完成后删除旧的存储键
+       */
+      migrateLegacyClusters: () => {
+        try {
+          const savedClusters = localStorage.getItem(LEGACY_CLUSTERS_KEY)
+          const currentClusterId = localStorage.getItem(LEGACY_CURRENT_CLUSTER_KEY)
+          if (!savedClusters && !currentClusterId) return
+
+          const legacyClusters: LegacyCluster[] = savedClusters ? JSON.parse(savedClusters) : []
+          const existingIds = new Set(get().connections.map(conn => conn.id))
+          const now = new Date().toISOString()
+
+          const migrated = legacyClusters
+            .filter(cluster => !existingIds.has(cluster.id))
+            .map((cluster): ElasticsearchConnection => {
+              const { host, port, protocol } = parseHostAndPort(cluster.host)
+              return {
+                id: cluster.id,
+                name: cluster.name,
+                host,
+                port,
+                protocol,
+                username: cluster.username,
+                password: cluster.password,
+                apiKey: cluster.apiKey,
+                credentialId: cluster.credentialId,
+                tls: cluster.tls,
+                isDefault: false,
+                createdAt: cluster.createdAt || now,
+                updatedAt: now,
+              }
+            })
+
+          const connections = [...get().connections, ...migrated]
+          const legacyCurrent = currentClusterId
+            ? connections.find(conn => conn.id === currentClusterId)
+            : undefined
+
+          set({
+            connections,
+            ...(legacyCurrent ? { currentConnection: { ...legacyCurrent, status: 'disconnected' as const } } : {}),
+          })
+
+          localStorage.removeItem(LEGACY_CLUSTERS_KEY)
+          localStorage.removeItem(LEGACY_CURRENT_CLUSTER_KEY)
+        } catch (error) {
+          console.error('迁移集群配置失败:', error)
+        }
+      },
+
+      // 连接操作
+      connect: async (connection) => {
+        // 如果当前已有连接，先断开
+        if (get().currentConnection?.status === 'connected') {
+          get().disconnect()
+        }
+
+        set({ isConnecting: true, connectionError: null })
+        get().setConnectionState(connection.id, { status: 'testing' })
+
+        try {
+          // 在主进程中建立客户端并测试连接
+          const elasticsearchAPI = getElasticsearchAPI()
+          const connected = await elasticsearchAPI.connect(connection)
+
+          if (!connected) {
+            throw new Error('无法连接到 Elasticsearch 服务器')
+          }
+
+          set({
+            currentConnection: { ...connection, status: 'connected' },
+            isConnecting: false,
+            connectionError: null,
+          })
+
+          // 连接成功后获取集群信息
+          await get().fetchClusterInfo()
+          await get().fetchIndices()
+          await get().fetchNodesInfo()
+
+          const { clusterInfo, nodesInfo } = get()
+          get().setConnectionState(connection.id, {
+            status: 'connected',
+            clusterName: clusterInfo?.cluster_name,
+            version: clusterInfo?.version?.number,
+            nodeCount: nodesInfo ? Object.keys(nodesInfo.nodes).length : undefined,
+            lastConnected: new Date().toISOString(),
+          })
+
+        } catch (error) {
+          set({
+            isConnecting: false,
+            connectionError: error instanceof Error ? error.message : '连接失败',
+          })
+          // 连接失败时清除当前连接
+          set({
+            currentConnection: { ...connection, status: 'error' },
+          })
+          get().setConnectionState(connection.id, { status: 'error' })
+          throw error
+        }
+      },
+
+      disconnect: () => {
+        const { currentConnection } = get()
+        if (currentConnection) {
+          releaseClient(currentConnection.id)
+          get().setConnectionState(currentConnection.id, { status: 'disconnected' })
+        }
+
+        set(state => ({
+          currentConnection: state.currentConnection ? { ...state.currentConnection, status: 'disconnected' } : null,
+          clusterInfo: null,
+          nodesInfo: null,
+          clusterHealth: null,
+          pendingTasks: [],
+          shards: [],
+          diskAllocation: null,
+          indices: [],
+          aliases: [],
+          ilmExplain: [],
+          dataStreams: [],
+          restoreTasks: [],
+          selectedIndex: null,
+          connectionError: null,
+        }))
+      },
+
+      testConnection: async (connection) => {
+        try {
+          const elasticsearchAPI = getElasticsearchAPI()
+          return await elasticsearchAPI.testConnection(connection)
+        } catch (error) {
+          return {
+            success: false,
+            error: '连接失败: ' + (error instanceof Error ? error.message : '未知错误')
+          }
+        }
+      },
+
+      /**
+       * 切换到指定集群
+       * 先断开当前连接，然后连接到新集群
+       */
+      switchCluster: async (connection: ElasticsearchConnection) => {
+        const { currentConnection, disconnect, connect } = get()
+
+        // 如果当前有连接，先断开
+        if (currentConnection?.status === 'connected') {
+          disconnect()
+        }
+
+        // 连接到新集群，连接状态由 connect 写入连接仓库
+        await connect(connection)
+        return true
+      },
+
+      // 集群操作
+      fetchClusterInfo: async () => {
+        try {
+          const connection = get().currentConnection
+          if (!connection) {
+            throw new Error('未连接到 Elasticsearch')
+          }
+
+          const elasticsearchAPI = getElasticsearchAPI()
+          const response = await elasticsearchAPI.getClusterInfo(connection)
+
+          set({ clusterInfo: response as ClusterInfo })
+        } catch (error) {
+          console.error('获取集群信息失败:', error)
+        }
+      },
+
+      fetchNodesInfo: async () => {
+        try {
+          const connection = get().currentConnection
+          if (!connection) {
+            throw new Error('未连接到 Elasticsearch')
+          }
+
+          const elasticsearchAPI = getElasticsearchAPI()
+          const response = await elasticsearchAPI.getNodesInfo(connection) as unknown as { nodes: { [key: string]: any } }
+
+          // 确保节点信息中包含 CPU 和内存使用率
+          if (response && response.nodes) {
+            Object.values(response.nodes).forEach((node: any) => {
+              if (!node.stats?.process?.cpu?.percent) {
+                node.stats = {
+                  ...node.stats,
+                  process: {
+                    ...node.stats?.process,
+                    cpu: { percent: 0 }
+                  }
+                }
+              }
+              if (!node.stats?.process?.mem?.resident_in_bytes) {
+                node.stats = {
+                  ...node.stats,
+                  process: {
+                    ...node.stats?.process,
+                    mem: { resident_in_bytes: 0 }
+                  }
+                }
+              }
+            })
+          }
+
+          set({ nodesInfo: response as NodesInfo })
+        } catch (error) {
+          console.error('获取节点信息失败:', error)
+        }
+      },
+
+      /**
+       * 刷新集群信息、索引和节点信息
+       * 集群无响应时抛出错误，供自动刷新调度器退避重试
+       */
+      refreshClusterData: async () => {
+        const connection = get().currentConnection
+        if (!connection) {
+          throw new Error('未连接到 Elasticsearch')
+        }
+
+        const alive = await getElasticsearchAPI().ping(connection)
+        if (!alive) {
+          throw new Error('Elasticsearch 集群无响应')
+        }
+
+        await Promise.all([
+          get().fetchClusterInfo(),
+          get().fetchIndices(),
+          get().fetchNodesInfo()
+        ])
+      },
+
+      /**
+       * 获取集群健康状态和等待执行的任务
+       */
+      fetchClusterHealth: async () => {
+        try {
+          const connection = get().currentConnection
+          if (!connection) {
+            throw new Error('未连接到 Elasticsearch')
+          }
+
+          const elasticsearchAPI = getElasticsearchAPI()
+          const [clusterHealth, pendingTasks] = await Promise.all([
+            elasticsearchAPI.getClusterHealth(connection),
+            elasticsearchAPI.getPendingTasks(connection)
+          ])
+
+          set({ clusterHealth, pendingTasks })
+        } catch (error) {
+          console.error('获取集群健康状态失败:', error)
+        }
+      },
+
+      fetchShards: async () => {
+        try {
+          const connection = get().currentConnection
+          if (!connection) {
+            throw new Error('未连接到 Elasticsearch')
+          }
+
+          const elasticsearchAPI = getElasticsearchAPI()
+          const shards = await elasticsearchAPI.getShards(connection)
+
+          set({ shards })
+        } catch (error) {
+          console.error('获取分片信息失败:', error)
+        }
+      },
+
+      fetchDiskAllocation: async () => {
+        try {
+          const connection = get().currentConnection
+          if (!connection) {
+            throw new Error('未连接到 Elasticsearch')
+          }
+
+          const elasticsearchAPI = getElasticsearchAPI()
+          const diskAllocation = await elasticsearchAPI.getDiskAllocation(connection)
+
+          set({ diskAllocation })
+        } catch (error) {
+          console.error('获取磁盘分配信息失败:', error)
+        }
+      },
+
+      /**
+       * 获取分片的分配说明
+       */
+      explainShardAllocation: async (index, shard, primary) => {
+        try {
+          const connection = get().currentConnection
+          if (!connection) {
+            throw new Error('未连接到 Elasticsearch')
+          }
+
+          const elasticsearchAPI = getElasticsearchAPI()
+          return await elasticsearchAPI.explainAllocation(connection, index, shard, primary)
+        } catch (error) {
+          console.error('获取分片分配说明失败:', error)
+          throw error
+        }
+      },
+
+      fetchIndices: async () => {
+        set({ isLoading: true })
+        try {
+          const connection = get().currentConnection
+          if (!connection) {
+            throw new Error('未连接到 Elasticsearch')
+          }
+
+          const elasticsearchAPI = getElasticsearchAPI()
+          const indices = await elasticsearchAPI.getIndices(connection)
+
+          set({ indices })
+        } catch (error) {
+          console.error('获取索引信息失败:', error)
+        } finally {
+          set({ isLoading: false })
+        }
+      },
+
+      // 索引操作
+      setSelectedIndex: (index) => {
+        set({ selectedIndex: index })
+      },
+
+      createIndex: async (name, settings) => {
+        try {
+          const connection = get().currentConnection
+          if (!connection) {
+            throw new Error('未连接到 Elasticsearch')
+          }
+
+          const elasticsearchAPI = getElasticsearchAPI()
+          const result = await elasticsearchAPI.createIndex(connection, name, settings)
+
+          // 刷新索引列表
+          await get().fetchIndices()
+
+          return result
+        } catch (error) {
+          console.error('创建索引失败:', error)
+          throw error
+        }
+      },
+
+      deleteIndex: async (name) => {
+        try {
+          const connection = get().currentConnection
+          if (!connection) {
+            throw new Error('未连接到 Elasticsearch')
+          }
+
+          const elasticsearchAPI = getElasticsearchAPI()
+          const result = await elasticsearchAPI.deleteIndex(connection, name)
+
+          // 刷新索引列表
+          await get().fetchIndices()
+
+          return result
+        } catch (error) {
+          console.error('删除索引失败:', error)
+          throw error
+        }
+      },
+
+      /**
+       * 逐个索引执行运维操作
+       * 单个索引失败不影响其余索引，每完成一个索引回调一次进度，全部完成后刷新索引列表
+       */
+      runIndexOperation: async (operation, indices, options, onProgress) => {
+        const connection = get().currentConnection
+        if (!connection) {
+          throw new Error('未连接到 Elasticsearch')
+        }
+
+        const elasticsearchAPI = getElasticsearchAPI()
+        const results: IndexOperationResult[] = []
+        for (const index of indices) {
+          let result: IndexOperationResult
+          try {
+            await elasticsearchAPI.runIndexOperation(connection, operation, index, options)
+            result = { index, success: true }
+          } catch (error) {
+            result = { index, success: false, error: error instanceof Error ? error.message : '未知错误' }
+          }
+          results.push(result)
+          onProgress?.(result, results.length, indices.length)
+        }
+
+        await get().fetchIndices()
+        return results
+      },
+
+      refreshIndices: async () => {
+        await get().fetchIndices()
+      },
+
+      /**
+       * 获取索引设置
+       */
+      getIndexSettings: async (indexName) => {
+        try {
+          const connection = get().currentConnection
+          if (!connection) {
+            throw new Error('未连接到 Elasticsearch')
+          }
+
+          const elasticsearchAPI = getElasticsearchAPI()
+          const result = await elasticsearchAPI.getIndexSettings(connection, indexName)
+
+          return result
+        } catch (error) {
+          console.error('获取索引设置失败:', error)
+          throw error
+        }
       },
 
-      // 连接操作
-      connect: async (connection) => {
-        // 如果当前已有连接，先断开
-        if (get().currentConnection?.status === 'connected') {
-          get().disconnect()
+      /**
+       * 更新索引设置
+       * 修改静态设置时会关闭再打开索引
+       */
+      updateIndexSettings: async (indexName, settings, options) => {
+        try {
+          const connection = get().currentConnection
+          if (!connection) {
+            throw new Error('未连接到 Elasticsearch')
+          }
+
+          const elasticsearchAPI = getElasticsearchAPI()
+          await elasticsearchAPI.updateIndexSettings(connection, indexName, settings, options)
+        } catch (error) {
+          console.error('更新索引设置失败:', error)
+          throw error
+        } finally {
+          // 副本数和索引状态可能已经变化
+          await get().fetchIndices()
         }
+      },
 
-        set({ isConnecting: true, connectionError: null })
+      /**
+       * 获取索引映射
+       */
+      getIndexMapping: async (indexName) => {
+        try {
+          const connection = get().currentConnection
+          if (!connection) {
+            throw new Error('未连接到 Elasticsearch')
+          }
+
+          const elasticsearchAPI = getElasticsearchAPI()
+          const result = await elasticsearchAPI.getIndexMapping(connection, indexName)
+
+          return result
+        } catch (error) {
+          console.error('获取索引映射失败:', error)
+          throw error
+        }
+      },
+
+      /**
+       * 更新索引映射
+       */
+      putIndexMapping: async (indexName, mapping) => {
+        try {
+          const connection = get().currentConnection
+          if (!connection) {
+            throw new Error('未连接到 Elasticsearch')
+          }
+
+          const elasticsearchAPI = getElasticsearchAPI()
+          await elasticsearchAPI.putIndexMapping(connection, indexName, mapping)
+        } catch (error) {
+          console.error('更新索引映射失败:', error)
+          throw error
+        }
+      },
+
+      fetchAliases: async () => {
+        try {
+          const connection = get().currentConnection
+          if (!connection) {
+            throw new Error('未连接到 Elasticsearch')
+          }
+
+          const elasticsearchAPI = getElasticsearchAPI()
+          const aliases = await elasticsearchAPI.getAliases(connection)
+
+          set({ aliases })
+        } catch (error) {
+          console.error('获取别名失败:', error)
+        }
+      },
+
+      /**
+       * 原子执行一组别名操作
+       */
+      updateAliases: async (actions) => {
+        try {
+          const connection = get().currentConnection
+          if (!connection) {
+            throw new Error('未连接到 Elasticsearch')
+          }
+
+          const elasticsearchAPI = getElasticsearchAPI()
+          await elasticsearchAPI.updateAliases(connection, actions)
+        } catch (error) {
+          console.error('更新别名失败:', error)
+          throw error
+        } finally {
+          await get().fetchAliases()
+        }
+      },
+
+      /**
+       * 获取模板列表
+       */
+      getTemplates: async (kind) => {
+        try {
+          const connection = get().currentConnection
+          if (!connection) {
+            throw new Error('未连接到 Elasticsearch')
+          }
+
+          const elasticsearchAPI = getElasticsearchAPI()
+          return await elasticsearchAPI.getTemplates(connection, kind)
+        } catch (error) {
+          console.error('获取模板失败:', error)
+          throw error
+        }
+      },
+
+      /**
+       * 创建或更新模板
+       */
+      putTemplate: async (kind, name, body) => {
+        try {
+          const connection = get().currentConnection
+          if (!connection) {
+            throw new Error('未连接到 Elasticsearch')
+          }
+
+          const elasticsearchAPI = getElasticsearchAPI()
+          await elasticsearchAPI.putTemplate(connection, kind, name, body)
+        } catch (error) {
+          console.error('保存模板失败:', error)
+          throw error
+        }
+      },
+
+      /**
+       * 删除模板
+       */
+      deleteTemplate: async (kind, name) => {
+        try {
+          const connection = get().currentConnection
+          if (!connection) {
+            throw new Error('未连接到 Elasticsearch')
+          }
+
+          const elasticsearchAPI = getElasticsearchAPI()
+          await elasticsearchAPI.deleteTemplate(connection, kind, name)
+        } catch (error) {
+          console.error('删除模板失败:', error)
+          throw error
+        }
+      },
+
+      /**
+       * 模拟指定索引名生效的模板
+       */
+      simulateIndexTemplate: async (indexName) => {
+        try {
+          const connection = get().currentConnection
+          if (!connection) {
+            throw new Error('未连接到 Elasticsearch')
+          }
+
+          const elasticsearchAPI = getElasticsearchAPI()
+          return await elasticsearchAPI.simulateIndexTemplate(connection, indexName)
+        } catch (error) {
+          console.error('模拟模板失败:', error)
+          throw error
+        }
+      },
+
+      /**
+       * 获取 ILM 策略
+       */
+      getIlmPolicies: async () => {
+        try {
+          const connection = get().currentConnection
+          if (!connection) {
+            throw new Error('未连接到 Elasticsearch')
+          }
+
+          const elasticsearchAPI = getElasticsearchAPI()
+          return await elasticsearchAPI.getIlmPolicies(connection)
+        } catch (error) {
+          console.error('获取生命周期策略失败:', error)
+          throw error
+        }
+      },
+
+      /**
+       * 创建或更新 ILM 策略
+       */
+      putIlmPolicy: async (name, policy) => {
+        try {
+          const connection = get().currentConnection
+          if (!connection) {
+            throw new Error('未连接到 Elasticsearch')
+          }
+
+          const elasticsearchAPI = getElasticsearchAPI()
+          await elasticsearchAPI.putIlmPolicy(connection, name, policy)
+        } catch (error) {
+          console.error('保存生命周期策略失败:', error)
+          throw error
+        }
+      },
+
+      /**
+       * 删除 ILM 策略
+       */
+      deleteIlmPolicy: async (name) => {
+        try {
+          const connection = get().currentConnection
+          if (!connection) {
+            throw new Error('未连接到 Elasticsearch')
+          }
+
+          const elasticsearchAPI = getElasticsearchAPI()
+          await elasticsearchAPI.deleteIlmPolicy(connection, name)
+        } catch (error) {
+          console.error('删除生命周期策略失败:', error)
+          throw error
+        }
+      },
+
+      /**
+       * 获取索引的 ILM 执行状态
+       * 集群未启用 ILM 时保持为空
+       */
+      fetchIlmExplain: async () => {
+        try {
+          const connection = get().currentConnection
+          if (!connection) {
+            throw new Error('未连接到 Elasticsearch')
+          }
+
+          const elasticsearchAPI = getElasticsearchAPI()
+          const ilmExplain = await elasticsearchAPI.explainIlm(connection)
+
+          set({ ilmExplain })
+        } catch (error) {
+          console.error('获取索引生命周期状态失败:', error)
+        }
+      },
+
+      /**
+       * 重试索引失败的 ILM 步骤
+       */
+      retryIlmStep: async (index) => {
+        try {
+          const connection = get().currentConnection
+          if (!connection) {
+            throw new Error('未连接到 Elasticsearch')
+          }
+
+          const elasticsearchAPI = getElasticsearchAPI()
+          await elasticsearchAPI.retryIlm(connection, index)
+        } catch (error) {
+          console.error('重试生命周期步骤失败:', error)
+          throw error
+        } finally {
+          await get().fetchIlmExplain()
+        }
+      },
+
+      /**
+       * 获取数据流
+       * 集群不支持数据流时保持为空
+       */
+      fetchDataStreams: async () => {
+        try {
+          const connection = get().currentConnection
+          if (!connection) {
+            throw new Error('未连接到 Elasticsearch')
+          }
+
+          const elasticsearchAPI = getElasticsearchAPI()
+          const dataStreams = await elasticsearchAPI.getDataStreams(connection)
+
+          set({ dataStreams })
+        } catch (error) {
+          console.error('获取数据流失败:', error)
+        }
+      },
+
+      /**
+       * 创建数据流
+       */
+      createDataStream: async (name) => {
+        try {
+          const connection = get().currentConnection
+          if (!connection) {
+            throw new Error('未连接到 Elasticsearch')
+          }
+
+          const elasticsearchAPI = getElasticsearchAPI()
+          await elasticsearchAPI.createDataStream(connection, name)
+          await Promise.all([get().fetchDataStreams(), get().fetchIndices()])
+        } catch (error) {
+          console.error('创建数据流失败:', error)
+          throw error
+        }
+      },
+
+      /**
+       * 删除数据流
+       */
+      deleteDataStream: async (name) => {
+        try {
+          const connection = get().currentConnection
+          if (!connection) {
+            throw new Error('未连接到 Elasticsearch')
+          }
+
+          const elasticsearchAPI = getElasticsearchAPI()
+          await elasticsearchAPI.deleteDataStream(connection, name)
+          await Promise.all([get().fetchDataStreams(), get().fetchIndices()])
+        } catch (error) {
+          console.error('删除数据流失败:', error)
+          throw error
+        }
+      },
+
+      /**
+       * 滚动数据流
+       */
+      rolloverDataStream: async (name) => {
+        try {
+          const connection = get().currentConnection
+          if (!connection) {
+            throw new Error('未连接到 Elasticsearch')
+          }
 
-        try {
-          // 使用 Electron API 测试连接
           const elasticsearchAPI = getElasticsearchAPI()
-          const pingResult = await elasticsearchAPI.ping(connection)
+          const result = await elasticsearchAPI.rolloverDataStream(connection, name)
+          await Promise.all([get().fetchDataStreams(), get().fetchIndices()])
+          return result
+        } catch (error) {
+          console.error('滚动数据流失败:', error)
+          throw error
+        }
+      },
 
-          if (!pingResult) {
-            throw new Error('无法连接到 Elasticsearch 服务器')
+      /**
+       * 获取快照仓库
+       */
+      getSnapshotRepositories: async () => {
+        try {
+          const connection = get().currentConnection
+          if (!connection) {
+            throw new Error('未连接到 Elasticsearch')
           }
 
-          set({
-            currentConnection: { ...connection, status: 'connected' },
-            isConnecting: false,
-            connectionError: null,
-          })
-
-          // 连接成功后获取集群信息
-          await get().fetchClusterInfo()
-          await get().fetchIndices()
-          await get().fetchNodesInfo()
-
+          const elasticsearchAPI = getElasticsearchAPI()
+          return await elasticsearchAPI.getSnapshotRepositories(connection)
         } catch (error) {
-          set({
-            isConnecting: false,
-            connectionError: error instanceof Error ? error.message : '连接失败',
-          })
-          // 连接失败时清除当前连接
-          set({
-            currentConnection: { ...connection, status: 'error' },
-          })
+          console.error('获取快照仓库失败:', error)
           throw error
         }
       },
 
-      disconnect: () => {
-        set(state => ({
-          currentConnection: state.currentConnection ? { ...state.currentConnection, status: 'disconnected' } : null,
-          clusterInfo: null,
-          nodesInfo: null,
-          indices: [],
-          selectedIndex: null,
-          connectionError: null,
-        }))
+      /**
+       * 创建或更新快照仓库
+       */
+      createSnapshotRepository: async (name, type, settings) => {
+        try {
+          const connection = get().currentConnection
+          if (!connection) {
+            throw new Error('未连接到 Elasticsearch')
+          }
+
+          const elasticsearchAPI = getElasticsearchAPI()
+          await elasticsearchAPI.createSnapshotRepository(connection, name, type, settings)
+        } catch (error) {
+          console.error('创建快照仓库失败:', error)
+          throw error
+        }
       },
 
-      testConnection: async (connection) => {
+      /**
+       * 删除快照仓库
+       */
+      deleteSnapshotRepository: async (name) => {
         try {
+          const connection = get().currentConnection
+          if (!connection) {
+            throw new Error('未连接到 Elasticsearch')
+          }
+
           const elasticsearchAPI = getElasticsearchAPI()
-          return await elasticsearchAPI.testConnection(connection)
+          await elasticsearchAPI.deleteSnapshotRepository(connection, name)
         } catch (error) {
-          return {
-            success: false,
-            error: '连接失败: ' + (error instanceof Error ? error.message : '未知错误')
-          }
+          console.error('删除快照仓库失败:', error)
+          throw error
         }
       },
 
       /**
-       * 切换到指定集群
-       * 先断开当前连接，然后连接到新集群
+       * 验证快照仓库，返回能够访问仓库的节点
        */
-      switchCluster: async (connection: ElasticsearchConnection) => {
-        const { currentConnection, disconnect, connect } = get();
-        
-        // 如果当前有连接，先断开
-        if (currentConnection?.status === 'connected') {
-          disconnect();
-        }
-        
-        // 连接到新集群
-        try {
-          await connect(connection);
-          
-          // 保存当前集群ID到本地存储
-          localStorage.setItem('current-cluster-id', connection.id);
-          
-          // 更新本地集群状态
-          const savedClusters = localStorage.getItem('elasticsearch-clusters');
-          if (savedClusters) {
-            const clusters = JSON.parse(savedClusters);
-            const updatedClusters = clusters.map((c: any) => 
-              c.id === connection.id ? { ...c, status: 'connected', lastConnected: new Date() } : c
-            );
-            localStorage.setItem('elasticsearch-clusters', JSON.stringify(updatedClusters));
-          }
-          
-          return true;
-        } catch (error) {
-          // 更新失败状态
-          const savedClusters = localStorage.getItem('elasticsearch-clusters');
-          if (savedClusters) {
-            const clusters = JSON.parse(savedClusters);
-            const updatedClusters = clusters.map((c: any) => 
-              c.id === connection.id ? { ...c, status: 'disconnected' } : c
-            );
-            localStorage.setItem('elasticsearch-clusters', JSON.stringify(updatedClusters));
-          }
-          
-          throw error;
+      verifySnapshotRepository: async (name) => {
+        try {
+          const connection = get().currentConnection
+          if (!connection) {
+            throw new Error('未连接到 Elasticsearch')
+          }
+
+          const elasticsearchAPI = getElasticsearchAPI()
+          return await elasticsearchAPI.verifySnapshotRepository(connection, name)
+        } catch (error) {
+          console.error('验证快照仓库失败:', error)
+          throw error
         }
       },
 
-      // 集群操作
-      fetchClusterInfo: async () => {
+      /**
+       * 获取仓库中的快照
+       */
+      getSnapshots: async (repository) => {
         try {
           const connection = get().currentConnection
           if (!connection) {
@@ -398,15 +2024,17 @@ export const useElasticsearchStore = create<ElasticsearchStore>()(
           }
 
           const elasticsearchAPI = getElasticsearchAPI()
-          const response = await elasticsearchAPI.getClusterInfo(connection)
-
-          set({ clusterInfo: response as ClusterInfo })
+          return await elasticsearchAPI.getSnapshots(connection, repository)
         } catch (error) {
-          console.error('获取集群信息失败:', error)
+          console.error('获取快照失败:', error)
+          throw error
         }
       },
 
-      fetchNodesInfo: async () => {
+      /**
+       * 在后台创建快照
+       */
+      createSnapshot: async (request) => {
         try {
           const connection = get().currentConnection
           if (!connection) {
@@ -414,40 +2042,36 @@ export const useElasticsearchStore = create<ElasticsearchStore>()(
           }
 
           const elasticsearchAPI = getElasticsearchAPI()
-          const response = await elasticsearchAPI.getNodesInfo(connection) as unknown as { nodes: { [key: string]: any } }
+          await elasticsearchAPI.createSnapshot(connection, request)
+        } catch (error) {
+          console.error('创建快照失败:', error)
+          throw error
+        }
+      },
 
-          // 确保节点信息中包含 CPU 和内存使用率
-          if (response && response.nodes) {
-            Object.values(response.nodes).forEach((node: any) => {
-              if (!node.stats?.process?.cpu?.percent) {
-                node.stats = {
-                  ...node.stats,
-                  process: {
-                    ...node.stats?.process,
-                    cpu: { percent: 0 }
-                  }
-                }
-              }
-              if (!node.stats?.process?.mem?.resident_in_bytes) {
-                node.stats = {
-                  ...node.stats,
-                  process: {
-                    ...node.stats?.process,
-                    mem: { resident_in_bytes: 0 }
-                  }
-                }
-              }
-            })
+      /**
+       * 删除快照
+       */
+      deleteSnapshot: async (repository, snapshot) => {
+        try {
+          const connection = get().currentConnection
+          if (!connection) {
+            throw new Error('未连接到 Elasticsearch')
           }
 
-          set({ nodesInfo: response as NodesInfo })
+          const elasticsearchAPI = getElasticsearchAPI()
+          await elasticsearchAPI.deleteSnapshot(connection, repository, snapshot)
         } catch (error) {
-          console.error('获取节点信息失败:', error)
+          console.error('删除快照失败:', error)
+          throw error
         }
       },
 
-      fetchIndices: async () => {
-        set({ isLoading: true })
+      /**
+       * 在后台恢复快照，返回恢复任务 ID
+       * targetIndices 为按重命名规则计算的目标索引，用于跟踪恢复进度
+       */
+      restoreSnapshot: async (request, targetIndices) => {
         try {
           const connection = get().currentConnection
           if (!connection) {
@@ -455,22 +2079,105 @@ export const useElasticsearchStore = create<ElasticsearchStore>()(
           }
 
           const elasticsearchAPI = getElasticsearchAPI()
-          const indices = await elasticsearchAPI.getIndices(connection)
+          await elasticsearchAPI.restoreSnapshot(connection, request)
+
+          const task: RestoreTask = {
+            id: generateId(),
+            repository: request.repository,
+            snapshot: request.snapshot,
+            indices: targetIndices,
+            startedAt: Date.now(),
+            progress: [],
+            completed: false
+          }
+          set(state => ({ restoreTasks: [task, ...state.restoreTasks] }))
 
-          set({ indices })
+          if (!restorePollTimer) {
+            restorePollTimer = setInterval(() => get().refreshRestoreTasks(), RESTORE_POLL_INTERVAL)
+          }
+          get().refreshRestoreTasks()
+          return task.id
         } catch (error) {
-          console.error('获取索引信息失败:', error)
+          console.error('恢复快照失败:', error)
+          throw error
+        }
+      },
+
+      /**
+       * 刷新未完成的恢复任务进度
+       * 所有分片恢复完成后任务标记为完成，没有未完成的任务时停止轮询
+       */
+      refreshRestoreTasks: async () => {
+        const connection = get().currentConnection
+        const pending = get().restoreTasks.filter(task => !task.completed)
+        if (!connection || pending.length === 0) {
+          if (restorePollTimer) {
+            clearInterval(restorePollTimer)
+            restorePollTimer = null
+          }
+          return
+        }
+        if (isPollingRestores) return
+
+        isPollingRestores = true
+        try {
+          const elasticsearchAPI = getElasticsearchAPI()
+          const results = await Promise.all(pending.map(async task => {
+            try {
+              const progress = await elasticsearchAPI.getRestoreProgress(connection, task.indices)
+              const completed = progress.every(item => item.exists && item.totalShards > 0 && item.doneShards === item.totalShards)
+              return { id: task.id, progress, completed, error: undefined }
+            } catch (error) {
+              return { id: task.id, progress: task.progress, completed: false, error: error instanceof Error ? error.message : '未知错误' }
+            }
+          }))
+
+          // 轮询期间切换了集群时丢弃结果
+          if (get().currentConnection?.id !== connection.id) return
+
+          const byId = new Map(results.map(result => [result.id, result]))
+          set(state => ({
+            restoreTasks: state.restoreTasks.map(task => {
+              const result = byId.get(task.id)
+              return result ? { ...task, progress: result.progress, completed: result.completed, error: result.error } : task
+            })
+          }))
+
+          if (results.some(result => result.completed)) {
+            await Promise.all([get().fetchIndices(), get().fetchDataStreams()])
+          }
         } finally {
-          set({ isLoading: false })
+          isPollingRestores = false
         }
       },
 
-      // 索引操作
-      setSelectedIndex: (index) => {
-        set({ selectedIndex: index })
+      /**
+       * 移除恢复任务，不会中止集群中正在进行的恢复
+       */
+      dismissRestoreTask: (id) => {
+        set(state => ({ restoreTasks: state.restoreTasks.filter(task => task.id !== id) }))
       },
 
-      createIndex: async (name, settings) => {
+      /**
+       * 选择要导入的文件
+       */
+      selectImportFile: async () => {
+        const elasticsearchAPI = getElasticsearchAPI()
+        return await elasticsearchAPI.selectImportFile()
+      },
+
+      /**
+       * 预览导入文件
+       */
+      previewImportFile: async (fileToken, options) => {
+        const elasticsearchAPI = getElasticsearchAPI()
+        return await elasticsearchAPI.previewImportFile(fileToken, options)
+      },
+
+      /**
+       * 批量导入文件，进度通过 onImportProgress 事件获取
+       */
+      bulkImport: async (request) => {
         try {
           const connection = get().currentConnection
           if (!connection) {
@@ -478,19 +2185,36 @@ export const useElasticsearchStore = create<ElasticsearchStore>()(
           }
 
           const elasticsearchAPI = getElasticsearchAPI()
-          const result = await elasticsearchAPI.createIndex(connection, name, settings)
-
-          // 刷新索引列表
-          await get().fetchIndices()
-
-          return result
+          return await elasticsearchAPI.bulkImport(connection, request)
         } catch (error) {
-          console.error('创建索引失败:', error)
+          console.error('导入数据失败:', error)
           throw error
+        } finally {
+          // 目标索引可能已经创建，即使导入失败也需要刷新
+          await Promise.all([get().fetchIndices(), get().fetchDataStreams()])
         }
       },
 
-      deleteIndex: async (name) => {
+      /**
+       * 取消导入
+       */
+      cancelImport: async (importId) => {
+        const elasticsearchAPI = getElasticsearchAPI()
+        await elasticsearchAPI.cancelImport(importId)
+      },
+
+      /**
+       * 选择导出文件的保存位置
+       */
+      selectExportFile: async (defaultName, format) => {
+        const elasticsearchAPI = getElasticsearchAPI()
+        return await elasticsearchAPI.selectExportFile(defaultName, format)
+      },
+
+      /**
+       * 导出查询匹配的所有文档，进度通过 onExportProgress 事件获取
+       */
+      exportDocuments: async (request) => {
         try {
           const connection = get().currentConnection
           if (!connection) {
@@ -498,26 +2222,60 @@ export const useElasticsearchStore = create<ElasticsearchStore>()(
           }
 
           const elasticsearchAPI = getElasticsearchAPI()
-          const result = await elasticsearchAPI.deleteIndex(connection, name)
+          return await elasticsearchAPI.exportDocuments(connection, request)
+        } catch (error) {
+          console.error('导出数据失败:', error)
+          throw error
+        }
+      },
 
-          // 刷新索引列表
-          await get().fetchIndices()
+      /**
+       * 取消导出
+       */
+      cancelExport: async (exportId) => {
+        const elasticsearchAPI = getElasticsearchAPI()
+        await elasticsearchAPI.cancelExport(exportId)
+      },
 
-          return result
+      /**
+       * 启动重建索引任务，返回任务 ID
+       */
+      startReindex: async (request) => {
+        try {
+          const connection = get().currentConnection
+          if (!connection) {
+            throw new Error('未连接到 Elasticsearch')
+          }
+
+          const elasticsearchAPI = getElasticsearchAPI()
+          const { taskId } = await elasticsearchAPI.startReindex(connection, request)
+          if (request.createDest) {
+            await get().fetchIndices()
+          }
+          return taskId
         } catch (error) {
-          console.error('删除索引失败:', error)
+          console.error('启动重建索引失败:', error)
           throw error
         }
       },
 
-      refreshIndices: async () => {
-        await get().fetchIndices()
+      /**
+       * 获取重建索引任务状态
+       */
+      getReindexTask: async (taskId) => {
+        const connection = get().currentConnection
+        if (!connection) {
+          throw new Error('未连接到 Elasticsearch')
+        }
+
+        const elasticsearchAPI = getElasticsearchAPI()
+        return await elasticsearchAPI.getReindexTask(connection, taskId)
       },
 
       /**
-       * 获取索引设置
+       * 取消任务
        */
-      getIndexSettings: async (indexName) => {
+      cancelTask: async (taskId) => {
         try {
           const connection = get().currentConnection
           if (!connection) {
@@ -525,19 +2283,35 @@ export const useElasticsearchStore = create<ElasticsearchStore>()(
           }
 
           const elasticsearchAPI = getElasticsearchAPI()
-          const result = await elasticsearchAPI.getIndexSettings(connection, indexName)
+          await elasticsearchAPI.cancelTask(connection, taskId)
+        } catch (error) {
+          console.error('取消任务失败:', error)
+          throw error
+        }
+      },
 
-          return result
+      /**
+       * 局部更新文档
+       */
+      updateDocument: async (index, id, doc, options) => {
+        try {
+          const connection = get().currentConnection
+          if (!connection) {
+            throw new Error('未连接到 Elasticsearch')
+          }
+
+          const elasticsearchAPI = getElasticsearchAPI()
+          return await elasticsearchAPI.updateDocument(connection, index, id, doc, options)
         } catch (error) {
-          console.error('获取索引设置失败:', error)
+          console.error('更新文档失败:', error)
           throw error
         }
       },
 
       /**
-       * 获取索引映射
+       * 写入文档（创建或整体替换）
        */
-      getIndexMapping: async (indexName) => {
+      indexDocument: async (index, document, id, options) => {
         try {
           const connection = get().currentConnection
           if (!connection) {
@@ -545,11 +2319,27 @@ export const useElasticsearchStore = create<ElasticsearchStore>()(
           }
 
           const elasticsearchAPI = getElasticsearchAPI()
-          const result = await elasticsearchAPI.getIndexMapping(connection, indexName)
+          return await elasticsearchAPI.indexDocument(connection, index, document, id, options)
+        } catch (error) {
+          console.error('保存文档失败:', error)
+          throw error
+        }
+      },
 
-          return result
+      /**
+       * 删除文档
+       */
+      deleteDocument: async (index, id, options) => {
+        try {
+          const connection = get().currentConnection
+          if (!connection) {
+            throw new Error('未连接到 Elasticsearch')
+          }
+
+          const elasticsearchAPI = getElasticsearchAPI()
+          return await elasticsearchAPI.deleteDocument(connection, index, id, options)
         } catch (error) {
-          console.error('获取索引映射失败:', error)
+          console.error('删除文档失败:', error)
           throw error
         }
       },
@@ -608,9 +2398,10 @@ export const useElasticsearchStore = create<ElasticsearchStore>()(
     {
       name: 'magic-cube-elasticsearch-store',
       // 持久化连接配置、当前连接、连接状态和查询历史
+      // 机密字段保存在主进程凭据库中，不写入 localStorage
       partialize: (state) => ({
-        connections: state.connections,
-        currentConnection: state.currentConnection,
+        connections: state.connections.map(conn => separateSecrets(conn).connection),
+        currentConnection: state.currentConnection && separateSecrets(state.currentConnection).connection,
         queryHistory: state.queryHistory,
       }),
     }
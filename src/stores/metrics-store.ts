@@ -0,0 +1,222 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import { useElasticsearchStore } from '@/stores/elasticsearch-store'
+
+/**
+ * 节点统计采样，计数类字段为节点启动以来的累计值
+ */
+export interface NodeStatsSample {
+  nodeId: string
+  name: string
+  timestamp: number
+  cpuPercent: number
+  heapUsedBytes: number
+  heapMaxBytes: number
+  gcCollectionTimeMs: number
+  indexingTotal: number
+  searchQueryTotal: number
+  searchQueryTimeMs: number
+  diskTotalBytes: number
+  diskFreeBytes: number
+}
+
+/**
+ * 节点指标数据点
+ * 速率类指标由相邻两次采样的差值计算，第一次采样时为 null
+ */
+export interface NodeMetricPoint {
+  timestamp: number
+  cpuPercent: number
+  heapPercent: number
+  heapUsedBytes: number
+  diskUsedPercent: number
+  gcTimePerSecond: number | null
+  indexingRate: number | null
+  searchRate: number | null
+  queryLatencyMs: number | null
+}
+
+/**
+ * 单个节点的指标历史
+ */
+export interface NodeMetricHistory {
+  name: string
+  points: NodeMetricPoint[]
+}
+
+/**
+ * 指标采样状态接口
+ */
+interface MetricsState {
+  // 采样配置
+  samplingInterval: number
+  maxPoints: number
+  persistHistory: boolean
+
+  // 采样状态
+  isSampling: boolean
+  samplingError: string | null
+
+  // 指标历史，按节点 ID 分组，只保存当前连接的数据
+  connectionId: string | null
+  history: Record<string, NodeMetricHistory>
+}
+
+/**
+ * 指标采样操作接口
+ */
+interface MetricsActions {
+  startSampling: () => void
+  stopSampling: () => void
+  sampleNow: () => Promise<void>
+  setSamplingInterval: (seconds: number) => void
+  setPersistHistory: (persist: boolean) => void
+  clearHistory: () => void
+}
+
+/**
+ * 指标采样 Store 类型
+ */
+export type MetricsStore = MetricsState & MetricsActions
+
+/**
+ * 采样间隔可选范围（秒）
+ */
+export const MIN_SAMPLING_INTERVAL = 5
+export const MAX_SAMPLING_INTERVAL = 300
+
+/**
+ * 默认保留的采样点数，15 秒间隔下约一小时
+ */
+const DEFAULT_MAX_POINTS = 240
+
+// 定时器和上一次的原始采样只存在于内存中
+let samplingTimer: ReturnType<typeof setInterval> | null = null
+let previousSamples: Record<string, NodeStatsSample> = {}
+
+/**
+ * 计算两次采样之间的速率，计数器回退（节点重启）时返回 null
+ */
+function ratePerSecond(current: number, previous: number, elapsedSeconds: number): number | null {
+  if (elapsedSeconds <= 0 || current < previous) return null
+  return (current - previous) / elapsedSeconds
+}
+
+/**
+ * 由原始采样计算数据点
+ */
+function toMetricPoint(sample: NodeStatsSample, previous?: NodeStatsSample): NodeMetricPoint {
+  const elapsedSeconds = previous ? (sample.timestamp - previous.timestamp) / 1000 : 0
+  const queries = previous ? sample.searchQueryTotal - previous.searchQueryTotal : 0
+
+  return {
+    timestamp: sample.timestamp,
+    cpuPercent: sample.cpuPercent,
+    heapPercent: sample.heapMaxBytes > 0 ? (sample.heapUsedBytes / sample.heapMaxBytes) * 100 : 0,
+    heapUsedBytes: sample.heapUsedBytes,
+    diskUsedPercent: sample.diskTotalBytes > 0 ? ((sample.diskTotalBytes - sample.diskFreeBytes) / sample.diskTotalBytes) * 100 : 0,
+    gcTimePerSecond: previous ? ratePerSecond(sample.gcCollectionTimeMs, previous.gcCollectionTimeMs, elapsedSeconds) : null,
+    indexingRate: previous ? ratePerSecond(sample.indexingTotal, previous.indexingTotal, elapsedSeconds) : null,
+    searchRate: previous ? ratePerSecond(sample.searchQueryTotal, previous.searchQueryTotal, elapsedSeconds) : null,
+    queryLatencyMs: previous && queries > 0 ? (sample.searchQueryTimeMs - previous.searchQueryTimeMs) / queries : null,
+  }
+}
+
+/**
+ * 节点指标采样 Store
+ * 按配置的间隔在后台轮询 nodes.stats，为每个节点保留滚动的指标历史；开启持久化时历史保存到本地
+ */
+export const useMetricsStore = create<MetricsStore>()(
+  persist(
+    (set, get) => ({
+      samplingInterval: 15,
+      maxPoints: DEFAULT_MAX_POINTS,
+      persistHistory: false,
+      isSampling: false,
+      samplingError: null,
+      connectionId: null,
+      history: {},
+
+      startSampling: () => {
+        if (samplingTimer) {
+          clearInterval(samplingTimer)
+        }
+        set({ isSampling: true })
+        get().sampleNow()
+        samplingTimer = setInterval(() => get().sampleNow(), get().samplingInterval * 1000)
+      },
+
+      stopSampling: () => {
+        if (samplingTimer) {
+          clearInterval(samplingTimer)
+          samplingTimer = null
+        }
+        previousSamples = {}
+        set({ isSampling: false })
+      },
+
+      sampleNow: async () => {
+        const connection = useElasticsearchStore.getState().currentConnection
+        if (!connection || connection.status !== 'connected' || !window.electronAPI?.elasticsearch) {
+          return
+        }
+
+        try {
+          const samples = await window.electronAPI.elasticsearch.getNodeStats(connection)
+          // 采样期间切换了集群时丢弃结果
+          if (useElasticsearchStore.getState().currentConnection?.id !== connection.id) {
+            return
+          }
+
+          const { connectionId, maxPoints } = get()
+          const history = connectionId === connection.id ? { ...get().history } : {}
+          if (connectionId !== connection.id) {
+            previousSamples = {}
+          }
+
+          samples.forEach(sample => {
+            const point = toMetricPoint(sample, previousSamples[sample.nodeId])
+            const points = [...(history[sample.nodeId]?.points || []), point]
+            history[sample.nodeId] = {
+              name: sample.name,
+              points: points.slice(-maxPoints)
+            }
+            previousSamples[sample.nodeId] = sample
+          })
+
+          set({ connectionId: connection.id, history, samplingError: null })
+        } catch (error) {
+          console.error('采集节点指标失败:', error)
+          set({ samplingError: error instanceof Error ? error.message : '采集节点指标失败' })
+        }
+      },
+
+      setSamplingInterval: (seconds) => {
+        const samplingInterval = Math.min(MAX_SAMPLING_INTERVAL, Math.max(MIN_SAMPLING_INTERVAL, seconds))
+        set({ samplingInterval })
+        // 正在采样时按新的间隔重新调度
+        if (get().isSampling) {
+          get().startSampling()
+        }
+      },
+
+      setPersistHistory: (persistHistory) => {
+        set({ persistHistory })
+      },
+
+      clearHistory: () => {
+        previousSamples = {}
+        set({ history: {}, connectionId: null })
+      },
+    }),
+    {
+      name: 'magic-cube-metrics-store',
+      partialize: (state) => ({
+        samplingInterval: state.samplingInterval,
+        maxPoints: state.maxPoints,
+        persistHistory: state.persistHistory,
+        ...(state.persistHistory ? { connectionId: state.connectionId, history: state.history } : {}),
+      }),
+    }
+  )
+)
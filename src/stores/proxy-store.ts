@@ -0,0 +1,73 @@
+import { create } from 'zustand'
+import { ProxyProfile } from '@/stores/elasticsearch-store'
+
+/**
+ * 获取代理 API
+ */
+const getProxyAPI = () => {
+  if (typeof window !== 'undefined' && window.electronAPI && window.electronAPI.proxy) {
+    return window.electronAPI.proxy
+  }
+  throw new Error('Proxy API not available. Please ensure you are running in Electron environment.')
+}
+
+/**
+ * 全局代理配置
+ * 同时作用于 Elasticsearch 连接和 Ollama 请求，密码保存在凭据库中
+ */
+export interface GlobalProxySettings extends ProxyProfile {
+  enabled: boolean
+  credentialId?: string
+}
+
+/**
+ * 代理状态接口
+ */
+interface ProxyState {
+  globalProxy: GlobalProxySettings | null
+  isLoading: boolean
+}
+
+/**
+ * 代理操作接口
+ */
+interface ProxyActions {
+  fetchGlobalProxy: () => Promise<GlobalProxySettings | null>
+  saveGlobalProxy: (settings: GlobalProxySettings) => Promise<GlobalProxySettings>
+}
+
+/**
+ * 代理 Store 类型
+ */
+export type ProxyStore = ProxyState & ProxyActions
+
+/**
+ * 代理状态管理 Store
+ * 不做持久化，配置由主进程保存，启动时即可作用于所有请求
+ */
+export const useProxyStore = create<ProxyStore>()((set) => ({
+  globalProxy: null,
+  isLoading: false,
+
+  fetchGlobalProxy: async () => {
+    try {
+      const globalProxy = await getProxyAPI().getGlobal()
+      set({ globalProxy })
+      return globalProxy
+    } catch (error) {
+      console.error('获取代理配置失败:', error)
+      return null
+    }
+  },
+
+  saveGlobalProxy: async (settings) => {
+    set({ isLoading: true })
+    try {
+      const globalProxy = await getProxyAPI().setGlobal(settings)
+      set({ globalProxy })
+      return globalProxy
+    } finally {
+      set({ isLoading: false })
+    }
+  },
+}))
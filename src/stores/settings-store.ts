@@ -0,0 +1,95 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+
+/**
+ * 用户偏好设置
+ */
+export interface Preferences {
+  // 自动刷新集群数据
+  autoRefresh: boolean
+  // 自动刷新间隔（秒）
+  refreshInterval: number
+  // 单次查询返回的最大文档数
+  maxResults: number
+  // 启用通知
+  enableNotifications: boolean
+}
+
+/**
+ * 设置操作接口
+ */
+interface SettingsActions {
+  updatePreferences: (updates: Partial<Preferences>) => void
+  resetPreferences: () => void
+}
+
+/**
+ * 设置 Store 类型
+ */
+export type SettingsStore = Preferences & SettingsActions
+
+/**
+ * 刷新间隔范围（秒）
+ */
+export const MIN_REFRESH_INTERVAL = 5
+export const MAX_REFRESH_INTERVAL = 3600
+
+/**
+ * 最大返回结果数范围，上限与 index.max_result_window 的默认值一致
+ */
+export const MIN_MAX_RESULTS = 1
+export const MAX_MAX_RESULTS = 10000
+
+/**
+ * 默认偏好设置
+ */
+export const DEFAULT_PREFERENCES: Preferences = {
+  autoRefresh: true,
+  refreshInterval: 30,
+  maxResults: 100,
+  enableNotifications: true,
+}
+
+/**
+ * 将数值限制在范围内，非法值使用默认值
+ */
+function clamp(value: number, min: number, max: number, fallback: number): number {
+  if (!Number.isFinite(value)) return fallback
+  return Math.min(max, Math.max(min, Math.round(value)))
+}
+
+/**
+ * 设置状态管理 Store
+ * 保存用户偏好，由刷新调度器和查询页面读取
+ */
+export const useSettingsStore = create<SettingsStore>()(
+  persist(
+    (set) => ({
+      ...DEFAULT_PREFERENCES,
+
+      updatePreferences: (updates) => {
+        set((state) => {
+          const next = { ...state, ...updates }
+          return {
+            ...next,
+            refreshInterval: clamp(next.refreshInterval, MIN_REFRESH_INTERVAL, MAX_REFRESH_INTERVAL, DEFAULT_PREFERENCES.refreshInterval),
+            maxResults: clamp(next.maxResults, MIN_MAX_RESULTS, MAX_MAX_RESULTS, DEFAULT_PREFERENCES.maxResults),
+          }
+        })
+      },
+
+      resetPreferences: () => {
+        set(DEFAULT_PREFERENCES)
+      },
+    }),
+    {
+      name: 'magic-cube-settings-store',
+      partialize: (state) => ({
+        autoRefresh: state.autoRefresh,
+        refreshInterval: state.refreshInterval,
+        maxResults: state.maxResults,
+        enableNotifications: state.enableNotifications,
+      }),
+    }
+  )
+)
@@ -0,0 +1,154 @@
+import { create } from 'zustand'
+import { useElasticsearchStore, separateSecrets, hasSecrets, ConnectionSecrets, ElasticsearchConnection } from '@/stores/elasticsearch-store'
+
+/**
+ * 获取凭据库 API
+ */
+const getVaultAPI = () => {
+  if (typeof window !== 'undefined' && window.electronAPI && window.electronAPI.vault) {
+    return window.electronAPI.vault
+  }
+  throw new Error('Vault API not available. Please ensure you are running in Electron environment.')
+}
+
+/**
+ * 凭据库加密模式
+ */
+export type VaultMode = 'keyfile' | 'passphrase'
+
+/**
+ * 决定凭据发往哪些地址的连接字段
+ */
+export type ConnectionTarget = Pick<ElasticsearchConnection, 'host' | 'port' | 'protocol' | 'nodes' | 'authType' | 'username' | 'cloudId' | 'sshTunnel' | 'proxyMode' | 'proxy'>
+
+/**
+ * 凭据库状态
+ */
+export interface VaultStatus {
+  initialized: boolean
+  unlocked: boolean
+  mode: VaultMode | null
+}
+
+/**
+ * 凭据库状态接口
+ */
+interface VaultState {
+  status: VaultStatus | null
+  isLoading: boolean
+  error: string | null
+}
+
+/**
+ * 凭据库操作接口
+ */
+interface VaultActions {
+  fetchStatus: () => Promise<VaultStatus | null>
+  configure: (mode: VaultMode, passphrase?: string) => Promise<void>
+  unlock: (passphrase?: string) => Promise<void>
+  lock: () => Promise<void>
+
+  // 凭据操作，凭据绑定到连接的集群、跳板机和代理地址
+  saveCredential: (credentialId: string | null | undefined, secrets: ConnectionSecrets, connection: ConnectionTarget) => Promise<string>
+  deleteCredential: (credentialId: string) => Promise<void>
+
+  // 将连接仓库中遗留的明文凭据迁移到凭据库
+  migrateLegacyCredentials: () => Promise<void>
+}
+
+/**
+ * 凭据库 Store 类型
+ */
+export type VaultStore = VaultState & VaultActions
+
+/**
+ * 凭据库状态管理 Store
+ * 不做持久化，状态以主进程为准
+ */
+export const useVaultStore = create<VaultStore>()((set, get) => ({
+  status: null,
+  isLoading: false,
+  error: null,
+
+  fetchStatus: async () => {
+    try {
+      const status = await getVaultAPI().getStatus()
+      set({ status })
+      return status
+    } catch (error) {
+      console.error('获取凭据库状态失败:', error)
+      return null
+    }
+  },
+
+  configure: async (mode, passphrase) => {
+    set({ isLoading: true, error: null })
+    try {
+      const status = await getVaultAPI().configure(mode, passphrase)
+      set({ status })
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : '配置凭据库失败' })
+      throw error
+    } finally {
+      set({ isLoading: false })
+    }
+  },
+
+  unlock: async (passphrase) => {
+    set({ isLoading: true, error: null })
+    try {
+      const status = await getVaultAPI().unlock(passphrase)
+      set({ status })
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : '解锁凭据库失败' })
+      throw error
+    } finally {
+      set({ isLoading: false })
+    }
+  },
+
+  lock: async () => {
+    const status = await getVaultAPI().lock()
+    set({ status })
+  },
+
+  saveCredential: async (credentialId, secrets, connection) => {
+    const id = await getVaultAPI().saveCredential(credentialId ?? null, { ...secrets }, connection)
+    // 首次保存时主进程会自动初始化凭据库，同步最新状态
+    await get().fetchStatus()
+    return id
+  },
+
+  deleteCredential: async (credentialId) => {
+    await getVaultAPI().deleteCredential(credentialId)
+  },
+
+  migrateLegacyCredentials: async () => {
+    // 连接列表和当前连接中的同一连接复用同一条凭据
+    const migrated = new Map<string, string>()
+
+    const migrate = async <T extends ElasticsearchConnection>(item: T): Promise<T> => {
+      const { connection, secrets } = separateSecrets(item)
+      if (!hasSecrets(secrets)) {
+        return item
+      }
+      const credentialId = await get().saveCredential(item.credentialId ?? migrated.get(item.id), secrets, connection)
+      migrated.set(item.id, credentialId)
+      return { ...connection, credentialId }
+    }
+
+    try {
+      const { connections, currentConnection } = useElasticsearchStore.getState()
+      const updatedConnections = []
+      for (const connection of connections) {
+        updatedConnections.push(await migrate(connection))
+      }
+      useElasticsearchStore.setState({
+        connections: updatedConnections,
+        currentConnection: currentConnection && await migrate(currentConnection),
+      })
+    } catch (error) {
+      console.error('迁移凭据失败:', error)
+    }
+  },
+}))
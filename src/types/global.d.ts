@@ -2,6 +2,73 @@
  * 全局类型定义
  */
 
+/**
+ * TLS 配置
+ */
+interface TlsProfile {
+  caPath?: string
+  caPem?: string
+  certPath?: string
+  keyPath?: string
+  keyPassphrase?: string
+  caFingerprint?: string
+  allowInsecure?: boolean
+}
+
+/**
+ * SSH 隧道配置
+ */
+interface SshTunnelProfile {
+  enabled?: boolean
+  host: string
+  port?: number
+  username: string
+  authMethod?: 'privateKey' | 'password'
+  privateKeyPath?: string
+  passphrase?: string
+  password?: string
+  localPort?: number
+}
+
+/**
+ * 传输层配置
+ */
+interface TransportProfile {
+  sniffOnStart?: boolean
+  sniffOnConnectionFault?: boolean
+  requestTimeout?: number
+  maxRetries?: number
+}
+
+/**
+ * 代理配置
+ */
+interface ProxyProfile {
+  protocol: 'http' | 'https' | 'socks5'
+  host: string
+  port: number
+  username?: string
+  password?: string
+  noProxy?: string[]
+}
+
+/**
+ * 全局代理配置
+ */
+interface GlobalProxySettings extends ProxyProfile {
+  enabled: boolean
+  credentialId?: string
+}
+
+/**
+ * 节点响应信息
+ */
+interface NodeResponseInfo {
+  connectionId: string
+  node: string
+  timestamp: string
+}
+
 /**
  * Elasticsearch 连接配置
  */
@@ -11,14 +78,545 @@ interface ElasticsearchConnection {
   host: string
   port: number
   protocol: 'http' | 'https'
+  nodes?: string[]
+  transport?: TransportProfile
+  authType?: 'none' | 'basic' | 'apiKey' | 'bearer' | 'cloud'
   username?: string
   password?: string
   apiKey?: string
+  bearerToken?: string
+  cloudId?: string
+  credentialId?: string
+  tls?: TlsProfile
+  sshTunnel?: SshTunnelProfile
+  proxyMode?: 'global' | 'none' | 'custom'
+  proxy?: ProxyProfile
   isDefault: boolean
   createdAt: string
   updatedAt: string
 }
 
+/**
+ * 决定凭据发往哪些地址的连接字段
+ */
+type ConnectionTarget = Pick<ElasticsearchConnection, 'host' | 'port' | 'protocol' | 'nodes' | 'authType' | 'username' | 'cloudId' | 'sshTunnel' | 'proxyMode' | 'proxy'>
+
+/**
+ * 索引运维操作
+ */
+type IndexOperation = 'open' | 'close' | 'refresh' | 'flush' | 'forcemerge' | 'clear-cache' | 'freeze' | 'unfreeze'
+
+/**
+ * 索引运维操作选项
+ */
+interface IndexOperationOptions {
+  maxNumSegments?: number
+}
+
+/**
+ * 索引设置更新选项，reopen 用于修改静态设置
+ */
+interface IndexSettingsUpdateOptions {
+  reopen?: boolean
+}
+
+/**
+ * 导入文件格式
+ */
+type ImportFormat = 'ndjson' | 'csv' | 'json'
+
+/**
+ * 推断的字段类型
+ */
+type ImportFieldType = 'keyword' | 'text' | 'long' | 'double' | 'boolean' | 'date' | 'object'
+
+/**
+ * 导入字段
+ */
+interface ImportColumn {
+  name: string
+  field: string
+  type: ImportFieldType
+}
+
+/**
+ * 文件预览选项
+ */
+interface ImportPreviewOptions {
+  format?: ImportFormat
+  delimiter?: string
+}
+
+/**
+ * 文件预览
+ */
+interface ImportPreview {
+  filePath: string
+  fileName: string
+  sizeBytes: number
+  format: ImportFormat
+  delimiter: string
+  columns: ImportColumn[]
+  sample: Record<string, any>[]
+  sampledRecords: number
+  parseErrors: string[]
+}
+
+/**
+ * 导入请求
+ */
+interface ImportRequest {
+  importId: string
+  fileToken: string
+  format: ImportFormat
+  delimiter?: string
+  columns?: ImportColumn[]
+  index: string
+  opType: 'index' | 'create'
+  idField?: string
+  createIndex?: { mappings: Record<string, any>; settings?: Record<string, any> }
+  flushBytes?: number
+  concurrency?: number
+}
+
+/**
+ * 导入进度
+ */
+interface ImportProgress {
+  importId: string
+  bytesRead: number
+  totalBytes: number
+  records: number
+  successful: number
+  failed: number
+}
+
+/**
+ * 单个文档的导入错误
+ */
+interface ImportDocumentError {
+  line?: number
+  id?: string
+  status?: number
+  reason: string
+  document?: string
+}
+
+/**
+ * 导入结果
+ */
+interface ImportResult {
+  importId: string
+  records: number
+  successful: number
+  failed: number
+  errors: ImportDocumentError[]
+  errorsTruncated: boolean
+  aborted: boolean
+  timeMs: number
+}
+
+/**
+ * 用户在文件对话框中选择的文件
+ * 主进程通过令牌取回路径，filePath 仅用于展示
+ */
+interface SelectedFile {
+  fileToken: string
+  filePath: string
+}
+
+/**
+ * 导出文件格式
+ */
+type ExportFormat = 'csv' | 'ndjson' | 'xlsx'
+
+/**
+ * 导出请求
+ */
+interface ExportRequest {
+  exportId: string
+  fileToken: string
+  format: ExportFormat
+  index: string
+  query?: Record<string, any>
+  sort?: any[]
+  columns?: string[]
+  includeMetadata?: boolean
+  delimiter?: string
+  maxRows?: number
+  batchSize?: number
+}
+
+/**
+ * 导出进度
+ */
+interface ExportProgress {
+  exportId: string
+  rows: number
+  total: number
+}
+
+/**
+ * 导出结果
+ */
+interface ExportResult {
+  exportId: string
+  filePath: string
+  rows: number
+  total: number
+  sizeBytes: number
+  aborted: boolean
+  limitReached: boolean
+  timeMs: number
+}
+
+/**
+ * 支持注册的快照仓库类型
+ */
+type SnapshotRepositoryType = 'fs' | 'url' | 's3' | 'gcs' | 'azure' | 'source'
+
+/**
+ * 快照仓库信息
+ */
+interface SnapshotRepositoryInfo {
+  name: string
+  type: string
+  settings: Record<string, any>
+}
+
+/**
+ * 快照信息
+ */
+interface SnapshotInfo {
+  snapshot: string
+  uuid: string
+  repository: string
+  state: string
+  indices: string[]
+  dataStreams: string[]
+  includeGlobalState: boolean
+  startTime?: number
+  endTime?: number
+  durationMs?: number
+  shards: { total: number; successful: number; failed: number }
+  sizeBytes?: number
+  failures: string[]
+}
+
+/**
+ * 创建快照请求
+ */
+interface CreateSnapshotRequest {
+  repository: string
+  snapshot: string
+  indices: string[]
+  includeGlobalState: boolean
+  ignoreUnavailable?: boolean
+}
+
+/**
+ * 恢复快照请求
+ */
+interface RestoreSnapshotRequest {
+  repository: string
+  snapshot: string
+  indices: string[]
+  renamePattern?: string
+  renameReplacement?: string
+  indexSettings?: Record<string, any>
+  ignoreIndexSettings?: string[]
+  includeAliases: boolean
+}
+
+/**
+ * 单个索引的恢复进度
+ */
+interface RestoreIndexProgress {
+  index: string
+  exists: boolean
+  totalShards: number
+  doneShards: number
+  totalBytes: number
+  recoveredBytes: number
+}
+
+/**
+ * 数据流信息
+ */
+interface DataStreamInfo {
+  name: string
+  timestampField: string
+  indices: string[]
+  generation: number
+  status: string
+  template: string
+  ilmPolicy?: string
+  hidden: boolean
+  storeSizeBytes?: number
+  maximumTimestamp?: number
+}
+
+/**
+ * ILM 策略信息
+ */
+interface IlmPolicyInfo {
+  name: string
+  version?: number
+  modifiedDate?: string
+  phases: Record<string, any>
+  meta?: Record<string, any>
+  inUseBy: { indices: string[]; dataStreams: string[]; templates: string[] }
+}
+
+/**
+ * 索引的 ILM 执行状态
+ */
+interface IlmExplainInfo {
+  index: string
+  policy: string
+  phase?: string
+  action?: string
+  step?: string
+  age?: string
+  failedStep?: string
+  stepInfo?: string
+  isAutoRetryableError?: boolean
+  failedStepRetryCount?: number
+}
+
+/**
+ * 模板类型
+ */
+type TemplateKind = 'index' | 'component'
+
+/**
+ * 模板信息
+ */
+interface TemplateInfo {
+  name: string
+  kind: TemplateKind
+  indexPatterns: string[]
+  composedOf: string[]
+  priority?: number
+  version?: number
+  dataStream: boolean
+  managed: boolean
+  body: Record<string, any>
+}
+
+/**
+ * 模板模拟结果
+ */
+interface SimulatedIndexTemplate {
+  settings: Record<string, any>
+  mappings: Record<string, any>
+  aliases: Record<string, any>
+  overlapping: { name: string; indexPatterns: string[] }[]
+}
+
+/**
+ * 别名信息
+ */
+interface AliasInfo {
+  alias: string
+  index: string
+  isWriteIndex?: boolean
+  filter?: Record<string, any>
+  indexRouting?: string
+  searchRouting?: string
+}
+
+/**
+ * 别名操作
+ */
+interface AliasAction {
+  type: 'add' | 'remove'
+  alias: string
+  index: string
+  filter?: Record<string, any>
+  indexRouting?: string
+  searchRouting?: string
+  isWriteIndex?: boolean
+}
+
+/**
+ * 重建索引请求
+ */
+interface ReindexRequest {
+  source: string
+  dest: string
+  query?: Record<string, any>
+  script?: string
+  createDest?: boolean
+  requestsPerSecond?: number
+  slices?: number | 'auto'
+  conflicts?: 'abort' | 'proceed'
+}
+
+/**
+ * 重建索引任务状态
+ */
+interface ReindexTaskStatus {
+  taskId: string
+  completed: boolean
+  cancelled: boolean
+  total: number
+  created: number
+  updated: number
+  deleted: number
+  noops: number
+  versionConflicts: number
+  batches: number
+  requestsPerSecond: number
+  runningTimeMs: number
+  failures: string[]
+  error?: string
+}
+
+/**
+ * 文档写入选项
+ */
+interface DocumentWriteOptions {
+  ifSeqNo?: number
+  ifPrimaryTerm?: number
+  refresh?: boolean | 'wait_for'
+}
+
+/**
+ * 集群健康状态
+ */
+interface ClusterHealth {
+  cluster_name: string
+  status: 'green' | 'yellow' | 'red'
+  timed_out: boolean
+  number_of_nodes: number
+  number_of_data_nodes: number
+  active_primary_shards: number
+  active_shards: number
+  relocating_shards: number
+  initializing_shards: number
+  unassigned_shards: number
+  delayed_unassigned_shards: number
+  number_of_pending_tasks: number
+  number_of_in_flight_fetch: number
+  task_max_waiting_in_queue_millis: number
+  active_shards_percent_as_number: number
+}
+
+/**
+ * 等待执行的集群任务
+ */
+interface PendingTask {
+  insertOrder: number
+  priority: string
+  source: string
+  timeInQueueMillis: number
+  executing: boolean
+}
+
+/**
+ * 分片信息
+ */
+interface ShardInfo {
+  index: string
+  shard: number
+  primary: boolean
+  state: 'STARTED' | 'RELOCATING' | 'INITIALIZING' | 'UNASSIGNED'
+  docs?: number
+  storeBytes?: number
+  node?: string
+  relocatingNode?: string
+  unassignedReason?: string
+  unassignedAt?: string
+}
+
+/**
+ * 节点磁盘使用情况
+ */
+interface NodeDiskUsage {
+  node: string
+  shards: number
+  diskUsedBytes?: number
+  diskAvailBytes?: number
+  diskTotalBytes?: number
+  diskPercent?: number
+}
+
+/**
+ * 磁盘水位线配置，值为百分比或剩余空间大小
+ */
+interface DiskWatermarks {
+  enabled: boolean
+  low: string
+  high: string
+  floodStage: string
+}
+
+/**
+ * 节点统计采样，计数类字段为节点启动以来的累计值
+ */
+interface NodeStatsSample {
+  nodeId: string
+  name: string
+  timestamp: number
+  cpuPercent: number
+  heapUsedBytes: number
+  heapMaxBytes: number
+  gcCollectionTimeMs: number
+  indexingTotal: number
+  searchQueryTotal: number
+  searchQueryTimeMs: number
+  diskTotalBytes: number
+  diskFreeBytes: number
+}
+
+/**
+ * 告警规则
+ */
+interface AlertRule {
+  id: string
+  name: string
+  type: 'cluster-health' | 'node-left' | 'disk-free' | 'doc-count-stalled'
+  enabled: boolean
+  notify: boolean
+  healthStatus?: 'yellow' | 'red'
+  diskFreePercent?: number
+  index?: string
+  stalledMinutes?: number
+}
+
+/**
+ * 告警记录
+ */
+interface AlertEvent {
+  id: string
+  ruleId: string
+  ruleName: string
+  connectionId: string
+  connectionName: string
+  state: 'firing' | 'resolved'
+  severity: 'critical' | 'warning'
+  message: string
+  timestamp: number
+}
+
+/**
+ * 告警监控选项
+ */
+interface AlertMonitorOptions {
+  notificationsEnabled: boolean
+  intervalSeconds: number
+}
+
+/**
+ * 凭据库状态
+ */
+interface VaultStatus {
+  initialized: boolean
+  unlocked: boolean
+  mode: 'keyfile' | 'passphrase' | null
+}
+
 // 扩展Window接口，添加electronAPI属性
 declare global {
   interface Window {
@@ -26,25 +624,106 @@ declare global {
       getAppVersion: () => Promise<string>;
       getPlatform: () => Promise<string>;
       getAssetPath: (...paths: string[]) => Promise<string>;
+
+      // 凭据库 API
+      vault: {
+        getStatus: () => Promise<VaultStatus>
+        configure: (mode: 'keyfile' | 'passphrase', passphrase?: string) => Promise<VaultStatus>
+        unlock: (passphrase?: string) => Promise<VaultStatus>
+        lock: () => Promise<VaultStatus>
+        saveCredential: (credentialId: string | null, secrets: Record<string, string | undefined>, connection: ConnectionTarget) => Promise<string>
+        deleteCredential: (credentialId: string) => Promise<void>
+      }
+
+      // 代理 API
+      proxy: {
+        getGlobal: () => Promise<GlobalProxySettings>
+        setGlobal: (settings: GlobalProxySettings) => Promise<GlobalProxySettings>
+      }
       
+      // 告警 API
+      alerts: {
+        getRules: () => Promise<AlertRule[]>
+        saveRule: (rule: Omit<AlertRule, 'id'> & { id?: string }) => Promise<AlertRule>
+        deleteRule: (ruleId: string) => Promise<void>
+        getLog: () => Promise<AlertEvent[]>
+        clearLog: () => Promise<void>
+        setConnection: (connection: ElasticsearchConnection | null) => Promise<void>
+        configure: (options: Partial<AlertMonitorOptions>) => Promise<void>
+        onEvent: (callback: (event: AlertEvent) => void) => () => void
+      }
+
       // Elasticsearch API
       elasticsearch: {
         testConnection: (connection: ElasticsearchConnection) => Promise<{
           success: boolean
+          stage?: 'tunnel' | 'cluster'
           version?: string
           nodeCount?: number
           clusterName?: string
           error?: string
         }>
+        connect: (connection: ElasticsearchConnection) => Promise<boolean>
+        disconnect: (connectionId: string) => Promise<void>
         getNodesInfo: (connection: ElasticsearchConnection) => Promise<any>
+        getNodeStats: (connection: ElasticsearchConnection) => Promise<NodeStatsSample[]>
+    getClusterHealth: (connection: ElasticsearchConnection) => Promise<ClusterHealth>
+        getPendingTasks: (connection: ElasticsearchConnection) => Promise<PendingTask[]>
+        getShards: (connection: ElasticsearchConnection) => Promise<ShardInfo[]>
+        getDiskAllocation: (connection: ElasticsearchConnection) => Promise<{ nodes: NodeDiskUsage[]; watermarks: DiskWatermarks }>
+    getDiskAllocation: (connection: ElasticsearchConnection) => Promise<{ nodes: NodeDiskUsage[]; watermarks: DiskWatermarks }>
+        explainAllocation: (connection: ElasticsearchConnection, index: string, shard: number, primary: boolean) => Promise<any>
         getClusterInfo: (connection: ElasticsearchConnection) => Promise<any>
         getIndices: (connection: ElasticsearchConnection) => Promise<any[]>
         executeQuery: (connection: ElasticsearchConnection, index: string, queryBody: any) => Promise<any>
         createIndex: (connection: ElasticsearchConnection, name: string, settings?: any) => Promise<any>
         deleteIndex: (connection: ElasticsearchConnection, name: string) => Promise<any>
+        runIndexOperation: (connection: ElasticsearchConnection, operation: IndexOperation, index: string, options?: IndexOperationOptions) => Promise<any>
         getIndexSettings: (connection: ElasticsearchConnection, indexName: string) => Promise<any>
+        updateIndexSettings: (connection: ElasticsearchConnection, indexName: string, settings: Record<string, unknown>, options?: IndexSettingsUpdateOptions) => Promise<{ acknowledged: boolean }>
         getIndexMapping: (connection: ElasticsearchConnection, indexName: string) => Promise<any>
+        putIndexMapping: (connection: ElasticsearchConnection, indexName: string, mapping: { properties: Record<string, any> }) => Promise<{ acknowledged: boolean }>
+        getAliases: (connection: ElasticsearchConnection) => Promise<AliasInfo[]>
+        updateAliases: (connection: ElasticsearchConnection, actions: AliasAction[]) => Promise<{ acknowledged: boolean }>
+        getTemplates: (connection: ElasticsearchConnection, kind: TemplateKind) => Promise<TemplateInfo[]>
+        putTemplate: (connection: ElasticsearchConnection, kind: TemplateKind, name: string, body: Record<string, any>) => Promise<{ acknowledged: boolean }>
+        deleteTemplate: (connection: ElasticsearchConnection, kind: TemplateKind, name: string) => Promise<{ acknowledged: boolean }>
+        simulateIndexTemplate: (connection: ElasticsearchConnection, indexName: string) => Promise<SimulatedIndexTemplate>
+        getIlmPolicies: (connection: ElasticsearchConnection) => Promise<IlmPolicyInfo[]>
+        putIlmPolicy: (connection: ElasticsearchConnection, name: string, policy: { phases: Record<string, any>; _meta?: Record<string, any> }) => Promise<{ acknowledged: boolean }>
+        deleteIlmPolicy: (connection: ElasticsearchConnection, name: string) => Promise<{ acknowledged: boolean }>
+        explainIlm: (connection: ElasticsearchConnection) => Promise<IlmExplainInfo[]>
+        retryIlm: (connection: ElasticsearchConnection, index: string) => Promise<{ acknowledged: boolean }>
+        getDataStreams: (connection: ElasticsearchConnection) => Promise<DataStreamInfo[]>
+        createDataStream: (connection: ElasticsearchConnection, name: string) => Promise<{ acknowledged: boolean }>
+        deleteDataStream: (connection: ElasticsearchConnection, name: string) => Promise<{ acknowledged: boolean }>
+        rolloverDataStream: (connection: ElasticsearchConnection, name: string) => Promise<{ oldIndex: string; newIndex: string }>
+        getSnapshotRepositories: (connection: ElasticsearchConnection) => Promise<SnapshotRepositoryInfo[]>
+        createSnapshotRepository: (connection: ElasticsearchConnection, name: string, type: SnapshotRepositoryType, settings: Record<string, any>) => Promise<{ acknowledged: boolean }>
+        deleteSnapshotRepository: (connection: ElasticsearchConnection, name: string) => Promise<{ acknowledged: boolean }>
+        verifySnapshotRepository: (connection: ElasticsearchConnection, name: string) => Promise<string[]>
+        getSnapshots: (connection: ElasticsearchConnection, repository: string) => Promise<SnapshotInfo[]>
+        createSnapshot: (connection: ElasticsearchConnection, request: CreateSnapshotRequest) => Promise<any>
+        deleteSnapshot: (connection: ElasticsearchConnection, repository: string, snapshot: string) => Promise<{ acknowledged: boolean }>
+        restoreSnapshot: (connection: ElasticsearchConnection, request: RestoreSnapshotRequest) => Promise<any>
+        getRestoreProgress: (connection: ElasticsearchConnection, indices: string[]) => Promise<RestoreIndexProgress[]>
+        selectImportFile: () => Promise<SelectedFile | null>
+        previewImportFile: (fileToken: string, options?: ImportPreviewOptions) => Promise<ImportPreview>
+        bulkImport: (connection: ElasticsearchConnection, request: ImportRequest) => Promise<ImportResult>
+        cancelImport: (importId: string) => Promise<boolean>
+        selectExportFile: (defaultName: string, format: ExportFormat) => Promise<SelectedFile | null>
+        exportDocuments: (connection: ElasticsearchConnection, request: ExportRequest) => Promise<ExportResult>
+        cancelExport: (exportId: string) => Promise<boolean>
+        startReindex: (connection: ElasticsearchConnection, request: ReindexRequest) => Promise<{ taskId: string }>
+        getReindexTask: (connection: ElasticsearchConnection, taskId: string) => Promise<ReindexTaskStatus>
+        cancelTask: (connection: ElasticsearchConnection, taskId: string) => Promise<any>
         ping: (connection: ElasticsearchConnection) => Promise<boolean>
+        updateDocument: (connection: ElasticsearchConnection, index: string, id: string, doc: any, options?: DocumentWriteOptions) => Promise<any>
+        indexDocument: (connection: ElasticsearchConnection, index: string, document: any, id?: string, options?: DocumentWriteOptions) => Promise<any>
+        deleteDocument: (connection: ElasticsearchConnection, index: string, id: string, options?: DocumentWriteOptions) => Promise<any>
+        onNodeResponse: (callback: (info: NodeResponseInfo) => void) => () => void
+        onImportProgress: (callback: (progress: ImportProgress) => void) => () => void
+        onExportProgress: (callback: (progress: ExportProgress) => void) => () => void
       }
     };
   }
@@ -17,7 +17,8 @@ export default defineConfig({
         vite: {
           build: {
             rollupOptions: {
-              external: ['electron', 'path', 'url'],
+              // ssh2 依赖可选的原生模块，exceljs 依赖较多的 CommonJS 模块，均不参与打包
+              external: ['electron', 'path', 'url', 'ssh2', 'exceljs'],
               output: {
                 format: 'cjs',
                 entryFileNames: '[name].js'